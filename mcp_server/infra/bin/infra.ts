@@ -23,6 +23,13 @@ const mcpServerInfrastructureStack = new InfrastructureStack(app, 'MCPServerInfr
 // Create the application stack, passing in the resources from the infrastructure stack
 const mcpServerApplicationStack = new ApplicationStack(app, 'MCPServerApplicationStack', {
   mcpServerTravelBookingsTable: mcpServerInfrastructureStack.mcpServerTravelBookingsTable,
+  mcpServerSessionsTable: mcpServerInfrastructureStack.mcpServerSessionsTable,
+  mcpServerEventsTable: mcpServerInfrastructureStack.mcpServerEventsTable,
+  mcpServerUsageTable: mcpServerInfrastructureStack.mcpServerUsageTable,
+  mcpServerEntitlementsTable: mcpServerInfrastructureStack.mcpServerEntitlementsTable,
+  mcpServerPublicClientsTable: mcpServerInfrastructureStack.mcpServerPublicClientsTable,
+  mcpServerRevocationsTable: mcpServerInfrastructureStack.mcpServerRevocationsTable,
+  mcpServerCursorSigningSecret: mcpServerInfrastructureStack.mcpServerCursorSigningSecret,
   mcpServerPolicyBucket: mcpServerInfrastructureStack.mcpServerPolicyBucket,
   mcpServerTaskRole: mcpServerInfrastructureStack.mcpServerTaskRole,
   mcpServerDataAccessRole: mcpServerInfrastructureStack.mcpServerDataAccessRole,
@@ -104,6 +111,10 @@ NagSuppressions.addStackSuppressions(mcpServerInfrastructureStack, [
     id: 'AwsSolutions-IAM5',
     reason: 'AWS CDK LogRetention construct requires wildcard permissions for CloudWatch log group creation and management operations',
     appliesTo: ['Resource::*']
+  },
+  {
+    id: 'AwsSolutions-SMG4',
+    reason: 'Demo repository - the cursor signing key only protects pagination cursors; rotating it invalidates open cursors'
   }
 ]);
 
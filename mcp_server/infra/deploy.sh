@@ -134,16 +134,30 @@ if [ "$DEPLOY_INFRASTRUCTURE" = "true" ]; then
     echo "Deploying MCP Server infrastructure stack '$INFRASTRUCTURE_STACK_NAME'..."
     echo "  AWS Region: $AWS_REGION"
     
-    if [ "$NO_ROLLBACK" = "true" ]; then
-        npx cdk deploy "$INFRASTRUCTURE_STACK_NAME" --require-approval never --no-rollback --exclusively $CDK_CONTEXT_ARGS
-    else
-        npx cdk deploy "$INFRASTRUCTURE_STACK_NAME" --require-approval never --exclusively $CDK_CONTEXT_ARGS
-    fi
-    
-    if [ $? -ne 0 ]; then
-        echo "MCP Server infrastructure deployment failed. Exiting."
-        exit 1
+    deploy_infrastructure() {
+        if [ "$NO_ROLLBACK" = "true" ]; then
+            npx cdk deploy "$INFRASTRUCTURE_STACK_NAME" --require-approval never --no-rollback --exclusively $CDK_CONTEXT_ARGS
+        else
+            npx cdk deploy "$INFRASTRUCTURE_STACK_NAME" --require-approval never --exclusively $CDK_CONTEXT_ARGS
+        fi
+        if [ $? -ne 0 ]; then
+            echo "MCP Server infrastructure deployment failed. Exiting."
+            exit 1
+        fi
+    }
+
+    # DynamoDB creates one global secondary index per table update. A
+    # bookings table from before the ByBookingId and ByTravelDate indexes
+    # gets ByBookingId in a first deployment and ByTravelDate in the next.
+    BOOKINGS_TABLE=$(aws cloudformation describe-stacks --stack-name "$INFRASTRUCTURE_STACK_NAME" --query "Stacks[0].Outputs[?OutputKey=='MCPServerDynamoDBTableName'].OutputValue" --output text --region "$AWS_REGION" 2>/dev/null)
+    if [ -n "$BOOKINGS_TABLE" ] && [ "$BOOKINGS_TABLE" != "None" ]; then
+        BOOKINGS_INDEXES=$(aws dynamodb describe-table --table-name "$BOOKINGS_TABLE" --query "Table.GlobalSecondaryIndexes[].IndexName" --output text --region "$AWS_REGION" 2>/dev/null)
+        if ! grep -qw "ByBookingId" <<< "$BOOKINGS_INDEXES"; then
+            echo "  Adding the ByBookingId index before the ByTravelDate index"
+            SKIP_TRAVEL_DATE_INDEX="true" deploy_infrastructure
+        fi
     fi
+    deploy_infrastructure
     echo "MCP Server infrastructure deployment successful!"
 fi
 
@@ -153,16 +167,42 @@ if [ "$DEPLOY_APPLICATION" = "true" ]; then
     echo "  Image Tag: $IMAGE_TAG"
     echo "  AWS Region: $AWS_REGION"
     
-    if [ "$NO_ROLLBACK" = "true" ]; then
-        npx cdk deploy "$APPLICATION_STACK_NAME" --require-approval never --no-rollback --exclusively $CDK_CONTEXT_ARGS
-    else
-        npx cdk deploy "$APPLICATION_STACK_NAME" --require-approval never --exclusively $CDK_CONTEXT_ARGS
-    fi
-    
-    if [ $? -ne 0 ]; then
-        echo "MCP Server application deployment failed."
-        exit 1
+    deploy_application() {
+        if [ "$NO_ROLLBACK" = "true" ]; then
+            npx cdk deploy "$APPLICATION_STACK_NAME" --require-approval never --no-rollback --exclusively $CDK_CONTEXT_ARGS
+        else
+            npx cdk deploy "$APPLICATION_STACK_NAME" --require-approval never --exclusively $CDK_CONTEXT_ARGS
+        fi
+        if [ $? -ne 0 ]; then
+            echo "MCP Server application deployment failed."
+            exit 1
+        fi
+    }
+
+    service_url() {
+        local endpoint
+        endpoint=$(aws cloudformation describe-stacks --stack-name "$APPLICATION_STACK_NAME" --query "Stacks[0].Outputs[?OutputKey=='Endpoint'].OutputValue" --output text --region "$AWS_REGION" 2>/dev/null)
+        if [ -n "$endpoint" ] && [ "$endpoint" != "None" ]; then
+            echo "https://$endpoint"
+        fi
+    }
+
+    # The server only accepts tokens issued for RESOURCE_SERVER_URL, its
+    # public URL. ECS Express Mode assigns the URL when the service is
+    # created, so the first deployment runs with a placeholder no token is
+    # issued for and is followed by one with the assigned URL.
+    SERVICE_URL=$(service_url)
+    export RESOURCE_SERVER_URL="${RESOURCE_SERVER_URL:-$SERVICE_URL}"
+    if [ -z "$RESOURCE_SERVER_URL" ]; then
+        echo "  First deployment: starting with a placeholder RESOURCE_SERVER_URL"
+        export RESOURCE_SERVER_URL="https://pending.invalid"
+        deploy_application
+        SERVICE_URL=$(service_url)
+        export RESOURCE_SERVER_URL="$SERVICE_URL"
     fi
+    echo "  Resource server URL: $RESOURCE_SERVER_URL"
+    deploy_application
+    SERVICE_URL=$(service_url)
     echo "MCP Server application deployment successful!"
 fi
 
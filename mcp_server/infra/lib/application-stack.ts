@@ -5,10 +5,18 @@ import * as ecr from "aws-cdk-lib/aws-ecr";
 import * as dynamodb from "aws-cdk-lib/aws-dynamodb";
 import * as s3 from "aws-cdk-lib/aws-s3";
 import * as cognito from "aws-cdk-lib/aws-cognito";
+import * as secretsmanager from "aws-cdk-lib/aws-secretsmanager";
 import { Construct } from "constructs";
 
 export interface ApplicationStackProps extends cdk.StackProps {
   mcpServerTravelBookingsTable: dynamodb.Table;
+  mcpServerSessionsTable: dynamodb.Table;
+  mcpServerEventsTable: dynamodb.Table;
+  mcpServerUsageTable: dynamodb.Table;
+  mcpServerEntitlementsTable: dynamodb.Table;
+  mcpServerPublicClientsTable: dynamodb.Table;
+  mcpServerRevocationsTable: dynamodb.Table;
+  mcpServerCursorSigningSecret: secretsmanager.ISecret;
   mcpServerPolicyBucket: s3.Bucket;
   mcpServerTaskRole: iam.Role;
   mcpServerDataAccessRole: iam.Role;
@@ -23,6 +31,17 @@ export class ApplicationStack extends cdk.Stack {
 
     const repositoryName = process.env.ECR_REPOSITORY_NAME ?? "mcp-server-on-ecs";
     const imageTag = process.env.IMAGE_TAG ?? "latest";
+    const sessionMode = process.env.MCP_SESSION_MODE ?? "stateless";
+    const tierLimits = process.env.TIER_LIMITS;
+    const identityProviders = process.env.IDENTITY_PROVIDERS;
+    const machineClients = process.env.MACHINE_CLIENTS;
+    // Public URL of the server, which tokens must be issued for. ECS Express
+    // Mode only assigns it when the service is created, so deploy.sh passes
+    // the URL of the previous deployment (or a placeholder the first time).
+    const resourceServerUrl = process.env.RESOURCE_SERVER_URL?.replace(/\/+$/, "") ?? "";
+    if (!resourceServerUrl) {
+      cdk.Annotations.of(this).addError("RESOURCE_SERVER_URL must be set to the MCP server's public URL");
+    }
 
     const repository = ecr.Repository.fromRepositoryName(this, "MCPServerEcrRepository", repositoryName);
 
@@ -35,6 +54,8 @@ export class ApplicationStack extends cdk.Stack {
       ],
     });
 
+    props.mcpServerCursorSigningSecret.grantRead(executionRole);
+
     const infraRole = new iam.Role(this, "InfraRole", {
       assumedBy: new iam.ServicePrincipal("ecs.amazonaws.com"),
       managedPolicies: [
@@ -56,13 +77,30 @@ export class ApplicationStack extends cdk.Stack {
         image: `${repository.repositoryUri}:${imageTag}`,
         containerPort: 3000,
         environment: [
+          { name: "NODE_ENV", value: "production" },
           { name: "TABLE_NAME", value: props.mcpServerTravelBookingsTable.tableName },
           { name: "ROLE_ARN", value: props.mcpServerDataAccessRole.roleArn },
           { name: "BUCKET_NAME", value: props.mcpServerPolicyBucket.bucketName },
           { name: "COGNITO_USER_POOL_ID", value: props.mcpServerUserPool.userPoolId },
           { name: "COGNITO_DOMAIN", value: props.mcpServerUserPoolDomain.domainName },
           { name: "AWS_REGION", value: cdk.Aws.REGION },
+          { name: "RESOURCE_SERVER_URL", value: resourceServerUrl },
           { name: "DCR_ENABLED", value: props.dcrApiUrl ? "true" : "false" },
+          { name: "MCP_SESSION_MODE", value: sessionMode },
+          { name: "SESSION_STORE", value: "dynamodb" },
+          { name: "SESSION_TABLE_NAME", value: props.mcpServerSessionsTable.tableName },
+          { name: "EVENT_STORE", value: "dynamodb" },
+          { name: "EVENT_TABLE_NAME", value: props.mcpServerEventsTable.tableName },
+          { name: "USAGE_STORE", value: "dynamodb" },
+          { name: "USAGE_TABLE_NAME", value: props.mcpServerUsageTable.tableName },
+          ...(tierLimits ? [{ name: "TIER_LIMITS", value: tierLimits }] : []),
+          { name: "ENTITLEMENT_STORE", value: "dynamodb" },
+          { name: "ENTITLEMENTS_TABLE_NAME", value: props.mcpServerEntitlementsTable.tableName },
+          { name: "PUBLIC_CLIENTS_TABLE", value: props.mcpServerPublicClientsTable.tableName },
+          { name: "REVOCATION_STORE", value: "dynamodb" },
+          { name: "REVOCATIONS_TABLE_NAME", value: props.mcpServerRevocationsTable.tableName },
+          ...(identityProviders ? [{ name: "IDENTITY_PROVIDERS", value: identityProviders }] : []),
+          ...(machineClients ? [{ name: "MACHINE_CLIENTS", value: machineClients }] : []),
           ...(props.dcrApiUrl
             ? [
                 { name: "AUTHORIZATION_SERVER_WITH_DCR_URL", value: props.dcrApiUrl },
@@ -70,27 +108,37 @@ export class ApplicationStack extends cdk.Stack {
               ]
             : []),
         ],
+        secrets: [
+          { name: "CURSOR_SIGNING_SECRET", valueFrom: props.mcpServerCursorSigningSecret.secretArn },
+        ],
       },
     });
 
     // Register a Cognito Resource Server with identifier equal to the MCP
-    // server's public endpoint. This is required so Cognito accepts the
+    // server's public URL. This is required so Cognito accepts the
     // `resource` parameter (RFC 8707 Resource Indicators) that mcp-use/MCP SDK
-    // sends on /authorize and /token. The advertised `resource` in the
-    // server's RFC 9728 protected-resource metadata is derived from the
-    // request Host at runtime, which for the ECS Express Gateway service is
-    // `https://${service.attrEndpoint}` — we use the same value here so the
-    // identifiers match exactly.
+    // sends on /authorize and /token. The server advertises RESOURCE_SERVER_URL
+    // as the `resource` in its RFC 9728 protected-resource metadata, so we
+    // use the same value here and the identifiers match exactly.
     //
     // Cognito matches resource-server identifiers by exact string, and
     // mcp-use normalizes the resource value via `new URL(serverUrl)` which
     // appends a trailing slash when the path is empty. We therefore register
     // the identifier WITH a trailing slash.
-    const resourceIdentifier = `https://${service.attrEndpoint}/`;
+    //
+    // The scopes are issued as `<identifier>/<scope>` and checked per tool by
+    // the server, which strips the identifier again.
+    const resourceIdentifier = `${resourceServerUrl}/`;
     new cognito.CfnUserPoolResourceServer(this, "MCPServerResourceServer", {
       userPoolId: props.mcpServerUserPool.userPoolId,
       identifier: resourceIdentifier,
       name: "MCP Server",
+      scopes: [
+        { scopeName: "bookings:read", scopeDescription: "List bookings and search flights and hotels" },
+        { scopeName: "bookings:write", scopeDescription: "Create, modify and cancel bookings" },
+        { scopeName: "loyalty:read", scopeDescription: "Read loyalty program status" },
+        { scopeName: "files:read", scopeDescription: "List and read tenant files" },
+      ],
     });
 
     new cdk.CfnOutput(this, "Endpoint", { value: service.attrEndpoint });
@@ -8,6 +8,7 @@ import * as apigateway from "aws-cdk-lib/aws-apigateway";
 import * as cloudfront from "aws-cdk-lib/aws-cloudfront";
 import * as origins from "aws-cdk-lib/aws-cloudfront-origins";
 import * as logs from "aws-cdk-lib/aws-logs";
+import * as secretsmanager from "aws-cdk-lib/aws-secretsmanager";
 
 import * as path from "path";
 import { Construct } from "constructs";
@@ -22,6 +23,13 @@ export interface InfrastructureStackProps extends cdk.StackProps {
 export class InfrastructureStack extends cdk.Stack {
   // Export these resources to be used by the ApplicationStack
   public readonly mcpServerTravelBookingsTable: dynamodb.Table;
+  public readonly mcpServerSessionsTable: dynamodb.Table;
+  public readonly mcpServerEventsTable: dynamodb.Table;
+  public readonly mcpServerUsageTable: dynamodb.Table;
+  public readonly mcpServerEntitlementsTable: dynamodb.Table;
+  public readonly mcpServerPublicClientsTable: dynamodb.Table;
+  public readonly mcpServerRevocationsTable: dynamodb.Table;
+  public readonly mcpServerCursorSigningSecret: secretsmanager.Secret;
   public readonly mcpServerPolicyBucket: s3.Bucket;
   public readonly mcpServerTaskRole: iam.Role;
   public readonly mcpServerDataAccessRole: iam.Role;
@@ -159,17 +167,121 @@ export class InfrastructureStack extends cdk.Stack {
       partitionKey: { name: "PK", type: dynamodb.AttributeType.STRING },
       sortKey: { name: "SK", type: dynamodb.AttributeType.STRING },
       billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      // Expires the idempotency records stored next to each tenant's bookings
+      timeToLiveAttribute: "expiresAt",
       removalPolicy: cdk.RemovalPolicy.DESTROY, // Table will be deleted when stack is destroyed
     });
 
+    // Look up a booking by confirmation number without knowing its type. The
+    // index keeps the tenant as partition key so the LeadingKeys condition on
+    // the data access role still confines queries to the caller's tenant.
+    this.mcpServerTravelBookingsTable.addGlobalSecondaryIndex({
+      indexName: "ByBookingId",
+      partitionKey: { name: "PK", type: dynamodb.AttributeType.STRING },
+      sortKey: { name: "bookingId", type: dynamodb.AttributeType.STRING },
+      projectionType: dynamodb.ProjectionType.ALL,
+    });
+
+    // List a tenant's bookings in travel date order. Bookings written before
+    // the repository maintained `travelDate` are not in this index.
+    // DynamoDB creates one index per table update, so deploy.sh first
+    // deploys without this one (SKIP_TRAVEL_DATE_INDEX) when an existing
+    // table does not have ByBookingId yet.
+    if (process.env.SKIP_TRAVEL_DATE_INDEX !== "true") {
+      this.mcpServerTravelBookingsTable.addGlobalSecondaryIndex({
+        indexName: "ByTravelDate",
+        partitionKey: { name: "PK", type: dynamodb.AttributeType.STRING },
+        sortKey: { name: "travelDate", type: dynamodb.AttributeType.STRING },
+        projectionType: dynamodb.ProjectionType.ALL,
+      });
+    }
+
+    // Key for signing list_bookings pagination cursors, shared by all tasks
+    // so a cursor issued by one task is accepted by the others.
+    this.mcpServerCursorSigningSecret = new secretsmanager.Secret(this, "MCPServerCursorSigningSecret", {
+      description: "HMAC key for signing MCP server pagination cursors",
+      generateSecretString: { passwordLength: 64, excludePunctuation: true },
+    });
+
+    // Create the DynamoDB table for Streamable HTTP sessions. It is shared by
+    // all ECS tasks so any task can serve a session in stateful mode.
+    this.mcpServerSessionsTable = new dynamodb.Table(this, "MCPServerSessionsTable", {
+      tableName: "MCPServerSessions",
+      partitionKey: { name: "sessionId", type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      timeToLiveAttribute: "expiresAt",
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
+    // Sessions are server-owned, not tenant data, so the task role accesses
+    // them directly instead of through the tenant-scoped data access role.
+    this.mcpServerSessionsTable.grantReadWriteData(this.mcpServerTaskRole);
+
+    // Create the DynamoDB table for SSE events so clients can resume a stream
+    // with Last-Event-ID on any task. The partition key starts with the
+    // tenant ID, and old events are expired by TTL.
+    this.mcpServerEventsTable = new dynamodb.Table(this, "MCPServerEventsTable", {
+      tableName: "MCPServerEvents",
+      partitionKey: { name: "streamKey", type: dynamodb.AttributeType.STRING },
+      sortKey: { name: "sequence", type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      timeToLiveAttribute: "expiresAt",
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+    this.mcpServerEventsTable.grantReadWriteData(this.mcpServerTaskRole);
+
+    // Create the DynamoDB table for per-tenant rate limit and quota counters,
+    // shared by all ECS tasks. Each item is one time window and expires by TTL.
+    this.mcpServerUsageTable = new dynamodb.Table(this, "MCPServerUsageTable", {
+      tableName: "MCPServerUsage",
+      partitionKey: { name: "counterKey", type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      timeToLiveAttribute: "expiresAt",
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+    this.mcpServerUsageTable.grantReadWriteData(this.mcpServerTaskRole);
+
+    // Create the DynamoDB table for tier and tenant entitlements to tools,
+    // prompts and resources. Items are keyed `tier#<tier>` or
+    // `tenant#<tenantId>`; the server only reads them.
+    this.mcpServerEntitlementsTable = new dynamodb.Table(this, "MCPServerEntitlementsTable", {
+      tableName: "MCPServerTenantEntitlements",
+      partitionKey: { name: "subject", type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+    this.mcpServerEntitlementsTable.grantReadData(this.mcpServerTaskRole);
+
+    // Create the DynamoDB table for the token revocation list: revoked tokens
+    // (`jti#<jti>`, expiring by TTL with the token), disabled users
+    // (`user#<sub>`) and disabled clients (`client#<clientId>`). Administrators
+    // add items; the server only reads them.
+    this.mcpServerRevocationsTable = new dynamodb.Table(this, "MCPServerRevocationsTable", {
+      tableName: "MCPServerTokenRevocations",
+      partitionKey: { name: "subject", type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      timeToLiveAttribute: "expiresAt",
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+    this.mcpServerRevocationsTable.grantReadData(this.mcpServerTaskRole);
+
     // Create the DynamoDB table for tracking public OAuth clients
-    const publicClientsTable = new dynamodb.Table(this, "MCPServerPublicClientsTable", {
+    this.mcpServerPublicClientsTable = new dynamodb.Table(this, "MCPServerPublicClientsTable", {
       tableName: "MCPServerPublicClients",
       partitionKey: { name: "clientKey", type: dynamodb.AttributeType.STRING },
       billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
       removalPolicy: cdk.RemovalPolicy.DESTROY, // Use RETAIN for production
     });
 
+    // The server accepts tokens without an audience from clients registered
+    // through DCR, and looks them up by client ID.
+    this.mcpServerPublicClientsTable.addGlobalSecondaryIndex({
+      indexName: "ByClientId",
+      partitionKey: { name: "clientId", type: dynamodb.AttributeType.STRING },
+      projectionType: dynamodb.ProjectionType.KEYS_ONLY,
+    });
+    this.mcpServerPublicClientsTable.grantReadData(this.mcpServerTaskRole);
+
     // Create the data access role for multi-tenant DynamoDB and S3 access
     this.mcpServerDataAccessRole = new iam.Role(this, "MCPServerDataAccessRole", {
       assumedBy: this.mcpServerTaskRole,
@@ -212,7 +324,10 @@ export class InfrastructureStack extends cdk.Stack {
           "dynamodb:BatchGetItem",
           "dynamodb:BatchWriteItem",
         ],
-        resources: [this.mcpServerTravelBookingsTable.tableArn],
+        resources: [
+          this.mcpServerTravelBookingsTable.tableArn,
+          `${this.mcpServerTravelBookingsTable.tableArn}/index/*`,
+        ],
         conditions: {
           "ForAllValues:StringEquals": {
             "dynamodb:LeadingKeys": ["${aws:PrincipalTag/tenantId}"],
@@ -253,8 +368,38 @@ export class InfrastructureStack extends cdk.Stack {
       exportName: 'MCPServerTravelBookingsTableName',
     });
 
+    new cdk.CfnOutput(this, 'MCPServerSessionsTableName', {
+      value: this.mcpServerSessionsTable.tableName,
+      description: 'The name of the MCP Server sessions DynamoDB table',
+      exportName: 'MCPServerSessionsTableName',
+    });
+
+    new cdk.CfnOutput(this, 'MCPServerEventsTableName', {
+      value: this.mcpServerEventsTable.tableName,
+      description: 'The name of the MCP Server SSE events DynamoDB table',
+      exportName: 'MCPServerEventsTableName',
+    });
+
+    new cdk.CfnOutput(this, 'MCPServerUsageTableName', {
+      value: this.mcpServerUsageTable.tableName,
+      description: 'The name of the MCP Server rate limit and quota DynamoDB table',
+      exportName: 'MCPServerUsageTableName',
+    });
+
+    new cdk.CfnOutput(this, 'MCPServerEntitlementsTableName', {
+      value: this.mcpServerEntitlementsTable.tableName,
+      description: 'The name of the MCP Server tenant entitlements DynamoDB table',
+      exportName: 'MCPServerEntitlementsTableName',
+    });
+
+    new cdk.CfnOutput(this, 'MCPServerRevocationsTableName', {
+      value: this.mcpServerRevocationsTable.tableName,
+      description: 'The name of the MCP Server token revocation list DynamoDB table',
+      exportName: 'MCPServerRevocationsTableName',
+    });
+
     new cdk.CfnOutput(this, 'MCPServerPublicClientsTableName', {
-      value: publicClientsTable.tableName,
+      value: this.mcpServerPublicClientsTable.tableName,
       description: 'The name of the MCP Server public clients DynamoDB table',
       exportName: 'MCPServerPublicClientsTableName',
     });
@@ -311,7 +456,7 @@ export class InfrastructureStack extends cdk.Stack {
       memorySize: 256,
       environment: {
         COGNITO_USER_POOL_ID: this.mcpServerUserPool.userPoolId,
-        PUBLIC_CLIENTS_TABLE: publicClientsTable.tableName,
+        PUBLIC_CLIENTS_TABLE: this.mcpServerPublicClientsTable.tableName,
       },
       description: 'RFC 7591 Dynamic Client Registration for MCP Server',
     });
@@ -328,7 +473,7 @@ export class InfrastructureStack extends cdk.Stack {
     }));
 
     // Grant Lambda permission to read/write to public clients table
-    publicClientsTable.grantReadWriteData(dcrFunction);
+    this.mcpServerPublicClientsTable.grantReadWriteData(dcrFunction);
 
     // Create API Gateway REST API first
     this.dcrApi = new apigateway.RestApi(this, 'DcrApi', {
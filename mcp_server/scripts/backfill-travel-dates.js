@@ -0,0 +1,98 @@
+#!/usr/bin/env node
+
+// Adds the search attributes (travelDate, destinationKey, travelerKeys) to
+// bookings written before they existed. list_bookings reads through the
+// ByTravelDate index, which leaves out bookings without a travelDate.
+// Run it once the infrastructure stack has created that index; on a table
+// from before ByBookingId, deploy.sh takes two deployments to add both.
+//
+// Usage: node backfill-travel-dates.js [--dry-run]
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, ScanCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { CloudFormationClient, DescribeStacksCommand } from '@aws-sdk/client-cloudformation';
+import { fromNodeProviderChain } from '@aws-sdk/credential-providers';
+
+const REGION = process.env.AWS_REGION || 'us-east-1';
+const credentials = fromNodeProviderChain();
+const dryRun = process.argv.includes('--dry-run');
+
+async function getStackOutput(stackName, outputKey) {
+  const cfn = new CloudFormationClient({ region: REGION, credentials });
+  const res = await cfn.send(new DescribeStacksCommand({ StackName: stackName }));
+  return res.Stacks?.[0]?.Outputs?.find(o => o.OutputKey === outputKey)?.OutputValue;
+}
+
+const TABLE_NAME = process.env.TABLE_NAME || await getStackOutput('MCPServerInfrastructureStack', 'MCPServerDynamoDBTableName');
+
+if (!TABLE_NAME) {
+  console.error('Error: Could not resolve the bookings table from env or MCPServerInfrastructureStack outputs');
+  process.exit(1);
+}
+const client = DynamoDBDocumentClient.from(new DynamoDBClient({ region: REGION, credentials }));
+
+// Same derivation as src/repositories/search-attributes.ts
+function searchAttributes(booking) {
+  if (booking.type === 'FLIGHT') {
+    if (!booking.departureDateTime) return undefined;
+    return {
+      travelDate: booking.departureDateTime.slice(0, 10),
+      ...(booking.destination ? { destinationKey: booking.destination.toLowerCase() } : {}),
+      travelerKeys: (booking.passengers ?? []).map(p => p.name.toLowerCase()),
+    };
+  }
+  if (!booking.checkInDate) return undefined;
+  return {
+    travelDate: booking.checkInDate.slice(0, 10),
+    ...(booking.location ? { destinationKey: booking.location.toLowerCase() } : {}),
+    // Hotel bookings do not name their guests; the traveler filter is flights-only
+    travelerKeys: [],
+  };
+}
+
+let scanned = 0;
+let updated = 0;
+let skipped = 0;
+let startKey;
+do {
+  const page = await client.send(new ScanCommand({
+    TableName: TABLE_NAME,
+    FilterExpression: 'begins_with(SK, :booking) AND attribute_not_exists(travelDate)',
+    ExpressionAttributeValues: { ':booking': 'BOOKING#' },
+    ExclusiveStartKey: startKey,
+  }));
+  scanned += page.ScannedCount ?? 0;
+
+  for (const booking of page.Items ?? []) {
+    const attributes = searchAttributes(booking);
+    if (!attributes) {
+      console.warn(`Skipping ${booking.PK} ${booking.SK}: no travel date`);
+      skipped++;
+      continue;
+    }
+    console.log(`${dryRun ? '[dry run] ' : ''}${booking.PK} ${booking.SK} -> ${attributes.travelDate}`);
+    if (dryRun) {
+      updated++;
+      continue;
+    }
+
+    const names = Object.keys(attributes);
+    try {
+      await client.send(new UpdateCommand({
+        TableName: TABLE_NAME,
+        Key: { PK: booking.PK, SK: booking.SK },
+        UpdateExpression: `SET ${names.map(n => `#${n} = :${n}`).join(', ')}`,
+        // Leave bookings alone that the server rewrote in the meantime.
+        ConditionExpression: 'attribute_exists(PK) AND attribute_not_exists(travelDate)',
+        ExpressionAttributeNames: Object.fromEntries(names.map(n => [`#${n}`, n])),
+        ExpressionAttributeValues: Object.fromEntries(names.map(n => [`:${n}`, attributes[n]])),
+      }));
+      updated++;
+    } catch (error) {
+      if (error.name !== 'ConditionalCheckFailedException') throw error;
+    }
+  }
+  startKey = page.LastEvaluatedKey;
+} while (startKey);
+
+console.log(`Scanned ${scanned} items, ${dryRun ? 'would update' : 'updated'} ${updated} bookings, skipped ${skipped}.`);
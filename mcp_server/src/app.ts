@@ -0,0 +1,84 @@
+import log4js from "./utils/logging.js";
+import express from "express";
+import type { Express } from "express";
+import cors from "cors";
+import rateLimit from "express-rate-limit";
+import config from './utils/env-config.js';
+import { metadata } from "./utils/metadata.js";
+import {isStatefulMode, postRequestHandler, sessionRequestHandler} from "./mcp/transport.js";
+import {tokenMiddleware, toolScopeMiddleware} from "./auth/token-middleware.js";
+import { handleMetadataRequest } from './auth/oauth-metadata.js';
+import { getCredentialCacheMetrics } from './services/tenant-credentials.js';
+import { getRevocationMetrics } from './auth/token-revocation.js';
+import { tenantLimitsMiddleware } from './limits/tenant-limits.js';
+import { isLocalIssuerEnabled, LOCAL_ISSUER_PATH, localIssuerRouter } from './auth/local-issuer.js';
+
+const l = log4js.getLogger("App");
+
+/**
+ * Build the Express app: health check, protected resource metadata and the
+ * authenticated MCP endpoints. `index.ts` starts it; tests can listen on an
+ * ephemeral port instead.
+ */
+export function createApp(): Express {
+  const app = express();
+  app.use(express.json());
+
+  // CORS configuration
+  app.use(cors({
+      origin: true,
+      methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+      allowedHeaders: ['Content-Type', 'Authorization', 'Mcp-Protocol-Version', 'Mcp-Session-Id', 'Last-Event-ID'],
+      exposedHeaders: ['Mcp-Session-Id', 'WWW-Authenticate', 'Retry-After']
+  }));
+
+  // Health check endpoint
+  app.get('/health', (req, res) => {
+      res.json({ 
+          status: 'healthy', 
+          timestamp: new Date().toISOString(),
+          version: metadata.version,
+          credentialCache: getCredentialCacheMetrics(),
+          revocation: getRevocationMetrics()
+      });
+  });
+
+  // Request logging
+  app.use((req, res, next) => {
+    l.debug(`> ${req.method} ${req.originalUrl}`);
+    if(req.body) {
+      l.debug(req.body);
+    }
+    next();
+  });
+
+  // Test issuer for local development and the offline end-to-end tests
+  if (isLocalIssuerEnabled()) {
+    app.use(LOCAL_ISSUER_PATH, localIssuerRouter());
+  }
+
+  // OAuth 2.1 Protected Resource Metadata endpoint (RFC 9728)
+  app.get(/^\/\.well-known\/oauth-protected-resource.*/, handleMetadataRequest);
+
+  // MCP endpoints with OAuth token validation. The per-IP limiter only guards
+  // against floods before authentication; tenant and user limits by tier are
+  // enforced once the token identifies the caller.
+  const mcpLimiter = rateLimit({
+    windowMs: 60 * 1000,
+    max: Number(config.get('IP_RATE_LIMIT_PER_MINUTE', '1000')),
+    standardHeaders: true,
+    legacyHeaders: false,
+  });
+  app.post("/mcp", mcpLimiter, tokenMiddleware, toolScopeMiddleware, tenantLimitsMiddleware, postRequestHandler);
+  if (isStatefulMode()) {
+    // GET opens the standalone SSE stream and DELETE terminates the session.
+    // Both act on a tenant-bound session, so they need the caller's token too.
+    app.get("/mcp", mcpLimiter, tokenMiddleware, tenantLimitsMiddleware, sessionRequestHandler);
+    app.delete("/mcp", mcpLimiter, tokenMiddleware, tenantLimitsMiddleware, sessionRequestHandler);
+  } else {
+    app.get("/mcp", sessionRequestHandler);
+    app.delete("/mcp", sessionRequestHandler);
+  }
+
+  return app;
+}
@@ -0,0 +1,111 @@
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient, QueryCommand } from "@aws-sdk/lib-dynamodb";
+import log4js from "../utils/logging.js";
+import config from "../utils/env-config.js";
+
+const l = log4js.getLogger("Client Allowlist");
+
+/**
+ * OAuth clients whose tokens are accepted without an audience for this
+ * server, i.e. clients that do not send an RFC 8707 resource indicator.
+ */
+export interface ClientAllowlist {
+  isAllowed(clientId: string): Promise<boolean>;
+}
+
+export const PUBLIC_CLIENT_ID_INDEX = "ByClientId";
+
+/**
+ * Clients registered through the DCR proxy, looked up in the public clients
+ * table by client ID. Like the sessions table, the table belongs to the
+ * server and is read with the task role.
+ */
+export class DynamoDbClientAllowlist implements ClientAllowlist {
+  private readonly client: DynamoDBDocumentClient;
+
+  constructor(private readonly tableName: string, client?: DynamoDBDocumentClient) {
+    this.client = client ?? DynamoDBDocumentClient.from(new DynamoDBClient({
+      region: process.env.AWS_DEFAULT_REGION ?? "us-east-1",
+    }));
+  }
+
+  async isAllowed(clientId: string): Promise<boolean> {
+    const result = await this.client.send(new QueryCommand({
+      TableName: this.tableName,
+      IndexName: PUBLIC_CLIENT_ID_INDEX,
+      KeyConditionExpression: "clientId = :clientId",
+      ExpressionAttributeValues: { ":clientId": clientId },
+      Limit: 1,
+    }));
+    return (result.Items?.length ?? 0) > 0;
+  }
+}
+
+/**
+ * A fixed list of client IDs, e.g. app clients created by hand.
+ */
+export class StaticClientAllowlist implements ClientAllowlist {
+  constructor(private readonly clientIds: string[]) {}
+
+  isAllowed(clientId: string): Promise<boolean> {
+    return Promise.resolve(this.clientIds.includes(clientId));
+  }
+}
+
+/**
+ * Caches lookups: allowed clients for `CLIENT_ALLOWLIST_CACHE_SECONDS`,
+ * unknown ones briefly so a client that was just registered is picked up
+ * soon.
+ */
+class CachingClientAllowlist implements ClientAllowlist {
+  private readonly cache = new Map<string, { allowed: boolean; expiresAt: number }>();
+
+  constructor(private readonly allowlists: ClientAllowlist[]) {}
+
+  async isAllowed(clientId: string): Promise<boolean> {
+    const cached = this.cache.get(clientId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.allowed;
+    }
+
+    let allowed = false;
+    for (const allowlist of this.allowlists) {
+      if (await allowlist.isAllowed(clientId)) {
+        allowed = true;
+        break;
+      }
+    }
+    const ttlSeconds = allowed ? Number(config.get("CLIENT_ALLOWLIST_CACHE_SECONDS", "300")) : 10;
+    this.cache.set(clientId, { allowed, expiresAt: Date.now() + ttlSeconds * 1000 });
+    return allowed;
+  }
+}
+
+/**
+ * Accept clients from `ALLOWED_CLIENT_IDS` (comma-separated) and, when
+ * `PUBLIC_CLIENTS_TABLE` is set, clients registered through DCR.
+ */
+export function createClientAllowlist(): ClientAllowlist {
+  const clientIds = config.get("ALLOWED_CLIENT_IDS", "").split(",").map(id => id.trim()).filter(Boolean);
+  const allowlists: ClientAllowlist[] = [new StaticClientAllowlist(clientIds)];
+  const tableName = config.get("PUBLIC_CLIENTS_TABLE");
+  if (tableName) {
+    l.info(`Allowing DCR clients from ${tableName}`);
+    allowlists.push(new DynamoDbClientAllowlist(tableName));
+  }
+  return new CachingClientAllowlist(allowlists);
+}
+
+let clientAllowlist: ClientAllowlist | undefined;
+
+export const getClientAllowlist = (): ClientAllowlist => {
+  clientAllowlist ??= createClientAllowlist();
+  return clientAllowlist;
+};
+
+/**
+ * Replace the client allowlist, e.g. with a static list in tests.
+ */
+export const setClientAllowlist = (allowlist: ClientAllowlist): void => {
+  clientAllowlist = allowlist;
+};
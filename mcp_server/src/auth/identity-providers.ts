@@ -0,0 +1,221 @@
+import { z } from "zod";
+import log4js from "../utils/logging.js";
+import config, { parseJsonConfig } from "../utils/env-config.js";
+import { getLocalIssuerUrl, isLocalIssuerEnabled } from "./local-issuer.js";
+
+const l = log4js.getLogger("Identity Providers");
+
+/**
+ * Claims to read the caller's identity from. Each entry lists claim names in
+ * order of preference; the first one present in the token is used.
+ */
+export interface ClaimMapping {
+  tenantId: string[];
+  tenantTier: string[];
+  userId: string[];
+  scopes: string[];
+  /** Roles or groups, as an array or a space-separated string. */
+  roles: string[];
+}
+
+/**
+ * A trusted OpenID Connect issuer.
+ *
+ * `type: "cognito"` is the server's own user pool: its access tokens carry
+ * `token_use` and, without a resource indicator, no audience (see
+ * `validateAccessToken`). Tokens from other (`oidc`) issuers must carry one of
+ * the allowed audiences.
+ *
+ * An enterprise tenant that brings its own IdP sets `tenantId` so every token
+ * from that issuer belongs to the tenant, whatever its claims say.
+ */
+export interface IdentityProvider {
+  issuer: string;
+  type: "cognito" | "oidc";
+  /** Accepted audiences; defaults to the server's resource identifier. */
+  audiences?: string[];
+  /** Fixed tenant for every token from this issuer. */
+  tenantId?: string;
+  /** Tier when the token does not carry one. */
+  defaultTier: string;
+  claims: ClaimMapping;
+  algorithms: string[];
+}
+
+export type IdentityProviderConfig =
+  Partial<Omit<IdentityProvider, "claims">> & { issuer: string; claims?: Partial<ClaimMapping> };
+
+const claimNames = z.array(z.string().min(1)).min(1);
+
+const identityProvidersSchema = z.array(z.object({
+  issuer: z.url(),
+  type: z.enum(["cognito", "oidc"]).optional(),
+  audiences: z.array(z.string().min(1)).optional(),
+  tenantId: z.string().min(1).optional(),
+  defaultTier: z.string().min(1).optional(),
+  claims: z.object({
+    tenantId: claimNames,
+    tenantTier: claimNames,
+    userId: claimNames,
+    scopes: claimNames,
+    roles: claimNames,
+  }).partial().optional(),
+  algorithms: z.array(z.string().min(1)).optional(),
+})) satisfies z.ZodType<IdentityProviderConfig[]>;
+
+const parseProviders = (raw: string): IdentityProviderConfig[] => {
+  if (!raw) {
+    return [];
+  }
+  try {
+    return parseJsonConfig("IDENTITY_PROVIDERS", raw, identityProvidersSchema);
+  } catch (error) {
+    l.error(`${(error as Error).message}; trusting none of its issuers`);
+    return [];
+  }
+};
+
+const COGNITO_CLAIMS: ClaimMapping = {
+  tenantId: ["custom:tenantId", "tenantId"],
+  tenantTier: ["custom:tenantTier", "tenantTier"],
+  userId: ["sub"],
+  scopes: ["scope"],
+  roles: ["cognito:groups"],
+};
+
+const OIDC_CLAIMS: ClaimMapping = {
+  tenantId: ["tenantId", "tenant_id"],
+  tenantTier: ["tenantTier", "tenant_tier"],
+  userId: ["sub"],
+  scopes: ["scope", "scp"],
+  roles: ["roles", "groups"],
+};
+
+const withDefaults = (provider: IdentityProviderConfig): IdentityProvider => {
+  const type = provider.type ?? "oidc";
+  return {
+    ...provider,
+    type,
+    defaultTier: provider.defaultTier ?? "basic",
+    algorithms: provider.algorithms ?? ["RS256"],
+    claims: { ...(type === "cognito" ? COGNITO_CLAIMS : OIDC_CLAIMS), ...provider.claims },
+  };
+};
+
+/**
+ * The server's own Cognito user pool, if configured.
+ */
+export function getCognitoIssuer(): string | undefined {
+  const userPoolId = config.get("COGNITO_USER_POOL_ID");
+  if (!userPoolId) {
+    return undefined;
+  }
+  const region = config.get("AWS_REGION", "us-east-1");
+  return `https://cognito-idp.${region}.amazonaws.com/${userPoolId}`;
+}
+
+let parsed: { raw: string; providers: IdentityProvider[] } | undefined;
+
+/**
+ * Trusted issuers.
+ *
+ * `IDENTITY_PROVIDERS` is a JSON array of providers, e.g.
+ * `[{"issuer":"https://login.microsoftonline.com/<tid>/v2.0","tenantId":"acme","audiences":["api://travel-mcp"]}]`.
+ * Unless it lists the Cognito user pool itself, the pool is trusted as well.
+ * `JWT_ISSUERS` (comma-separated) replaces the Cognito user pool with
+ * issuers that use its claim layout. With `LOCAL_ISSUER=true` the built-in
+ * test issuer is trusted too. If `IDENTITY_PROVIDERS` is invalid, none of its
+ * issuers is trusted.
+ */
+export function getIdentityProviders(): IdentityProvider[] {
+  const localIssuer = isLocalIssuerEnabled() ? getLocalIssuerUrl() : "";
+  const raw = `${config.get("IDENTITY_PROVIDERS", "")}|${config.get("JWT_ISSUERS", "")}|${getCognitoIssuer() ?? ""}|${localIssuer}`;
+  if (parsed?.raw === raw) {
+    return parsed.providers;
+  }
+
+  const configured = parseProviders(config.get("IDENTITY_PROVIDERS", ""));
+  const issuers = config.get("JWT_ISSUERS", "").split(",").map(issuer => issuer.trim()).filter(Boolean);
+  const cognitoIssuer = getCognitoIssuer();
+  const defaults: IdentityProviderConfig[] = issuers.length > 0
+    ? issuers.map(issuer => ({ issuer, type: "cognito" }))
+    : cognitoIssuer ? [{ issuer: cognitoIssuer, type: "cognito" }] : [];
+  if (localIssuer) {
+    defaults.push({ issuer: localIssuer, type: "oidc" });
+  }
+
+  const providers = configured.map(withDefaults);
+  for (const provider of defaults.map(withDefaults)) {
+    if (!providers.some(p => p.issuer === provider.issuer)) {
+      providers.push(provider);
+    }
+  }
+  if (providers.length === 0) {
+    throw new Error("No identity provider configured: set COGNITO_USER_POOL_ID, IDENTITY_PROVIDERS or LOCAL_ISSUER");
+  }
+
+  parsed = { raw, providers };
+  return providers;
+}
+
+export function findIdentityProvider(issuer: string | undefined): IdentityProvider | undefined {
+  // Issuers are compared exactly (OpenID Connect Core 1.0 section 3.1.3.7).
+  return issuer ? getIdentityProviders().find(provider => provider.issuer === issuer) : undefined;
+}
+
+interface OpenIdConfiguration {
+  issuer: string;
+  jwks_uri: string;
+}
+
+const discovered = new Map<string, Promise<OpenIdConfiguration>>();
+
+/**
+ * Fetch the issuer's `/.well-known/openid-configuration`. Results are cached
+ * for the life of the process; failed lookups are retried on the next call.
+ */
+export function discover(issuer: string): Promise<OpenIdConfiguration> {
+  let pending = discovered.get(issuer);
+  if (!pending) {
+    pending = fetchOpenIdConfiguration(issuer);
+    void pending.catch(() => discovered.delete(issuer));
+    discovered.set(issuer, pending);
+  }
+  return pending;
+}
+
+async function fetchOpenIdConfiguration(issuer: string): Promise<OpenIdConfiguration> {
+  const url = `${issuer.replace(/\/+$/, "")}/.well-known/openid-configuration`;
+  l.debug(`Discovering OpenID configuration at ${url}`);
+  const response = await fetch(url, { signal: AbortSignal.timeout(10000) });
+  if (!response.ok) {
+    throw new Error(`OpenID discovery failed for ${issuer}: HTTP ${response.status}`);
+  }
+
+  const document = await response.json() as Partial<OpenIdConfiguration>;
+  // OpenID Connect Discovery 1.0 section 4.3: the document must be for the
+  // issuer it was fetched from.
+  if (document.issuer !== issuer || typeof document.jwks_uri !== "string") {
+    throw new Error(`OpenID discovery document for ${issuer} is invalid`);
+  }
+  return { issuer, jwks_uri: document.jwks_uri };
+}
+
+/**
+ * Drop cached discovery documents. Intended for tests.
+ */
+export function clearDiscoveryCache(): void {
+  discovered.clear();
+}
+
+/**
+ * Read the first of `names` that is present in the claims.
+ */
+export function readClaim(claims: Record<string, unknown>, names: string[]): unknown {
+  for (const name of names) {
+    if (claims[name] !== undefined && claims[name] !== null && claims[name] !== "") {
+      return claims[name];
+    }
+  }
+  return undefined;
+}
@@ -5,11 +5,18 @@ import log4js from "../utils/logging.js";
 import config from '../utils/env-config.js';
 import { InvalidTokenError, ServerError } from '@modelcontextprotocol/sdk/server/auth/errors.js';
 import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { getClientAllowlist } from './client-allowlist.js';
+import { discover, findIdentityProvider, getIdentityProviders, readClaim } from './identity-providers.js';
+import type { IdentityProvider } from './identity-providers.js';
+import { getMachineClient, isMachineToken } from './machine-clients.js';
+import type { PrincipalType } from './machine-clients.js';
+import { getScopePrefix, normalizeScopes } from './scopes.js';
+import { checkTokenRevocation } from './token-revocation.js';
 
 const l = log4js.getLogger("JWT Verifier");
 
-// Cache for JWKS client to avoid recreating it
-let jwksClientInstance: jwksClient.JwksClient | null = null;
+// JWKS clients per JWKS URI, to avoid recreating them
+const jwksClients = new Map<string, jwksClient.JwksClient>();
 
 /**
  * Typed view of the Cognito access-token claims we consume.
@@ -24,28 +31,94 @@ export interface CognitoJwtClaims extends JwtPayload {
   scope?: string;
   username?: string;
   "cognito:username"?: string;
+  preferred_username?: string;
   email?: string;
   token_use?: string;
+  /** Entra ID: `app` for client-credentials tokens. */
+  idtyp?: string;
   "custom:tenantId"?: string;
   "custom:tenantTier"?: string;
   tenantId?: string;
   tenantTier?: string;
 }
 
-export async function processJwt(token: string): Promise<AuthInfo> {
+/**
+ * Verify a bearer token and map its claims to `AuthInfo` through the claim
+ * mapping of the identity provider that issued it.
+ *
+ * `resource` is this server's `RESOURCE_SERVER_URL`. Tokens with
+ * an audience must name it or one of the provider's audiences; see
+ * `validateAccessToken`.
+ *
+ * Client-credentials tokens have no user or tenant claims. They resolve to
+ * the tenant their client is mapped to in `MACHINE_CLIENTS`, keep only the
+ * scopes granted there, and are marked with `principalType: "machine"`.
+ * They carry no roles, so a client can never act as an approver.
+ *
+ * Revoked tokens, disabled users and disabled clients are rejected; see
+ * `checkTokenRevocation`.
+ */
+export async function processJwt(token: string, resource?: string): Promise<AuthInfo> {
   try {
     const userData = (await verifyToken(token)) as CognitoJwtClaims;
-    l.info('JWT verified successfully with Cognito');
+    // `verifyToken` only accepts tokens from a configured provider.
+    const provider = findIdentityProvider(userData.iss)!;
+    await validateAccessToken(userData, provider, resource);
+    l.info(`JWT verified successfully with ${provider.issuer}`);
 
+    const claim = (names: string[]): string | undefined => {
+      const value = readClaim(userData, names);
+      return typeof value === "string" ? value : undefined;
+    };
+    // Scopes are a space-separated string in most tokens, but some
+    // providers (e.g. Okta's `scp`) issue an array.
+    const scopeClaim = readClaim(userData, provider.claims.scopes);
+    const scopes = Array.isArray(scopeClaim)
+      ? scopeClaim.map(String)
+      : (typeof scopeClaim === "string" ? scopeClaim : "").split(' ');
+    // Roles come the same ways, e.g. Cognito's `cognito:groups` array.
+    const roleClaim = readClaim(userData, provider.claims.roles);
+    const roles = Array.isArray(roleClaim)
+      ? roleClaim.map(String)
+      : (typeof roleClaim === "string" ? roleClaim : "").split(' ').filter(Boolean);
+    const clientId = userData.client_id ?? claim(["azp", "appid", "cid"]) ?? "";
+    await checkTokenRevocation(token, { jti: userData.jti, sub: userData.sub, clientId, exp: userData.exp });
+
+    if (isMachineToken(userData, clientId)) {
+      const machineClient = getMachineClient(clientId);
+      if (!machineClient || (provider.tenantId && provider.tenantId !== machineClient.tenantId)) {
+        l.warn(`Rejected client credentials token from unmapped client ${clientId}`);
+        throw new InvalidTokenError('Authentication failed: Client is not mapped to a tenant.');
+      }
+      const scopePrefix = resource ? getScopePrefix(resource) : '';
+      const allowedScopes: readonly string[] = machineClient.scopes;
+      const principalType: PrincipalType = "machine";
+      return {
+        token: token,
+        clientId,
+        scopes: scopes.filter(scope => allowedScopes.includes(normalizeScopes([scope], scopePrefix)[0])),
+        expiresAt: userData.exp,
+        extra: {
+          principalType,
+          userId: `client:${clientId}`,
+          tenantId: machineClient.tenantId,
+          tenantTier: machineClient.tenantTier,
+        }
+      };
+    }
+
+    const principalType: PrincipalType = "user";
     const response: AuthInfo = {
       token: token,
-      clientId: userData.client_id ?? "",
-      scopes: (userData.scope ?? "").split(' '),
+      clientId,
+      scopes,
       expiresAt: userData.exp,
       extra: {
-        userId: userData.sub ?? "anonymous",
-        tenantId: userData["custom:tenantId"] ?? userData.tenantId ?? "",
-        tenantTier: userData["custom:tenantTier"] ?? userData.tenantTier ?? "basic",
+        principalType,
+        userId: claim(provider.claims.userId) ?? "anonymous",
+        tenantId: provider.tenantId ?? claim(provider.claims.tenantId) ?? "",
+        tenantTier: claim(provider.claims.tenantTier) ?? provider.defaultTier,
+        roles,
       }
     };
    
@@ -53,8 +126,12 @@ export async function processJwt(token: string): Promise<AuthInfo> {
   } catch (error) {
     const err = error instanceof Error ? error : undefined;
     const message = err?.message ?? String(error);
-    l.error(`Cognito JWT verification failed: ${message}`);
-    if (err?.name === 'TokenExpiredError') {
+    // The issuer is read without verification, for the log only.
+    const issuer = jwt.decode(token, { json: true })?.iss ?? "an unknown issuer";
+    l.error(`JWT verification failed for a token from ${issuer}: ${message}`);
+    if (error instanceof InvalidTokenError || error instanceof ServerError) {
+      throw error;
+    } else if (err?.name === 'TokenExpiredError') {
       throw new InvalidTokenError('Authentication failed: Your token has expired. Please log in again.');
     } else if (err?.name === 'JsonWebTokenError') {
       throw new InvalidTokenError('Authentication failed: Invalid token format or signature.');
@@ -69,26 +146,87 @@ export async function processJwt(token: string): Promise<AuthInfo> {
 }
 
 /**
- * Verify JWT token with Cognito
+ * Audiences accepted in access tokens: the provider's `audiences`, else
+ * `JWT_AUDIENCES` (comma-separated), else this server's resource identifier
+ * with and without a trailing slash (the Cognito resource server is
+ * registered with one).
+ */
+export function getAllowedAudiences(resource?: string, provider?: IdentityProvider): string[] {
+  if (provider?.audiences?.length) {
+    return provider.audiences;
+  }
+  const configured = config.get('JWT_AUDIENCES', '').split(',').map(audience => audience.trim()).filter(Boolean);
+  if (configured.length > 0 || !resource) {
+    return configured;
+  }
+  const origin = resource.replace(/\/+$/, '');
+  return [origin, `${origin}/`];
+}
+
+/**
+ * Check that a verified token is an access token meant for this server.
+ *
+ * Cognito ID tokens are rejected by `token_use`. A token with an `aud` claim
+ * (set by Cognito when the client sends an RFC 8707 resource indicator) must
+ * name one of the allowed audiences. Cognito access tokens without one only
+ * carry the `client_id`, so they are accepted from allowlisted clients: those
+ * in `ALLOWED_CLIENT_IDS`, clients registered through the DCR proxy and
+ * machine clients in `MACHINE_CLIENTS`.
+ * Other providers must always set the audience; their ID tokens name the
+ * client instead and are rejected that way.
+ */
+export async function validateAccessToken(
+  claims: CognitoJwtClaims,
+  provider: IdentityProvider,
+  resource?: string,
+): Promise<void> {
+  if (claims.token_use !== undefined ? claims.token_use !== 'access' : provider.type === 'cognito') {
+    throw new InvalidTokenError('Authentication failed: An access token is required.');
+  }
+
+  if (claims.aud !== undefined) {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    const allowed = getAllowedAudiences(resource, provider);
+    if (!audiences.some(audience => allowed.includes(audience))) {
+      l.warn(`Rejected token for audience ${audiences.join(', ')}`);
+      throw new InvalidTokenError('Authentication failed: Token was not issued for this resource.');
+    }
+    return;
+  }
+
+  const clientId = claims.client_id;
+  const allowed = !!clientId && (!!getMachineClient(clientId) || await getClientAllowlist().isAllowed(clientId));
+  if (provider.type !== 'cognito' || !allowed) {
+    l.warn(`Rejected token without audience from client ${claims.client_id ?? '(none)'}`);
+    throw new InvalidTokenError('Authentication failed: Token was not issued for this resource.');
+  }
+}
+
+/**
+ * Verify the token signature, expiry and issuer. The issuer must be one of
+ * the configured identity providers; its signing keys are fetched from the
+ * JWKS named in its OpenID configuration.
  */
 export function verifyToken(token: string): Promise<JwtPayload | string | undefined> {
   return new Promise((resolve, reject) => {
-    const userPoolId = config.COGNITO_USER_POOL_ID;
-    const region = config.get('AWS_REGION', 'us-east-1');
-    
-    if (!userPoolId) {
-      reject(new Error('COGNITO_USER_POOL_ID environment variable is required'));
+    let provider: IdentityProvider | undefined;
+    try {
+      // The issuer picks the JWKS, so check it before fetching keys;
+      // `jwt.verify` checks it again against the verified payload.
+      provider = findIdentityProvider(jwt.decode(token, { json: true })?.iss);
+    } catch (err) {
+      reject(err instanceof Error ? err : new Error(String(err)));
+      return;
+    }
+    if (!provider) {
+      const issuers = getIdentityProviders().map(p => p.issuer);
+      reject(new jwt.JsonWebTokenError(`jwt issuer invalid. expected: ${issuers.join(' or ')}`));
       return;
     }
 
-    const issuer = `https://cognito-idp.${region}.amazonaws.com/${userPoolId}`;
-    
-    // Remove hardcoded audience validation to support DCR clients
-    // We only validate the issuer (User Pool) - any valid client in the pool is accepted
-    jwt.verify(token, getKey, {
-      issuer: issuer,
-      algorithms: ['RS256']
-      // Note: audience validation removed to support Dynamic Client Registration
+    jwt.verify(token, (header, callback) => getKey(provider, header, callback), {
+      issuer: provider.issuer,
+      algorithms: provider.algorithms as jwt.Algorithm[],
     }, (err, decoded) => {
       if (err) {
         reject(err);
@@ -100,22 +238,14 @@ export function verifyToken(token: string): Promise<JwtPayload | string | undefi
 }
 
 /**
- * Initialize JWKS client for Cognito JWT verification
+ * Initialize the JWKS client for a key set URI.
  */
-function getJwksClient() {
-  if (!jwksClientInstance) {
-    const userPoolId = config.COGNITO_USER_POOL_ID;
-    const region = config.get('AWS_REGION', 'us-east-1');
-    
-    if (!userPoolId) {
-      throw new Error('COGNITO_USER_POOL_ID environment variable is required');
-    }
-
-    const jwksUri = `https://cognito-idp.${region}.amazonaws.com/${userPoolId}/.well-known/jwks.json`;
-    
+function getJwksClient(jwksUri: string) {
+  let client = jwksClients.get(jwksUri);
+  if (!client) {
     l.debug(`Initializing JWKS client with URI: ${jwksUri}`);
     
-    jwksClientInstance = jwksClient({
+    client = jwksClient({
       jwksUri: jwksUri,
       requestHeaders: {}, // Optional
       timeout: 30000, // Defaults to 30s
@@ -123,25 +253,31 @@ function getJwksClient() {
       cacheMaxEntries: 5, // Default value
       cacheMaxAge: 600000, // Default value (10 minutes)
     });
+    jwksClients.set(jwksUri, client);
   }
   
-  return jwksClientInstance;
+  return client;
 }
 
 /**
  * Get signing key for JWT verification
  */
-function getKey(header: jwt.JwtHeader, callback: jwt.SigningKeyCallback) {
-  const client = getJwksClient();
-  
-  client.getSigningKey(header.kid, (err, key) => {
-    if (err) {
-      l.error('Error getting signing key:', err);
-      callback(err);
-      return;
-    }
-    
-    const signingKey = key?.getPublicKey();
-    callback(null, signingKey);
-  });
+function getKey(provider: IdentityProvider, header: jwt.JwtHeader, callback: jwt.SigningKeyCallback) {
+  discover(provider.issuer)
+    .then(({ jwks_uri }) => {
+      getJwksClient(jwks_uri).getSigningKey(header.kid, (err, key) => {
+        if (err) {
+          l.error('Error getting signing key:', err);
+          callback(err);
+          return;
+        }
+
+        const signingKey = key?.getPublicKey();
+        callback(null, signingKey);
+      });
+    })
+    .catch((err: unknown) => {
+      l.error(`Error discovering signing keys for ${provider.issuer}:`, err);
+      callback(err instanceof Error ? err : new Error(String(err)));
+    });
 }
@@ -0,0 +1,141 @@
+import { generateKeyPairSync, randomUUID } from "crypto";
+import type { JsonWebKey, KeyObject } from "crypto";
+import express from "express";
+import type { Router } from "express";
+import jwt from "jsonwebtoken";
+import log4js from "../utils/logging.js";
+import config from "../utils/env-config.js";
+import { getResourceServerUrl } from "./resource-server.js";
+
+const l = log4js.getLogger("Local Issuer");
+
+/**
+ * Path the local issuer is served under by `createApp`.
+ */
+export const LOCAL_ISSUER_PATH = "/local-issuer";
+
+// Environments the issuer may run in. An unset NODE_ENV is not one of them,
+// so a deployment that forgets to set it cannot enable the issuer.
+const LOCAL_ISSUER_ENVIRONMENTS = ["development", "test"];
+
+/**
+ * Whether the built-in test issuer is enabled (`LOCAL_ISSUER=true`). It
+ * mints tokens for anyone who asks, so it is refused unless `NODE_ENV` is
+ * `development` or `test`.
+ */
+export function isLocalIssuerEnabled(): boolean {
+  const enabled = config.get("LOCAL_ISSUER", "false").toLowerCase() === "true";
+  const environment = config.get("NODE_ENV", "");
+  if (enabled && !LOCAL_ISSUER_ENVIRONMENTS.includes(environment)) {
+    throw new Error(`LOCAL_ISSUER is only allowed with NODE_ENV=development or test, not "${environment}"`);
+  }
+  return enabled;
+}
+
+/**
+ * The issuer identifier: `LOCAL_ISSUER_URL`, else the server on localhost.
+ */
+export function getLocalIssuerUrl(): string {
+  return config.get("LOCAL_ISSUER_URL", `http://localhost:${config.get("PORT", "3000")}${LOCAL_ISSUER_PATH}`);
+}
+
+/**
+ * Claims for a local token. `tenantId` and `tenantTier` follow the claim
+ * names of other OIDC providers; any other claim is copied as is.
+ */
+export interface LocalTokenRequest {
+  sub?: string;
+  tenantId?: string;
+  tenantTier?: string;
+  scope?: string;
+  client_id?: string;
+  aud?: string | string[];
+  /** Lifetime in seconds; defaults to one hour. */
+  expires_in?: number;
+  [claim: string]: unknown;
+}
+
+/**
+ * A self-contained OpenID Connect issuer for local development and offline
+ * tests. It signs with a key pair generated at startup and serves the
+ * matching JWKS, so the server verifies its tokens like any other
+ * provider's.
+ */
+export class LocalIssuer {
+  private readonly privateKey: KeyObject;
+  private readonly publicJwk: JsonWebKey;
+  private readonly kid = randomUUID();
+
+  constructor(readonly issuer: string) {
+    const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+    this.privateKey = privateKey;
+    this.publicJwk = publicKey.export({ format: "jwk" });
+  }
+
+  openIdConfiguration(): Record<string, unknown> {
+    return {
+      issuer: this.issuer,
+      jwks_uri: `${this.issuer}/jwks.json`,
+      token_endpoint: `${this.issuer}/token`,
+      grant_types_supported: ["urn:local:test-token"],
+      response_types_supported: ["token"],
+      subject_types_supported: ["public"],
+      id_token_signing_alg_values_supported: ["RS256"],
+    };
+  }
+
+  jwks(): { keys: JsonWebKey[] } {
+    return { keys: [{ ...this.publicJwk, kid: this.kid, use: "sig", alg: "RS256" }] };
+  }
+
+  /**
+   * Sign an access token with the given claims.
+   */
+  mintToken({ expires_in: expiresIn = 3600, ...claims }: LocalTokenRequest): string {
+    return jwt.sign(
+      { sub: "local-user", client_id: "local-client", scope: "openid", jti: randomUUID(), ...claims },
+      this.privateKey,
+      { algorithm: "RS256", issuer: this.issuer, expiresIn, keyid: this.kid },
+    );
+  }
+}
+
+let localIssuer: LocalIssuer | undefined;
+
+/**
+ * The local issuer for the current `LOCAL_ISSUER_URL`. A new key pair is
+ * generated when the URL changes.
+ */
+export function getLocalIssuer(): LocalIssuer {
+  const issuer = getLocalIssuerUrl();
+  if (localIssuer?.issuer !== issuer) {
+    l.warn(`Local test issuer enabled at ${issuer}: do not use outside development`);
+    localIssuer = new LocalIssuer(issuer);
+  }
+  return localIssuer;
+}
+
+/**
+ * Routes of the local issuer: discovery, JWKS and a token endpoint that
+ * mints a token for the JSON claims it is posted. The audience defaults to
+ * this server's `RESOURCE_SERVER_URL`.
+ */
+export function localIssuerRouter(): Router {
+  const router = express.Router();
+  router.get("/.well-known/openid-configuration", (req, res) => {
+    res.json(getLocalIssuer().openIdConfiguration());
+  });
+  router.get("/jwks.json", (req, res) => {
+    res.json(getLocalIssuer().jwks());
+  });
+  router.post("/token", (req, res) => {
+    const claims = (req.body ?? {}) as LocalTokenRequest;
+    const expiresIn = claims.expires_in ?? 3600;
+    res.json({
+      access_token: getLocalIssuer().mintToken({ aud: getResourceServerUrl(), ...claims, expires_in: expiresIn }),
+      token_type: "Bearer",
+      expires_in: expiresIn,
+    });
+  });
+  return router;
+}
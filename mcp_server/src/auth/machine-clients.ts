@@ -0,0 +1,79 @@
+import { z } from "zod";
+import log4js from "../utils/logging.js";
+import config, { parseJsonConfig } from "../utils/env-config.js";
+import { SCOPES } from "./scopes.js";
+import type { Scope } from "./scopes.js";
+
+const l = log4js.getLogger("Machine Clients");
+
+/**
+ * Who a token was issued to: an interactive user, or a service calling with
+ * an OAuth client-credentials token.
+ */
+export type PrincipalType = "user" | "machine";
+
+/**
+ * A back-office integration allowed to call the server with
+ * client-credentials tokens. The token carries no tenant claims, so the
+ * client is mapped to exactly one tenant here.
+ */
+export interface MachineClient {
+  tenantId: string;
+  tenantTier: string;
+  /** Scopes the client may use; anything else in its tokens is dropped. */
+  scopes: Scope[];
+}
+
+// Integrations get read access unless their mapping grants more.
+const DEFAULT_MACHINE_SCOPES: Scope[] = [SCOPES.bookingsRead, SCOPES.loyaltyRead, SCOPES.filesRead];
+
+const machineClientsSchema = z.record(z.string(), z.object({
+  tenantId: z.string().min(1),
+  tenantTier: z.string().optional(),
+  scopes: z.array(z.enum(Object.values(SCOPES))).optional(),
+})) satisfies z.ZodType<Record<string, Partial<MachineClient>>>;
+
+let parsed: { raw: string; clients: Record<string, Partial<MachineClient>> } | undefined;
+
+const parseClients = (raw: string): Record<string, Partial<MachineClient>> => {
+  if (!raw) {
+    return {};
+  }
+  try {
+    return parseJsonConfig("MACHINE_CLIENTS", raw, machineClientsSchema);
+  } catch (error) {
+    l.error(`${(error as Error).message}; rejecting all client-credentials tokens`);
+    return {};
+  }
+};
+
+/**
+ * Look up a machine client. `MACHINE_CLIENTS` maps client IDs to tenants as
+ * JSON, e.g. `{"3n4b...":{"tenantId":"acme","tenantTier":"premium","scopes":["bookings:read","bookings:write"]}}`.
+ * If it is invalid, no client is mapped.
+ */
+export function getMachineClient(clientId: string): MachineClient | undefined {
+  const raw = config.get("MACHINE_CLIENTS", "");
+  if (parsed?.raw !== raw) {
+    parsed = { raw, clients: parseClients(raw) };
+  }
+  const client = Object.hasOwn(parsed.clients, clientId) ? parsed.clients[clientId] : undefined;
+  if (!client?.tenantId) {
+    return undefined;
+  }
+  return {
+    tenantId: client.tenantId,
+    tenantTier: client.tenantTier ?? "basic",
+    scopes: client.scopes ?? DEFAULT_MACHINE_SCOPES,
+  };
+}
+
+/**
+ * Whether a token was issued through the client-credentials grant.
+ *
+ * Such tokens have no end user: Cognito sets `sub` to the client ID and
+ * Entra ID marks them with `idtyp: "app"`.
+ */
+export function isMachineToken(claims: Record<string, unknown>, clientId: string): boolean {
+  return claims.idtyp === "app" || (!!clientId && (claims.sub === undefined || claims.sub === clientId));
+}
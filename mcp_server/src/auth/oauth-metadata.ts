@@ -2,6 +2,9 @@
 import type { Request, Response } from "express";
 import log4js from "../utils/logging.js";
 import config from '../utils/env-config.js';
+import { getScopePrefix, qualifyScopes, SCOPES } from './scopes.js';
+import { getIdentityProviders } from './identity-providers.js';
+import { isLocalIssuerEnabled } from './local-issuer.js';
 
 const l = log4js.getLogger();
 
@@ -34,10 +37,9 @@ export const handleMetadataRequest = (req: Request, res: Response): void => {
   });
   
   try {
-    // Derive resource server URL from the incoming request
-    const protocol = req.get('X-Forwarded-Proto') ?? req.protocol;
-    const host = req.get('Host');
-    const resourceServerUrl = `${protocol}://${host ?? ''}`;
+    // The resource is configured, never derived from the request's Host
+    // header, so a caller cannot change the audience or scopes advertised.
+    const resourceServerUrl = config.get('RESOURCE_SERVER_URL', '').trim();
 
     // Validate configuration first
     const validation = validateConfiguration(resourceServerUrl);
@@ -107,18 +109,27 @@ export const generateMetadata = (resourceServerUrl: string): OAuthProtectedResou
     // Use OAuth proxy authorization server URL when DCR is enabled
     authorizationServers = [authorizationServerUrl.replace(/\/$/, '')];
     l.debug('Using OAuth proxy authorization server (DCR enabled)');
-  } else {
+  } else if (userPoolId) {
     // Use direct Cognito authorization server URL
-    authorizationServers = [`https://cognito-idp.${region ?? ''}.amazonaws.com/${userPoolId ?? ''}`];
+    authorizationServers = [`https://cognito-idp.${region ?? ''}.amazonaws.com/${userPoolId}`];
     l.debug('Using direct Cognito authorization server (DCR disabled or no proxy URL)');
+  } else {
+    authorizationServers = [];
+  }
+
+  // Identity providers brought by enterprise tenants are listed after the
+  // server's own authorization server.
+  for (const provider of getIdentityProviders()) {
+    if (provider.type === 'oidc' && !authorizationServers.includes(provider.issuer)) {
+      authorizationServers.push(provider.issuer);
+    }
   }
   
-  // Only advertise scopes we actually allow via DCR. Public clients registered
-  // through the DCR Lambda default to `openid` only; advertising more would
-  // cause clients to request scopes Cognito then rejects with invalid_scope.
-  const scopesSupported = [
-    "openid",
-  ];
+  // Advertise the per-tool scopes under the names the authorization server
+  // issues them with. Clients registered through the DCR Lambda are only
+  // allowed the scopes they ask for at registration, so they should register
+  // with these.
+  const scopesSupported = qualifyScopes(["openid", ...Object.values(SCOPES)], getScopePrefix(resource));
   
   const bearerMethodsSupported = ["header"];
   
@@ -141,16 +152,19 @@ export const validateConfiguration = (resourceServerUrl: string): { isValid: boo
   
   // Check for required environment variables
   if (isEmpty(resourceServerUrl)) {
-    errors.push('Could not determine resource server URL from request');
+    errors.push('Missing required environment variable: RESOURCE_SERVER_URL');
   }
   
+  // The Cognito user pool is only optional when other identity providers
+  // are configured. The local test issuer needs no AWS configuration at all.
+  const localIssuer = isLocalIssuerEnabled();
   const cognitoUserPoolId = config.get('COGNITO_USER_POOL_ID');
-  if (isEmpty(cognitoUserPoolId)) {
+  if (isEmpty(cognitoUserPoolId) && isEmpty(config.get('IDENTITY_PROVIDERS')) && !localIssuer) {
     errors.push('Missing required environment variable: COGNITO_USER_POOL_ID');
   }
   
   const awsRegion = config.get('AWS_REGION');
-  if (isEmpty(awsRegion)) {
+  if (isEmpty(awsRegion) && !localIssuer) {
     errors.push('Missing required environment variable: AWS_REGION');
   }
   
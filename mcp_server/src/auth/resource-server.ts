@@ -0,0 +1,28 @@
+import config from "../utils/env-config.js";
+
+/**
+ * This server's public URL, `RESOURCE_SERVER_URL`, without a trailing slash.
+ * It is the `resource` advertised in the protected resource metadata, the
+ * default audience tokens must be issued for and the base of the scope
+ * names. It is configured rather than taken from the `Host` or
+ * `X-Forwarded-Proto` headers, which the caller controls.
+ *
+ * Throws if it is missing or not an http(s) URL. The server checks it at
+ * startup, so it does not run without one.
+ */
+export function getResourceServerUrl(): string {
+  const value = config.get("RESOURCE_SERVER_URL", "").trim();
+  if (value === "") {
+    throw new Error("Missing required environment variable: RESOURCE_SERVER_URL");
+  }
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error("Invalid RESOURCE_SERVER_URL format: must be a valid URL");
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error("Invalid RESOURCE_SERVER_URL format: must use http or https protocol");
+  }
+  return value.replace(/\/+$/, "");
+}
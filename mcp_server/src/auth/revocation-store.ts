@@ -0,0 +1,116 @@
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { BatchGetCommand, DynamoDBDocumentClient, PutCommand } from "@aws-sdk/lib-dynamodb";
+import log4js from "../utils/logging.js";
+import config from "../utils/env-config.js";
+
+const l = log4js.getLogger("Revocation Store");
+
+/**
+ * Keys of revocation list entries: a single token by its `jti`, every token
+ * of a user by `sub`, or every token issued to a client.
+ */
+export const revocationSubject = {
+  token: (jti: string): string => `jti#${jti}`,
+  user: (sub: string): string => `user#${sub}`,
+  client: (clientId: string): string => `client#${clientId}`,
+};
+
+/**
+ * Revoked tokens, disabled users and disabled clients. Entries for a single
+ * token can expire with the token; the others stay until removed.
+ */
+export interface RevocationStore {
+  /**
+   * Whether any of the subjects is revoked.
+   */
+  isRevoked(subjects: string[]): Promise<boolean>;
+  revoke(subject: string, expiresAt?: number): Promise<void>;
+}
+
+const nowSeconds = (): number => Math.floor(Date.now() / 1000);
+
+/**
+ * Process-local revocation list, for tests and local development.
+ */
+export class InMemoryRevocationStore implements RevocationStore {
+  private readonly revoked = new Map<string, number | undefined>();
+
+  isRevoked(subjects: string[]): Promise<boolean> {
+    const now = nowSeconds();
+    return Promise.resolve(subjects.some(subject => {
+      if (!this.revoked.has(subject)) {
+        return false;
+      }
+      const expiresAt = this.revoked.get(subject);
+      return expiresAt === undefined || expiresAt > now;
+    }));
+  }
+
+  revoke(subject: string, expiresAt?: number): Promise<void> {
+    this.revoked.set(subject, expiresAt);
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Revocation list in the revocations table, shared by all ECS tasks. Items
+ * are keyed by `subject`; entries for single tokens are removed by the
+ * table's TTL on `expiresAt` once the token has expired anyway. Like the
+ * sessions table, the table belongs to the server and is accessed with the
+ * task role.
+ */
+export class DynamoDbRevocationStore implements RevocationStore {
+  private readonly client: DynamoDBDocumentClient;
+
+  constructor(private readonly tableName: string, client?: DynamoDBDocumentClient) {
+    this.client = client ?? DynamoDBDocumentClient.from(new DynamoDBClient({
+      region: process.env.AWS_DEFAULT_REGION ?? "us-east-1",
+    }));
+  }
+
+  async isRevoked(subjects: string[]): Promise<boolean> {
+    if (subjects.length === 0) {
+      return false;
+    }
+    const result = await this.client.send(new BatchGetCommand({
+      RequestItems: {
+        [this.tableName]: {
+          Keys: subjects.map(subject => ({ subject })),
+          ProjectionExpression: "subject, expiresAt",
+        },
+      },
+    }));
+    if (Object.keys(result.UnprocessedKeys ?? {}).length > 0) {
+      throw new Error("Revocation lookup was throttled");
+    }
+    // TTL deletion lags, so expired entries are skipped here.
+    const now = nowSeconds();
+    return (result.Responses?.[this.tableName] ?? [])
+      .some(item => typeof item.expiresAt !== "number" || item.expiresAt > now);
+  }
+
+  async revoke(subject: string, expiresAt?: number): Promise<void> {
+    await this.client.send(new PutCommand({
+      TableName: this.tableName,
+      Item: { subject, revokedAt: new Date().toISOString(), ...(expiresAt ? { expiresAt } : {}) },
+    }));
+  }
+}
+
+/**
+ * Build the revocation store selected by `REVOCATION_STORE` (`memory` or
+ * `dynamodb`).
+ */
+export function createRevocationStore(): RevocationStore {
+  const type = config.get("REVOCATION_STORE", "memory").toLowerCase();
+  if (type === "dynamodb") {
+    const tableName = config.get("REVOCATIONS_TABLE_NAME");
+    if (!tableName) {
+      throw new Error("REVOCATIONS_TABLE_NAME environment variable is required when REVOCATION_STORE=dynamodb");
+    }
+    l.info(`Using DynamoDB revocation store (${tableName})`);
+    return new DynamoDbRevocationStore(tableName);
+  }
+  l.info("Using in-memory revocation store");
+  return new InMemoryRevocationStore();
+}
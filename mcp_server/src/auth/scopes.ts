@@ -0,0 +1,81 @@
+import config from "../utils/env-config.js";
+
+/**
+ * OAuth scopes understood by this server, by their short name.
+ */
+export const SCOPES = {
+  bookingsRead: "bookings:read",
+  bookingsWrite: "bookings:write",
+  loyaltyRead: "loyalty:read",
+  filesRead: "files:read",
+} as const;
+
+export type Scope = typeof SCOPES[keyof typeof SCOPES];
+
+/**
+ * Scopes each tool needs. Tools that are not listed only need a valid token.
+ */
+export const TOOL_SCOPES: Record<string, Scope[]> = {
+  list_bookings: [SCOPES.bookingsRead],
+  find_flights: [SCOPES.bookingsRead],
+  list_hotels: [SCOPES.bookingsRead],
+  check_policy: [SCOPES.bookingsRead],
+  list_pending_approvals: [SCOPES.bookingsRead],
+  spend_summary: [SCOPES.bookingsRead],
+  cancel_booking: [SCOPES.bookingsWrite],
+  book_flight: [SCOPES.bookingsWrite],
+  book_hotel: [SCOPES.bookingsWrite],
+  modify_hotel_booking: [SCOPES.bookingsWrite],
+  approve_booking: [SCOPES.bookingsWrite],
+  reject_booking: [SCOPES.bookingsWrite],
+  loyalty_info: [SCOPES.loyaltyRead],
+};
+
+// Listing tenant files reveals their names, so it needs the same scope as
+// reading them.
+const RESOURCE_METHODS = ["resources/list", "resources/templates/list", "resources/read"];
+
+/**
+ * Scopes needed for one JSON-RPC message.
+ */
+export const requiredScopesFor = (message: unknown): Scope[] => {
+  if (typeof message !== "object" || message === null) {
+    return [];
+  }
+  const { method, params } = message as { method?: unknown; params?: { name?: unknown } };
+  if (method === "tools/call" && typeof params?.name === "string") {
+    return TOOL_SCOPES[params.name] ?? [];
+  }
+  if (typeof method === "string" && RESOURCE_METHODS.includes(method)) {
+    return [SCOPES.filesRead];
+  }
+  return [];
+};
+
+/**
+ * Prefix the authorization server puts in front of the short scope names.
+ *
+ * Cognito names custom scopes `<resource server identifier>/<scope>`, and the
+ * resource server is registered with the server origin plus a trailing slash
+ * as identifier. `OAUTH_SCOPE_PREFIX` overrides this, e.g. with an empty
+ * value for an authorization server that issues the short names.
+ */
+export const getScopePrefix = (resourceServerUrl: string): string =>
+  config.get("OAUTH_SCOPE_PREFIX", `${resourceServerUrl.replace(/\/+$/, "")}//`);
+
+const SHORT_NAMES: readonly string[] = Object.values(SCOPES);
+
+/**
+ * Full scope names as requested from and issued by the authorization server.
+ * Scopes this server does not define (such as `openid`) are kept as they are.
+ */
+export const qualifyScopes = (scopes: readonly string[], prefix: string): string[] =>
+  scopes.map(scope => (SHORT_NAMES.includes(scope) ? `${prefix}${scope}` : scope));
+
+/**
+ * Strip the authorization server prefix from granted scopes so the rest of
+ * the server can compare short names. Scopes without the prefix (such as
+ * `openid`) are kept as they are.
+ */
+export const normalizeScopes = (scopes: readonly string[], prefix: string): string[] =>
+  scopes.map(scope => (prefix && scope.startsWith(prefix) ? scope.slice(prefix.length) : scope));
@@ -0,0 +1,70 @@
+import { InvalidTokenError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import config from "../utils/env-config.js";
+import type { PrincipalType } from "./machine-clients.js";
+
+/**
+ * The tenant and principal a request runs as, read from a verified token.
+ */
+export interface TenantContext {
+  tenantId: string;
+  tenantTier: string;
+  userId: string;
+  principalType: PrincipalType;
+  clientId: string;
+  /** The user's roles or groups in their identity provider. */
+  roles: string[];
+}
+
+/**
+ * Tenant IDs name DynamoDB partitions, S3 prefixes and session tags, so only
+ * plain identifiers are accepted: no empty IDs, separators (`/`, `#`) or
+ * whitespace.
+ */
+export const TENANT_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/;
+
+const readString = (extra: Record<string, unknown>, key: string): string | undefined => {
+  const value = extra[key];
+  return typeof value === "string" && value !== "" ? value : undefined;
+};
+
+/**
+ * Build the tenant context from the `extra` claims `processJwt` mapped,
+ * rejecting tokens without a well-formed tenant ID.
+ */
+export function parseTenantContext(authInfo: AuthInfo | undefined): TenantContext {
+  const extra = authInfo?.extra ?? {};
+  const tenantId = extra.tenantId;
+  if (typeof tenantId !== "string" || !TENANT_ID_PATTERN.test(tenantId)) {
+    throw new InvalidTokenError("Authentication failed: Token has no valid tenant.");
+  }
+  return {
+    tenantId,
+    tenantTier: readString(extra, "tenantTier") ?? "basic",
+    userId: readString(extra, "userId") ?? "anonymous",
+    principalType: extra.principalType === "machine" ? "machine" : "user",
+    clientId: authInfo?.clientId ?? "",
+    roles: Array.isArray(extra.roles) ? extra.roles.filter((role): role is string => typeof role === "string") : [],
+  };
+}
+
+/**
+ * The tenant context of a request, or `undefined` when its token carries no
+ * valid tenant. `tokenMiddleware` already rejects such tokens; handlers
+ * check again so they never reach tenant-scoped storage without a tenant.
+ */
+export function getTenantContext(authInfo: AuthInfo | undefined): TenantContext | undefined {
+  try {
+    return parseTenantContext(authInfo);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether the caller may decide on bookings awaiting approval: a user with
+ * the `APPROVER_ROLE` role (default `travel-approver`).
+ */
+export function isApprover(tenant: TenantContext): boolean {
+  return tenant.principalType === "user" && tenant.roles.includes(config.get("APPROVER_ROLE", "travel-approver"));
+}
@@ -1,14 +1,76 @@
 import type { Request, Response, NextFunction } from "express";
 import { processJwt } from "./jwt-verifier.js";
 import { requireBearerAuth } from '@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js';
+import { InsufficientScopeError } from '@modelcontextprotocol/sdk/server/auth/errors.js';
+import log4js from "../utils/logging.js";
+import { getScopePrefix, normalizeScopes, qualifyScopes, requiredScopesFor } from "./scopes.js";
+import { getTenantContext, parseTenantContext } from "./tenant-context.js";
+import { getResourceServerUrl } from "./resource-server.js";
 
+const l = log4js.getLogger("Token Middleware");
+
+/**
+ * Authenticate the bearer token. User tokens must carry `openid`;
+ * client-credentials tokens cannot, as there is no user to identify.
+ * Tokens without a valid tenant are rejected before any handler runs.
+ */
 export const tokenMiddleware = (req: Request, res: Response, next: NextFunction): void => {
-  const resourceMetadataUrl = `${req.get('X-Forwarded-Proto') ?? req.protocol}://${req.get('Host') ?? ''}/.well-known/oauth-protected-resource`;
+  const resourceServerUrl = getResourceServerUrl();
+  const resourceMetadataUrl = `${resourceServerUrl}/.well-known/oauth-protected-resource`;
+  const scopePrefix = getScopePrefix(resourceServerUrl);
   requireBearerAuth({
-    requiredScopes: ["openid"],
     resourceMetadataUrl,
     verifier: {
-      verifyAccessToken: (token) => processJwt(token),
+      verifyAccessToken: async (token) => {
+        const authInfo = await processJwt(token, resourceServerUrl);
+        const tenant = parseTenantContext(authInfo);
+        l.debug(`Authenticated ${tenant.principalType} ${tenant.userId} for tenant ${tenant.tenantId}`);
+        return { ...authInfo, scopes: normalizeScopes(authInfo.scopes, scopePrefix) };
+      },
+    }
+  })(req, res, (err?: unknown) => {
+    if (err !== undefined) {
+      next(err);
+      return;
+    }
+    if (getTenantContext(req.auth)?.principalType !== "machine" && !req.auth?.scopes.includes("openid")) {
+      const error = new InsufficientScopeError("Insufficient scope");
+      res.set(
+        'WWW-Authenticate',
+        `Bearer error="${error.errorCode}", error_description="${error.message}", scope="openid", resource_metadata="${resourceMetadataUrl}"`,
+      );
+      res.status(403).json(error.toResponseObject());
+      return;
     }
-  })(req, res, next);
-};
\ No newline at end of file
+    next();
+  });
+};
+
+/**
+ * Check that the token carries the scopes the requested tools and resources
+ * need. Must run after `tokenMiddleware`.
+ *
+ * Missing scopes are answered with 403 and a `WWW-Authenticate` challenge
+ * naming the scopes to request, so the client can step up and retry.
+ */
+export const toolScopeMiddleware = (req: Request, res: Response, next: NextFunction): void => {
+  const messages: unknown[] = Array.isArray(req.body) ? req.body : [req.body];
+  const granted = req.auth?.scopes ?? [];
+  const missing = [...new Set(messages.flatMap(requiredScopesFor))].filter(scope => !granted.includes(scope));
+  if (missing.length === 0) {
+    next();
+    return;
+  }
+
+  l.info(`Insufficient scope for client ${req.auth?.clientId ?? ''}: missing ${missing.join(', ')}`);
+  // The challenge lists everything already granted plus what is missing, so a
+  // client that replaces its token with the new one keeps its other scopes.
+  const resourceServerUrl = getResourceServerUrl();
+  const scope = qualifyScopes([...granted, ...missing], getScopePrefix(resourceServerUrl)).join(' ');
+  const error = new InsufficientScopeError(`Insufficient scope: requires ${missing.join(' ')}`);
+  res.set(
+    'WWW-Authenticate',
+    `Bearer error="${error.errorCode}", error_description="${error.message}", scope="${scope}", resource_metadata="${resourceServerUrl}/.well-known/oauth-protected-resource"`,
+  );
+  res.status(403).json(error.toResponseObject());
+};
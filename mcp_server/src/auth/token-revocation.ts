@@ -0,0 +1,173 @@
+import { createHash } from "crypto";
+import { InvalidTokenError, ServerError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import log4js from "../utils/logging.js";
+import config from "../utils/env-config.js";
+import { createRevocationStore, revocationSubject } from "./revocation-store.js";
+import type { RevocationStore } from "./revocation-store.js";
+
+const l = log4js.getLogger("Token Revocation");
+
+/**
+ * The claims of a verified token that can be revoked.
+ */
+export interface RevocableToken {
+  jti?: string;
+  sub?: string;
+  clientId: string;
+  exp?: number;
+}
+
+/**
+ * The part of an RFC 7662 introspection response we use.
+ */
+interface IntrospectionResponse {
+  active?: unknown;
+}
+
+let revocationStore: RevocationStore | undefined;
+const getRevocationStore = (): RevocationStore => {
+  revocationStore ??= createRevocationStore();
+  return revocationStore;
+};
+
+// Tokens that passed the checks, by token hash, until `expiresAt` (ms).
+const activeTokens = new Map<string, number>();
+
+/**
+ * Counters for the revocation checks, reported by the health check.
+ */
+export interface RevocationMetrics {
+  /** Revocation list reads that failed. */
+  storeFailures: number;
+  /** Tokens let through unchecked because of `REVOCATION_FAIL_OPEN`. */
+  failedOpen: number;
+}
+
+const metrics: RevocationMetrics = { storeFailures: 0, failedOpen: 0 };
+
+export function getRevocationMetrics(): RevocationMetrics {
+  return { ...metrics };
+}
+
+/**
+ * Replace the revocation store, e.g. with an in-memory store in tests.
+ */
+export const setRevocationStore = (store: RevocationStore): void => {
+  revocationStore = store;
+  activeTokens.clear();
+};
+
+/**
+ * Drop the cached results, so the next request checks again.
+ */
+export const clearRevocationCache = (): void => {
+  activeTokens.clear();
+};
+
+const getCacheTtlMs = (): number => Number(config.get("REVOCATION_CACHE_SECONDS", "30")) * 1000;
+
+const isFailOpen = (): boolean => config.get("REVOCATION_FAIL_OPEN", "false").toLowerCase() === "true";
+
+/**
+ * Ask the authorization server whether the token is still active (RFC 7662).
+ * The server authenticates with `INTROSPECTION_CLIENT_ID` and
+ * `INTROSPECTION_CLIENT_SECRET`, if set.
+ */
+async function introspect(endpoint: string, token: string): Promise<boolean> {
+  const clientId = config.get("INTROSPECTION_CLIENT_ID");
+  const clientSecret = config.get("INTROSPECTION_CLIENT_SECRET", "");
+  const headers: Record<string, string> = {
+    "Content-Type": "application/x-www-form-urlencoded",
+    Accept: "application/json",
+  };
+  if (clientId) {
+    // RFC 6749 section 2.3.1: both parts are form-encoded before base64.
+    const credentials = `${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+  }
+
+  const response = await fetch(endpoint, {
+    method: "POST",
+    headers,
+    body: new URLSearchParams({ token, token_type_hint: "access_token" }),
+    signal: AbortSignal.timeout(5000),
+  });
+  if (!response.ok) {
+    throw new Error(`Introspection failed: HTTP ${response.status}`);
+  }
+  const result = await response.json() as IntrospectionResponse;
+  return result.active === true;
+}
+
+/**
+ * Reject tokens that were revoked before they expired.
+ *
+ * The token's `jti`, user (`sub`) and client are looked up in the
+ * revocation list. If the list cannot be read the request fails, unless
+ * `REVOCATION_FAIL_OPEN=true`; the token is then let through but not cached,
+ * so the next request checks again. When `INTROSPECTION_ENDPOINT` is set the
+ * authorization server is asked as well (RFC 7662) and errors there fail the
+ * request.
+ *
+ * Tokens that pass are cached for `REVOCATION_CACHE_SECONDS` (at most until
+ * they expire), so a revocation takes effect within that time.
+ */
+export async function checkTokenRevocation(token: string, claims: RevocableToken): Promise<void> {
+  const key = createHash("sha256").update(token).digest("hex");
+  const cached = activeTokens.get(key);
+  if (cached !== undefined && cached > Date.now()) {
+    return;
+  }
+
+  const subjects = [
+    ...(claims.jti ? [revocationSubject.token(claims.jti)] : []),
+    ...(claims.sub ? [revocationSubject.user(claims.sub)] : []),
+    ...(claims.clientId ? [revocationSubject.client(claims.clientId)] : []),
+  ];
+  let revoked: boolean;
+  let checked = true;
+  try {
+    revoked = await getRevocationStore().isRevoked(subjects);
+  } catch (err) {
+    metrics.storeFailures++;
+    if (!isFailOpen()) {
+      l.error("Revocation store unavailable, rejecting the token", err);
+      throw new ServerError("Authentication failed: Token revocation list is unavailable.");
+    }
+    metrics.failedOpen++;
+    l.error("Revocation store unavailable, not checking the revocation list (REVOCATION_FAIL_OPEN)", err);
+    revoked = false;
+    checked = false;
+  }
+  if (revoked) {
+    l.warn(`Rejected revoked token ${claims.jti ?? ""} of user ${claims.sub ?? ""} from client ${claims.clientId}`);
+    throw new InvalidTokenError("Authentication failed: Token has been revoked.");
+  }
+
+  const endpoint = config.get("INTROSPECTION_ENDPOINT");
+  if (endpoint) {
+    let active: boolean;
+    try {
+      active = await introspect(endpoint, token);
+    } catch (err) {
+      l.error("Token introspection failed", err);
+      throw new ServerError("Authentication failed: Token introspection is unavailable.");
+    }
+    if (!active) {
+      l.warn(`Introspection reported token ${claims.jti ?? ""} from client ${claims.clientId} as inactive`);
+      throw new InvalidTokenError("Authentication failed: Token has been revoked.");
+    }
+  }
+
+  if (!checked) {
+    return;
+  }
+  const now = Date.now();
+  const expiresAt = Math.min(now + getCacheTtlMs(), claims.exp ? claims.exp * 1000 : Infinity);
+  if (activeTokens.size >= 10000) {
+    for (const [k, until] of activeTokens) {
+      if (until <= now) activeTokens.delete(k);
+    }
+  }
+  activeTokens.set(key, expiresAt);
+}
@@ -0,0 +1,129 @@
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient, GetCommand } from "@aws-sdk/lib-dynamodb";
+import { z } from "zod";
+import log4js from "../utils/logging.js";
+import config, { parseJsonConfig } from "../utils/env-config.js";
+
+const l = log4js.getLogger("Entitlement Store");
+
+/**
+ * Names of the tools, prompts and resource templates a tier or tenant may
+ * use. `"*"` allows everything of that kind. A list that is left out is
+ * inherited (tenant from tier, tier from the default).
+ */
+export interface EntitlementRule {
+  tools?: string[];
+  prompts?: string[];
+  resources?: string[];
+}
+
+/**
+ * Entitlement rules for tiers and individual tenants.
+ */
+export interface EntitlementStore {
+  getTierRule(tier: string): Promise<EntitlementRule | undefined>;
+  getTenantRule(tenantId: string): Promise<EntitlementRule | undefined>;
+}
+
+export interface EntitlementConfig {
+  tiers?: Record<string, EntitlementRule>;
+  tenants?: Record<string, EntitlementRule>;
+}
+
+const ruleSchema = z.object({
+  tools: z.array(z.string()).optional(),
+  prompts: z.array(z.string()).optional(),
+  resources: z.array(z.string()).optional(),
+});
+const entitlementConfigSchema = z.object({
+  tiers: z.record(z.string(), ruleSchema).optional(),
+  tenants: z.record(z.string(), ruleSchema).optional(),
+}) satisfies z.ZodType<EntitlementConfig>;
+
+/**
+ * Rules read from the `ENTITLEMENTS` JSON, e.g.
+ * `{"tiers":{"basic":{"tools":["whoami","list_bookings"]}},"tenants":{"acme":{"tools":["*"]}}}`.
+ * The variable is re-read on every lookup. Lookups throw
+ * `InvalidConfigError` while it is invalid.
+ */
+export class ConfigEntitlementStore implements EntitlementStore {
+  private parsed: { raw: string; config: EntitlementConfig } | undefined;
+
+  getTierRule(tier: string): Promise<EntitlementRule | undefined> {
+    return Promise.resolve(this.load().tiers?.[tier]);
+  }
+
+  getTenantRule(tenantId: string): Promise<EntitlementRule | undefined> {
+    return Promise.resolve(this.load().tenants?.[tenantId]);
+  }
+
+  private load(): EntitlementConfig {
+    const raw = config.get("ENTITLEMENTS", "");
+    if (this.parsed?.raw !== raw) {
+      this.parsed = { raw, config: raw ? parseJsonConfig("ENTITLEMENTS", raw, entitlementConfigSchema) : {} };
+    }
+    return this.parsed.config;
+  }
+}
+
+/**
+ * Rules kept in the tenant entitlements table, so they can be changed without
+ * a redeploy. Items are keyed by `subject`: `tier#<tier>` or
+ * `tenant#<tenantId>`, with optional `tools`, `prompts` and `resources` lists.
+ * Like the sessions table, the table belongs to the server and is read with
+ * the task role.
+ */
+export class DynamoDbEntitlementStore implements EntitlementStore {
+  private readonly client: DynamoDBDocumentClient;
+
+  constructor(private readonly tableName: string, client?: DynamoDBDocumentClient) {
+    this.client = client ?? DynamoDBDocumentClient.from(new DynamoDBClient({
+      region: process.env.AWS_DEFAULT_REGION ?? "us-east-1",
+    }));
+  }
+
+  getTierRule(tier: string): Promise<EntitlementRule | undefined> {
+    return this.getRule(`tier#${tier}`);
+  }
+
+  getTenantRule(tenantId: string): Promise<EntitlementRule | undefined> {
+    return this.getRule(`tenant#${tenantId}`);
+  }
+
+  private async getRule(subject: string): Promise<EntitlementRule | undefined> {
+    const result = await this.client.send(new GetCommand({
+      TableName: this.tableName,
+      Key: { subject },
+    }));
+    if (!result.Item) {
+      return undefined;
+    }
+    return {
+      tools: toList(result.Item.tools),
+      prompts: toList(result.Item.prompts),
+      resources: toList(result.Item.resources),
+    };
+  }
+}
+
+// Lists may be stored as DynamoDB lists or string sets.
+const toList = (value: unknown): string[] | undefined =>
+  value instanceof Set || Array.isArray(value) ? [...(value as Iterable<string>)] : undefined;
+
+/**
+ * Build the entitlement store selected by `ENTITLEMENT_STORE` (`config` or
+ * `dynamodb`).
+ */
+export function createEntitlementStore(): EntitlementStore {
+  const type = config.get("ENTITLEMENT_STORE", "config").toLowerCase();
+  if (type === "dynamodb") {
+    const tableName = config.get("ENTITLEMENTS_TABLE_NAME");
+    if (!tableName) {
+      throw new Error("ENTITLEMENTS_TABLE_NAME environment variable is required when ENTITLEMENT_STORE=dynamodb");
+    }
+    l.info(`Using DynamoDB entitlement store (${tableName})`);
+    return new DynamoDbEntitlementStore(tableName);
+  }
+  l.info("Using entitlements from configuration");
+  return new ConfigEntitlementStore();
+}
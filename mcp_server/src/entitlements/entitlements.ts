@@ -0,0 +1,122 @@
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import type {
+  RegisteredPrompt,
+  RegisteredResourceTemplate,
+  RegisteredTool,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import log4js from "../utils/logging.js";
+import config from "../utils/env-config.js";
+import { getTenantContext } from "../auth/tenant-context.js";
+import { createEntitlementStore } from "./entitlement-store.js";
+import type { EntitlementRule, EntitlementStore } from "./entitlement-store.js";
+
+const l = log4js.getLogger("Entitlements");
+
+/**
+ * The tools, prompts and resource templates one caller may use. A list
+ * containing `"*"` allows everything of that kind.
+ */
+export interface Entitlements {
+  tools: string[];
+  prompts: string[];
+  resources: string[];
+}
+
+const KINDS = ["tools", "prompts", "resources"] as const;
+
+// What a caller gets while their entitlements cannot be resolved.
+const NOTHING: Entitlements = { tools: [], prompts: [], resources: [] };
+
+export const isEntitled = (allowed: string[], name: string): boolean =>
+  allowed.includes("*") || allowed.includes(name);
+
+let entitlementStore: EntitlementStore | undefined;
+const getEntitlementStore = (): EntitlementStore => {
+  entitlementStore ??= createEntitlementStore();
+  return entitlementStore;
+};
+
+const cache = new Map<string, { entitlements: Entitlements; expiresAt: number }>();
+
+/**
+ * Replace the entitlement store, e.g. with a stub in tests. Also clears the
+ * cache.
+ */
+export const setEntitlementStore = (store: EntitlementStore): void => {
+  entitlementStore = store;
+  cache.clear();
+};
+
+const getCacheTtlMs = (): number =>
+  Number(config.get("ENTITLEMENTS_CACHE_SECONDS", "60")) * 1000;
+
+const combine = (tenantRule?: EntitlementRule, tierRule?: EntitlementRule): Entitlements => ({
+  tools: tenantRule?.tools ?? tierRule?.tools ?? ["*"],
+  prompts: tenantRule?.prompts ?? tierRule?.prompts ?? ["*"],
+  resources: tenantRule?.resources ?? tierRule?.resources ?? ["*"],
+});
+
+const loadEntitlements = async (store: EntitlementStore, tenantId: string, tier: string): Promise<Entitlements> => {
+  const [tenantRule, tierRule] = await Promise.all([
+    store.getTenantRule(tenantId),
+    // Unknown tiers get the `basic` rule, as they get the `basic` limits.
+    store.getTierRule(tier).then(rule => rule ?? (tier === "basic" ? undefined : store.getTierRule("basic"))),
+  ]);
+  return combine(tenantRule, tierRule);
+};
+
+/**
+ * Resolve what the caller's tenant is entitled to.
+ *
+ * A tenant rule overrides its tier's rule for each kind it lists; anything
+ * neither rule lists is allowed. Results are cached per tenant and tier for
+ * `ENTITLEMENTS_CACHE_SECONDS`, so changes in the store apply to new
+ * requests and sessions within that time. If the store cannot be read, the
+ * caller is entitled to nothing; that result is not cached, so the next
+ * request tries the store again.
+ */
+export async function resolveEntitlements(authInfo: AuthInfo | undefined): Promise<Entitlements> {
+  const tenant = getTenantContext(authInfo);
+  const tenantId = tenant?.tenantId ?? "";
+  const tier = tenant?.tenantTier ?? "basic";
+  const key = `${tenantId}#${tier}`;
+
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.entitlements;
+  }
+
+  let entitlements: Entitlements;
+  try {
+    entitlements = await loadEntitlements(getEntitlementStore(), tenantId, tier);
+  } catch (err) {
+    l.error(`Entitlement store unavailable, denying everything to tenant ${tenantId}`, err);
+    return NOTHING;
+  }
+  cache.set(key, { entitlements, expiresAt: Date.now() + getCacheTtlMs() });
+  return entitlements;
+}
+
+/**
+ * The registrations of a server, by name.
+ */
+export interface Registrations {
+  tools: Record<string, RegisteredTool>;
+  prompts: Record<string, RegisteredPrompt>;
+  resources: Record<string, RegisteredResourceTemplate>;
+}
+
+/**
+ * Remove everything the caller is not entitled to from a freshly created
+ * server. Removed tools, prompts and resource templates are left out of the
+ * list responses, and requests for them fail as if they did not exist.
+ */
+export function applyEntitlements(registered: Registrations, entitlements: Entitlements): void {
+  for (const kind of KINDS) {
+    for (const [name, item] of Object.entries<{ remove(): void }>(registered[kind])) {
+      if (!isEntitled(entitlements[kind], name)) {
+        item.remove();
+      }
+    }
+  }
+}
@@ -0,0 +1,148 @@
+import type { Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import log4js from "../utils/logging.js";
+import config, { parseJsonConfig } from "../utils/env-config.js";
+import { getTenantContext } from "../auth/tenant-context.js";
+import mcpErrors from "../mcp/mcp-errors.js";
+import { createUsageStore } from "./usage-store.js";
+import type { UsageStore } from "./usage-store.js";
+
+const l = log4js.getLogger("Tenant Limits");
+
+/**
+ * Limits for one tenant tier. Request limits apply to every authenticated
+ * MCP request; quotas only count `tools/call` requests.
+ */
+export interface TierLimits {
+  /** Requests per minute for each user of the tenant. */
+  requestsPerMinute: number;
+  /** Requests per minute for the tenant as a whole. */
+  tenantRequestsPerMinute: number;
+  /** Tool calls per UTC day for the tenant as a whole. */
+  dailyToolCalls: number;
+  /** Tool calls per UTC day for each user of the tenant. */
+  userDailyToolCalls: number;
+}
+
+const DEFAULT_TIER_LIMITS: Record<string, TierLimits> = {
+  basic: { requestsPerMinute: 60, tenantRequestsPerMinute: 300, dailyToolCalls: 1000, userDailyToolCalls: 200 },
+  standard: { requestsPerMinute: 120, tenantRequestsPerMinute: 600, dailyToolCalls: 5000, userDailyToolCalls: 1000 },
+  premium: { requestsPerMinute: 300, tenantRequestsPerMinute: 1500, dailyToolCalls: 20000, userDailyToolCalls: 5000 },
+};
+
+const limit = z.number().int().nonnegative().optional();
+const tierLimitsSchema = z.record(z.string(), z.object({
+  requestsPerMinute: limit,
+  tenantRequestsPerMinute: limit,
+  dailyToolCalls: limit,
+  userDailyToolCalls: limit,
+})) satisfies z.ZodType<Record<string, Partial<TierLimits>>>;
+
+let parsedOverrides: { raw: string; limits: Record<string, Partial<TierLimits>> } | undefined;
+
+const parseOverrides = (raw: string): Record<string, Partial<TierLimits>> => {
+  if (!raw) {
+    return {};
+  }
+  try {
+    return parseJsonConfig("TIER_LIMITS", raw, tierLimitsSchema);
+  } catch (error) {
+    l.error(`${(error as Error).message}; using the default tier limits`);
+    return {};
+  }
+};
+
+/**
+ * Resolve the limits for a tier. `TIER_LIMITS` can override any value or add
+ * tiers as JSON, e.g. `{"premium":{"dailyToolCalls":50000}}`. Unknown tiers
+ * get the `basic` limits, and an invalid `TIER_LIMITS` is logged and ignored.
+ */
+export function getTierLimits(tier: string): TierLimits {
+  const raw = config.get("TIER_LIMITS", "");
+  if (parsedOverrides?.raw !== raw) {
+    parsedOverrides = { raw, limits: parseOverrides(raw) };
+  }
+  const base = DEFAULT_TIER_LIMITS[tier] ?? DEFAULT_TIER_LIMITS.basic;
+  return { ...base, ...parsedOverrides.limits[tier] };
+}
+
+let usageStore: UsageStore | undefined;
+const getUsageStore = (): UsageStore => {
+  usageStore ??= createUsageStore();
+  return usageStore;
+};
+
+/**
+ * Replace the usage store, e.g. with a fresh in-memory store in tests.
+ */
+export const setUsageStore = (store: UsageStore): void => {
+  usageStore = store;
+};
+
+const countToolCalls = (body: unknown): number => {
+  const messages: unknown[] = Array.isArray(body) ? body : [body];
+  return messages.filter(m =>
+    typeof m === "object" && m !== null && (m as { method?: unknown }).method === "tools/call"
+  ).length;
+};
+
+const requestId = (body: unknown): string | number | null => {
+  const id = typeof body === "object" && body !== null ? (body as { id?: unknown }).id : undefined;
+  return typeof id === "string" || typeof id === "number" ? id : null;
+};
+
+const reject = (res: Response, error: ReturnType<typeof mcpErrors.rateLimitExceeded>, retryAfter: number): void => {
+  res.status(429).set("Retry-After", String(retryAfter)).json(error);
+};
+
+/**
+ * Enforce the caller's tier limits. Must run after `tokenMiddleware`, which
+ * provides the tenant, user and tier.
+ *
+ * Counters use fixed windows (the current minute and UTC day) in the shared
+ * usage store, so the limits hold across ECS tasks. If the store cannot be
+ * reached the request is let through rather than failing the service.
+ */
+export const tenantLimitsMiddleware = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const tenant = getTenantContext(req.auth);
+  const tenantId = tenant?.tenantId ?? "";
+  const userId = tenant?.userId ?? "anonymous";
+  const tier = tenant?.tenantTier ?? "basic";
+  const limits = getTierLimits(tier);
+  const store = getUsageStore();
+
+  const now = Math.floor(Date.now() / 1000);
+  const minute = Math.floor(now / 60);
+  const minuteReset = (minute + 1) * 60;
+  const day = Math.floor(now / 86400);
+  const dayReset = (day + 1) * 86400;
+
+  try {
+    const [userRequests, tenantRequests] = await Promise.all([
+      store.increment(`rate#${tenantId}#${userId}#${minute}`, 1, minuteReset),
+      store.increment(`rate#${tenantId}#${minute}`, 1, minuteReset),
+    ]);
+    if (userRequests > limits.requestsPerMinute || tenantRequests > limits.tenantRequestsPerMinute) {
+      l.warn(`Rate limit exceeded for tenant ${tenantId} (${tier}), user ${userId}`);
+      reject(res, mcpErrors.rateLimitExceeded(minuteReset - now, requestId(req.body)), minuteReset - now);
+      return;
+    }
+
+    const toolCalls = countToolCalls(req.body);
+    if (toolCalls > 0) {
+      const [userCalls, tenantCalls] = await Promise.all([
+        store.increment(`quota#${tenantId}#${userId}#${day}`, toolCalls, dayReset),
+        store.increment(`quota#${tenantId}#${day}`, toolCalls, dayReset),
+      ]);
+      if (userCalls > limits.userDailyToolCalls || tenantCalls > limits.dailyToolCalls) {
+        l.warn(`Daily tool call quota exceeded for tenant ${tenantId} (${tier}), user ${userId}`);
+        reject(res, mcpErrors.quotaExceeded(dayReset - now, requestId(req.body)), dayReset - now);
+        return;
+      }
+    }
+  } catch (err) {
+    l.error("Usage store unavailable, not enforcing tenant limits", err);
+  }
+
+  next();
+};
@@ -0,0 +1,84 @@
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient, UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import log4js from "../utils/logging.js";
+import config from "../utils/env-config.js";
+
+const l = log4js.getLogger("Usage Store");
+
+/**
+ * Counters for fixed-window rate limits and quotas.
+ *
+ * Each counter key names one window (e.g. a tenant's minute or day), so a
+ * counter is never reset: it simply expires after `expiresAt`.
+ */
+export interface UsageStore {
+  /**
+   * Add `amount` to the counter and return its new value.
+   */
+  increment(key: string, amount: number, expiresAt: number): Promise<number>;
+}
+
+const nowSeconds = (): number => Math.floor(Date.now() / 1000);
+
+/**
+ * Process-local counters. Limits are then enforced per task rather than
+ * across the service.
+ */
+export class InMemoryUsageStore implements UsageStore {
+  private readonly counters = new Map<string, { count: number; expiresAt: number }>();
+
+  increment(key: string, amount: number, expiresAt: number): Promise<number> {
+    const now = nowSeconds();
+    for (const [k, counter] of this.counters) {
+      if (counter.expiresAt <= now) this.counters.delete(k);
+    }
+    const counter = this.counters.get(key) ?? { count: 0, expiresAt };
+    counter.count += amount;
+    this.counters.set(key, counter);
+    return Promise.resolve(counter.count);
+  }
+}
+
+/**
+ * DynamoDB-backed counters shared by all ECS tasks. Like the sessions table,
+ * the usage table belongs to the server and is accessed with the task role.
+ * Old windows are removed by the table's TTL on `expiresAt`.
+ */
+export class DynamoDbUsageStore implements UsageStore {
+  private readonly client: DynamoDBDocumentClient;
+
+  constructor(private readonly tableName: string, client?: DynamoDBDocumentClient) {
+    this.client = client ?? DynamoDBDocumentClient.from(new DynamoDBClient({
+      region: process.env.AWS_DEFAULT_REGION ?? "us-east-1",
+    }));
+  }
+
+  async increment(key: string, amount: number, expiresAt: number): Promise<number> {
+    const result = await this.client.send(new UpdateCommand({
+      TableName: this.tableName,
+      Key: { counterKey: key },
+      UpdateExpression: "ADD #count :amount SET expiresAt = if_not_exists(expiresAt, :expiresAt)",
+      ExpressionAttributeNames: { "#count": "count" },
+      ExpressionAttributeValues: { ":amount": amount, ":expiresAt": expiresAt },
+      ReturnValues: "UPDATED_NEW",
+    }));
+    return result.Attributes?.count as number;
+  }
+}
+
+/**
+ * Build the usage store selected by `USAGE_STORE` (`memory` or `dynamodb`).
+ */
+export function createUsageStore(): UsageStore {
+  const type = config.get("USAGE_STORE", "memory").toLowerCase();
+  if (type === "dynamodb") {
+    const tableName = config.get("USAGE_TABLE_NAME");
+    if (!tableName) {
+      throw new Error("USAGE_TABLE_NAME environment variable is required when USAGE_STORE=dynamodb");
+    }
+    l.info(`Using DynamoDB usage store (${tableName})`);
+    return new DynamoDbUsageStore(tableName);
+  }
+  l.info("Using in-memory usage store");
+  return new InMemoryUsageStore();
+}
@@ -0,0 +1,225 @@
+import { randomUUID } from "crypto";
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient, GetCommand, PutCommand, QueryCommand } from "@aws-sdk/lib-dynamodb";
+import type { EventId, EventStore, StreamId } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import log4js from "../utils/logging.js";
+import config from "../utils/env-config.js";
+
+const l = log4js.getLogger("Event Store");
+
+export interface StoredEvent {
+  sequence: string;
+  message: JSONRPCMessage;
+}
+
+/**
+ * Storage for SSE events, grouped into partitions of ordered events.
+ *
+ * Backends know nothing about tenants: `TenantEventStore` builds the
+ * partition key from the tenant, session and stream so every lookup is
+ * confined to the caller's own events.
+ */
+export interface EventLog {
+  append(streamKey: string, event: StoredEvent, expiresAt: number): Promise<void>;
+  has(streamKey: string, sequence: string): Promise<boolean>;
+  listAfter(streamKey: string, sequence: string): Promise<StoredEvent[]>;
+}
+
+export const getEventTtlSeconds = (): number =>
+  Number(config.get("EVENT_TTL_SECONDS", "900"));
+
+const nowSeconds = (): number => Math.floor(Date.now() / 1000);
+
+// Sequences sort lexicographically in write order on this task; the task
+// suffix keeps them unique when several tasks write to the same stream.
+const taskSuffix = randomUUID().slice(0, 8);
+let counter = 0;
+const nextSequence = (): string => {
+  counter = (counter + 1) % 1_000_000;
+  return `${String(Date.now()).padStart(13, "0")}-${String(counter).padStart(6, "0")}-${taskSuffix}`;
+};
+
+/**
+ * Process-local event log. Events are dropped once their TTL has passed.
+ */
+export class InMemoryEventLog implements EventLog {
+  private readonly streams = new Map<string, (StoredEvent & { expiresAt: number })[]>();
+
+  append(streamKey: string, event: StoredEvent, expiresAt: number): Promise<void> {
+    this.prune();
+    const events = this.streams.get(streamKey) ?? [];
+    events.push({ ...event, expiresAt });
+    this.streams.set(streamKey, events);
+    return Promise.resolve();
+  }
+
+  has(streamKey: string, sequence: string): Promise<boolean> {
+    this.prune();
+    return Promise.resolve(this.streams.get(streamKey)?.some(e => e.sequence === sequence) ?? false);
+  }
+
+  listAfter(streamKey: string, sequence: string): Promise<StoredEvent[]> {
+    this.prune();
+    const events = (this.streams.get(streamKey) ?? [])
+      .filter(e => e.sequence > sequence)
+      .map(({ sequence, message }) => ({ sequence, message }));
+    return Promise.resolve(events);
+  }
+
+  private prune(): void {
+    const now = nowSeconds();
+    for (const [streamKey, events] of this.streams) {
+      const live = events.filter(e => e.expiresAt > now);
+      if (live.length === 0) {
+        this.streams.delete(streamKey);
+      } else if (live.length !== events.length) {
+        this.streams.set(streamKey, live);
+      }
+    }
+  }
+}
+
+/**
+ * DynamoDB-backed event log shared by all ECS tasks. Expired events are
+ * removed by the table's TTL on `expiresAt` and filtered out on read.
+ */
+export class DynamoDbEventLog implements EventLog {
+  private readonly client: DynamoDBDocumentClient;
+
+  constructor(private readonly tableName: string, client?: DynamoDBDocumentClient) {
+    this.client = client ?? DynamoDBDocumentClient.from(new DynamoDBClient({
+      region: process.env.AWS_DEFAULT_REGION ?? "us-east-1",
+    }));
+  }
+
+  async append(streamKey: string, event: StoredEvent, expiresAt: number): Promise<void> {
+    await this.client.send(new PutCommand({
+      TableName: this.tableName,
+      Item: { streamKey, sequence: event.sequence, message: JSON.stringify(event.message), expiresAt },
+    }));
+  }
+
+  async has(streamKey: string, sequence: string): Promise<boolean> {
+    const result = await this.client.send(new GetCommand({
+      TableName: this.tableName,
+      Key: { streamKey, sequence },
+    }));
+    const expiresAt = result.Item?.expiresAt as number | undefined;
+    return expiresAt !== undefined && expiresAt > nowSeconds();
+  }
+
+  async listAfter(streamKey: string, sequence: string): Promise<StoredEvent[]> {
+    const events: StoredEvent[] = [];
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+    do {
+      const result = await this.client.send(new QueryCommand({
+        TableName: this.tableName,
+        KeyConditionExpression: "streamKey = :streamKey AND #sequence > :sequence",
+        FilterExpression: "expiresAt > :now",
+        ExpressionAttributeNames: { "#sequence": "sequence" },
+        ExpressionAttributeValues: {
+          ":streamKey": streamKey,
+          ":sequence": sequence,
+          ":now": nowSeconds(),
+        },
+        ConsistentRead: true,
+        ExclusiveStartKey: exclusiveStartKey,
+      }));
+      for (const item of result.Items ?? []) {
+        events.push({
+          sequence: item.sequence as string,
+          message: JSON.parse(item.message as string) as JSONRPCMessage,
+        });
+      }
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+    return events;
+  }
+}
+
+/**
+ * `EventStore` for one session's transport.
+ *
+ * Event IDs carry the SDK stream ID and a sequence, but the partition they
+ * resolve to is always built from the tenant and session this store was
+ * created for. A `Last-Event-ID` copied from another tenant therefore finds
+ * nothing rather than another tenant's stream.
+ */
+export class TenantEventStore implements EventStore {
+  constructor(
+    private readonly log: EventLog,
+    private readonly tenantId: string,
+    private readonly sessionId: string,
+  ) {}
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const sequence = nextSequence();
+    await this.log.append(this.streamKey(streamId), { sequence, message }, nowSeconds() + getEventTtlSeconds());
+    return `${Buffer.from(streamId).toString("base64url")}.${sequence}`;
+  }
+
+  async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+    const parsed = parseEventId(eventId);
+    if (!parsed || !(await this.log.has(this.streamKey(parsed.streamId), parsed.sequence))) {
+      return undefined;
+    }
+    return parsed.streamId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> },
+  ): Promise<StreamId> {
+    const parsed = parseEventId(lastEventId);
+    if (!parsed) {
+      throw new Error("Invalid event ID");
+    }
+    const events = await this.log.listAfter(this.streamKey(parsed.streamId), parsed.sequence);
+    const prefix = lastEventId.substring(0, lastEventId.indexOf("."));
+    for (const event of events) {
+      // Priming events are stored as `{}` and carry no message to replay.
+      if (!("jsonrpc" in event.message)) continue;
+      await send(`${prefix}.${event.sequence}`, event.message);
+    }
+    l.debug(`Replayed ${events.length} event(s) on stream ${parsed.streamId} of session ${this.sessionId}`);
+    return parsed.streamId;
+  }
+
+  private streamKey(streamId: StreamId): string {
+    return `${this.tenantId}#${this.sessionId}#${streamId}`;
+  }
+}
+
+const parseEventId = (eventId: EventId): { streamId: StreamId; sequence: string } | undefined => {
+  const separator = eventId.indexOf(".");
+  if (separator <= 0 || separator === eventId.length - 1) {
+    return undefined;
+  }
+  return {
+    streamId: Buffer.from(eventId.substring(0, separator), "base64url").toString(),
+    sequence: eventId.substring(separator + 1),
+  };
+};
+
+/**
+ * Build the event log selected by `EVENT_STORE` (`memory`, `dynamodb` or
+ * `none` to disable resumability).
+ */
+export function createEventLog(): EventLog | undefined {
+  const type = config.get("EVENT_STORE", "memory").toLowerCase();
+  if (type === "none") {
+    l.info("Resumable streams disabled");
+    return undefined;
+  }
+  if (type === "dynamodb") {
+    const tableName = config.get("EVENT_TABLE_NAME");
+    if (!tableName) {
+      throw new Error("EVENT_TABLE_NAME environment variable is required when EVENT_STORE=dynamodb");
+    }
+    l.info(`Using DynamoDB event store (${tableName})`);
+    return new DynamoDbEventLog(tableName);
+  }
+  l.info("Using in-memory event store");
+  return new InMemoryEventLog();
+}
@@ -3,18 +3,20 @@ interface JsonRpcError {
     error: {
         code: number;
         message: string;
+        data?: Record<string, unknown>;
     };
-    id: null;
+    id: string | number | null;
 }
 
-function build(code: number, message: string): JsonRpcError {
+function build(code: number, message: string, data?: Record<string, unknown>, id: string | number | null = null): JsonRpcError {
     return {
         jsonrpc: '2.0',
         error: {
             code,
             message,
+            ...(data ? { data } : {}),
         },
-        id: null,
+        id,
     };
 }
 
@@ -32,6 +34,10 @@ export default {
         return build(-32000, 'Invalid or missing session ID');
     },
 
+    get sessionNotFound(): JsonRpcError {
+        return build(-32000, 'Session not found');
+    },
+
     get methodNotAllowed(): JsonRpcError {
         return build(-32000, 'Method not allowed');
     },
@@ -54,6 +60,14 @@ export default {
     
     get emptyToken(): JsonRpcError {
         return build(-32005, 'Authentication failed: Empty token provided');
+    },
+
+    rateLimitExceeded(retryAfterSeconds: number, id?: string | number | null): JsonRpcError {
+        return build(-32029, 'Rate limit exceeded', { retryAfterSeconds }, id);
+    },
+
+    quotaExceeded(retryAfterSeconds: number, id?: string | number | null): JsonRpcError {
+        return build(-32030, 'Daily tool call quota exceeded', { retryAfterSeconds }, id);
     }
 
 }
\ No newline at end of file
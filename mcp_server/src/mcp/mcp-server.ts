@@ -3,8 +3,15 @@ import { metadata } from "../utils/metadata.js";
 import { registerTools } from "../tools/register.js";
 import { registerResources } from "../resources/register.js";
 import { registerPrompts } from "../prompts/register.js";
+import { applyEntitlements } from "../entitlements/entitlements.js";
+import type { Entitlements } from "../entitlements/entitlements.js";
 
-const create = () => {
+/**
+ * Create a server for one caller. With `entitlements`, only the tools,
+ * prompts and resource templates the caller's tenant is entitled to are
+ * exposed; without, everything is.
+ */
+const create = (entitlements?: Entitlements) => {
   const mcpServer = new McpServer(
     {
       name: "TravelBookingMCPServer",
@@ -20,9 +27,15 @@ const create = () => {
     }
   );
 
-  registerTools(mcpServer);
-  registerResources(mcpServer);
-  registerPrompts(mcpServer);
+  const registered = {
+    tools: registerTools(mcpServer),
+    resources: registerResources(mcpServer),
+    prompts: registerPrompts(mcpServer),
+  };
+
+  if (entitlements) {
+    applyEntitlements(registered, entitlements);
+  }
 
   return mcpServer;
 };
@@ -0,0 +1,171 @@
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient, DeleteCommand, GetCommand, PutCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import type { InitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import log4js from "../utils/logging.js";
+import config from "../utils/env-config.js";
+import { getTenantContext } from "../auth/tenant-context.js";
+
+const l = log4js.getLogger("Session Store");
+
+/**
+ * A Streamable HTTP session issued by this server.
+ *
+ * Sessions are bound to the tenant and user that initialized them, so a
+ * `Mcp-Session-Id` leaked to another principal cannot be reused.
+ */
+export interface SessionRecord {
+  sessionId: string;
+  tenantId: string;
+  userId: string;
+  createdAt: string;
+  lastAccessedAt: string;
+  /** Epoch seconds; doubles as the DynamoDB TTL attribute. */
+  expiresAt: number;
+  /**
+   * The client's `initialize` parameters, replayed when another task
+   * rebuilds the session's transport.
+   */
+  initializeParams?: InitializeRequest["params"];
+}
+
+export interface SessionStore {
+  create(record: SessionRecord): Promise<void>;
+  get(sessionId: string): Promise<SessionRecord | undefined>;
+  touch(sessionId: string, expiresAt: number): Promise<void>;
+  delete(sessionId: string): Promise<void>;
+}
+
+export const getSessionTtlSeconds = (): number =>
+  Number(config.get("SESSION_TTL_SECONDS", "3600"));
+
+export const nextExpiry = (): number =>
+  Math.floor(Date.now() / 1000) + getSessionTtlSeconds();
+
+const isExpired = (record: SessionRecord): boolean =>
+  record.expiresAt <= Math.floor(Date.now() / 1000);
+
+/**
+ * Check that a session belongs to the caller identified by `authInfo`.
+ */
+export const isSessionOwner = (record: SessionRecord, authInfo: AuthInfo | undefined): boolean => {
+  const tenant = getTenantContext(authInfo);
+  return !!tenant && record.tenantId === tenant.tenantId && record.userId === tenant.userId;
+};
+
+/**
+ * Process-local session store. Only suitable for a single task; sessions are
+ * lost on restart and are not visible to other ECS tasks.
+ */
+export class InMemorySessionStore implements SessionStore {
+  private readonly sessions = new Map<string, SessionRecord>();
+
+  create(record: SessionRecord): Promise<void> {
+    this.sessions.set(record.sessionId, { ...record });
+    return Promise.resolve();
+  }
+
+  get(sessionId: string): Promise<SessionRecord | undefined> {
+    const record = this.sessions.get(sessionId);
+    if (record && isExpired(record)) {
+      this.sessions.delete(sessionId);
+      return Promise.resolve(undefined);
+    }
+    return Promise.resolve(record ? { ...record } : undefined);
+  }
+
+  touch(sessionId: string, expiresAt: number): Promise<void> {
+    const record = this.sessions.get(sessionId);
+    if (record) {
+      record.expiresAt = expiresAt;
+      record.lastAccessedAt = new Date().toISOString();
+    }
+    return Promise.resolve();
+  }
+
+  delete(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+    return Promise.resolve();
+  }
+}
+
+/**
+ * DynamoDB-backed session store shared by all ECS tasks.
+ *
+ * The sessions table is owned by the server rather than a tenant, so it is
+ * accessed with the task role instead of tenant-scoped STS credentials.
+ * Expired items are removed by the table's TTL on `expiresAt`; reads also
+ * filter them out because TTL deletion is not immediate.
+ */
+export class DynamoDbSessionStore implements SessionStore {
+  private readonly client: DynamoDBDocumentClient;
+
+  constructor(private readonly tableName: string, client?: DynamoDBDocumentClient) {
+    this.client = client ?? DynamoDBDocumentClient.from(new DynamoDBClient({
+      region: process.env.AWS_DEFAULT_REGION ?? "us-east-1",
+    }));
+  }
+
+  async create(record: SessionRecord): Promise<void> {
+    await this.client.send(new PutCommand({
+      TableName: this.tableName,
+      Item: record,
+      ConditionExpression: "attribute_not_exists(sessionId)",
+    }));
+  }
+
+  async get(sessionId: string): Promise<SessionRecord | undefined> {
+    const result = await this.client.send(new GetCommand({
+      TableName: this.tableName,
+      Key: { sessionId },
+      ConsistentRead: true,
+    }));
+    const record = result.Item as SessionRecord | undefined;
+    return record && !isExpired(record) ? record : undefined;
+  }
+
+  async touch(sessionId: string, expiresAt: number): Promise<void> {
+    try {
+      await this.client.send(new UpdateCommand({
+        TableName: this.tableName,
+        Key: { sessionId },
+        UpdateExpression: "SET expiresAt = :expiresAt, lastAccessedAt = :now",
+        ConditionExpression: "attribute_exists(sessionId)",
+        ExpressionAttributeValues: {
+          ":expiresAt": expiresAt,
+          ":now": new Date().toISOString(),
+        },
+      }));
+    } catch (error) {
+      // The session may have been deleted by another task in the meantime.
+      const name = error instanceof Error ? error.name : "";
+      if (name !== "ConditionalCheckFailedException") {
+        throw error;
+      }
+    }
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await this.client.send(new DeleteCommand({
+      TableName: this.tableName,
+      Key: { sessionId },
+    }));
+  }
+}
+
+/**
+ * Build the session store selected by `SESSION_STORE` (`memory` or `dynamodb`).
+ */
+export function createSessionStore(): SessionStore {
+  const type = config.get("SESSION_STORE", "memory").toLowerCase();
+  if (type === "dynamodb") {
+    const tableName = config.get("SESSION_TABLE_NAME");
+    if (!tableName) {
+      throw new Error("SESSION_TABLE_NAME environment variable is required when SESSION_STORE=dynamodb");
+    }
+    l.info(`Using DynamoDB session store (${tableName})`);
+    return new DynamoDbSessionStore(tableName);
+  }
+  l.info("Using in-memory session store");
+  return new InMemorySessionStore();
+}
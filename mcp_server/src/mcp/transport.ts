@@ -1,36 +1,320 @@
 import type { Request, Response } from "express";
+import { randomUUID } from "crypto";
+import { IncomingMessage, ServerResponse } from "http";
+import { Socket } from "net";
 import log4js from "../utils/logging.js";
+import config from "../utils/env-config.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { isInitializeRequest, LATEST_PROTOCOL_VERSION } from "@modelcontextprotocol/sdk/types.js";
+import type { InitializeRequest } from "@modelcontextprotocol/sdk/types.js";
 import mcpServer from "./mcp-server.js";
 import mcpErrors from "./mcp-errors.js";
+import { createSessionStore, getSessionTtlSeconds, isSessionOwner, nextExpiry } from "./session-store.js";
+import type { SessionRecord, SessionStore } from "./session-store.js";
+import { createEventLog, TenantEventStore } from "./event-store.js";
+import type { EventLog } from "./event-store.js";
+import { resolveEntitlements } from "../entitlements/entitlements.js";
+import { parseTenantContext } from "../auth/tenant-context.js";
 
 const l = log4js.getLogger("Transport");
 
-export const postRequestHandler = async (req: Request, res: Response): Promise<void> => {
+/**
+ * Stateful mode is opt-in via `MCP_SESSION_MODE=stateful`. The default keeps
+ * the original stateless behaviour: a fresh server and transport per POST.
+ */
+export const isStatefulMode = (): boolean =>
+  config.get("MCP_SESSION_MODE", "stateless").toLowerCase() === "stateful";
+
+interface LiveSession {
+  server: McpServer;
+  transport: StreamableHTTPServerTransport;
+  lastSeen: number;
+}
+
+// Transports currently held by this task. The session store is the source of
+// truth; this map only avoids rebuilding a transport for every request.
+const liveSessions = new Map<string, LiveSession>();
+// Rehydrations in progress, so concurrent requests share one transport.
+const rehydrating = new Map<string, Promise<LiveSession>>();
+
+let sessionStore: SessionStore | undefined;
+const getSessionStore = (): SessionStore => {
+  sessionStore ??= createSessionStore();
+  return sessionStore;
+};
+
+/**
+ * Replace the session store, e.g. with an in-memory store in tests.
+ */
+export const setSessionStore = (store: SessionStore): void => {
+  sessionStore = store;
+};
+
+let eventLog: EventLog | undefined | null = null;
+const createEventStore = (tenantId: string, sessionId: string): TenantEventStore | undefined => {
+  if (eventLog === null) {
+    eventLog = createEventLog();
+  }
+  return eventLog ? new TenantEventStore(eventLog, tenantId, sessionId) : undefined;
+};
+
+/**
+ * Replace the event log backing resumable streams, e.g. in tests.
+ */
+export const setEventLog = (log: EventLog | undefined): void => {
+  eventLog = log;
+};
+
+const closeLiveSession = (sessionId: string): void => {
+  const live = liveSessions.get(sessionId);
+  if (!live) return;
+  liveSessions.delete(sessionId);
+  void live.transport.close();
+  void live.server.close();
+};
+
+// Evict transports that have been idle for longer than the session TTL so a
+// task does not hold on to sessions that expired or moved to another task.
+setInterval(() => {
+  const cutoff = Date.now() - getSessionTtlSeconds() * 1000;
+  for (const [sessionId, live] of liveSessions) {
+    if (live.lastSeen < cutoff) {
+      l.debug(`Evicting idle session ${sessionId}`);
+      closeLiveSession(sessionId);
+    }
+  }
+}, 60 * 1000).unref();
+
+const createSessionTransport = async (req: Request, initializeParams: InitializeRequest["params"]): Promise<LiveSession> => {
+  // Entitlements are resolved once per session; changes apply to new sessions.
+  const server = mcpServer.create(await resolveEntitlements(req.auth));
+  const { tenantId, userId } = parseTenantContext(req.auth);
+  // Generated up front so the event store can be scoped to the session.
+  const newSessionId = randomUUID();
+  const live: LiveSession = {
+    server,
+    lastSeen: Date.now(),
+    transport: new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => newSessionId,
+      eventStore: createEventStore(tenantId, newSessionId),
+      onsessioninitialized: async (sessionId) => {
+        const now = new Date().toISOString();
+        await getSessionStore().create({
+          sessionId,
+          tenantId,
+          userId,
+          createdAt: now,
+          lastAccessedAt: now,
+          expiresAt: nextExpiry(),
+          initializeParams,
+        });
+        liveSessions.set(sessionId, live);
+        l.info(`Session ${sessionId} initialized for tenant ${tenantId}`);
+      },
+      onsessionclosed: async (sessionId) => {
+        await getSessionStore().delete(sessionId);
+        l.info(`Session ${sessionId} terminated by client`);
+      },
+    }),
+  };
+  live.transport.onclose = () => {
+    const sessionId = live.transport.sessionId;
+    if (sessionId && liveSessions.get(sessionId) === live) {
+      liveSessions.delete(sessionId);
+    }
+  };
+  return live;
+};
+
+/**
+ * Replay the session's `initialize` request on a new transport. The
+ * generator hands out the stored session ID, so the transport ends up in the
+ * same state as the one that handled the original handshake.
+ */
+const replayInitialize = async (transport: StreamableHTTPServerTransport, record: SessionRecord): Promise<void> => {
+  const req = new IncomingMessage(new Socket());
+  req.method = "POST";
+  req.url = "/mcp";
+  req.headers = {
+    host: "localhost",
+    "content-type": "application/json",
+    accept: "application/json, text/event-stream",
+  };
+  req.rawHeaders = Object.entries(req.headers).flatMap(([name, value]) => [name, String(value)]);
+  req.push(null);
+  const res = new ServerResponse(req);
+
+  await transport.handleRequest(req, res, {
+    jsonrpc: "2.0",
+    id: 0,
+    method: "initialize",
+    // Sessions created before the parameters were stored get the defaults.
+    params: record.initializeParams ?? {
+      protocolVersion: LATEST_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: { name: "rehydrated", version: "0.0.0" },
+    },
+  });
+  if (res.statusCode !== 200 || transport.sessionId !== record.sessionId) {
+    throw new Error(`Failed to rehydrate session ${record.sessionId}: initialize returned ${res.statusCode}`);
+  }
+};
+
+/**
+ * Rebuild a transport for a session that was initialized by another task
+ * (or before this task evicted it).
+ */
+const rehydrateSessionTransport = async (req: Request, record: SessionRecord): Promise<LiveSession> => {
+  const server = mcpServer.create(await resolveEntitlements(req.auth));
+  const live: LiveSession = {
+    server,
+    lastSeen: Date.now(),
+    transport: new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => record.sessionId,
+      eventStore: createEventStore(record.tenantId, record.sessionId),
+      onsessionclosed: async (sessionId) => {
+        await getSessionStore().delete(sessionId);
+        l.info(`Session ${sessionId} terminated by client`);
+      },
+    }),
+  };
+  live.transport.onclose = () => {
+    if (liveSessions.get(record.sessionId) === live) {
+      liveSessions.delete(record.sessionId);
+    }
+  };
+  await server.connect(live.transport);
   try {
+    await replayInitialize(live.transport, record);
+  } catch (error) {
+    void live.transport.close();
+    void server.close();
+    throw error;
+  }
+  liveSessions.set(record.sessionId, live);
+  l.debug(`Session ${record.sessionId} rehydrated on this task`);
+  return live;
+};
 
-    // Create new instances of MCP Server and Transport for each incoming request
-    const bookingMcpServer = mcpServer.create();
-    const transport = new StreamableHTTPServerTransport({
-      // This is a stateless MCP server, so we don't need to keep track of sessions
-      sessionIdGenerator: undefined
-    });
+/**
+ * Rehydrate a session, sharing a single rebuild between concurrent requests.
+ */
+const rehydrate = (req: Request, record: SessionRecord): Promise<LiveSession> => {
+  const pending = rehydrating.get(record.sessionId);
+  if (pending) {
+    return pending;
+  }
 
-    res.on("close", () => {
-      void transport.close();
-      void bookingMcpServer.close();
+  const request = rehydrateSessionTransport(req, record)
+    .finally(() => {
+      rehydrating.delete(record.sessionId);
     });
-    
-    await bookingMcpServer.connect(transport);
-    await transport.handleRequest(req, res, req.body);
-  } catch (_err) {
+
+  rehydrating.set(record.sessionId, request);
+  return request;
+};
+
+/**
+ * Resolve the session named by the `Mcp-Session-Id` header and check that it
+ * belongs to the authenticated caller. Writes the error response and returns
+ * `undefined` if the session cannot be used.
+ */
+const resolveSession = async (req: Request, res: Response): Promise<LiveSession | undefined> => {
+  const sessionId = req.get("mcp-session-id");
+  if (!sessionId) {
+    res.status(400).json(mcpErrors.invalidOrMissingSessionId);
+    return undefined;
+  }
+
+  const store = getSessionStore();
+  const record = await store.get(sessionId);
+  // Sessions owned by someone else are reported as not found so the
+  // response does not reveal that the ID exists.
+  if (!record || !isSessionOwner(record, req.auth)) {
+    if (record) {
+      l.warn(`Session ${sessionId} presented by a principal that does not own it`);
+    }
+    closeLiveSession(sessionId);
+    res.status(404).json(mcpErrors.sessionNotFound);
+    return undefined;
+  }
+
+  await store.touch(sessionId, nextExpiry());
+  const live = liveSessions.get(sessionId) ?? await rehydrate(req, record);
+  live.lastSeen = Date.now();
+  return live;
+};
+
+const statelessPostHandler = async (req: Request, res: Response): Promise<void> => {
+  // Create new instances of MCP Server and Transport for each incoming request
+  const bookingMcpServer = mcpServer.create(await resolveEntitlements(req.auth));
+  const transport = new StreamableHTTPServerTransport({
+    // This is a stateless MCP server, so we don't need to keep track of sessions
+    sessionIdGenerator: undefined
+  });
+
+  res.on("close", () => {
+    void transport.close();
+    void bookingMcpServer.close();
+  });
+
+  await bookingMcpServer.connect(transport);
+  await transport.handleRequest(req, res, req.body);
+};
+
+const statefulPostHandler = async (req: Request, res: Response): Promise<void> => {
+  if (!req.get("mcp-session-id")) {
+    if (!isInitializeRequest(req.body)) {
+      res.status(400).json(mcpErrors.noValidSessionId);
+      return;
+    }
+    const live = await createSessionTransport(req, req.body.params);
+    await live.server.connect(live.transport);
+    await live.transport.handleRequest(req, res, req.body);
+    return;
+  }
+
+  const live = await resolveSession(req, res);
+  if (!live) return;
+  await live.transport.handleRequest(req, res, req.body);
+};
+
+export const postRequestHandler = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (isStatefulMode()) {
+      await statefulPostHandler(req, res);
+    } else {
+      await statelessPostHandler(req, res);
+    }
+  } catch (err) {
+    l.error("Error handling MCP POST request", err);
     if (!res.headersSent) {
       res.status(500).json(mcpErrors.internalServerError);
     }
   }
 };
 
-export const sessionRequestHandler = (req: Request, res: Response): void => {
-  l.debug("-- Returning 405 not allowed --")
-  res.status(405).set("Allow", "POST").json(mcpErrors.methodNotAllowed);
+/**
+ * Handles GET (standalone SSE stream) and DELETE (session termination) on
+ * `/mcp`. Both require a session, so they are only allowed in stateful mode.
+ */
+export const sessionRequestHandler = async (req: Request, res: Response): Promise<void> => {
+  if (!isStatefulMode()) {
+    l.debug("-- Returning 405 not allowed --")
+    res.status(405).set("Allow", "POST").json(mcpErrors.methodNotAllowed);
+    return;
+  }
+
+  try {
+    const live = await resolveSession(req, res);
+    if (!live) return;
+    // For DELETE the transport closes itself, which drops it from liveSessions.
+    await live.transport.handleRequest(req, res);
+  } catch (err) {
+    l.error(`Error handling MCP ${req.method} request`, err);
+    if (!res.headersSent) {
+      res.status(500).json(mcpErrors.internalServerError);
+    }
+  }
 };
@@ -0,0 +1,169 @@
+import { z } from "zod";
+import { GetObjectCommand } from "@aws-sdk/client-s3";
+import log4js from "../utils/logging.js";
+import config, { getDataBackend } from "../utils/env-config.js";
+import { getS3Client, BUCKET_NAME } from "../services/s3.js";
+import { getInMemoryTenantFiles } from "../services/in-memory-tenant-files.js";
+
+const l = log4js.getLogger("Policy Documents");
+
+/**
+ * The tenant files the travel policy is read from, as uploaded to each
+ * tenant's prefix by `scripts/manage-users.js`.
+ */
+export const POLICY_FILES = {
+  expenseLimits: "expense-limits.json",
+  flightPreferences: "flight-preferences.json",
+} as const;
+
+// Only the fields the policy engine evaluates are validated; the documents
+// carry more (meal limits, trip duration, ...) that are passed through.
+
+const amountSchema = z.number().nonnegative();
+const budgetSchema = z.number().positive();
+
+export const expenseLimitsSchema = z.looseObject({
+  dailyLimits: z.looseObject({
+    /** Nightly lodging limit per city tier, e.g. `tier1Cities`. */
+    lodging: z.record(z.string(), amountSchema).optional(),
+  }).optional(),
+  approvalThresholds: z.looseObject({
+    /** Trip cost above which an approver of each level must sign off, e.g. `manager`. */
+    trip: z.record(z.string(), amountSchema).optional(),
+    individual: z.looseObject({
+      /** Nightly rate above which a hotel booking needs approval. */
+      lodging: amountSchema.optional(),
+    }).optional(),
+  }).optional(),
+  /** Monthly travel budgets, compared with the spend in `spend_summary`. */
+  budgets: z.looseObject({
+    /** For the whole tenant. */
+    monthly: budgetSchema.optional(),
+    /** Per booking category, `flight` or `hotel`. */
+    categories: z.record(z.string(), budgetSchema).optional(),
+    /** Per cost center. */
+    costCenters: z.record(z.string(), budgetSchema).optional(),
+    /** Share of a budget at which it is reported as nearly exhausted. */
+    alertThreshold: z.number().gt(0).max(1).optional(),
+  }).optional(),
+  /** Hotel chains travelers should prefer, matched against the hotel name. */
+  preferredHotelChains: z.array(z.string()).optional(),
+  currency: z.string().optional(),
+});
+
+export const flightPreferencesSchema = z.looseObject({
+  preferredAirlines: z.array(z.looseObject({
+    airline: z.string(),
+    code: z.string(),
+  })).optional(),
+  allowedClasses: z.looseObject({
+    domestic: z.array(z.string()).optional(),
+    international: z.array(z.string()).optional(),
+  }).optional(),
+  bookingRules: z.looseObject({
+    advanceBookingDays: z.number().int().nonnegative().optional(),
+  }).optional(),
+  /** Airline codes (the flight number prefix) that must not be booked. */
+  blacklistedAirlines: z.array(z.string()).optional(),
+});
+
+export type ExpenseLimits = z.infer<typeof expenseLimitsSchema>;
+export type FlightPreferences = z.infer<typeof flightPreferencesSchema>;
+
+/**
+ * A tenant's travel policy. A document the tenant has not uploaded is left
+ * out, and its rules are not applied.
+ */
+export interface TravelPolicy {
+  expenseLimits?: ExpenseLimits;
+  flightPreferences?: FlightPreferences;
+}
+
+/**
+ * Raised when a policy document is not valid JSON or does not match its
+ * schema, so the tenant's policy cannot be applied as written.
+ */
+export class PolicyDocumentError extends Error {
+  constructor(readonly filename: string, detail: string) {
+    super(`Invalid policy document ${filename}: ${detail}`);
+    this.name = "PolicyDocumentError";
+  }
+}
+
+/**
+ * Read a file from the tenant's prefix, or `undefined` if there is none.
+ */
+async function readTenantFile(tenantId: string, filename: string): Promise<string | undefined> {
+  if (getDataBackend() === "memory") {
+    return getInMemoryTenantFiles().read(tenantId, filename);
+  }
+  const s3Client = await getS3Client(tenantId);
+  try {
+    const response = await s3Client.send(new GetObjectCommand({
+      Bucket: BUCKET_NAME,
+      Key: `${tenantId}/${filename}`,
+    }));
+    return await response.Body?.transformToString("utf-8");
+  } catch (error) {
+    if (error instanceof Error && error.name === "NoSuchKey") {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+function parseDocument<T>(filename: string, text: string, schema: z.ZodType<T>): T {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new PolicyDocumentError(filename, "not valid JSON");
+  }
+  const result = schema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new PolicyDocumentError(filename, `${issue.path.join(".") || "document"}: ${issue.message}`);
+  }
+  return result.data;
+}
+
+const cache = new Map<string, { policy: TravelPolicy; expiresAt: number }>();
+
+/**
+ * Drop the cached policies, e.g. after a tenant uploaded new documents.
+ */
+export const clearTravelPolicyCache = (): void => {
+  cache.clear();
+};
+
+/**
+ * Load and validate the tenant's travel policy documents.
+ *
+ * Policies are cached per tenant for `POLICY_CACHE_SECONDS`, so updated
+ * documents take effect within that time. Throws `PolicyDocumentError` for
+ * an invalid document; neither that nor a failed read is cached.
+ */
+export async function getTravelPolicy(tenantId: string): Promise<TravelPolicy> {
+  const cached = cache.get(tenantId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.policy;
+  }
+
+  const [expenseLimits, flightPreferences] = await Promise.all([
+    readTenantFile(tenantId, POLICY_FILES.expenseLimits),
+    readTenantFile(tenantId, POLICY_FILES.flightPreferences),
+  ]);
+  const policy: TravelPolicy = {
+    ...(expenseLimits === undefined ? {} : {
+      expenseLimits: parseDocument(POLICY_FILES.expenseLimits, expenseLimits, expenseLimitsSchema),
+    }),
+    ...(flightPreferences === undefined ? {} : {
+      flightPreferences: parseDocument(POLICY_FILES.flightPreferences, flightPreferences, flightPreferencesSchema),
+    }),
+  };
+  l.debug(`Loaded travel policy for tenant ${tenantId}: ${Object.keys(policy).join(", ") || "no documents"}`);
+
+  const ttlMs = Number(config.get("POLICY_CACHE_SECONDS", "300")) * 1000;
+  cache.set(tenantId, { policy, expiresAt: Date.now() + ttlMs });
+  return policy;
+}
@@ -0,0 +1,360 @@
+import log4js from "../utils/logging.js";
+import { getTravelPolicy, PolicyDocumentError } from "./policy-documents.js";
+import type { ExpenseLimits, TravelPolicy } from "./policy-documents.js";
+import type { ApprovalRequest } from "../types/booking.js";
+import { nightsBetween } from "../utils/dates.js";
+
+const l = log4js.getLogger("Travel Policy");
+
+export type PolicyRule =
+  | "CABIN_CLASS"
+  | "LODGING_LIMIT"
+  | "ADVANCE_BOOKING"
+  | "BLACKLISTED_VENDOR"
+  | "PREFERRED_VENDOR"
+  | "APPROVAL_THRESHOLD"
+  | "POLICY_INVALID"
+  | "POLICY_UNAVAILABLE";
+
+/**
+ * One rule a booking request breaks, or only bends in the case of warnings.
+ */
+export interface PolicyFinding {
+  rule: PolicyRule;
+  message: string;
+  /** What the policy allows. */
+  limit?: number | string | string[];
+  /** What was requested. */
+  actual?: number | string;
+}
+
+/**
+ * The result of one rule for a request: passed, violated, bent (e.g. a
+ * vendor that is not preferred, which is only a warning), or above an
+ * approval threshold.
+ */
+export interface PolicyCheck extends PolicyFinding {
+  outcome: "PASS" | "VIOLATION" | "WARNING" | "APPROVAL_REQUIRED";
+}
+
+/**
+ * The outcome of checking a booking request against the tenant's travel
+ * policy. Only violations make a request non-compliant; warnings are
+ * informational. A request above an approval threshold is booked PENDING
+ * until an approver decides on it.
+ */
+export interface PolicyVerdict {
+  compliant: boolean;
+  approvalRequired: boolean;
+  violations: PolicyFinding[];
+  warnings: PolicyFinding[];
+  approvals: PolicyFinding[];
+}
+
+export interface FlightPolicyRequest {
+  flightNumber: string;
+  /** Airline name, if known; matched against the policy's airline names. */
+  airline?: string;
+  /** Departure date, `YYYY-MM-DD` (a time is ignored). */
+  departure: string;
+  flightClass: string;
+  /** International trips may allow other cabin classes. */
+  international?: boolean;
+  /** The quoted fare; approval thresholds are only checked with one. */
+  price?: number;
+}
+
+export interface HotelPolicyRequest {
+  hotelName: string;
+  /** The quoted nightly rate; the lodging limit is only checked with one. */
+  pricePerNight?: number;
+  /** Stay dates, `YYYY-MM-DD`; with a rate they give the cost of the stay. */
+  checkIn?: string;
+  checkOut?: string;
+}
+
+const finding = ({ rule, message, limit, actual }: PolicyCheck): PolicyFinding =>
+  ({ rule, message, ...(limit === undefined ? {} : { limit }), ...(actual === undefined ? {} : { actual }) });
+
+/**
+ * Fold rule results into a verdict.
+ */
+export function toVerdict(checks: PolicyCheck[]): PolicyVerdict {
+  const violations = checks.filter(check => check.outcome === "VIOLATION").map(finding);
+  const approvals = checks.filter(check => check.outcome === "APPROVAL_REQUIRED").map(finding);
+  return {
+    compliant: violations.length === 0,
+    approvalRequired: approvals.length > 0,
+    violations,
+    warnings: checks.filter(check => check.outcome === "WARNING").map(finding),
+    approvals,
+  };
+}
+
+const sameName = (a: string, b: string): boolean => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Whole days from `today` (UTC) to a `YYYY-MM-DD` date.
+const daysUntil = (date: string, today: Date): number =>
+  Math.floor((Date.parse(date.substring(0, 10)) - Date.parse(today.toISOString().substring(0, 10))) / 86_400_000);
+
+/**
+ * Check a trip cost against the approval thresholds per level, naming the
+ * highest level whose threshold it exceeds. Thresholds are exclusive: a
+ * cost equal to one needs no approval.
+ */
+function checkTripThreshold(limits: ExpenseLimits, cost: number, costLabel: string): PolicyCheck | undefined {
+  const levels = Object.entries(limits.approvalThresholds?.trip ?? {}).sort(([, a], [, b]) => a - b);
+  const [lowest] = levels;
+  if (!lowest) {
+    return undefined;
+  }
+  const currency = limits.currency ?? "USD";
+  const [level, threshold] = levels.filter(([, amount]) => cost > amount).at(-1) ?? lowest;
+  const exceeded = cost > threshold;
+  return {
+    rule: "APPROVAL_THRESHOLD",
+    outcome: exceeded ? "APPROVAL_REQUIRED" : "PASS",
+    message: exceeded
+      ? `The ${costLabel} of ${cost} ${currency} exceeds the ${level} approval threshold of ${threshold} ${currency}.`
+      : `The ${costLabel} of ${cost} ${currency} is within the ${level} approval threshold of ${threshold} ${currency}.`,
+    limit: threshold,
+    actual: cost,
+  };
+}
+
+/**
+ * Check a flight request against each rule of a travel policy: the cabin
+ * classes allowed for the trip, the advance booking days, the airline and,
+ * given a fare, the trip approval thresholds. The airline is the flight
+ * number's two-letter prefix, or its name, which may be shortened ("Delta"
+ * for "Delta Air Lines"). Rules the policy does not define are left out.
+ */
+export function checkFlightRules(policy: TravelPolicy, request: FlightPolicyRequest, today = new Date()): PolicyCheck[] {
+  const preferences = policy.flightPreferences ?? {};
+  const checks: PolicyCheck[] = [];
+
+  const tripType = request.international ? "international" : "domestic";
+  const allowedClasses = preferences.allowedClasses?.[tripType];
+  if (allowedClasses) {
+    const allowed = allowedClasses.some(cls => sameName(cls, request.flightClass));
+    checks.push({
+      rule: "CABIN_CLASS",
+      outcome: allowed ? "PASS" : "VIOLATION",
+      message: allowed
+        ? `${request.flightClass} is an allowed cabin class for ${tripType} flights.`
+        : `${request.flightClass} is not an allowed cabin class for ${tripType} flights.`,
+      limit: allowedClasses,
+      actual: request.flightClass,
+    });
+  }
+
+  const advanceBookingDays = preferences.bookingRules?.advanceBookingDays;
+  if (advanceBookingDays !== undefined) {
+    const daysAhead = daysUntil(request.departure, today);
+    checks.push({
+      rule: "ADVANCE_BOOKING",
+      outcome: daysAhead >= advanceBookingDays ? "PASS" : "VIOLATION",
+      message: daysAhead >= advanceBookingDays
+        ? `The flight departs in ${daysAhead} days, at least the ${advanceBookingDays} days required.`
+        : `Flights must be booked at least ${advanceBookingDays} days in advance.`,
+      limit: advanceBookingDays,
+      actual: daysAhead,
+    });
+  }
+
+  const airlineCode = request.flightNumber.substring(0, 2).toUpperCase();
+  const airlineLabel = request.airline ?? airlineCode;
+  const isAirline = (codeOrName: string): boolean => sameName(codeOrName, airlineCode)
+    || (request.airline !== undefined && codeOrName.toLowerCase().startsWith(request.airline.toLowerCase()));
+
+  const blacklist = preferences.blacklistedAirlines;
+  const blacklisted = blacklist?.some(isAirline) ?? false;
+  if (blacklist?.length) {
+    checks.push({
+      rule: "BLACKLISTED_VENDOR",
+      outcome: blacklisted ? "VIOLATION" : "PASS",
+      message: blacklisted ? `Airline ${airlineLabel} must not be booked.` : `Airline ${airlineLabel} is not blacklisted.`,
+      limit: blacklist,
+      actual: airlineLabel,
+    });
+  }
+
+  // Whether a blacklisted airline is preferred does not matter.
+  const preferred = preferences.preferredAirlines;
+  if (preferred?.length && !blacklisted) {
+    const isPreferred = preferred.some(airline => isAirline(airline.code) || isAirline(airline.airline));
+    checks.push({
+      rule: "PREFERRED_VENDOR",
+      outcome: isPreferred ? "PASS" : "WARNING",
+      message: isPreferred
+        ? `${airlineLabel} is a preferred airline.`
+        : `Airline ${airlineLabel} is not a preferred airline.`,
+      limit: preferred.map(airline => airline.code),
+      actual: airlineLabel,
+    });
+  }
+
+  const fareThreshold = policy.expenseLimits && request.price !== undefined
+    ? checkTripThreshold(policy.expenseLimits, request.price, "fare")
+    : undefined;
+  if (fareThreshold) {
+    checks.push(fareThreshold);
+  }
+
+  return checks;
+}
+
+/**
+ * Check a hotel request against each rule of a travel policy: the nightly
+ * lodging limit, the preferred hotel chains and the approval thresholds for
+ * the nightly rate and the cost of the whole stay. The city's tier is not
+ * known, so the highest of the per-tier lodging limits applies.
+ */
+export function checkHotelRules(policy: TravelPolicy, request: HotelPolicyRequest): PolicyCheck[] {
+  const limits = policy.expenseLimits;
+  if (!limits) {
+    return [];
+  }
+  const checks: PolicyCheck[] = [];
+
+  const lodgingLimits = Object.values(limits.dailyLimits?.lodging ?? {});
+  if (request.pricePerNight !== undefined && lodgingLimits.length > 0) {
+    const nightlyLimit = Math.max(...lodgingLimits);
+    const currency = limits.currency ?? "USD";
+    const within = request.pricePerNight <= nightlyLimit;
+    checks.push({
+      rule: "LODGING_LIMIT",
+      outcome: within ? "PASS" : "VIOLATION",
+      message: within
+        ? `The nightly rate is within the lodging limit of ${nightlyLimit} ${currency}.`
+        : `The nightly rate exceeds the lodging limit of ${nightlyLimit} ${currency}.`,
+      limit: nightlyLimit,
+      actual: request.pricePerNight,
+    });
+  }
+
+  const chains = limits.preferredHotelChains;
+  if (chains?.length) {
+    const hotelName = request.hotelName.toLowerCase();
+    const isPreferred = chains.some(chain => hotelName.includes(chain.toLowerCase()));
+    checks.push({
+      rule: "PREFERRED_VENDOR",
+      outcome: isPreferred ? "PASS" : "WARNING",
+      message: isPreferred
+        ? `${request.hotelName} belongs to a preferred hotel chain.`
+        : `${request.hotelName} is not one of the preferred hotel chains.`,
+      limit: chains,
+      actual: request.hotelName,
+    });
+  }
+
+  const lodgingThreshold = limits.approvalThresholds?.individual?.lodging;
+  if (request.pricePerNight !== undefined && lodgingThreshold !== undefined) {
+    const currency = limits.currency ?? "USD";
+    const exceeded = request.pricePerNight > lodgingThreshold;
+    checks.push({
+      rule: "APPROVAL_THRESHOLD",
+      outcome: exceeded ? "APPROVAL_REQUIRED" : "PASS",
+      message: exceeded
+        ? `The nightly rate exceeds the lodging approval threshold of ${lodgingThreshold} ${currency}.`
+        : `The nightly rate is within the lodging approval threshold of ${lodgingThreshold} ${currency}.`,
+      limit: lodgingThreshold,
+      actual: request.pricePerNight,
+    });
+  }
+
+  const nights = request.checkIn && request.checkOut ? nightsBetween(request.checkIn, request.checkOut) : undefined;
+  const stayThreshold = request.pricePerNight !== undefined && nights !== undefined
+    ? checkTripThreshold(limits, request.pricePerNight * nights, "stay")
+    : undefined;
+  if (stayThreshold) {
+    checks.push(stayThreshold);
+  }
+
+  return checks;
+}
+
+/**
+ * Check a flight booking request against a travel policy.
+ */
+export const checkFlightPolicy = (policy: TravelPolicy, request: FlightPolicyRequest, today = new Date()): PolicyVerdict =>
+  toVerdict(checkFlightRules(policy, request, today));
+
+/**
+ * Check a hotel booking request against a travel policy.
+ */
+export const checkHotelPolicy = (policy: TravelPolicy, request: HotelPolicyRequest): PolicyVerdict =>
+  toVerdict(checkHotelRules(policy, request));
+
+/**
+ * Summarize a verdict's violations for the text content of a tool result.
+ */
+export function policyMessage(policy?: PolicyVerdict): string {
+  if (!policy) {
+    return "";
+  }
+  const violations = policy.compliant
+    ? ""
+    : ` This booking is outside the travel policy: ${policy.violations.map(v => v.message).join(" ")}`;
+  const approvals = policy.approvalRequired
+    ? ` It stays pending until an approver approves it: ${policy.approvals.map(a => a.message).join(" ")}`
+    : "";
+  return `${violations}${approvals}`;
+}
+
+/**
+ * The approval request to store on a booking whose verdict requires
+ * approval, or `undefined` if it can be confirmed right away.
+ */
+export function approvalRequest(policy: PolicyVerdict, requestedBy: string): ApprovalRequest | undefined {
+  if (!policy.approvalRequired) {
+    return undefined;
+  }
+  return {
+    requestedBy,
+    requestedAt: new Date().toISOString(),
+    reasons: policy.approvals.map(approval => approval.message),
+  };
+}
+
+// Without a policy none of its thresholds can be checked, so the request
+// is both flagged and held for an approver.
+const unchecked = (rule: PolicyRule, message: string): PolicyCheck[] => [
+  { rule, outcome: "VIOLATION", message },
+  { rule, outcome: "APPROVAL_REQUIRED", message: "An approver must review it until the travel policy can be checked." },
+];
+
+/**
+ * Load the tenant's policy and run `check` on it. A policy that cannot be
+ * loaded or is invalid fails every request and requires approval for it, so
+ * such requests are held rather than waved through.
+ */
+export async function evaluatePolicy(
+  tenantId: string,
+  check: (policy: TravelPolicy) => PolicyCheck[],
+): Promise<PolicyCheck[]> {
+  let policy: TravelPolicy;
+  try {
+    policy = await getTravelPolicy(tenantId);
+  } catch (error) {
+    if (error instanceof PolicyDocumentError) {
+      l.warn(`Travel policy of tenant ${tenantId} is invalid: ${error.message}`);
+      return unchecked("POLICY_INVALID", error.message);
+    }
+    l.error(`Failed to load the travel policy of tenant ${tenantId}`, error);
+    return unchecked("POLICY_UNAVAILABLE", "The travel policy could not be loaded.");
+  }
+  return check(policy);
+}
+
+/**
+ * Evaluate a flight booking request against the tenant's travel policy.
+ */
+export const evaluateFlightBooking = async (tenantId: string, request: FlightPolicyRequest): Promise<PolicyVerdict> =>
+  toVerdict(await evaluatePolicy(tenantId, policy => checkFlightRules(policy, request)));
+
+/**
+ * Evaluate a hotel booking request against the tenant's travel policy.
+ */
+export const evaluateHotelBooking = async (tenantId: string, request: HotelPolicyRequest): Promise<PolicyVerdict> =>
+  toVerdict(await evaluatePolicy(tenantId, policy => checkHotelRules(policy, request)));
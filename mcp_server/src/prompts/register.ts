@@ -1,8 +1,16 @@
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RegisteredPrompt } from "@modelcontextprotocol/sdk/server/mcp.js";
 
-export function registerPrompts(mcpServer: McpServer) {
-  mcpServer.registerPrompt(
+/**
+ * Register every prompt and return the registrations by prompt name.
+ */
+export function registerPrompts(mcpServer: McpServer): Record<string, RegisteredPrompt> {
+  const prompts: Record<string, RegisteredPrompt> = {};
+  const registerPrompt: McpServer["registerPrompt"] = (name, config, callback) =>
+    (prompts[name] = mcpServer.registerPrompt(name, config, callback));
+
+  registerPrompt(
     'flight_search',
     {
       title: 'Flight Search',
@@ -39,7 +47,7 @@ Would you like me to search for return flights as well?`
     })
   );
 
-  mcpServer.registerPrompt(
+  registerPrompt(
     'booking_flow',
     {
       title: 'Booking Flow',
@@ -72,7 +80,7 @@ What type of trip are you planning?`
     })
   );
 
-  mcpServer.registerPrompt(
+  registerPrompt(
     'loyalty_overview',
     {
       title: 'Loyalty Overview',
@@ -97,7 +105,7 @@ This will help you choose the best airline or hotel for earning and redeeming po
     })
   );
 
-  mcpServer.registerPrompt(
+  registerPrompt(
     'policy_compliant_booking',
     {
       title: 'Policy Compliant Booking',
@@ -128,7 +136,7 @@ What are your travel dates and destination?`
     })
   );
 
-  mcpServer.registerPrompt(
+  registerPrompt(
     'hotel_search',
     {
       title: 'Hotel Search',
@@ -161,7 +169,7 @@ Would you like me to filter by specific amenities or price range?`
     })
   );
 
-  mcpServer.registerPrompt(
+  registerPrompt(
     'book_flight_demo',
     {
       title: 'Book Flight Demo',
@@ -194,7 +202,7 @@ I'll provide you with:
     })
   );
 
-  mcpServer.registerPrompt(
+  registerPrompt(
     'book_hotel_demo',
     {
       title: 'Book Hotel Demo',
@@ -228,4 +236,6 @@ I'll provide you with:
       }]
     })
   );
+
+  return prompts;
 }
@@ -0,0 +1,104 @@
+import log4js from "../utils/logging.js";
+import { getDataBackend } from "../utils/env-config.js";
+import type { Booking, BookingStatus, IdempotencyRecord, StatusChange } from "../types/booking.js";
+import { DynamoDbBookingRepository } from "./dynamodb-booking-repository.js";
+import { InMemoryBookingRepository } from "./in-memory-booking-repository.js";
+
+export { ConditionFailedError, IdempotencyKeyReusedError, TenantIsolationError } from "./errors.js";
+
+const l = log4js.getLogger("Booking Repository");
+
+/**
+ * Filters and paging for `BookingRepository.search`. Travel dates are
+ * inclusive `YYYY-MM-DD` bounds; `traveler` and `destination` match
+ * case-insensitively on the whole name.
+ */
+export interface BookingQuery {
+  type?: Booking["type"];
+  status?: BookingStatus;
+  travelFrom?: string;
+  travelTo?: string;
+  traveler?: string;
+  destination?: string;
+  order: "asc" | "desc";
+  limit: number;
+  startKey?: Record<string, unknown>;
+}
+
+/**
+ * One page of results. `lastKey` is set when more results may follow and is
+ * passed back as `startKey` to fetch the next page.
+ */
+export interface BookingPage {
+  items: Booking[];
+  lastKey?: Record<string, unknown>;
+}
+
+/**
+ * Persistence for tenant bookings.
+ *
+ * Every method takes the `tenantId` of the caller. It plays the role of the
+ * tenant-tagged credentials in production: implementations must only read
+ * and write items whose partition key is that tenant.
+ */
+export interface BookingRepository {
+  listByTenant(tenantId: string): Promise<Booking[]>;
+  listByType(tenantId: string, type: Booking["type"]): Promise<Booking[]>;
+  /**
+   * List bookings ordered by travel date, applying the query's filters.
+   */
+  search(tenantId: string, query: BookingQuery): Promise<BookingPage>;
+  /**
+   * Find a booking by confirmation number, whatever its type.
+   */
+  getById(tenantId: string, bookingId: string): Promise<Booking | undefined>;
+  get(tenantId: string, type: Booking["type"], bookingId: string): Promise<Booking | undefined>;
+  create(tenantId: string, booking: Booking): Promise<void>;
+  /**
+   * Return the unexpired idempotency record stored under `key`, if any.
+   */
+  getIdempotencyRecord(tenantId: string, key: string): Promise<IdempotencyRecord | undefined>;
+  /**
+   * Create the booking and its idempotency record atomically. If an
+   * unexpired record already holds the key, nothing is written and the
+   * booking it points to is returned instead. Throws
+   * `IdempotencyKeyReusedError` if that record was made for another request.
+   */
+  createIdempotent(tenantId: string, booking: Booking, record: IdempotencyRecord): Promise<Booking>;
+  /**
+   * Move a booking from `change.from` to `change.to` and append the change to
+   * its status history. Throws `ConditionFailedError` if the stored status is
+   * no longer `change.from`.
+   */
+  updateStatus(tenantId: string, booking: Pick<Booking, "PK" | "SK">, change: StatusChange): Promise<Booking>;
+  /**
+   * Replace a stored booking and increment its version. Throws
+   * `ConditionFailedError` if the stored version is no longer
+   * `booking.version`, i.e. the booking changed since it was read.
+   */
+  update(tenantId: string, booking: Booking): Promise<Booking>;
+}
+
+let repository: BookingRepository | undefined;
+
+/**
+ * Return the repository for the configured `DATA_BACKEND`.
+ */
+export function getBookingRepository(): BookingRepository {
+  if (!repository) {
+    const backend = getDataBackend();
+    l.info(`Using ${backend} booking repository`);
+    repository = backend === "memory"
+      ? new InMemoryBookingRepository()
+      : new DynamoDbBookingRepository();
+  }
+  return repository;
+}
+
+/**
+ * Replace the repository, e.g. with a fresh in-memory one in tests.
+ * Passing `undefined` re-reads `DATA_BACKEND` on next use.
+ */
+export function setBookingRepository(next: BookingRepository | undefined): void {
+  repository = next;
+}
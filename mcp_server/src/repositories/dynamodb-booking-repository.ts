@@ -0,0 +1,358 @@
+import { GetCommand, PutCommand, QueryCommand, TransactWriteCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import { getDynamoDbClient, TABLE_NAME } from "../services/dynamoDb.js";
+import type { Booking, IdempotencyRecord, StatusChange } from "../types/booking.js";
+import type { BookingPage, BookingQuery, BookingRepository } from "./booking-repository.js";
+import { ConditionFailedError, IdempotencyKeyReusedError } from "./errors.js";
+import { withSearchAttributes } from "./search-attributes.js";
+
+/**
+ * GSI keyed on `PK` and `bookingId`, so a confirmation number can be resolved
+ * within the tenant's partition whatever the booking type.
+ */
+export const BOOKING_ID_INDEX = "ByBookingId";
+
+/**
+ * GSI keyed on `PK` and `travelDate`, used to list a tenant's bookings in
+ * travel date order.
+ */
+export const TRAVEL_DATE_INDEX = "ByTravelDate";
+
+// Idempotency records live in the tenant's partition next to its bookings
+// and are removed by the table's TTL on `expiresAt`. They deliberately carry
+// no `bookingId` or `travelDate`, so neither index picks them up.
+const idempotencySortKey = (key: string): string => `IDEMPOTENCY#${key}`;
+
+const nowSeconds = (): number => Math.floor(Date.now() / 1000);
+
+/**
+ * Booking repository backed by the `MCPServerTravelBookings` table.
+ *
+ * Requests are made with tenant-tagged credentials, so the IAM
+ * `dynamodb:LeadingKeys` condition rejects any access outside the tenant's
+ * partition.
+ */
+export class DynamoDbBookingRepository implements BookingRepository {
+  async listByTenant(tenantId: string): Promise<Booking[]> {
+    const dynamoDB = await getDynamoDbClient(tenantId);
+
+    const params = {
+      TableName: TABLE_NAME,
+      KeyConditionExpression: "PK = :pk and begins_with(SK, :sk)",
+      ExpressionAttributeValues: {
+        ":pk": `${tenantId}`,
+        ":sk": "BOOKING#",
+      },
+    };
+
+    try {
+      const command = new QueryCommand(params);
+      const result = await dynamoDB.send(command);
+      return (result.Items ?? []) as Booking[];
+    } catch (error) {
+      console.error("Error fetching bookings:", error);
+      throw error;
+    }
+  }
+
+  async listByType(tenantId: string, type: Booking["type"]): Promise<Booking[]> {
+    const dynamoDB = await getDynamoDbClient(tenantId);
+
+    const params = {
+      TableName: TABLE_NAME,
+      KeyConditionExpression: "PK = :pk and begins_with(SK, :sk)",
+      ExpressionAttributeValues: {
+        ":pk": `${tenantId}`,
+        ":sk": `BOOKING#${type}`,
+      },
+    };
+
+    try {
+      const command = new QueryCommand(params);
+      const result = await dynamoDB.send(command);
+      return (result.Items ?? []) as Booking[];
+    } catch (error) {
+      console.error("Error fetching bookings by type:", error);
+      throw error;
+    }
+  }
+
+  async search(tenantId: string, query: BookingQuery): Promise<BookingPage> {
+    const dynamoDB = await getDynamoDbClient(tenantId);
+
+    let keyCondition = "PK = :pk";
+    if (query.travelFrom && query.travelTo) {
+      keyCondition += " and travelDate BETWEEN :from AND :to";
+    } else if (query.travelFrom) {
+      keyCondition += " and travelDate >= :from";
+    } else if (query.travelTo) {
+      keyCondition += " and travelDate <= :to";
+    }
+
+    const filters: string[] = [];
+    const names: Record<string, string> = {};
+    const values: Record<string, unknown> = { ":pk": `${tenantId}` };
+    if (query.travelFrom) values[":from"] = query.travelFrom;
+    if (query.travelTo) values[":to"] = query.travelTo;
+    if (query.type) {
+      filters.push("#type = :type");
+      names["#type"] = "type";
+      values[":type"] = query.type;
+    }
+    if (query.status) {
+      filters.push("#status = :status");
+      names["#status"] = "status";
+      values[":status"] = query.status;
+    }
+    if (query.traveler) {
+      filters.push("contains(travelerKeys, :traveler)");
+      values[":traveler"] = query.traveler.toLowerCase();
+    }
+    if (query.destination) {
+      filters.push("destinationKey = :destination");
+      values[":destination"] = query.destination.toLowerCase();
+    }
+
+    // `Limit` caps the items evaluated before filtering, so keep reading
+    // until the page is full or the index is exhausted.
+    const items: Booking[] = [];
+    let lastKey = query.startKey;
+    try {
+      do {
+        const command = new QueryCommand({
+          TableName: TABLE_NAME,
+          IndexName: TRAVEL_DATE_INDEX,
+          KeyConditionExpression: keyCondition,
+          FilterExpression: filters.length > 0 ? filters.join(" AND ") : undefined,
+          ExpressionAttributeNames: Object.keys(names).length > 0 ? names : undefined,
+          ExpressionAttributeValues: values,
+          ScanIndexForward: query.order === "asc",
+          Limit: query.limit - items.length,
+          ExclusiveStartKey: lastKey,
+        });
+        const result = await dynamoDB.send(command);
+        items.push(...((result.Items ?? []) as Booking[]));
+        lastKey = result.LastEvaluatedKey;
+      } while (lastKey && items.length < query.limit);
+    } catch (error) {
+      console.error("Error searching bookings:", error);
+      throw error;
+    }
+
+    return { items, lastKey };
+  }
+
+  async getById(tenantId: string, bookingId: string): Promise<Booking | undefined> {
+    const dynamoDB = await getDynamoDbClient(tenantId);
+
+    const params = {
+      TableName: TABLE_NAME,
+      IndexName: BOOKING_ID_INDEX,
+      KeyConditionExpression: "PK = :pk and bookingId = :bookingId",
+      ExpressionAttributeValues: {
+        ":pk": `${tenantId}`,
+        ":bookingId": bookingId,
+      },
+    };
+
+    try {
+      const command = new QueryCommand(params);
+      const result = await dynamoDB.send(command);
+      return result.Items?.[0] as Booking | undefined;
+    } catch (error) {
+      console.error("Error fetching booking by ID:", error);
+      throw error;
+    }
+  }
+
+  async get(tenantId: string, type: Booking["type"], bookingId: string): Promise<Booking | undefined> {
+    const dynamoDB = await getDynamoDbClient(tenantId);
+
+    const params = {
+      TableName: TABLE_NAME,
+      Key: {
+        PK: `${tenantId}`,
+        SK: `BOOKING#${type}#${bookingId}`,
+      },
+    };
+
+    try {
+      const command = new GetCommand(params);
+      const result = await dynamoDB.send(command);
+      return result.Item as Booking | undefined;
+    } catch (error) {
+      console.error("Error fetching booking:", error);
+      throw error;
+    }
+  }
+
+  async create(tenantId: string, booking: Booking): Promise<void> {
+    const dynamoDB = await getDynamoDbClient(tenantId);
+
+    const params = {
+      TableName: TABLE_NAME,
+      Item: withSearchAttributes(booking),
+    };
+
+    try {
+      const command = new PutCommand(params);
+      await dynamoDB.send(command);
+    } catch (error) {
+      console.error(`Error creating ${booking.type.toLowerCase()} booking:`, error);
+      throw error;
+    }
+  }
+
+  async getIdempotencyRecord(tenantId: string, key: string): Promise<IdempotencyRecord | undefined> {
+    const dynamoDB = await getDynamoDbClient(tenantId);
+
+    const params = {
+      TableName: TABLE_NAME,
+      Key: { PK: `${tenantId}`, SK: idempotencySortKey(key) },
+      ConsistentRead: true,
+    };
+
+    try {
+      const command = new GetCommand(params);
+      const result = await dynamoDB.send(command);
+      const item = result.Item;
+      // TTL deletion is lazy, so expired records can still be returned.
+      if (!item || (item.expiresAt as number) <= nowSeconds()) {
+        return undefined;
+      }
+      return {
+        key,
+        requestHash: item.requestHash as string,
+        bookingType: item.bookingType as Booking["type"],
+        bookingId: item.targetBookingId as string,
+        createdAt: item.createdAt as string,
+        expiresAt: item.expiresAt as number,
+      };
+    } catch (error) {
+      console.error("Error fetching idempotency record:", error);
+      throw error;
+    }
+  }
+
+  async createIdempotent(tenantId: string, booking: Booking, record: IdempotencyRecord): Promise<Booking> {
+    const dynamoDB = await getDynamoDbClient(tenantId);
+    const stored = withSearchAttributes(booking);
+
+    const params = {
+      TransactItems: [
+        {
+          Put: {
+            TableName: TABLE_NAME,
+            Item: {
+              PK: `${tenantId}`,
+              SK: idempotencySortKey(record.key),
+              requestHash: record.requestHash,
+              bookingType: record.bookingType,
+              targetBookingId: record.bookingId,
+              createdAt: record.createdAt,
+              expiresAt: record.expiresAt,
+            },
+            ConditionExpression: "attribute_not_exists(PK) OR expiresAt <= :now",
+            ExpressionAttributeValues: { ":now": nowSeconds() },
+          },
+        },
+        {
+          Put: {
+            TableName: TABLE_NAME,
+            Item: stored,
+          },
+        },
+      ],
+    };
+
+    try {
+      const command = new TransactWriteCommand(params);
+      await dynamoDB.send(command);
+      return stored;
+    } catch (error) {
+      if (!(error instanceof Error && error.name === "TransactionCanceledException")) {
+        console.error(`Error creating ${booking.type.toLowerCase()} booking:`, error);
+        throw error;
+      }
+    }
+
+    // Another request holds the key: return the booking it created.
+    const existing = await this.getIdempotencyRecord(tenantId, record.key);
+    if (!existing) {
+      throw new ConditionFailedError(`Idempotency key ${record.key} is being used concurrently`);
+    }
+    if (existing.requestHash !== record.requestHash) {
+      throw new IdempotencyKeyReusedError(existing.bookingId);
+    }
+    const original = await this.get(tenantId, existing.bookingType, existing.bookingId);
+    if (!original) {
+      throw new Error(`Booking ${existing.bookingId} for idempotency key not found`);
+    }
+    return original;
+  }
+
+  async updateStatus(tenantId: string, key: Pick<Booking, "PK" | "SK">, change: StatusChange): Promise<Booking> {
+    const dynamoDB = await getDynamoDbClient(tenantId);
+
+    const params = {
+      TableName: TABLE_NAME,
+      Key: { PK: key.PK, SK: key.SK },
+      UpdateExpression:
+        "SET #status = :to, updatedAt = :changedAt, updatedBy = :changedBy, " +
+        "statusHistory = list_append(if_not_exists(statusHistory, :empty), :change), " +
+        "#version = if_not_exists(#version, :zero) + :one",
+      ConditionExpression: "#status = :from",
+      ExpressionAttributeNames: { "#status": "status", "#version": "version" },
+      ExpressionAttributeValues: {
+        ":zero": 0,
+        ":one": 1,
+        ":from": change.from,
+        ":to": change.to,
+        ":changedAt": change.changedAt,
+        ":changedBy": change.changedBy,
+        ":change": [change],
+        ":empty": [],
+      },
+      ReturnValues: "ALL_NEW" as const,
+    };
+
+    try {
+      const command = new UpdateCommand(params);
+      const result = await dynamoDB.send(command);
+      return result.Attributes as Booking;
+    } catch (error) {
+      if (error instanceof Error && error.name === "ConditionalCheckFailedException") {
+        throw new ConditionFailedError(`Booking ${key.SK} is no longer ${change.from}`);
+      }
+      console.error("Error updating booking status:", error);
+      throw error;
+    }
+  }
+
+  async update(tenantId: string, booking: Booking): Promise<Booking> {
+    const dynamoDB = await getDynamoDbClient(tenantId);
+    const updated = withSearchAttributes({ ...booking, version: (booking.version ?? 0) + 1 });
+
+    // Bookings written before versioning have no version attribute yet.
+    const params = {
+      TableName: TABLE_NAME,
+      Item: updated,
+      ConditionExpression: booking.version === undefined
+        ? "attribute_exists(PK) AND attribute_not_exists(#version)"
+        : "#version = :version",
+      ExpressionAttributeNames: { "#version": "version" },
+      ...(booking.version === undefined ? {} : { ExpressionAttributeValues: { ":version": booking.version } }),
+    };
+
+    try {
+      const command = new PutCommand(params);
+      await dynamoDB.send(command);
+      return updated;
+    } catch (error) {
+      if (error instanceof Error && error.name === "ConditionalCheckFailedException") {
+        throw new ConditionFailedError(`Booking ${booking.SK} was modified concurrently`);
+      }
+      console.error("Error updating booking:", error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Raised when a repository call addresses another tenant's partition. Mirrors
+ * the `AccessDeniedException` DynamoDB returns when the `dynamodb:LeadingKeys`
+ * condition on the data access role is violated.
+ */
+export class TenantIsolationError extends Error {
+  constructor(tenantId: string, partitionKey: string) {
+    super(`Access denied: tenant ${tenantId} cannot access partition ${partitionKey}`);
+    this.name = "TenantIsolationError";
+  }
+}
+
+/**
+ * Raised when a conditional write fails because the stored item no longer
+ * matches what the caller read, e.g. its status was changed concurrently.
+ */
+export class ConditionFailedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConditionFailedError";
+  }
+}
+
+/**
+ * Raised when an idempotency key is presented again with different request
+ * parameters than the request that first used it.
+ */
+export class IdempotencyKeyReusedError extends Error {
+  constructor(readonly bookingId: string) {
+    super("Idempotency key was already used for a different request");
+    this.name = "IdempotencyKeyReusedError";
+  }
+}
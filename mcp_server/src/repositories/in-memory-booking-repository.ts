@@ -0,0 +1,176 @@
+import type { Booking, IdempotencyRecord, StatusChange } from "../types/booking.js";
+import type { BookingPage, BookingQuery, BookingRepository } from "./booking-repository.js";
+import { ConditionFailedError, IdempotencyKeyReusedError, TenantIsolationError } from "./errors.js";
+import { withSearchAttributes } from "./search-attributes.js";
+import { InvalidCursorError } from "../utils/cursor.js";
+
+/**
+ * Process-local booking store for local development and tests.
+ *
+ * Items are kept per partition key exactly as in the DynamoDB table, and
+ * every call is checked against the caller's tenant the same way the
+ * `dynamodb:LeadingKeys` condition checks it in production.
+ */
+export class InMemoryBookingRepository implements BookingRepository {
+  private readonly partitions = new Map<string, Map<string, Booking>>();
+  private readonly idempotencyRecords = new Map<string, Map<string, IdempotencyRecord>>();
+
+  listByTenant(tenantId: string): Promise<Booking[]> {
+    return settle(() => this.query(tenantId, tenantId, "BOOKING#"));
+  }
+
+  listByType(tenantId: string, type: Booking["type"]): Promise<Booking[]> {
+    return settle(() => this.query(tenantId, tenantId, `BOOKING#${type}`));
+  }
+
+  search(tenantId: string, query: BookingQuery): Promise<BookingPage> {
+    return settle(() => {
+      // Same semantics as the DynamoDB travel date index: bookings without a
+      // travel date are not indexed, and ties are broken by sort key.
+      const direction = query.order === "asc" ? 1 : -1;
+      const ordered = this.query(tenantId, tenantId, "BOOKING#")
+        .filter((b): b is Booking & { travelDate: string } => b.travelDate !== undefined)
+        .sort((a, b) => direction * (a.travelDate.localeCompare(b.travelDate) || a.SK.localeCompare(b.SK)));
+
+      // Like `ExclusiveStartKey`, the key marks a position in the index, so
+      // it still works if the booking it came from has moved.
+      let start = 0;
+      if (query.startKey) {
+        const { PK, SK, travelDate } = query.startKey;
+        if (PK !== tenantId || typeof SK !== "string" || typeof travelDate !== "string") {
+          throw new InvalidCursorError();
+        }
+        start = ordered.findIndex(b => direction * (b.travelDate.localeCompare(travelDate) || b.SK.localeCompare(SK)) > 0);
+        if (start < 0) start = ordered.length;
+      }
+      const matches = ordered.slice(start).filter(b =>
+        (!query.type || b.type === query.type) &&
+        (!query.status || b.status === query.status) &&
+        (!query.travelFrom || b.travelDate >= query.travelFrom) &&
+        (!query.travelTo || b.travelDate <= query.travelTo) &&
+        (!query.traveler || (b.travelerKeys ?? []).includes(query.traveler.toLowerCase())) &&
+        (!query.destination || b.destinationKey === query.destination.toLowerCase())
+      );
+
+      const items = matches.slice(0, query.limit);
+      const last = items.at(-1);
+      return {
+        items,
+        lastKey: matches.length > query.limit && last
+          ? { PK: last.PK, SK: last.SK, travelDate: last.travelDate }
+          : undefined,
+      };
+    });
+  }
+
+  getById(tenantId: string, bookingId: string): Promise<Booking | undefined> {
+    return settle(() => this.query(tenantId, tenantId, "BOOKING#").find(b => b.bookingId === bookingId));
+  }
+
+  get(tenantId: string, type: Booking["type"], bookingId: string): Promise<Booking | undefined> {
+    return settle(() => {
+      this.assertPartition(tenantId, tenantId);
+      const booking = this.partitions.get(tenantId)?.get(`BOOKING#${type}#${bookingId}`);
+      return booking ? structuredClone(booking) : undefined;
+    });
+  }
+
+  create(tenantId: string, booking: Booking): Promise<void> {
+    return settle(() => {
+      this.assertPartition(tenantId, booking.PK);
+      const partition = this.partitions.get(booking.PK) ?? new Map<string, Booking>();
+      partition.set(booking.SK, structuredClone(withSearchAttributes(booking)));
+      this.partitions.set(booking.PK, partition);
+    });
+  }
+
+  getIdempotencyRecord(tenantId: string, key: string): Promise<IdempotencyRecord | undefined> {
+    return settle(() => {
+      this.assertPartition(tenantId, tenantId);
+      const record = this.idempotencyRecords.get(tenantId)?.get(key);
+      return record && record.expiresAt > nowSeconds() ? { ...record } : undefined;
+    });
+  }
+
+  createIdempotent(tenantId: string, booking: Booking, record: IdempotencyRecord): Promise<Booking> {
+    return settle(() => {
+      this.assertPartition(tenantId, booking.PK);
+      const records = this.idempotencyRecords.get(tenantId) ?? new Map<string, IdempotencyRecord>();
+      const existing = records.get(record.key);
+      if (existing && existing.expiresAt > nowSeconds()) {
+        if (existing.requestHash !== record.requestHash) {
+          throw new IdempotencyKeyReusedError(existing.bookingId);
+        }
+        const original = this.partitions.get(tenantId)?.get(`BOOKING#${existing.bookingType}#${existing.bookingId}`);
+        if (!original) {
+          throw new Error(`Booking ${existing.bookingId} for idempotency key not found`);
+        }
+        return structuredClone(original);
+      }
+      records.set(record.key, { ...record });
+      this.idempotencyRecords.set(tenantId, records);
+      const stored = withSearchAttributes(booking);
+      const partition = this.partitions.get(booking.PK) ?? new Map<string, Booking>();
+      partition.set(booking.SK, structuredClone(stored));
+      this.partitions.set(booking.PK, partition);
+      return structuredClone(stored);
+    });
+  }
+
+  updateStatus(tenantId: string, key: Pick<Booking, "PK" | "SK">, change: StatusChange): Promise<Booking> {
+    return settle(() => {
+      this.assertPartition(tenantId, key.PK);
+      const booking = this.partitions.get(key.PK)?.get(key.SK);
+      if (booking?.status !== change.from) {
+        throw new ConditionFailedError(`Booking ${key.SK} is no longer ${change.from}`);
+      }
+      booking.status = change.to;
+      booking.updatedAt = change.changedAt;
+      booking.updatedBy = change.changedBy;
+      booking.statusHistory = [...(booking.statusHistory ?? []), change];
+      booking.version = (booking.version ?? 0) + 1;
+      return structuredClone(booking);
+    });
+  }
+
+  update(tenantId: string, booking: Booking): Promise<Booking> {
+    return settle(() => {
+      this.assertPartition(tenantId, booking.PK);
+      const partition = this.partitions.get(booking.PK);
+      const stored = partition?.get(booking.SK);
+      if (!partition || !stored || stored.version !== booking.version) {
+        throw new ConditionFailedError(`Booking ${booking.SK} was modified concurrently`);
+      }
+      const updated = withSearchAttributes({ ...structuredClone(booking), version: (booking.version ?? 0) + 1 });
+      partition.set(booking.SK, updated);
+      return structuredClone(updated);
+    });
+  }
+
+  private query(tenantId: string, partitionKey: string, skPrefix: string): Booking[] {
+    this.assertPartition(tenantId, partitionKey);
+    const partition = this.partitions.get(partitionKey);
+    if (!partition) return [];
+    return [...partition.entries()]
+      .filter(([sk]) => sk.startsWith(skPrefix))
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([, booking]) => structuredClone(booking));
+  }
+
+  private assertPartition(tenantId: string, partitionKey: string): void {
+    if (!tenantId || partitionKey !== tenantId) {
+      throw new TenantIsolationError(tenantId, partitionKey);
+    }
+  }
+}
+
+const nowSeconds = (): number => Math.floor(Date.now() / 1000);
+
+// Run synchronous work with the error semantics of an async DynamoDB call.
+function settle<T>(work: () => T): Promise<T> {
+  try {
+    return Promise.resolve(work());
+  } catch (error) {
+    return Promise.reject(error instanceof Error ? error : new Error(String(error)));
+  }
+}
@@ -0,0 +1,24 @@
+import type { Booking } from "../types/booking.js";
+
+/**
+ * Return a copy of the booking with its search attributes derived from the
+ * booking fields. Repositories call this on every write so the attributes
+ * never drift from the data they index.
+ */
+export function withSearchAttributes(booking: Booking): Booking {
+  if (booking.type === "FLIGHT") {
+    return {
+      ...booking,
+      travelDate: booking.departureDateTime.slice(0, 10),
+      ...(booking.destination ? { destinationKey: booking.destination.toLowerCase() } : {}),
+      travelerKeys: booking.passengers.map(p => p.name.toLowerCase()),
+    };
+  }
+  return {
+    ...booking,
+    travelDate: booking.checkInDate.slice(0, 10),
+    destinationKey: booking.location.toLowerCase(),
+    // Only the number of guests is recorded, so there is no one to match.
+    travelerKeys: [],
+  };
+}
@@ -1,6 +1,8 @@
 import { GetObjectCommand } from "@aws-sdk/client-s3";
 import { Readable } from "stream";
 import { getS3Client, BUCKET_NAME } from "../services/s3.js";
+import { getDataBackend } from "../utils/env-config.js";
+import { contentTypeFor, getInMemoryTenantFiles } from "../services/in-memory-tenant-files.js";
 
 /**
  * Generic S3 file reader for dynamically discovered tenant resources
@@ -12,6 +14,15 @@ export async function getS3File(
   filename: string,
   tenantId: string
 ) {
+  if (getDataBackend() === "memory") {
+    const text = getInMemoryTenantFiles().read(tenantId, filename);
+    if (text === undefined) {
+      throw new Error(`Failed to read S3 file: ${filename}`);
+    }
+    return {
+      contents: [{ uri: `s3://${tenantId}/${filename}`, mimeType: contentTypeFor(filename), text }],
+    };
+  }
   try {
     const s3Client = await getS3Client(tenantId);
     const key = `${tenantId}/${filename}`;
@@ -1,13 +1,40 @@
 import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RegisteredResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { listTenantResources } from "../services/s3.js";
 import { getS3File } from "./dynamicS3.js";
+import { getTenantContext } from "../auth/tenant-context.js";
 
-export function registerResources(mcpServer: McpServer) {
-  mcpServer.registerResource(
+/**
+ * Whether `filename` names a file directly under the tenant's prefix: no
+ * path separators or dot segments, also once percent-decoded.
+ */
+function isTenantFilename(filename: unknown): filename is string {
+  if (typeof filename !== "string") {
+    return false;
+  }
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(filename);
+  } catch {
+    return false;
+  }
+  return [filename, decoded].every(name =>
+    name !== "." && name !== ".." && !/[/\\]/.test(name)
+  );
+}
+
+/**
+ * Register the resource templates and return the registrations by name.
+ */
+export function registerResources(mcpServer: McpServer): Record<string, RegisteredResourceTemplate> {
+  const tenantFiles = mcpServer.registerResource(
     "tenant-files",
     new ResourceTemplate("s3://{tenantId}/{filename}", {
       list: async (extra) => {
-        const tenantId = extra.authInfo!.extra!.tenantId as string;
+        const tenantId = getTenantContext(extra.authInfo)?.tenantId;
+        if (!tenantId) {
+          throw new Error("Access denied: no tenant ID provided");
+        }
         const files = await listTenantResources(tenantId);
 
         return {
@@ -25,15 +52,20 @@ export function registerResources(mcpServer: McpServer) {
       description: "Access tenant-specific files from S3"
     },
     async (uri, variables, extra) => {
-      const actualTenantId = extra.authInfo!.extra!.tenantId as string;
+      const actualTenantId = getTenantContext(extra.authInfo)?.tenantId;
       const providedTenantId = variables.tenantId;
       const filename = variables.filename;
 
-      if (actualTenantId !== providedTenantId) {
+      if (!actualTenantId || actualTenantId !== providedTenantId) {
         throw new Error("Access denied: cannot access other tenant's files");
       }
+      if (!isTenantFilename(filename)) {
+        throw new Error("Access denied: invalid file name");
+      }
 
-      return await getS3File(filename as string, actualTenantId);
+      return await getS3File(filename, actualTenantId);
     }
   );
+
+  return { "tenant-files": tenantFiles };
 }
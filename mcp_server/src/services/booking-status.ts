@@ -0,0 +1,234 @@
+import log4js from "../utils/logging.js";
+import { getBookingRepository } from "../repositories/booking-repository.js";
+import { getInventory } from "./inventory.js";
+import type { ApprovalDecision, ApprovalRequest, Booking, BookingStatus, HotelBooking, HotelStay, StatusChange } from "../types/booking.js";
+
+const l = log4js.getLogger("Booking Status");
+
+/**
+ * Allowed booking status transitions. CANCELLED is terminal. PENDING
+ * bookings await approval: they are confirmed or cancelled by an approver's
+ * decision (see `decideApproval`), or withdrawn by their requester. A
+ * confirmed booking goes back to PENDING when a modification needs approval,
+ * and is CONFIRMED again, with or without the modification, once it is
+ * decided on or withdrawn.
+ */
+export const BOOKING_STATUS_TRANSITIONS: Record<BookingStatus, readonly BookingStatus[]> = {
+  PENDING: ["CONFIRMED", "CANCELLED"],
+  CONFIRMED: ["PENDING", "CANCELLED"],
+  CANCELLED: [],
+};
+
+export const canTransition = (from: BookingStatus, to: BookingStatus): boolean =>
+  BOOKING_STATUS_TRANSITIONS[from].includes(to);
+
+/**
+ * Raised when a booking is asked to move to a status the state machine does
+ * not allow from its current status.
+ */
+export class InvalidStatusTransitionError extends Error {
+  readonly code = "INVALID_STATUS_TRANSITION";
+
+  constructor(
+    readonly bookingId: string,
+    readonly from: BookingStatus,
+    readonly to: BookingStatus,
+  ) {
+    super(`Booking ${bookingId} cannot change from ${from} to ${to}`);
+    this.name = "InvalidStatusTransitionError";
+  }
+
+  get allowedTransitions(): readonly BookingStatus[] {
+    return BOOKING_STATUS_TRANSITIONS[this.from];
+  }
+}
+
+/**
+ * Raised when a booking's approval state does not allow a change: a pending
+ * booking changed other than by a decision, a decision on a booking that is
+ * not pending, or an approver deciding on their own request.
+ */
+export class ApprovalError extends Error {
+  constructor(
+    readonly code: "APPROVAL_PENDING" | "NOT_PENDING_APPROVAL" | "SELF_APPROVAL",
+    readonly bookingId: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = "ApprovalError";
+  }
+}
+
+/**
+ * Write a status change. The write is conditional on the status the booking
+ * was read with, so a concurrent change surfaces as `ConditionFailedError`
+ * instead of being overwritten. A cancelled booking gives its seat or rooms
+ * back to the inventory.
+ */
+async function writeStatusChange(tenantId: string, booking: Booking, change: StatusChange): Promise<Booking> {
+  if (!canTransition(change.from, change.to)) {
+    throw new InvalidStatusTransitionError(booking.bookingId, change.from, change.to);
+  }
+  const updated = await getBookingRepository().updateStatus(tenantId, booking, change);
+  l.info(`Booking ${booking.bookingId} of tenant ${tenantId} changed from ${change.from} to ${change.to} by ${change.changedBy}`);
+  if (change.to === "CANCELLED") {
+    try {
+      await getInventory().releaseBooking(tenantId, updated);
+    } catch (error) {
+      // The booking is cancelled either way; failing here would only make
+      // the caller retry a cancellation that cannot be repeated.
+      l.error(`Could not release the inventory of cancelled booking ${booking.bookingId} of tenant ${tenantId}:`, error);
+    }
+  }
+  return updated;
+}
+
+const stayOf = ({ checkInDate, checkOutDate, roomType, pricePerNight, price, currency }: HotelBooking): HotelStay => ({
+  checkInDate,
+  checkOutDate,
+  roomType,
+  ...(pricePerNight === undefined ? {} : { pricePerNight }),
+  ...(price === undefined ? {} : { price }),
+  ...(currency === undefined ? {} : { currency }),
+});
+
+/**
+ * The modified copy of a confirmed hotel booking, to await approval: PENDING,
+ * with the new approval request, the change recorded in its status history
+ * and the confirmed stay kept in `modifiedFrom`. The caller stores it
+ * together with the modification, and keeps holding the confirmed nights
+ * and room until the modification is decided on.
+ */
+export function resubmitForApproval(
+  booking: HotelBooking,
+  modified: HotelBooking,
+  approval: ApprovalRequest,
+  changedBy: string,
+): HotelBooking {
+  if (!canTransition(booking.status, "PENDING")) {
+    throw new InvalidStatusTransitionError(booking.bookingId, booking.status, "PENDING");
+  }
+  const change: StatusChange = {
+    from: booking.status,
+    to: "PENDING",
+    changedBy,
+    changedAt: approval.requestedAt,
+    reason: "Modified beyond the approval thresholds",
+  };
+  return {
+    ...modified,
+    status: "PENDING",
+    approval,
+    modifiedFrom: stayOf(booking),
+    statusHistory: [...(booking.statusHistory ?? []), change],
+  };
+}
+
+/**
+ * Settle a modification awaiting approval: the booking is CONFIRMED again
+ * with the modified stay if it was approved, or with the stay it had before
+ * if it was rejected or withdrawn. The nights and room of the other stay are
+ * given back. The write is conditional on the version the booking was read
+ * with, like any other update.
+ */
+async function settleModification(
+  tenantId: string,
+  booking: HotelBooking & { modifiedFrom: HotelStay },
+  change: StatusChange,
+): Promise<Booking> {
+  const { modifiedFrom, ...modified } = booking;
+  const approved = change.decision === "APPROVED";
+  const updated = await getBookingRepository().update(tenantId, {
+    ...modified,
+    ...(approved ? {} : modifiedFrom),
+    status: change.to,
+    updatedAt: change.changedAt,
+    updatedBy: change.changedBy,
+    statusHistory: [...(booking.statusHistory ?? []), change],
+  });
+  l.info(`Modification of booking ${booking.bookingId} of tenant ${tenantId} ${approved ? "approved" : "discarded"} by ${change.changedBy}`);
+  try {
+    await getInventory().releaseBooking(tenantId, approved ? { ...modified, ...modifiedFrom } : modified, updated);
+  } catch (error) {
+    // The booking is settled either way; failing here would only make the
+    // caller retry a decision that cannot be repeated.
+    l.error(`Could not release the inventory of the discarded stay of booking ${booking.bookingId} of tenant ${tenantId}:`, error);
+  }
+  return updated;
+}
+
+const pendingModification = (booking: Booking): booking is HotelBooking & { modifiedFrom: HotelStay } =>
+  booking.status === "PENDING" && booking.type === "HOTEL" && booking.modifiedFrom !== undefined;
+
+/**
+ * Move a booking to a new status, recording who changed it and when.
+ * A booking awaiting approval can only be cancelled, by whoever requested
+ * it; anything else is refused with `ApprovalError`. Cancelling a
+ * modification awaiting approval withdraws it, and the booking is confirmed
+ * again as it was.
+ */
+export async function transitionBooking(
+  tenantId: string,
+  booking: Booking,
+  to: BookingStatus,
+  changedBy: string,
+  reason?: string,
+): Promise<Booking> {
+  const requester = booking.approval?.requestedBy ?? booking.bookedBy;
+  if (booking.status === "PENDING" && !(to === "CANCELLED" && changedBy === requester)) {
+    throw new ApprovalError("APPROVAL_PENDING", booking.bookingId,
+      `Booking ${booking.bookingId} is awaiting approval and can only be approved or rejected, or cancelled by its requester`);
+  }
+  if (pendingModification(booking)) {
+    return settleModification(tenantId, booking, {
+      from: "PENDING",
+      to: "CONFIRMED",
+      changedBy,
+      changedAt: new Date().toISOString(),
+      reason: reason ?? "Modification withdrawn",
+    });
+  }
+  return writeStatusChange(tenantId, booking, {
+    from: booking.status,
+    to,
+    changedBy,
+    changedAt: new Date().toISOString(),
+    ...(reason ? { reason } : {}),
+  });
+}
+
+/**
+ * Record an approver's decision on a pending booking: approval confirms it,
+ * rejection cancels it. A rejected modification of a confirmed booking only
+ * discards the modification; see `settleModification`. The decision,
+ * approver, reason and time are kept in the status history. Approvers cannot
+ * decide on their own requests.
+ */
+export async function decideApproval(
+  tenantId: string,
+  booking: Booking,
+  decision: ApprovalDecision,
+  approver: string,
+  reason?: string,
+): Promise<Booking> {
+  if (booking.status !== "PENDING") {
+    throw new ApprovalError("NOT_PENDING_APPROVAL", booking.bookingId,
+      `Booking ${booking.bookingId} is ${booking.status} and not awaiting approval`);
+  }
+  if (booking.approval?.requestedBy === approver) {
+    throw new ApprovalError("SELF_APPROVAL", booking.bookingId,
+      `Booking ${booking.bookingId} was requested by the approver and needs another approver's decision`);
+  }
+  const change: StatusChange = {
+    from: "PENDING",
+    to: decision === "APPROVED" ? "CONFIRMED" : "CANCELLED",
+    changedBy: approver,
+    changedAt: new Date().toISOString(),
+    decision,
+    ...(reason ? { reason } : {}),
+  };
+  if (pendingModification(booking)) {
+    return settleModification(tenantId, booking, { ...change, to: "CONFIRMED" });
+  }
+  return writeStatusChange(tenantId, booking, change);
+}
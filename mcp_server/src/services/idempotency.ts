@@ -0,0 +1,88 @@
+import { createHash } from "crypto";
+import log4js from "../utils/logging.js";
+import config from "../utils/env-config.js";
+import { getBookingRepository, IdempotencyKeyReusedError } from "../repositories/booking-repository.js";
+import type { Booking, IdempotencyRecord } from "../types/booking.js";
+
+const l = log4js.getLogger("Idempotency");
+
+export const getIdempotencyTtlSeconds = (): number =>
+  Number(config.get("IDEMPOTENCY_TTL_SECONDS", "3600"));
+
+/**
+ * A booking request as seen by the idempotency layer.
+ *
+ * Only requests with an explicit `idempotencyKey` are deduplicated. Two
+ * identical requests without one are two bookings: a traveler may well book
+ * the same flight twice on purpose.
+ */
+export interface IdempotentRequest {
+  tool: string;
+  userId: string;
+  idempotencyKey?: string;
+  params: Record<string, unknown>;
+}
+
+const sha256 = (value: string): string => createHash("sha256").update(value).digest("base64url");
+
+// Serialize with sorted keys so parameter order does not change the hash.
+const canonical = (params: Record<string, unknown>): string =>
+  JSON.stringify(Object.keys(params).sort().map(key => [key, params[key] ?? null]));
+
+// Keys are scoped to the user and tool so users of the same tenant cannot
+// collide on simple keys like "1".
+const recordKey = (request: IdempotentRequest & { idempotencyKey: string }): string =>
+  sha256(JSON.stringify([request.tool, request.userId, request.idempotencyKey]));
+
+const requestHash = (request: IdempotentRequest): string => sha256(canonical(request.params));
+
+/**
+ * Return the booking an earlier request with the same idempotency key
+ * created, if it is still within the window. Throws
+ * `IdempotencyKeyReusedError` if the key was used with other parameters.
+ */
+export async function findIdempotentReplay(
+  tenantId: string,
+  request: IdempotentRequest,
+): Promise<Booking | undefined> {
+  const { idempotencyKey } = request;
+  if (idempotencyKey === undefined) {
+    return undefined;
+  }
+  const repository = getBookingRepository();
+  const record = await repository.getIdempotencyRecord(tenantId, recordKey({ ...request, idempotencyKey }));
+  if (!record) {
+    return undefined;
+  }
+  if (record.requestHash !== requestHash(request)) {
+    throw new IdempotencyKeyReusedError(record.bookingId);
+  }
+  l.info(`Replaying ${request.tool} for tenant ${tenantId}: booking ${record.bookingId}`);
+  return repository.get(tenantId, record.bookingType, record.bookingId);
+}
+
+/**
+ * Create a booking under the request's idempotency key. Returns the booking
+ * that was stored, which is the original one if a concurrent request with
+ * the same key won the race. Without a key the booking is simply created.
+ */
+export async function createIdempotentBooking(
+  tenantId: string,
+  booking: Booking,
+  request: IdempotentRequest,
+): Promise<Booking> {
+  const { idempotencyKey } = request;
+  if (idempotencyKey === undefined) {
+    await getBookingRepository().create(tenantId, booking);
+    return booking;
+  }
+  const record: IdempotencyRecord = {
+    key: recordKey({ ...request, idempotencyKey }),
+    requestHash: requestHash(request),
+    bookingType: booking.type,
+    bookingId: booking.bookingId,
+    createdAt: new Date().toISOString(),
+    expiresAt: Math.floor(Date.now() / 1000) + getIdempotencyTtlSeconds(),
+  };
+  return getBookingRepository().createIdempotent(tenantId, booking, record);
+}
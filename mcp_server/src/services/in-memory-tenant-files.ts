@@ -0,0 +1,57 @@
+/**
+ * A tenant file as listed from the tenant's S3 prefix.
+ */
+export interface TenantFileInfo {
+  key: string;
+  filename: string;
+  contentType: string;
+}
+
+/**
+ * Content type of a tenant file, by extension.
+ */
+export function contentTypeFor(filename: string): string {
+  if (filename.endsWith(".json")) {
+    return "application/json";
+  } else if (filename.endsWith(".md")) {
+    return "text/markdown";
+  }
+  return "text/plain";
+}
+
+/**
+ * Process-local stand-in for the tenant files bucket, used with
+ * `DATA_BACKEND=memory`. Files are kept per tenant prefix as in S3.
+ */
+export class InMemoryTenantFiles {
+  private readonly files = new Map<string, string>();
+
+  put(tenantId: string, filename: string, content: string): void {
+    this.files.set(`${tenantId}/${filename}`, content);
+  }
+
+  list(tenantId: string): TenantFileInfo[] {
+    const prefix = `${tenantId}/`;
+    return [...this.files.keys()]
+      .filter(key => key.startsWith(prefix))
+      .map(key => {
+        const filename = key.substring(prefix.length);
+        return { key, filename, contentType: contentTypeFor(filename) };
+      });
+  }
+
+  read(tenantId: string, filename: string): string | undefined {
+    return this.files.get(`${tenantId}/${filename}`);
+  }
+
+  clear(): void {
+    this.files.clear();
+  }
+}
+
+const tenantFiles = new InMemoryTenantFiles();
+
+/**
+ * The shared in-memory tenant files, e.g. for seeding in tests.
+ */
+export const getInMemoryTenantFiles = (): InMemoryTenantFiles => tenantFiles;
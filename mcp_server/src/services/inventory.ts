@@ -0,0 +1,389 @@
+import { Faker, base, en } from "@faker-js/faker";
+import config from "../utils/env-config.js";
+import { stayNights } from "../utils/dates.js";
+import { getReservationStore } from "./reservation-store.js";
+import type { ReservationRequest } from "./reservation-store.js";
+import type { Booking, HotelBooking } from "../types/booking.js";
+import type { FlightInfo, HotelInfo } from "../types/inventory.js";
+
+/** Airlines with the code their flight numbers start with. */
+const AIRLINES: Record<string, string> = {
+  Delta: "DL",
+  United: "UA",
+  American: "AA",
+  Southwest: "WN",
+};
+const FLIGHT_CLASSES = ["Economy", "Business", "First"];
+const FREQUENT_FLYER_PROGRAMS: Record<string, string> = {
+  Delta: "SkyMiles",
+  United: "MileagePlus",
+  American: "AAdvantage",
+  Southwest: "Rapid Rewards",
+};
+
+const HOTEL_CHAINS = ["Marriott", "Hilton", "Hyatt", "IHG"];
+/** Ordered from lowest to highest category. */
+export const ROOM_TYPES = ["Standard", "Deluxe", "Suite", "Presidential Suite"];
+const BED_TYPES = ["King", "Queen", "Twin", "Double"];
+const AMENITIES = [
+  "WiFi",
+  "Mini Bar",
+  "Ocean View",
+  "Balcony",
+  "Kitchen",
+  "Jacuzzi",
+  "Work Desk",
+  "Dog Friendly",
+];
+const FACILITIES = [
+  "Pool",
+  "Spa",
+  "Gym",
+  "Restaurant",
+  "Bar",
+  "Business Center",
+  "Conference Rooms",
+];
+const LOYALTY_PROGRAMS: Record<string, string> = {
+  Marriott: "Bonvoy",
+  Hilton: "Honors",
+  Hyatt: "World of Hyatt",
+  IHG: "One Rewards",
+};
+
+const FLIGHTS_PER_ROUTE = 4;
+const HOTELS_PER_CITY = 4;
+/** Most rooms of a type a hotel has left on a night. */
+const MAX_ROOMS = 10;
+
+/** Longest stay that can be booked, in nights. */
+export const MAX_STAY_NIGHTS = 30;
+
+/** Currency of every fare and nightly rate in the inventory. */
+const INVENTORY_CURRENCY = "USD";
+
+export interface Route {
+  origin: string;
+  destination: string;
+}
+
+/**
+ * A seat or room taken from the inventory. Releasing it makes it available
+ * again.
+ */
+export interface Reservation {
+  release(): Promise<void>;
+}
+
+/**
+ * The flights and hotels that can be searched and booked. The same search
+ * always returns the same flights and hotels at the same prices; only the
+ * seats and rooms left change as the tenant's bookings reserve them.
+ */
+export interface InventoryProvider {
+  /** Flights on a route departing on a date (`YYYY-MM-DD`). */
+  findFlights(tenantId: string, origin: string, destination: string, departure: string): Promise<FlightInfo[]>;
+  /** A flight on a route by its number and departure date. */
+  getFlight(tenantId: string, flightNumber: string, departure: string, route: Route): Promise<FlightInfo | undefined>;
+  /** Take a seat of a flight class, or `undefined` if it is sold out. */
+  reserveSeat(tenantId: string, flight: FlightInfo, flightClass: string): Promise<Reservation | undefined>;
+  /** Hotels in a city with the rooms left for a stay. */
+  findHotels(tenantId: string, city: string, checkIn: string, checkOut: string): Promise<HotelInfo[]>;
+  /** A hotel in a city by its name, for a stay. */
+  getHotel(tenantId: string, hotelName: string, city: string, checkIn: string, checkOut: string): Promise<HotelInfo | undefined>;
+  /** Take a room for every night of the hotel's stay, or `undefined` if none is left. */
+  reserveRoom(tenantId: string, hotel: HotelInfo, roomType: string): Promise<Reservation | undefined>;
+  /**
+   * Take the rooms a modified hotel booking needs that the booking does not
+   * hold yet, or `undefined` if one of them is sold out.
+   */
+  reserveChange(tenantId: string, booking: HotelBooking, modified: HotelBooking): Promise<Reservation | undefined>;
+  /** Give back the seat or rooms a booking holds, except those `kept` holds as well. */
+  releaseBooking(tenantId: string, booking: Booking, kept?: Booking): Promise<void>;
+}
+
+// A flight's schedule, the same on every date.
+interface ScheduledFlight {
+  flightNumber: string;
+  airline: string;
+  hour: number;
+  duration: number;
+  stops: number;
+}
+
+// A hotel without the rooms left, which depend on the stay.
+type CityHotel = Omit<HotelInfo, "checkIn" | "checkOut" | "currency" | "availableRooms"> & {
+  rooms: Omit<HotelInfo["availableRooms"][number], "available">[];
+};
+
+// FNV-1a: a stable 32-bit seed for a string.
+function hash(value: string): number {
+  let result = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    result ^= value.charCodeAt(i);
+    result = Math.imul(result, 0x01000193);
+  }
+  return result >>> 0;
+}
+
+const normalize = (value: string): string => value.trim().toUpperCase();
+
+const sameName = (a: string, b: string): boolean => a.toLowerCase() === b.toLowerCase();
+
+const seatKey = (flightNumber: string, date: string, flightClass: string): string =>
+  `SEAT#${flightNumber}#${date}#${flightClass}`;
+
+const roomKey = (hotelName: string, roomType: string, night: string): string =>
+  `ROOM#${hotelName}#${roomType}#${night}`;
+
+// The keys of the seat or the rooms a booking holds.
+function bookingKeys(booking: Booking): string[] {
+  return booking.type === "FLIGHT"
+    ? [seatKey(booking.flightNumber, booking.departureDateTime.substring(0, 10), booking.class)]
+    : stayNights(booking.checkInDate, booking.checkOutDate).map(night => roomKey(booking.hotelName, booking.roomType, night));
+}
+
+// A stay that can be booked: at least one night and at most MAX_STAY_NIGHTS.
+const bookableNights = (checkIn: string, checkOut: string): string[] => {
+  const nights = stayNights(checkIn, checkOut);
+  return nights.length > MAX_STAY_NIGHTS ? [] : nights;
+};
+
+/**
+ * Inventory generated from a seed (`INVENTORY_SEED`): flights are keyed by
+ * route and date, hotels by city and night, so every server with the same
+ * seed offers the same inventory. The seats and rooms each tenant's bookings
+ * take are counted in the `ReservationStore`.
+ */
+export class SeededInventory implements InventoryProvider {
+  private readonly faker = new Faker({ locale: [en, base] });
+
+  constructor(private readonly seed = config.get("INVENTORY_SEED", "travel")) {}
+
+  async findFlights(tenantId: string, origin: string, destination: string, departure: string): Promise<FlightInfo[]> {
+    const date = departure.substring(0, 10);
+    const midnight = Date.parse(`${date}T00:00:00.000Z`);
+    const { distance, flights } = this.schedule(origin, destination);
+    const seats = flights.map(scheduled => this.seats(scheduled.flightNumber, date));
+    const reserved = await getReservationStore().getReserved(tenantId, flights.flatMap((scheduled, i) =>
+      seats[i].map(seat => seatKey(scheduled.flightNumber, date, seat.flightClass))));
+
+    return flights.map((scheduled, i) => {
+      const departureTime = midnight + scheduled.hour * 3_600_000;
+      return {
+        departure: new Date(departureTime).toISOString(),
+        arrival: new Date(departureTime + scheduled.duration * 60_000).toISOString(),
+        origin,
+        destination,
+        distance,
+        duration: scheduled.duration,
+        stops: scheduled.stops,
+        flightNumber: scheduled.flightNumber,
+        airline: scheduled.airline,
+        currency: INVENTORY_CURRENCY,
+        availableSeats: seats[i].map(({ flightClass, capacity, price }) => ({
+          flightClass,
+          count: Math.max(0, capacity - (reserved.get(seatKey(scheduled.flightNumber, date, flightClass)) ?? 0)),
+          price,
+        })),
+        frequentFlyerInfo: {
+          programName: FREQUENT_FLYER_PROGRAMS[scheduled.airline],
+          milesEarned: Math.round(distance * 0.5),
+          tierPointsEarned: Math.round(distance * 0.1),
+        },
+      };
+    });
+  }
+
+  async getFlight(tenantId: string, flightNumber: string, departure: string, route: Route): Promise<FlightInfo | undefined> {
+    const flights = await this.findFlights(tenantId, route.origin, route.destination, departure);
+    return flights.find(flight => flight.flightNumber === normalize(flightNumber));
+  }
+
+  reserveSeat(tenantId: string, flight: FlightInfo, flightClass: string): Promise<Reservation | undefined> {
+    const date = flight.departure.substring(0, 10);
+    const seat = this.seats(flight.flightNumber, date).find(s => sameName(s.flightClass, flightClass));
+    if (!seat) {
+      return Promise.resolve(undefined);
+    }
+    return this.take(tenantId, [{ key: seatKey(flight.flightNumber, date, seat.flightClass), capacity: seat.capacity }]);
+  }
+
+  async findHotels(tenantId: string, city: string, checkIn: string, checkOut: string): Promise<HotelInfo[]> {
+    const hotels = this.hotelsIn(city);
+    // Stays that cannot be booked have no rooms.
+    const nights = bookableNights(checkIn, checkOut);
+    const keys = (hotelName: string, roomType: string): string[] =>
+      nights.map(night => roomKey(hotelName, roomType, night));
+    const reserved = await getReservationStore().getReserved(tenantId, hotels.flatMap(hotel =>
+      hotel.rooms.flatMap(room => keys(hotel.hotelName, room.roomType))));
+
+    return hotels.map(({ rooms, ...hotel }) => ({
+      checkIn: new Date(checkIn).toISOString(),
+      checkOut: new Date(checkOut).toISOString(),
+      ...hotel,
+      currency: INVENTORY_CURRENCY,
+      availableRooms: rooms.map(room => ({
+        ...room,
+        // The rooms left for every night of the stay.
+        available: nights.length === 0 ? 0 : Math.min(...keys(hotel.hotelName, room.roomType)
+          .map(key => Math.max(0, this.roomCapacity(key) - (reserved.get(key) ?? 0)))),
+      })),
+    }));
+  }
+
+  async getHotel(tenantId: string, hotelName: string, city: string, checkIn: string, checkOut: string): Promise<HotelInfo | undefined> {
+    const hotels = await this.findHotels(tenantId, city, checkIn, checkOut);
+    return hotels.find(hotel => sameName(hotel.hotelName, hotelName));
+  }
+
+  reserveRoom(tenantId: string, hotel: HotelInfo, roomType: string): Promise<Reservation | undefined> {
+    const room = hotel.availableRooms.find(r => sameName(r.roomType, roomType));
+    const nights = bookableNights(hotel.checkIn, hotel.checkOut);
+    if (!room || nights.length === 0) {
+      return Promise.resolve(undefined);
+    }
+    return this.take(tenantId, nights.map(night => roomKey(hotel.hotelName, room.roomType, night))
+      .map(key => ({ key, capacity: this.roomCapacity(key) })));
+  }
+
+  reserveChange(tenantId: string, booking: HotelBooking, modified: HotelBooking): Promise<Reservation | undefined> {
+    const held = new Set(bookingKeys(booking));
+    return this.take(tenantId, bookingKeys(modified).filter(key => !held.has(key))
+      .map(key => ({ key, capacity: this.roomCapacity(key) })));
+  }
+
+  async releaseBooking(tenantId: string, booking: Booking, kept?: Booking): Promise<void> {
+    const keep = new Set(kept ? bookingKeys(kept) : []);
+    const keys = bookingKeys(booking).filter(key => !keep.has(key));
+    if (keys.length > 0) {
+      await getReservationStore().release(tenantId, keys);
+    }
+  }
+
+  // Reseed the generator for one part of the inventory.
+  private random(key: string): Faker {
+    this.faker.seed(hash(`${this.seed}#${key}`));
+    return this.faker;
+  }
+
+  private async take(tenantId: string, requests: ReservationRequest[]): Promise<Reservation | undefined> {
+    const keys = requests.map(request => request.key);
+    if (keys.length > 0 && !(await getReservationStore().reserve(tenantId, requests))) {
+      return undefined;
+    }
+    let released = false;
+    return {
+      release: async () => {
+        if (released || keys.length === 0) {
+          return;
+        }
+        released = true;
+        await getReservationStore().release(tenantId, keys);
+      },
+    };
+  }
+
+  private schedule(origin: string, destination: string): { distance: number; flights: ScheduledFlight[] } {
+    const random = this.random(`ROUTE#${normalize(origin)}#${normalize(destination)}`);
+    const distance = random.number.int({ min: 100, max: 3000 });
+    const flights: ScheduledFlight[] = [];
+    while (flights.length < FLIGHTS_PER_ROUTE) {
+      const airline = random.helpers.objectKey(AIRLINES);
+      const flightNumber = `${AIRLINES[airline]}${random.number.int({ min: 1000, max: 9999 })}`;
+      const scheduled = {
+        flightNumber,
+        airline,
+        hour: random.number.int({ min: 0, max: 23 }),
+        duration: random.number.int({ min: 60, max: 480 }),
+        stops: random.number.int({ min: 0, max: 2 }),
+      };
+      if (!flights.some(flight => flight.flightNumber === flightNumber)) {
+        flights.push(scheduled);
+      }
+    }
+    return { distance, flights: flights.sort((a, b) => a.hour - b.hour) };
+  }
+
+  // The seats of each class on a date before any are reserved.
+  private seats(flightNumber: string, date: string): { flightClass: string; capacity: number; price: number }[] {
+    const random = this.random(`FLIGHT#${flightNumber}#${date}`);
+    return FLIGHT_CLASSES.map(flightClass => ({
+      flightClass,
+      capacity: random.number.int({ min: 0, max: 50 }),
+      price: random.number.int({ min: 100, max: 2000 }),
+    }));
+  }
+
+  private hotelsIn(city: string): CityHotel[] {
+    const random = this.random(`CITY#${normalize(city)}`);
+    const hotels: CityHotel[] = [];
+    while (hotels.length < HOTELS_PER_CITY) {
+      const hotelChain = random.helpers.arrayElement(HOTEL_CHAINS);
+      const hotel: CityHotel = {
+        hotelName: `${hotelChain} ${random.location.city()}`,
+        location: {
+          address: random.location.streetAddress(),
+          city: city,
+          country: random.location.country(),
+          coordinates: {
+            latitude: +random.location.latitude(),
+            longitude: +random.location.longitude(),
+          },
+        },
+        rating: random.number.float({ min: 3, max: 5, fractionDigits: 1 }),
+        rooms: ROOM_TYPES.map((type) => ({
+          roomType: type,
+          bedType: random.helpers.arrayElement(BED_TYPES),
+          occupancy: {
+            max: random.number.int({ min: 2, max: 6 }),
+            recommended: random.number.int({ min: 1, max: 4 }),
+          },
+          amenities: random.helpers.arrayElements(AMENITIES, {
+            min: 2,
+            max: 5,
+          }),
+          pricePerNight: random.number.int({ min: 100, max: 1000 }),
+        })),
+        facilities: random.helpers.arrayElements(FACILITIES, {
+          min: 3,
+          max: 7,
+        }),
+        loyaltyProgram: {
+          programName: LOYALTY_PROGRAMS[hotelChain],
+          pointsEarned: random.number.int({ min: 500, max: 5000 }),
+          tierPointsEarned: random.number.int({ min: 50, max: 500 }),
+        },
+      };
+      if (!hotels.some(other => other.hotelName === hotel.hotelName)) {
+        hotels.push(hotel);
+      }
+    }
+    return hotels;
+  }
+
+  // The rooms of a type a hotel has on a night before any are reserved.
+  // Derived from the hash alone: reseeding the generator for every night
+  // would make long stays slow to search.
+  private roomCapacity(key: string): number {
+    return hash(`${this.seed}#${key}`) % (MAX_ROOMS + 1);
+  }
+}
+
+let inventory: InventoryProvider | undefined;
+
+/**
+ * Return the inventory for the configured `INVENTORY_SEED`.
+ */
+export function getInventory(): InventoryProvider {
+  inventory ??= new SeededInventory();
+  return inventory;
+}
+
+/**
+ * Replace the inventory, e.g. with one of another seed in tests. Passing
+ * `undefined` re-reads `INVENTORY_SEED` on next use.
+ */
+export function setInventory(next: InventoryProvider | undefined): void {
+  inventory = next;
+}
@@ -0,0 +1,188 @@
+import { BatchGetCommand, TransactWriteCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import type { BatchGetCommandOutput } from "@aws-sdk/lib-dynamodb";
+import log4js from "../utils/logging.js";
+import { getDataBackend } from "../utils/env-config.js";
+import { getDynamoDbClient, TABLE_NAME } from "./dynamoDb.js";
+
+const l = log4js.getLogger("Reservation Store");
+
+/**
+ * Take one more under `key`, unless `capacity` are taken already.
+ */
+export interface ReservationRequest {
+  key: string;
+  capacity: number;
+}
+
+/**
+ * How many seats and rooms a tenant's bookings hold, counted by inventory
+ * key (a flight class on a date, or a room type of a hotel on a night).
+ */
+export interface ReservationStore {
+  /**
+   * The count taken under each key; keys nothing was taken under are left
+   * out.
+   */
+  getReserved(tenantId: string, keys: string[]): Promise<Map<string, number>>;
+  /**
+   * Take one under every key, all or none. Returns `false`, taking nothing,
+   * if any key is at its capacity.
+   */
+  reserve(tenantId: string, requests: ReservationRequest[]): Promise<boolean>;
+  /**
+   * Give one back under every key.
+   */
+  release(tenantId: string, keys: string[]): Promise<void>;
+}
+
+/**
+ * Process-local counts, for tests and local development.
+ */
+export class InMemoryReservationStore implements ReservationStore {
+  private readonly reserved = new Map<string, number>();
+
+  getReserved(tenantId: string, keys: string[]): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
+    for (const key of keys) {
+      const count = this.reserved.get(`${tenantId}#${key}`);
+      if (count !== undefined) {
+        counts.set(key, count);
+      }
+    }
+    return Promise.resolve(counts);
+  }
+
+  reserve(tenantId: string, requests: ReservationRequest[]): Promise<boolean> {
+    if (requests.some(({ key, capacity }) => (this.reserved.get(`${tenantId}#${key}`) ?? 0) >= capacity)) {
+      return Promise.resolve(false);
+    }
+    for (const { key } of requests) {
+      this.reserved.set(`${tenantId}#${key}`, (this.reserved.get(`${tenantId}#${key}`) ?? 0) + 1);
+    }
+    return Promise.resolve(true);
+  }
+
+  release(tenantId: string, keys: string[]): Promise<void> {
+    for (const key of keys) {
+      const count = this.reserved.get(`${tenantId}#${key}`) ?? 0;
+      if (count > 0) {
+        this.reserved.set(`${tenantId}#${key}`, count - 1);
+      }
+    }
+    return Promise.resolve();
+  }
+}
+
+// Counters live in the tenant's partition next to its bookings. Like the
+// idempotency records they carry no `bookingId` or `travelDate`, so neither
+// index picks them up.
+const SORT_KEY_PREFIX = "INVENTORY#";
+const sortKey = (key: string): string => `${SORT_KEY_PREFIX}${key}`;
+
+// Most keys a single BatchGetItem request can read.
+const BATCH_GET_LIMIT = 100;
+
+/**
+ * Counts kept in the bookings table, shared by all ECS tasks. Each key is a
+ * counter item that is only incremented while it is below its capacity, so
+ * concurrent bookings cannot oversell a seat or room.
+ */
+export class DynamoDbReservationStore implements ReservationStore {
+  async getReserved(tenantId: string, keys: string[]): Promise<Map<string, number>> {
+    const dynamoDB = await getDynamoDbClient(tenantId);
+    const counts = new Map<string, number>();
+
+    for (let start = 0; start < keys.length; start += BATCH_GET_LIMIT) {
+      let requested: Record<string, unknown>[] | undefined = keys.slice(start, start + BATCH_GET_LIMIT)
+        .map(key => ({ PK: `${tenantId}`, SK: sortKey(key) }));
+      // DynamoDB may leave keys unprocessed under load; ask for them again.
+      while (requested?.length) {
+        const result: BatchGetCommandOutput = await dynamoDB.send(new BatchGetCommand({
+          RequestItems: {
+            [`${TABLE_NAME}`]: { Keys: requested, ProjectionExpression: "SK, reserved" },
+          },
+        }));
+        for (const item of result.Responses?.[`${TABLE_NAME}`] ?? []) {
+          counts.set((item.SK as string).substring(SORT_KEY_PREFIX.length), item.reserved as number);
+        }
+        requested = result.UnprocessedKeys?.[`${TABLE_NAME}`]?.Keys;
+      }
+    }
+    return counts;
+  }
+
+  async reserve(tenantId: string, requests: ReservationRequest[]): Promise<boolean> {
+    const dynamoDB = await getDynamoDbClient(tenantId);
+
+    const params = {
+      TransactItems: requests.map(({ key, capacity }) => ({
+        Update: {
+          TableName: TABLE_NAME,
+          Key: { PK: `${tenantId}`, SK: sortKey(key) },
+          UpdateExpression: "ADD reserved :one",
+          ConditionExpression: "attribute_not_exists(reserved) OR reserved < :capacity",
+          ExpressionAttributeValues: { ":one": 1, ":capacity": capacity },
+        },
+      })),
+    };
+
+    try {
+      await dynamoDB.send(new TransactWriteCommand(params));
+      return true;
+    } catch (error) {
+      const reasons = (error as { CancellationReasons?: { Code?: string }[] }).CancellationReasons;
+      if (error instanceof Error && error.name === "TransactionCanceledException"
+        && reasons?.some(reason => reason.Code === "ConditionalCheckFailed")) {
+        return false;
+      }
+      l.error(`Error reserving inventory of tenant ${tenantId}:`, error);
+      throw error;
+    }
+  }
+
+  async release(tenantId: string, keys: string[]): Promise<void> {
+    const dynamoDB = await getDynamoDbClient(tenantId);
+
+    await Promise.all(keys.map(async key => {
+      try {
+        await dynamoDB.send(new UpdateCommand({
+          TableName: TABLE_NAME,
+          Key: { PK: `${tenantId}`, SK: sortKey(key) },
+          UpdateExpression: "ADD reserved :minusOne",
+          ConditionExpression: "reserved > :zero",
+          ExpressionAttributeValues: { ":minusOne": -1, ":zero": 0 },
+        }));
+      } catch (error) {
+        // Nothing is held under the key, e.g. for a booking made before
+        // reservations were counted.
+        if (!(error instanceof Error && error.name === "ConditionalCheckFailedException")) {
+          throw error;
+        }
+      }
+    }));
+  }
+}
+
+let store: ReservationStore | undefined;
+
+/**
+ * Return the reservation store for the configured `DATA_BACKEND`.
+ */
+export function getReservationStore(): ReservationStore {
+  if (!store) {
+    const backend = getDataBackend();
+    l.info(`Using ${backend} reservation store`);
+    store = backend === "memory"
+      ? new InMemoryReservationStore()
+      : new DynamoDbReservationStore();
+  }
+  return store;
+}
+
+/**
+ * Replace the store, e.g. with a fresh in-memory one in tests. Passing
+ * `undefined` re-reads `DATA_BACKEND` on next use.
+ */
+export function setReservationStore(next: ReservationStore | undefined): void {
+  store = next;
+}
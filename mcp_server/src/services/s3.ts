@@ -1,49 +1,25 @@
 import { S3Client, ListObjectsV2Command } from "@aws-sdk/client-s3";
-import { STSClient, AssumeRoleCommand } from "@aws-sdk/client-sts";
+import { getTenantClient } from "./tenant-credentials.js";
+import { getDataBackend } from "../utils/env-config.js";
+import { getInMemoryTenantFiles } from "./in-memory-tenant-files.js";
 
 export const BUCKET_NAME = process.env.BUCKET_NAME;
 
-export async function getS3Client(tenantId: string) {
-  const stsClient = new STSClient({
-    region: process.env.AWS_DEFAULT_REGION ?? "us-east-1",
-  });
-
-  try {
-    const command = new AssumeRoleCommand({
-      RoleArn: process.env.ROLE_ARN,
-      RoleSessionName: `tenant-${tenantId}-session`,
-      Tags: [
-        {
-          Key: "tenantId",
-          Value: tenantId,
-        },
-      ],
-    });
-
-    const response = await stsClient.send(command);
-
-    if (response.Credentials) {
-      const s3Client = new S3Client({
-        credentials: {
-          accessKeyId: response.Credentials.AccessKeyId!,
-          secretAccessKey: response.Credentials.SecretAccessKey!,
-          sessionToken: response.Credentials.SessionToken,
-        },
-        region: process.env.AWS_DEFAULT_REGION ?? "us-east-1",
-      });
-
-      return s3Client;
-    } else {
-      throw new Error("Failed to obtain temporary credentials");
-    }
-  } catch (error) {
-    console.error("Error assuming role:", error);
-    throw error;
-  }
+/**
+ * S3 client scoped to a tenant through its tagged session credentials.
+ * Clients and credentials are cached per tenant by `tenant-credentials`.
+ */
+export function getS3Client(tenantId: string): Promise<S3Client> {
+  return Promise.resolve(
+    getTenantClient("s3", tenantId, (credentials, region) =>
+      new S3Client({ credentials, region })
+    )
+  );
 }
 
 /**
  * Discover all S3 resources for a specific tenant
+ * With `DATA_BACKEND=memory` the in-memory tenant files are listed instead.
  * @param tenantId - The tenant identifier
  * @returns Array of tenant's S3 resources with metadata
  */
@@ -52,6 +28,9 @@ export async function listTenantResources(tenantId: string): Promise<{
   filename: string;
   contentType: string;
 }[]> {
+  if (getDataBackend() === "memory") {
+    return getInMemoryTenantFiles().list(tenantId);
+  }
   try {
     const s3Client = await getS3Client(tenantId);
 
@@ -0,0 +1,204 @@
+import type { ExpenseLimits } from "../policy/policy-documents.js";
+import type { Booking } from "../types/booking.js";
+
+export type Budgets = NonNullable<ExpenseLimits["budgets"]>;
+
+/**
+ * Spend of a set of bookings. Bookings awaiting approval are kept apart, as
+ * they are only charged once approved.
+ */
+export interface SpendTotal {
+  spent: number;
+  pending: number;
+  bookings: number;
+}
+
+export interface SpendGroup extends SpendTotal {
+  key: string;
+}
+
+export type BudgetScope = "TENANT" | "CATEGORY" | "COST_CENTER";
+
+/**
+ * One monthly budget compared with what is committed against it: the spent
+ * and the pending amounts.
+ */
+export interface BudgetStatus {
+  scope: BudgetScope;
+  /** The category or cost center; `all` for the tenant's budget. */
+  key: string;
+  month: string;
+  budget: number;
+  committed: number;
+  remaining: number;
+  /** `committed` as a share of `budget`. */
+  utilization: number;
+  status: "OK" | "NEARLY_EXHAUSTED" | "EXCEEDED";
+}
+
+export interface BudgetAlert {
+  scope: BudgetScope;
+  key: string;
+  month: string;
+  status: "NEARLY_EXHAUSTED" | "EXCEEDED";
+  message: string;
+}
+
+export interface SpendSummary {
+  /** First and last month, `YYYY-MM`. */
+  from: string;
+  to: string;
+  currency: string;
+  total: SpendTotal;
+  byTraveler: SpendGroup[];
+  byMonth: SpendGroup[];
+  byCategory: SpendGroup[];
+  byCostCenter: SpendGroup[];
+  /** Bookings in the period without a price, or priced in another currency. */
+  uncounted: number;
+  budgets: BudgetStatus[];
+  alerts: BudgetAlert[];
+}
+
+/**
+ * Key for bookings without a traveler or cost center.
+ */
+export const UNASSIGNED = "UNASSIGNED";
+
+const DEFAULT_ALERT_THRESHOLD = 0.8;
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * The months from `from` to `to` (`YYYY-MM`), both included.
+ */
+export function monthsBetween(from: string, to: string): string[] {
+  const months: string[] = [];
+  let [year, month] = from.split("-").map(Number);
+  for (let current = from; current <= to; current = `${year}-${String(month).padStart(2, "0")}`) {
+    months.push(current);
+    month += 1;
+    if (month > 12) {
+      month = 1;
+      year += 1;
+    }
+  }
+  return months;
+}
+
+// Bookings are counted in the month they were made.
+const monthOf = (booking: Booking): string => booking.bookingDate.substring(0, 7);
+
+function total(bookings: Booking[]): SpendTotal {
+  let spent = 0;
+  let pending = 0;
+  for (const booking of bookings) {
+    if (booking.status === "PENDING") {
+      pending += booking.price ?? 0;
+    } else {
+      spent += booking.price ?? 0;
+    }
+  }
+  return { spent: round(spent), pending: round(pending), bookings: bookings.length };
+}
+
+function groupBy(bookings: Booking[], keyOf: (booking: Booking) => string): SpendGroup[] {
+  const groups = new Map<string, Booking[]>();
+  for (const booking of bookings) {
+    const key = keyOf(booking);
+    groups.set(key, [...(groups.get(key) ?? []), booking]);
+  }
+  return [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, group]) => ({ key, ...total(group) }));
+}
+
+function budgetStatus(
+  scope: BudgetScope,
+  key: string,
+  month: string,
+  budget: number,
+  bookings: Booking[],
+  alertThreshold: number,
+): BudgetStatus {
+  const { spent, pending } = total(bookings);
+  const committed = round(spent + pending);
+  const utilization = round(committed / budget);
+  return {
+    scope,
+    key,
+    month,
+    budget,
+    committed,
+    remaining: round(budget - committed),
+    utilization,
+    status: committed > budget ? "EXCEEDED" : (utilization >= alertThreshold ? "NEARLY_EXHAUSTED" : "OK"),
+  };
+}
+
+const BUDGET_LABELS: Record<BudgetScope, (key: string) => string> = {
+  TENANT: () => "The travel budget",
+  CATEGORY: key => `The ${key.toLowerCase()} budget`,
+  COST_CENTER: key => `The budget of cost center ${key}`,
+};
+
+function toAlert(status: BudgetStatus, currency: string): BudgetAlert | undefined {
+  if (status.status === "OK") {
+    return undefined;
+  }
+  const label = `${BUDGET_LABELS[status.scope](status.key)} for ${status.month}`;
+  const message = status.status === "EXCEEDED"
+    ? `${label} is exceeded: ${status.committed} of ${status.budget} ${currency} committed.`
+    : `${label} is nearly exhausted: ${status.committed} of ${status.budget} ${currency} committed, ${status.remaining} left.`;
+  const { scope, key, month } = status;
+  return { scope, key, month, status: status.status, message };
+}
+
+/**
+ * Aggregate the spend of a tenant's bookings made from `from` to `to` by
+ * traveler, month, category and cost center, and compare it with the
+ * tenant's monthly budgets.
+ *
+ * Cancelled bookings are left out. Amounts are not converted: bookings
+ * priced in another currency than the tenant's are only counted as
+ * `uncounted`, like bookings without a price.
+ */
+export function summarizeSpend(
+  bookings: Booking[],
+  { from, to, currency, budgets = {} }: { from: string; to: string; currency: string; budgets?: Budgets },
+): SpendSummary {
+  const inPeriod = bookings.filter(booking =>
+    booking.status !== "CANCELLED" && monthOf(booking) >= from && monthOf(booking) <= to);
+  const counted = inPeriod.filter(booking => booking.price !== undefined && (booking.currency ?? "USD") === currency);
+
+  const alertThreshold = budgets.alertThreshold ?? DEFAULT_ALERT_THRESHOLD;
+  const statuses: BudgetStatus[] = [];
+  for (const month of monthsBetween(from, to)) {
+    const ofMonth = counted.filter(booking => monthOf(booking) === month);
+    if (budgets.monthly !== undefined) {
+      statuses.push(budgetStatus("TENANT", "all", month, budgets.monthly, ofMonth, alertThreshold));
+    }
+    for (const [category, budget] of Object.entries(budgets.categories ?? {})) {
+      const key = category.toUpperCase();
+      statuses.push(budgetStatus("CATEGORY", key, month, budget, ofMonth.filter(booking => booking.type === key), alertThreshold));
+    }
+    for (const [costCenter, budget] of Object.entries(budgets.costCenters ?? {})) {
+      statuses.push(budgetStatus("COST_CENTER", costCenter, month, budget,
+        ofMonth.filter(booking => booking.costCenter === costCenter), alertThreshold));
+    }
+  }
+
+  return {
+    from,
+    to,
+    currency,
+    total: total(counted),
+    byTraveler: groupBy(counted, booking => booking.bookedBy ?? UNASSIGNED),
+    byMonth: groupBy(counted, monthOf),
+    byCategory: groupBy(counted, booking => booking.type),
+    byCostCenter: groupBy(counted, booking => booking.costCenter ?? UNASSIGNED),
+    uncounted: inPeriod.length - counted.length,
+    budgets: statuses,
+    alerts: statuses.flatMap(status => toAlert(status, currency) ?? []),
+  };
+}
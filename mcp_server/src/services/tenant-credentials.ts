@@ -0,0 +1,167 @@
+import { STSClient, AssumeRoleCommand } from "@aws-sdk/client-sts";
+import log4js from "../utils/logging.js";
+import config from "../utils/env-config.js";
+
+const l = log4js.getLogger("Tenant Credentials");
+
+export interface TenantCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+  expiration: Date;
+}
+
+interface CachedCredentials {
+  credentials: TenantCredentials;
+}
+
+export interface CredentialCacheMetrics {
+  hits: number;
+  misses: number;
+  backgroundRefreshes: number;
+  refreshFailures: number;
+}
+
+const REGION = process.env.AWS_DEFAULT_REGION ?? "us-east-1";
+
+const stsClient = new STSClient({ region: REGION });
+
+const cache = new Map<string, CachedCredentials>();
+const inflight = new Map<string, Promise<CachedCredentials>>();
+const clients = new Map<string, unknown>();
+
+const metrics: CredentialCacheMetrics = {
+  hits: 0,
+  misses: 0,
+  backgroundRefreshes: 0,
+  refreshFailures: 0,
+};
+
+// Credentials this close to expiry are refreshed in the background while the
+// cached ones are still handed out.
+const refreshMarginMs = (): number =>
+  Number(config.get("CREDENTIAL_REFRESH_MARGIN_SECONDS", "300")) * 1000;
+
+// Credentials this close to expiry are not handed out at all; callers wait
+// for fresh ones so a request never starts with credentials about to lapse.
+const MIN_REMAINING_MS = 30 * 1000;
+
+async function assumeTenantRole(tenantId: string): Promise<CachedCredentials> {
+  const command = new AssumeRoleCommand({
+    RoleArn: process.env.ROLE_ARN,
+    RoleSessionName: `tenant-${tenantId}-session`,
+    Tags: [
+      {
+        Key: "tenantId",
+        Value: tenantId,
+      },
+    ],
+  });
+
+  const response = await stsClient.send(command);
+  const credentials = response.Credentials;
+  if (!credentials?.AccessKeyId || !credentials.SecretAccessKey || !credentials.Expiration) {
+    throw new Error("Failed to obtain temporary credentials");
+  }
+
+  return {
+    credentials: {
+      accessKeyId: credentials.AccessKeyId,
+      secretAccessKey: credentials.SecretAccessKey,
+      sessionToken: credentials.SessionToken,
+      expiration: credentials.Expiration,
+    },
+  };
+}
+
+/**
+ * Assume the tenant role, sharing a single STS call between concurrent callers.
+ */
+function refresh(tenantId: string): Promise<CachedCredentials> {
+  const pending = inflight.get(tenantId);
+  if (pending) {
+    return pending;
+  }
+
+  const request = assumeTenantRole(tenantId)
+    .then((entry) => {
+      cache.set(tenantId, entry);
+      l.debug(`Refreshed credentials for tenant ${tenantId}, valid until ${entry.credentials.expiration.toISOString()}`);
+      return entry;
+    })
+    .catch((error: unknown) => {
+      metrics.refreshFailures++;
+      console.error("Error assuming role:", error);
+      throw error;
+    })
+    .finally(() => {
+      inflight.delete(tenantId);
+    });
+
+  inflight.set(tenantId, request);
+  return request;
+}
+
+/**
+ * Get temporary credentials for a tenant, tagged with `tenantId` so IAM
+ * policies (e.g. `dynamodb:LeadingKeys`, S3 prefixes) scope them to that
+ * tenant's data.
+ *
+ * Credentials are cached per tenant until shortly before they expire.
+ */
+export async function getTenantCredentials(tenantId: string): Promise<TenantCredentials> {
+  const cached = cache.get(tenantId);
+  const remaining = cached ? cached.credentials.expiration.getTime() - Date.now() : 0;
+
+  if (cached && remaining > MIN_REMAINING_MS) {
+    metrics.hits++;
+    if (remaining < refreshMarginMs() && !inflight.has(tenantId)) {
+      metrics.backgroundRefreshes++;
+      // Failures are counted and logged in `refresh`; the cached credentials
+      // remain usable until the next call retries.
+      refresh(tenantId).catch(() => undefined);
+    }
+    return cached.credentials;
+  }
+
+  metrics.misses++;
+  const entry = await refresh(tenantId);
+  return entry.credentials;
+}
+
+/**
+ * Return the cached AWS client for a tenant, creating it on first use.
+ *
+ * Clients resolve their credentials through `getTenantCredentials`, so a
+ * cached client keeps working across credential refreshes.
+ */
+export function getTenantClient<T>(
+  service: string,
+  tenantId: string,
+  create: (credentials: () => Promise<TenantCredentials>, region: string) => T,
+): T {
+  const key = `${service}#${tenantId}`;
+  let client = clients.get(key) as T | undefined;
+  if (!client) {
+    client = create(() => getTenantCredentials(tenantId), REGION);
+    clients.set(key, client);
+  }
+  return client;
+}
+
+export function getCredentialCacheMetrics(): CredentialCacheMetrics {
+  return { ...metrics };
+}
+
+/**
+ * Drop all cached credentials and clients. Intended for tests.
+ */
+export function clearTenantCredentialCache(): void {
+  cache.clear();
+  inflight.clear();
+  clients.clear();
+  metrics.hits = 0;
+  metrics.misses = 0;
+  metrics.backgroundRefreshes = 0;
+  metrics.refreshFailures = 0;
+}
@@ -0,0 +1,368 @@
+/**
+ * Tests for the approval workflow
+ * Bookings above the tenant's approval thresholds are created PENDING and
+ * only leave that status through an approver's decision, which is recorded
+ * in the status history.
+ */
+
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../services/s3.js', async (importOriginal) => ({
+  ...await importOriginal(),
+  getS3Client: vi.fn(),
+}));
+
+import { getInMemoryTenantFiles } from '../services/in-memory-tenant-files.js';
+import { clearTravelPolicyCache } from '../policy/policy-documents.js';
+import { checkFlightPolicy, checkHotelPolicy } from '../policy/travel-policy.js';
+import { setBookingRepository } from '../repositories/booking-repository.js';
+import { InMemoryBookingRepository } from '../repositories/in-memory-booking-repository.js';
+import { getInventory, setInventory } from '../services/inventory.js';
+import { InMemoryReservationStore, setReservationStore } from '../services/reservation-store.js';
+import { getS3Client } from '../services/s3.js';
+import { isApprover } from '../auth/tenant-context.js';
+import { bookFlight } from '../tools/manage-flights.js';
+import { bookHotel, modifyHotelBooking } from '../tools/manage-hotels.js';
+import { cancelBooking } from '../tools/cancel-booking.js';
+import { approveBooking, listPendingApprovals, rejectBooking } from '../tools/approvals.js';
+
+const TODAY = new Date('2026-03-01T12:00:00Z');
+
+const expenseLimits = {
+  dailyLimits: { lodging: { tier1Cities: 600 } },
+  approvalThresholds: {
+    trip: { director: 15000, manager: 5000, vp: 50000 },
+    individual: { meal: 200, lodging: 500, transportation: 300 },
+  },
+  currency: 'USD',
+};
+
+const policy = { expenseLimits };
+
+const extra = (userId, roles = [], principalType = 'user') =>
+  ({ authInfo: { extra: { tenantId: 'acme', userId, principalType, roles } } });
+const traveler = extra('traveler-1');
+const approver = extra('approver-1', ['travel-approver']);
+
+// A room from list_hotels, quoted at its nightly rate, that is above or
+// within the lodging approval threshold.
+const hotelRequest = async (aboveThreshold) => {
+  for (const hotel of await getInventory().findHotels('acme', 'Lisbon', '2099-07-01', '2099-07-03')) {
+    const room = hotel.availableRooms.find((r) => r.available > 0 && (r.pricePerNight > 500) === aboveThreshold);
+    if (room) {
+      return {
+        hotelName: hotel.hotelName, city: 'Lisbon', checkIn: '2099-07-01', checkOut: '2099-07-03', roomType: room.roomType, guests: 1, pricePerNight: room.pricePerNight,
+      };
+    }
+  }
+  throw new Error('No matching room');
+};
+
+describe('approval thresholds', () => {
+  const flight = { flightNumber: 'AA1234', departure: '2026-04-01', flightClass: 'Economy' };
+
+  test('a fare above the lowest trip threshold needs approval', () => {
+    const verdict = checkFlightPolicy(policy, { ...flight, price: 6000 }, TODAY);
+
+    expect(verdict).toMatchObject({ compliant: true, approvalRequired: true });
+    expect(verdict.approvals).toEqual([{
+      rule: 'APPROVAL_THRESHOLD',
+      message: 'The fare of 6000 USD exceeds the manager approval threshold of 5000 USD.',
+      limit: 5000,
+      actual: 6000,
+    }]);
+  });
+
+  test('names the highest level exceeded', () => {
+    const verdict = checkFlightPolicy(policy, { ...flight, price: 20000 }, TODAY);
+    expect(verdict.approvals[0]).toMatchObject({ limit: 15000, message: expect.stringContaining('director') });
+  });
+
+  test('a cost equal to a threshold needs no approval', () => {
+    expect(checkFlightPolicy(policy, { ...flight, price: 5000 }, TODAY).approvalRequired).toBe(false);
+  });
+
+  test('a fare is only checked when quoted', () => {
+    expect(checkFlightPolicy(policy, flight, TODAY).approvals).toEqual([]);
+  });
+
+  test('checks the nightly rate and the cost of the stay', () => {
+    const nightly = checkHotelPolicy(policy, { hotelName: 'Hilton', pricePerNight: 550, checkIn: '2099-07-01', checkOut: '2099-07-03' });
+    expect(nightly.approvals).toEqual([
+      expect.objectContaining({ rule: 'APPROVAL_THRESHOLD', limit: 500, actual: 550 }),
+    ]);
+
+    const stay = checkHotelPolicy(policy, { hotelName: 'Hilton', pricePerNight: 400, checkIn: '2099-07-01', checkOut: '2099-07-21' });
+    expect(stay.approvals).toEqual([
+      expect.objectContaining({ limit: 5000, actual: 8000, message: expect.stringContaining('stay of 8000 USD') }),
+    ]);
+  });
+
+  test('a policy without thresholds never requires approval', () => {
+    const verdict = checkHotelPolicy({ expenseLimits: { currency: 'USD' } }, { hotelName: 'Hilton', pricePerNight: 5000 });
+    expect(verdict.approvalRequired).toBe(false);
+  });
+});
+
+describe('isApprover', () => {
+  afterEach(() => {
+    delete process.env.APPROVER_ROLE;
+  });
+
+  test('requires the approver role', () => {
+    expect(isApprover({ principalType: 'user', roles: ['travel-approver'] })).toBe(true);
+    expect(isApprover({ principalType: 'user', roles: ['traveler'] })).toBe(false);
+  });
+
+  test('machine clients are never approvers', () => {
+    expect(isApprover({ principalType: 'machine', roles: ['travel-approver'] })).toBe(false);
+  });
+
+  test('APPROVER_ROLE names the role', () => {
+    process.env.APPROVER_ROLE = 'finance';
+    expect(isApprover({ principalType: 'user', roles: ['travel-approver'] })).toBe(false);
+    expect(isApprover({ principalType: 'user', roles: ['finance'] })).toBe(true);
+  });
+});
+
+describe('approval workflow', () => {
+  let repository;
+
+  beforeEach(() => {
+    process.env.DATA_BACKEND = 'memory';
+    repository = new InMemoryBookingRepository();
+    setBookingRepository(repository);
+    getInMemoryTenantFiles().put('acme', 'expense-limits.json', JSON.stringify(expenseLimits));
+  });
+
+  afterEach(() => {
+    setBookingRepository(undefined);
+    setInventory(undefined);
+    setReservationStore(undefined);
+    getInMemoryTenantFiles().clear();
+    clearTravelPolicyCache();
+    delete process.env.DATA_BACKEND;
+  });
+
+  const bookPending = async () => {
+    const result = await bookHotel(await hotelRequest(true), traveler);
+    return result.structuredContent.booking;
+  };
+
+  test('a booking within the thresholds is confirmed', async () => {
+    const result = await bookHotel(await hotelRequest(false), traveler);
+
+    expect(result.structuredContent.booking.status).toBe('CONFIRMED');
+    expect(result.structuredContent.booking.approval).toBeUndefined();
+    expect(result.content[0].text).toMatch(/^Booking successful!/);
+  });
+
+  test('a booking above a threshold is created pending with the reasons', async () => {
+    const result = await bookHotel(await hotelRequest(true), traveler);
+
+    const { booking, policy: verdict } = result.structuredContent;
+    expect(booking.status).toBe('PENDING');
+    expect(booking.approval).toEqual({
+      requestedBy: 'traveler-1',
+      requestedAt: expect.any(String),
+      reasons: ['The nightly rate exceeds the lodging approval threshold of 500 USD.'],
+    });
+    expect(verdict.approvalRequired).toBe(true);
+    expect(result.content[0].text).toMatch(/^Booking submitted for approval\./);
+    expect(result.content[0].text).toContain('It stays pending until an approver approves it');
+  });
+
+  test('a booking is held for approval while the travel policy cannot be loaded', async () => {
+    const request = await hotelRequest(false);
+    // Only the policy documents are read from S3; bookings and reservations
+    // stay in memory.
+    setReservationStore(new InMemoryReservationStore());
+    process.env.DATA_BACKEND = 'dynamodb';
+    vi.mocked(getS3Client).mockResolvedValue({ send: vi.fn().mockRejectedValue(new Error('Service Unavailable')) });
+
+    const result = await bookHotel(request, traveler);
+
+    const { booking, policy: verdict } = result.structuredContent;
+    expect(verdict).toMatchObject({ compliant: false, approvalRequired: true });
+    expect(verdict.violations.map((v) => v.rule)).toEqual(['POLICY_UNAVAILABLE']);
+    expect(booking.status).toBe('PENDING');
+    expect(booking.approval.reasons).toEqual(['An approver must review it until the travel policy can be checked.']);
+  });
+
+  test('book_flight checks the quoted fare', async () => {
+    getInMemoryTenantFiles().put('acme', 'expense-limits.json', JSON.stringify({
+      ...expenseLimits,
+      approvalThresholds: { trip: { manager: 99 } },
+    }));
+    const [flight] = await getInventory().findFlights('acme', 'SEA', 'JFK', '2099-06-15');
+    const seat = flight.availableSeats.find((s) => s.count > 0);
+
+    const result = await bookFlight({
+      flightNumber: flight.flightNumber, origin: 'SEA', destination: 'JFK', departure: '2099-06-15', flightClass: seat.flightClass, price: seat.price,
+    }, traveler);
+    expect(result.structuredContent.booking).toMatchObject({ status: 'PENDING', approval: { requestedBy: 'traveler-1' } });
+  });
+
+  test('lists the pending bookings to approvers', async () => {
+    const pending = await bookPending();
+    await bookHotel(await hotelRequest(false), traveler);
+
+    const result = await listPendingApprovals({}, approver);
+
+    expect(result.structuredContent.bookings.map((b) => b.bookingId)).toEqual([pending.bookingId]);
+  });
+
+  test('approving confirms the booking and records the decision', async () => {
+    const pending = await bookPending();
+
+    const result = await approveBooking({ bookingId: pending.bookingId, reason: 'Client visit' }, approver);
+
+    expect(result.isError).toBe(false);
+    expect(result.content[0].text).toContain('approved');
+    const stored = await repository.getById('acme', pending.bookingId);
+    expect(stored.status).toBe('CONFIRMED');
+    expect(stored.statusHistory).toEqual([{
+      from: 'PENDING',
+      to: 'CONFIRMED',
+      changedBy: 'approver-1',
+      changedAt: expect.any(String),
+      decision: 'APPROVED',
+      reason: 'Client visit',
+    }]);
+  });
+
+  test('rejecting cancels the booking and records the reason', async () => {
+    const pending = await bookPending();
+
+    await rejectBooking({ bookingId: pending.bookingId, reason: 'Choose a cheaper room' }, approver);
+
+    const stored = await repository.getById('acme', pending.bookingId);
+    expect(stored.status).toBe('CANCELLED');
+    expect(stored.statusHistory[0]).toMatchObject({ decision: 'REJECTED', changedBy: 'approver-1', reason: 'Choose a cheaper room' });
+  });
+
+  test('rejecting gives the room back', async () => {
+    const request = await hotelRequest(true);
+    const roomsLeft = async () => (await getInventory().getHotel('acme', request.hotelName, 'Lisbon', request.checkIn, request.checkOut))
+      .availableRooms.find((r) => r.roomType === request.roomType).available;
+    const before = await roomsLeft();
+    const pending = (await bookHotel(request, traveler)).structuredContent.booking;
+    expect(await roomsLeft()).toBe(before - 1);
+
+    await rejectBooking({ bookingId: pending.bookingId, reason: 'Choose a cheaper room' }, approver);
+
+    expect(await roomsLeft()).toBe(before);
+  });
+
+  describe('modifications', () => {
+    let confirmed;
+    let request;
+    let firstNight;
+    let lastNight;
+
+    // Rooms of the booked type left for one night.
+    const roomsLeft = async (night, next) => (await getInventory().getHotel('acme', request.hotelName, 'Lisbon', night, next))
+      .availableRooms.find((r) => r.roomType === request.roomType).available;
+    const roomsLeftFirstNight = () => roomsLeft('2099-07-01', '2099-07-02');
+    const roomsLeftLastNight = () => roomsLeft('2099-07-04', '2099-07-05');
+
+    // Books 07-01..07-03 in a room left until 07-05, then moves the stay to
+    // 07-02..07-05, which costs more than the trip threshold allows.
+    beforeEach(async () => {
+      for (const hotel of await getInventory().findHotels('acme', 'Lisbon', '2099-07-01', '2099-07-05')) {
+        const room = hotel.availableRooms.find((r) => r.available > 0 && r.pricePerNight <= 500);
+        if (room) {
+          request = {
+            hotelName: hotel.hotelName, city: 'Lisbon', checkIn: '2099-07-01', checkOut: '2099-07-03', roomType: room.roomType, guests: 1, pricePerNight: room.pricePerNight,
+          };
+          break;
+        }
+      }
+      firstNight = await roomsLeftFirstNight();
+      lastNight = await roomsLeftLastNight();
+      confirmed = (await bookHotel(request, traveler)).structuredContent.booking;
+      getInMemoryTenantFiles().put('acme', 'expense-limits.json', JSON.stringify({
+        ...expenseLimits,
+        approvalThresholds: { trip: { manager: confirmed.price } },
+      }));
+      clearTravelPolicyCache();
+      await modifyHotelBooking(
+        { confirmationNumber: confirmed.bookingId, modification: { type: 'CHANGE_DATES', newCheckIn: '2099-07-02', newCheckOut: '2099-07-05' } },
+        traveler,
+      );
+    });
+
+    test('a modification awaiting approval keeps the confirmed stay and its rooms', async () => {
+      const stored = await repository.getById('acme', confirmed.bookingId);
+
+      expect(stored).toMatchObject({
+        status: 'PENDING',
+        checkInDate: '2099-07-02',
+        checkOutDate: '2099-07-05',
+        modifiedFrom: { checkInDate: '2099-07-01', checkOutDate: '2099-07-03', roomType: request.roomType, price: confirmed.price },
+      });
+      expect(await roomsLeftFirstNight()).toBe(firstNight - 1);
+      expect(await roomsLeftLastNight()).toBe(lastNight - 1);
+    });
+
+    test('rejecting restores the confirmed booking and gives back the new nights', async () => {
+      const result = await rejectBooking({ bookingId: confirmed.bookingId, reason: 'Keep the original dates' }, approver);
+
+      expect(result.content[0].text).toContain('confirmed as it was before');
+      const stored = await repository.getById('acme', confirmed.bookingId);
+      expect(stored).toMatchObject({ status: 'CONFIRMED', checkInDate: '2099-07-01', checkOutDate: '2099-07-03', price: confirmed.price });
+      expect(stored.modifiedFrom).toBeUndefined();
+      expect(stored.statusHistory.at(-1)).toMatchObject({ from: 'PENDING', to: 'CONFIRMED', decision: 'REJECTED', changedBy: 'approver-1' });
+      expect(await roomsLeftFirstNight()).toBe(firstNight - 1);
+      expect(await roomsLeftLastNight()).toBe(lastNight);
+    });
+
+    test('approving keeps the modification and gives back the nights no longer needed', async () => {
+      await approveBooking({ bookingId: confirmed.bookingId }, approver);
+
+      const stored = await repository.getById('acme', confirmed.bookingId);
+      expect(stored).toMatchObject({ status: 'CONFIRMED', checkInDate: '2099-07-02', checkOutDate: '2099-07-05' });
+      expect(stored.modifiedFrom).toBeUndefined();
+      expect(await roomsLeftFirstNight()).toBe(firstNight);
+      expect(await roomsLeftLastNight()).toBe(lastNight - 1);
+    });
+
+    test('the requester cancelling withdraws only the modification', async () => {
+      const result = await cancelBooking({ bookingId: confirmed.bookingId }, traveler);
+
+      expect(result.content[0].text).toContain('withdrawn');
+      const stored = await repository.getById('acme', confirmed.bookingId);
+      expect(stored).toMatchObject({ status: 'CONFIRMED', checkInDate: '2099-07-01', checkOutDate: '2099-07-03' });
+      expect(stored.statusHistory.at(-1)).toMatchObject({ from: 'PENDING', to: 'CONFIRMED', reason: 'Modification withdrawn' });
+      expect(await roomsLeftLastNight()).toBe(lastNight);
+    });
+  });
+
+  test.each([
+    ['list_pending_approvals', () => listPendingApprovals({}, traveler)],
+    ['approve_booking', () => approveBooking({ bookingId: 'ANY' }, traveler)],
+    ['reject_booking', () => rejectBooking({ bookingId: 'ANY', reason: 'No' }, traveler)],
+    ['approve_booking as a machine client', () => approveBooking({ bookingId: 'ANY' }, extra('client:ci', ['travel-approver'], 'machine'))],
+  ])('%s requires the approver role', async (_, call) => {
+    const result = await call();
+    expect(result.structuredContent.error.code).toBe('APPROVER_ROLE_REQUIRED');
+  });
+
+  test('approvers cannot approve their own bookings', async () => {
+    const own = (await bookHotel(await hotelRequest(true), approver)).structuredContent.booking;
+
+    const result = await approveBooking({ bookingId: own.bookingId }, approver);
+
+    expect(result.structuredContent.error.code).toBe('SELF_APPROVAL');
+    expect((await repository.getById('acme', own.bookingId)).status).toBe('PENDING');
+  });
+
+  test('a booking is decided only once', async () => {
+    const pending = await bookPending();
+    await approveBooking({ bookingId: pending.bookingId }, approver);
+
+    const result = await rejectBooking({ bookingId: pending.bookingId, reason: 'Too late' }, extra('approver-2', ['travel-approver']));
+
+    expect(result.structuredContent.error).toMatchObject({ code: 'NOT_PENDING_APPROVAL', currentStatus: 'CONFIRMED' });
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Tests for the booking repository layer
+ * Verifies backend selection and that the in-memory repository enforces the
+ * same per-tenant partition isolation as the DynamoDB LeadingKeys condition.
+ */
+
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const { mockDynamoSend } = vi.hoisted(() => ({ mockDynamoSend: vi.fn() }));
+
+vi.mock('../services/dynamoDb.js', () => ({
+  TABLE_NAME: 'test-table',
+  getDynamoDbClient: vi.fn().mockResolvedValue({ send: mockDynamoSend }),
+}));
+import {
+  getBookingRepository,
+  setBookingRepository,
+  TenantIsolationError,
+} from '../repositories/booking-repository.js';
+import { InMemoryBookingRepository } from '../repositories/in-memory-booking-repository.js';
+import { InvalidCursorError } from '../utils/cursor.js';
+import { DynamoDbBookingRepository, BOOKING_ID_INDEX } from '../repositories/dynamodb-booking-repository.js';
+
+function flightBooking(tenantId, bookingId) {
+  return {
+    PK: tenantId,
+    SK: `BOOKING#FLIGHT#${bookingId}`,
+    tenantId,
+    bookingId,
+    type: 'FLIGHT',
+    status: 'CONFIRMED',
+    bookingDate: '2026-01-01T00:00:00.000Z',
+    flightNumber: 'AA1234',
+    class: 'Economy',
+    departureDateTime: '2026-06-15',
+    passengers: [{ name: 'Jane Doe', seat: '12A' }],
+  };
+}
+
+function hotelBooking(tenantId, bookingId) {
+  return {
+    PK: tenantId,
+    SK: `BOOKING#HOTEL#${bookingId}`,
+    tenantId,
+    bookingId,
+    type: 'HOTEL',
+    status: 'CONFIRMED',
+    bookingDate: '2026-01-01T00:00:00.000Z',
+    hotelName: 'Hilton Paris',
+    location: 'Paris',
+    checkInDate: '2026-07-01',
+    checkOutDate: '2026-07-05',
+    roomType: 'Standard',
+    numberOfGuests: 2,
+  };
+}
+
+describe('getBookingRepository()', () => {
+  let originalEnv;
+
+  beforeEach(() => {
+    originalEnv = { ...process.env };
+    setBookingRepository(undefined);
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    setBookingRepository(undefined);
+  });
+
+  test('defaults to DynamoDB', () => {
+    delete process.env.DATA_BACKEND;
+    expect(getBookingRepository()).toBeInstanceOf(DynamoDbBookingRepository);
+  });
+
+  test('selects the in-memory backend with DATA_BACKEND=memory', () => {
+    process.env.DATA_BACKEND = 'memory';
+    expect(getBookingRepository()).toBeInstanceOf(InMemoryBookingRepository);
+  });
+
+  test('rejects unknown backends', () => {
+    process.env.DATA_BACKEND = 'postgres';
+    expect(() => getBookingRepository()).toThrow('Unsupported DATA_BACKEND');
+  });
+});
+
+describe('InMemoryBookingRepository', () => {
+  let repository;
+
+  beforeEach(async () => {
+    repository = new InMemoryBookingRepository();
+    await repository.create('tenant-a', flightBooking('tenant-a', 'F1'));
+    await repository.create('tenant-a', hotelBooking('tenant-a', 'H1'));
+    await repository.create('tenant-b', flightBooking('tenant-b', 'F2'));
+  });
+
+  test('lists only the caller tenant\'s bookings', async () => {
+    const bookings = await repository.listByTenant('tenant-a');
+    expect(bookings.map(b => b.bookingId).sort()).toEqual(['F1', 'H1']);
+  });
+
+  test('filters by booking type', async () => {
+    const flights = await repository.listByType('tenant-a', 'FLIGHT');
+    expect(flights.map(b => b.bookingId)).toEqual(['F1']);
+  });
+
+  test('returns copies so callers cannot mutate stored items', async () => {
+    const [booking] = await repository.listByType('tenant-a', 'FLIGHT');
+    booking.status = 'CANCELLED';
+    const [stored] = await repository.listByType('tenant-a', 'FLIGHT');
+    expect(stored.status).toBe('CONFIRMED');
+  });
+
+  test('refuses to write into another tenant\'s partition', async () => {
+    await expect(repository.create('tenant-a', flightBooking('tenant-b', 'X1')))
+      .rejects.toBeInstanceOf(TenantIsolationError);
+    const bookings = await repository.listByTenant('tenant-b');
+    expect(bookings.map(b => b.bookingId)).toEqual(['F2']);
+  });
+
+  test('refuses calls without a tenant', async () => {
+    await expect(repository.listByTenant('')).rejects.toBeInstanceOf(TenantIsolationError);
+  });
+
+  test('finds bookings by confirmation number whatever their type', async () => {
+    expect((await repository.getById('tenant-a', 'F1')).type).toBe('FLIGHT');
+    expect((await repository.getById('tenant-a', 'H1')).type).toBe('HOTEL');
+    expect(await repository.getById('tenant-a', 'F2')).toBeUndefined();
+  });
+
+  test('continues after the start key even if its booking is gone', async () => {
+    const page = await repository.search('tenant-a', {
+      order: 'asc',
+      limit: 10,
+      startKey: { PK: 'tenant-a', SK: 'BOOKING#FLIGHT#A0', travelDate: '2026-06-15' },
+    });
+    expect(page.items.map(b => b.bookingId)).toEqual(['F1', 'H1']);
+  });
+
+  test('rejects start keys it did not issue', async () => {
+    await expect(repository.search('tenant-a', { order: 'asc', limit: 10, startKey: { SK: 'BOOKING#FLIGHT#F1' } }))
+      .rejects.toBeInstanceOf(InvalidCursorError);
+    await expect(repository.search('tenant-a', {
+      order: 'asc',
+      limit: 10,
+      startKey: { PK: 'tenant-b', SK: 'BOOKING#FLIGHT#F2', travelDate: '2026-06-15' },
+    })).rejects.toBeInstanceOf(InvalidCursorError);
+  });
+});
+
+describe('DynamoDbBookingRepository', () => {
+  test('looks up bookings by ID through the tenant-scoped index', async () => {
+    const booking = hotelBooking('tenant-a', 'H1');
+    mockDynamoSend.mockResolvedValueOnce({ Items: [booking] });
+
+    const result = await new DynamoDbBookingRepository().getById('tenant-a', 'H1');
+
+    expect(result).toEqual(booking);
+    const { input } = mockDynamoSend.mock.calls[0][0];
+    expect(input.IndexName).toBe(BOOKING_ID_INDEX);
+    expect(input.ExpressionAttributeValues).toEqual({ ':pk': 'tenant-a', ':bookingId': 'H1' });
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Tests for the booking status state machine and the cancel_booking tool
+ * Verifies allowed transitions, the persisted audit trail and the structured
+ * errors returned for invalid or concurrent changes.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { setBookingRepository, ConditionFailedError } from '../repositories/booking-repository.js';
+import { InMemoryBookingRepository } from '../repositories/in-memory-booking-repository.js';
+import { canTransition, transitionBooking, InvalidStatusTransitionError } from '../services/booking-status.js';
+import { cancelBooking } from '../tools/cancel-booking.js';
+import { setReservationStore } from '../services/reservation-store.js';
+
+const extra = (tenantId, userId = 'user-1') => ({ authInfo: { extra: { tenantId, userId } } });
+
+// Cancelling gives the booking's rooms back to the in-memory inventory.
+beforeEach(() => {
+  process.env.DATA_BACKEND = 'memory';
+});
+
+afterEach(() => {
+  delete process.env.DATA_BACKEND;
+  setReservationStore(undefined);
+});
+
+function hotelBooking(tenantId, bookingId, status = 'CONFIRMED') {
+  return {
+    PK: tenantId,
+    SK: `BOOKING#HOTEL#${bookingId}`,
+    tenantId,
+    bookingId,
+    type: 'HOTEL',
+    status,
+    bookingDate: '2026-01-01T00:00:00.000Z',
+    hotelName: 'Grand Hotel',
+    location: 'Paris',
+    roomType: 'Standard',
+    checkInDate: '2026-06-15',
+    checkOutDate: '2026-06-18',
+    numberOfGuests: 2,
+  };
+}
+
+describe('booking status transitions', () => {
+  test('allows only the defined transitions', () => {
+    expect(canTransition('PENDING', 'CONFIRMED')).toBe(true);
+    expect(canTransition('PENDING', 'CANCELLED')).toBe(true);
+    expect(canTransition('CONFIRMED', 'CANCELLED')).toBe(true);
+    expect(canTransition('CONFIRMED', 'PENDING')).toBe(true);
+    expect(canTransition('CANCELLED', 'CONFIRMED')).toBe(false);
+  });
+
+  test('rejects a write when the stored status changed since it was read', async () => {
+    const repository = new InMemoryBookingRepository();
+    setBookingRepository(repository);
+    const booking = hotelBooking('tenant-a', 'H1');
+    await repository.create('tenant-a', booking);
+    await transitionBooking('tenant-a', booking, 'CANCELLED', 'user-1');
+
+    await expect(transitionBooking('tenant-a', booking, 'CANCELLED', 'user-2'))
+      .rejects.toBeInstanceOf(ConditionFailedError);
+    setBookingRepository(undefined);
+  });
+
+  test('rejects a transition out of a terminal status', async () => {
+    await expect(transitionBooking('tenant-a', hotelBooking('tenant-a', 'H1', 'CANCELLED'), 'CONFIRMED', 'user-1'))
+      .rejects.toBeInstanceOf(InvalidStatusTransitionError);
+  });
+});
+
+describe('cancel_booking tool', () => {
+  let repository;
+
+  beforeEach(() => {
+    repository = new InMemoryBookingRepository();
+    setBookingRepository(repository);
+  });
+
+  afterEach(() => {
+    setBookingRepository(undefined);
+  });
+
+  test('cancels a booking and records who changed it', async () => {
+    await repository.create('tenant-a', hotelBooking('tenant-a', 'H1'));
+
+    const result = await cancelBooking({ bookingId: 'H1', reason: 'Trip postponed' }, extra('tenant-a'));
+
+    expect(result.isError).toBe(false);
+    const stored = await repository.get('tenant-a', 'HOTEL', 'H1');
+    expect(stored.status).toBe('CANCELLED');
+    expect(stored.updatedBy).toBe('user-1');
+    expect(stored.statusHistory).toEqual([
+      expect.objectContaining({ from: 'CONFIRMED', to: 'CANCELLED', changedBy: 'user-1', reason: 'Trip postponed' }),
+    ]);
+  });
+
+  test('returns a structured error when cancelling twice', async () => {
+    await repository.create('tenant-a', hotelBooking('tenant-a', 'H1'));
+    await cancelBooking({ bookingId: 'H1' }, extra('tenant-a'));
+
+    const result = await cancelBooking({ bookingId: 'H1' }, extra('tenant-a'));
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent.error).toMatchObject({
+      code: 'INVALID_STATUS_TRANSITION',
+      currentStatus: 'CANCELLED',
+      requestedStatus: 'CANCELLED',
+      allowedTransitions: [],
+    });
+    expect(JSON.parse(result.content[0].text).error.code).toBe('INVALID_STATUS_TRANSITION');
+  });
+
+  test("does not find another tenant's booking", async () => {
+    await repository.create('tenant-a', hotelBooking('tenant-a', 'H1'));
+
+    const result = await cancelBooking({ bookingId: 'H1' }, extra('tenant-b'));
+
+    expect(result.structuredContent.error.code).toBe('BOOKING_NOT_FOUND');
+    expect((await repository.get('tenant-a', 'HOTEL', 'H1')).status).toBe('CONFIRMED');
+  });
+
+  test('cancels a flight booking by confirmation number alone', async () => {
+    await repository.create('tenant-a', {
+      PK: 'tenant-a',
+      SK: 'BOOKING#FLIGHT#F1',
+      tenantId: 'tenant-a',
+      bookingId: 'F1',
+      type: 'FLIGHT',
+      status: 'CONFIRMED',
+      bookingDate: '2026-01-01T00:00:00.000Z',
+      flightNumber: 'AA1234',
+      class: 'Economy',
+      departureDateTime: '2026-06-15',
+      passengers: [],
+    });
+
+    const result = await cancelBooking({ bookingId: 'F1' }, extra('tenant-a'));
+
+    expect(result.isError).toBe(false);
+    expect((await repository.get('tenant-a', 'FLIGHT', 'F1')).status).toBe('CANCELLED');
+  });
+
+  test('refuses to cancel a booking awaiting approval', async () => {
+    await repository.create('tenant-a', hotelBooking('tenant-a', 'H1', 'PENDING'));
+
+    const result = await cancelBooking({ bookingId: 'H1' }, extra('tenant-a'));
+
+    expect(result.structuredContent.error).toMatchObject({ code: 'APPROVAL_PENDING', currentStatus: 'PENDING' });
+    expect((await repository.get('tenant-a', 'HOTEL', 'H1')).status).toBe('PENDING');
+  });
+
+  test('lets the requester cancel their own booking awaiting approval', async () => {
+    const approval = { requestedBy: 'user-1', requestedAt: '2026-01-01T00:00:00.000Z', reasons: ['Above threshold'] };
+    await repository.create('tenant-a', { ...hotelBooking('tenant-a', 'H1', 'PENDING'), bookedBy: 'user-1', approval });
+
+    const other = await cancelBooking({ bookingId: 'H1' }, extra('tenant-a', 'user-2'));
+    expect(other.structuredContent.error).toMatchObject({ code: 'APPROVAL_PENDING' });
+
+    const result = await cancelBooking({ bookingId: 'H1' }, extra('tenant-a', 'user-1'));
+    expect(result.isError).toBe(false);
+    expect((await repository.get('tenant-a', 'HOTEL', 'H1')).status).toBe('CANCELLED');
+  });
+
+  test('requires a tenant', async () => {
+    const result = await cancelBooking({ bookingId: 'H1' }, { authInfo: { extra: {} } });
+    expect(result.isError).toBe(true);
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Offline end-to-end test
+ *
+ * Runs the full server against the built-in test issuer and the in-memory
+ * backends, so the OAuth and MCP flow of `e2e.test.ts` can run without AWS
+ * or network access:
+ *   1. POST /mcp → 401 + WWW-Authenticate header with resource_metadata
+ *   2. Fetch resource metadata → discover the local issuer
+ *   3. Fetch its OpenID configuration → mint tokens at its token endpoint
+ *   4. Connect MCP clients for two tenants and exercise the tools
+ *   5. Check that neither tenant can reach the other's data
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+
+const ENV = {
+  LOCAL_ISSUER: 'true',
+  DATA_BACKEND: 'memory',
+  OAUTH_SCOPE_PREFIX: '',
+  NODE_ENV: 'test',
+};
+const CLEARED_ENV = ['COGNITO_USER_POOL_ID', 'JWT_ISSUERS', 'IDENTITY_PROVIDERS', 'AWS_REGION', 'MCP_SESSION_MODE'];
+const ALL_SCOPES = 'openid bookings:read bookings:write loyalty:read files:read';
+
+const savedEnv = {};
+let server;
+let baseUrl;
+let tokenEndpoint;
+const clients = [];
+
+async function mintToken(claims) {
+  const res = await fetch(tokenEndpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(claims),
+  });
+  expect(res.ok).toBe(true);
+  return (await res.json()).access_token;
+}
+
+async function connect(claims) {
+  const client = new Client({ name: 'e2e-local-test', version: '1.0.0' });
+  const transport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), {
+    requestInit: { headers: { Authorization: `Bearer ${await mintToken(claims)}` } },
+  });
+  await client.connect(transport);
+  clients.push(client);
+  return client;
+}
+
+const json = (result) => JSON.parse(result.content[0].text);
+
+beforeAll(async () => {
+  for (const name of [...Object.keys(ENV), ...CLEARED_ENV]) {
+    savedEnv[name] = process.env[name];
+    delete process.env[name];
+  }
+  Object.assign(process.env, ENV);
+
+  const { createApp } = await import('../app.js');
+  const { getInMemoryTenantFiles } = await import('../services/in-memory-tenant-files.js');
+  getInMemoryTenantFiles().put('tenant-a', 'travel-policy.md', '# Tenant A travel policy');
+  getInMemoryTenantFiles().put('tenant-b', 'travel-policy.md', '# Tenant B travel policy');
+
+  await new Promise((resolve) => {
+    server = createApp().listen(0, '127.0.0.1', resolve);
+  });
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+  process.env.LOCAL_ISSUER_URL = `${baseUrl}/local-issuer`;
+  process.env.RESOURCE_SERVER_URL = baseUrl;
+});
+
+afterAll(async () => {
+  await Promise.all(clients.map((client) => client.close()));
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+  for (const [name, value] of Object.entries(savedEnv)) {
+    if (value === undefined) delete process.env[name];
+    else process.env[name] = value;
+  }
+  delete process.env.LOCAL_ISSUER_URL;
+  delete process.env.RESOURCE_SERVER_URL;
+});
+
+describe('MCP Server E2E (local issuer)', () => {
+  let tenantA;
+  let tenantB;
+
+  test('discovers the local issuer through the 401 challenge', async () => {
+    const unauthRes = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', method: 'initialize', id: 1 }),
+    });
+    expect(unauthRes.status).toBe(401);
+    const resourceMetadataUrl = unauthRes.headers.get('www-authenticate').match(/resource_metadata="([^"]+)"/)[1];
+
+    const metadata = await (await fetch(resourceMetadataUrl)).json();
+    expect(metadata.resource).toBe(baseUrl);
+    expect(metadata.authorization_servers).toEqual([`${baseUrl}/local-issuer`]);
+    expect(metadata.scopes_supported).toEqual(ALL_SCOPES.split(' '));
+
+    const oidc = await (await fetch(`${metadata.authorization_servers[0]}/.well-known/openid-configuration`)).json();
+    expect(oidc.issuer).toBe(metadata.authorization_servers[0]);
+    tokenEndpoint = oidc.token_endpoint;
+
+    tenantA = await connect({ sub: 'alice', tenantId: 'tenant-a', tenantTier: 'premium', scope: ALL_SCOPES });
+    tenantB = await connect({ sub: 'bob', tenantId: 'tenant-b', scope: ALL_SCOPES });
+  });
+
+  test('whoami reflects the minted claims', async () => {
+    const { structuredContent } = await tenantA.callTool({ name: 'whoami', arguments: {} });
+    expect(structuredContent.userInfo).toMatchObject({ username: 'alice', tenantId: 'tenant-a', tenantTier: 'premium' });
+    expect(structuredContent.principal.type).toBe('user');
+    expect(structuredContent.tokenInfo.issuer).toBe(`${baseUrl}/local-issuer`);
+  });
+
+  test('books a flight and lists it', async () => {
+    const flights = json(await tenantA.callTool({
+      name: 'find_flights',
+      arguments: { origin: 'JFK', destination: 'LAX', departure: '2026-08-15' },
+    }));
+    expect(flights.length).toBeGreaterThan(0);
+    const { flightClass } = flights[0].availableSeats.find((s) => s.count > 0);
+
+    const booked = await tenantA.callTool({
+      name: 'book_flight',
+      arguments: {
+        flightNumber: flights[0].flightNumber, origin: 'JFK', destination: 'LAX', departure: '2026-08-15', flightClass,
+      },
+    });
+    expect(booked.isError, booked.content[0].text).toBeFalsy();
+    const { bookingId } = booked.structuredContent.booking;
+
+    const { structuredContent } = await tenantA.callTool({ name: 'list_bookings', arguments: {} });
+    expect(structuredContent.bookings.map((b) => b.bookingId)).toContain(bookingId);
+  });
+
+  test('reads the tenant files', async () => {
+    const { resources } = await tenantA.listResources();
+    expect(resources.map((r) => r.uri)).toEqual(['s3://tenant-a/travel-policy.md']);
+
+    const { contents } = await tenantA.readResource({ uri: 's3://tenant-a/travel-policy.md' });
+    expect(contents[0].text).toBe('# Tenant A travel policy');
+  });
+
+  test('a tenant cannot see or change another tenant\'s bookings', async () => {
+    const { structuredContent: own } = await tenantA.callTool({ name: 'list_bookings', arguments: {} });
+    const { bookingId } = own.bookings[0];
+
+    const { structuredContent: other } = await tenantB.callTool({ name: 'list_bookings', arguments: {} });
+    expect(other.bookings).toEqual([]);
+
+    const lookup = await tenantB.callTool({ name: 'list_bookings', arguments: { id: bookingId } });
+    expect(lookup.structuredContent.error.code).toBe('BOOKING_NOT_FOUND');
+
+    const cancel = await tenantB.callTool({ name: 'cancel_booking', arguments: { bookingId } });
+    expect(cancel.structuredContent.error.code).toBe('BOOKING_NOT_FOUND');
+  });
+
+  test('a tenant cannot read another tenant\'s files', async () => {
+    await expect(tenantB.readResource({ uri: 's3://tenant-a/travel-policy.md' })).rejects.toThrow('Access denied');
+  });
+
+  test('tokens without a tenant are rejected', async () => {
+    const token = await mintToken({ sub: 'mallory', scope: ALL_SCOPES });
+    const res = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', method: 'tools/list', id: 1 }),
+    });
+    expect(res.status).toBe(401);
+  });
+
+  test('tokens for another audience are rejected', async () => {
+    const token = await mintToken({ tenantId: 'tenant-a', scope: ALL_SCOPES, aud: 'https://other.example.com' });
+    const res = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', method: 'tools/list', id: 1 }),
+    });
+    expect(res.status).toBe(401);
+  });
+});
+
+describe('local issuer guard', () => {
+  test.each([undefined, 'production', 'staging'])('is refused with NODE_ENV=%s', async (environment) => {
+    const { isLocalIssuerEnabled } = await import('../auth/local-issuer.js');
+    const saved = process.env.NODE_ENV;
+    if (environment === undefined) delete process.env.NODE_ENV;
+    else process.env.NODE_ENV = environment;
+    try {
+      expect(() => isLocalIssuerEnabled()).toThrow('LOCAL_ISSUER is only allowed');
+    } finally {
+      process.env.NODE_ENV = saved;
+    }
+  });
+});
@@ -139,6 +139,8 @@ beforeAll(async () => {
   const metadata = await (await fetch(resourceMetadataUrl)).json();
   expect(metadata.authorization_servers.length).toBeGreaterThan(0);
   const authServer = metadata.authorization_servers[0];
+  // Request the per-tool scopes next to the OpenID ones.
+  const scope = ['openid', 'profile', 'email', ...metadata.scopes_supported.filter((s: string) => s !== 'openid')].join(' ');
 
   // Step 3: Fetch OpenID configuration
   const oidc = await (await fetch(`${authServer}/.well-known/openid-configuration`)).json();
@@ -155,7 +157,7 @@ beforeAll(async () => {
       grant_types: ['authorization_code'],
       response_types: ['code'],
       token_endpoint_auth_method: 'none',
-      scope: 'openid profile email',
+      scope,
     }),
   });
   expect(dcrRes.status).toBe(201);
@@ -170,7 +172,7 @@ beforeAll(async () => {
   authorizeUrl.searchParams.set('response_type', 'code');
   authorizeUrl.searchParams.set('client_id', client_id);
   authorizeUrl.searchParams.set('redirect_uri', REDIRECT_URI);
-  authorizeUrl.searchParams.set('scope', 'openid profile email');
+  authorizeUrl.searchParams.set('scope', scope);
   authorizeUrl.searchParams.set('state', state);
   authorizeUrl.searchParams.set('code_challenge', codeChallenge);
   authorizeUrl.searchParams.set('code_challenge_method', 'S256');
@@ -232,6 +234,7 @@ describe('MCP Server E2E', () => {
     const data = JSON.parse((result.content as any)[0].text);
     expect(data.userInfo.tenantId).toBeTruthy();
     expect(data.userInfo.username).toBe(USERNAME);
+    expect(data.principal.type).toBe('user');
   });
 
   test('find_flights returns results', async () => {
@@ -262,27 +265,36 @@ describe('MCP Server E2E', () => {
       arguments: { origin: 'JFK', destination: 'LAX', departure: '2026-08-15' },
     });
     const flights = JSON.parse((searchResult.content as any)[0].text);
+    const seat = flights[0].availableSeats.find((s: any) => s.count > 0) ?? flights[0].availableSeats[0];
     const result = await mcpClient.callTool({
       name: 'book_flight',
       arguments: {
         flightNumber: flights[0].flightNumber,
         departure: '2026-08-15',
-        flightClass: flights[0].classes?.[0] || 'Economy',
+        flightClass: seat.flightClass,
+        origin: 'JFK',
+        destination: 'LAX',
       },
     });
-    // Tool may return a simulated business error (e.g. payment declined) — that's fine
+    // Earlier runs may have sold the class out — that's fine
     expect((result.content as any)[0].text.length).toBeGreaterThan(0);
   });
 
   test('book_hotel executes', async () => {
+    const searchResult = await mcpClient.callTool({
+      name: 'list_hotels',
+      arguments: { city: 'Paris', checkIn: '2026-08-01', checkOut: '2026-08-05', guests: 2 },
+    });
+    const hotels = JSON.parse((searchResult.content as any)[0].text);
+    const room = hotels[0].availableRooms.find((r: any) => r.available > 0) ?? hotels[0].availableRooms[0];
     const result = await mcpClient.callTool({
       name: 'book_hotel',
       arguments: {
-        hotelName: 'Grand Hotel', checkIn: '2026-08-01',
-        checkOut: '2026-08-05', roomType: 'Standard', guests: 2,
+        hotelName: hotels[0].hotelName, city: 'Paris', checkIn: '2026-08-01',
+        checkOut: '2026-08-05', roomType: room.roomType, guests: 2,
       },
     });
-    // Tool may return a simulated business error — that's fine
+    // Earlier runs may have booked the last rooms — that's fine
     expect((result.content as any)[0].text.length).toBeGreaterThan(0);
   });
 
@@ -0,0 +1,152 @@
+/**
+ * Tests for tier and tenant entitlements
+ * Verifies how entitlements are resolved and that a server created for a
+ * caller only exposes what the caller is entitled to.
+ */
+
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../services/dynamoDb.js', () => ({
+  TABLE_NAME: 'test-table',
+  getDynamoDbClient: vi.fn().mockResolvedValue({ send: vi.fn().mockResolvedValue({ Items: [] }) }),
+}));
+
+vi.mock('../services/s3.js', () => ({
+  BUCKET_NAME: 'test-bucket',
+  getS3Client: vi.fn(),
+  listTenantResources: vi.fn().mockResolvedValue([]),
+}));
+
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import mcpServer from '../mcp/mcp-server.js';
+import { resolveEntitlements, setEntitlementStore } from '../entitlements/entitlements.js';
+import { ConfigEntitlementStore } from '../entitlements/entitlement-store.js';
+
+const auth = (tenantId, tenantTier) => ({ token: 't', clientId: 'c', scopes: [], extra: { tenantId, userId: 'user-1', tenantTier } });
+
+function stubStore({ tiers = {}, tenants = {} }) {
+  return {
+    getTierRule: vi.fn(async (tier) => tiers[tier]),
+    getTenantRule: vi.fn(async (tenantId) => tenants[tenantId]),
+  };
+}
+
+async function connect(entitlements) {
+  const server = mcpServer.create(entitlements);
+  const [serverTransport, clientTransport] = InMemoryTransport.createLinkedPair();
+  const originalSend = clientTransport.send.bind(clientTransport);
+  clientTransport.send = (message, options) => originalSend(message, { ...options, authInfo: auth('tenant-a', 'basic') });
+  const client = new Client({ name: 'entitlements-test', version: '1.0.0' });
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+  return { client, close: async () => { await client.close(); await server.close(); } };
+}
+
+describe('resolveEntitlements', () => {
+  afterEach(() => {
+    delete process.env.ENTITLEMENTS;
+  });
+
+  test('allows everything when nothing is configured', async () => {
+    setEntitlementStore(stubStore({}));
+    expect(await resolveEntitlements(auth('tenant-a', 'basic'))).toEqual({ tools: ['*'], prompts: ['*'], resources: ['*'] });
+  });
+
+  test('a tenant rule overrides its tier rule for the kinds it lists', async () => {
+    setEntitlementStore(stubStore({
+      tiers: { basic: { tools: ['whoami'], prompts: [] } },
+      tenants: { 'tenant-a': { tools: ['whoami', 'list_bookings'] } },
+    }));
+
+    const entitlements = await resolveEntitlements(auth('tenant-a', 'basic'));
+
+    expect(entitlements.tools).toEqual(['whoami', 'list_bookings']);
+    expect(entitlements.prompts).toEqual([]);
+    expect(entitlements.resources).toEqual(['*']);
+  });
+
+  test('unknown tiers get the basic rule', async () => {
+    setEntitlementStore(stubStore({ tiers: { basic: { tools: ['whoami'] }, premium: { tools: ['*'] } } }));
+
+    expect((await resolveEntitlements(auth('tenant-a', 'unknown'))).tools).toEqual(['whoami']);
+    expect((await resolveEntitlements(auth('tenant-a', 'premium'))).tools).toEqual(['*']);
+  });
+
+  test('results are cached per tenant and tier', async () => {
+    const store = stubStore({ tiers: { basic: { tools: ['whoami'] } } });
+    setEntitlementStore(store);
+
+    await resolveEntitlements(auth('tenant-a', 'basic'));
+    await resolveEntitlements(auth('tenant-a', 'basic'));
+    await resolveEntitlements(auth('tenant-b', 'basic'));
+
+    expect(store.getTenantRule).toHaveBeenCalledTimes(2);
+  });
+
+  test('denies everything while the store fails, without caching it', async () => {
+    process.env.ENTITLEMENTS = JSON.stringify({ tiers: { basic: { tools: ['whoami'] } } });
+    const store = stubStore({});
+    store.getTenantRule.mockRejectedValueOnce(new Error('unavailable'));
+    setEntitlementStore(store);
+
+    expect(await resolveEntitlements(auth('tenant-a', 'basic'))).toEqual({ tools: [], prompts: [], resources: [] });
+    expect(await resolveEntitlements(auth('tenant-a', 'basic'))).toEqual({ tools: ['*'], prompts: ['*'], resources: ['*'] });
+  });
+
+  test('an invalid ENTITLEMENTS denies everything', async () => {
+    setEntitlementStore(new ConfigEntitlementStore());
+
+    process.env.ENTITLEMENTS = '{"tiers":{"basic":';
+    expect((await resolveEntitlements(auth('tenant-a', 'basic'))).tools).toEqual([]);
+
+    process.env.ENTITLEMENTS = JSON.stringify({ tiers: { basic: { tools: 'whoami' } } });
+    expect((await resolveEntitlements(auth('tenant-a', 'basic'))).tools).toEqual([]);
+  });
+
+  test('the config store reads tier and tenant rules from ENTITLEMENTS', async () => {
+    process.env.ENTITLEMENTS = JSON.stringify({ tiers: { basic: { tools: ['whoami'] } }, tenants: { acme: { prompts: ['*'] } } });
+    const store = new ConfigEntitlementStore();
+
+    expect(await store.getTierRule('basic')).toEqual({ tools: ['whoami'] });
+    expect(await store.getTenantRule('acme')).toEqual({ prompts: ['*'] });
+    expect(await store.getTenantRule('other')).toBeUndefined();
+  });
+});
+
+describe('entitled server', () => {
+  let client, close;
+
+  beforeEach(async () => {
+    ({ client, close } = await connect({
+      tools: ['whoami', 'list_bookings'],
+      prompts: ['flight_search'],
+      resources: [],
+    }));
+  });
+
+  afterEach(async () => {
+    await close();
+  });
+
+  test('tools/list only contains entitled tools', async () => {
+    const { tools } = await client.listTools();
+    expect(tools.map(t => t.name).sort()).toEqual(['list_bookings', 'whoami']);
+  });
+
+  test('calls to tools that are not entitled are rejected', async () => {
+    const result = await client.callTool({ name: 'book_flight', arguments: { flightNumber: 'AA1', departure: '2026-01-01', flightClass: 'economy' } });
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('not found');
+  });
+
+  test('prompts and resource templates are filtered as well', async () => {
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map(p => p.name)).toEqual(['flight_search']);
+    await expect(client.getPrompt({ name: 'booking_flow' })).rejects.toThrow('not found');
+
+    const { resourceTemplates } = await client.listResourceTemplates();
+    expect(resourceTemplates).toEqual([]);
+    await expect(client.readResource({ uri: 's3://tenant-a/guide.md' })).rejects.toThrow('not found');
+  });
+});
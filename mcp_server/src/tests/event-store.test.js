@@ -0,0 +1,96 @@
+/**
+ * Tests for the resumable-stream event store
+ * Verifies replay after Last-Event-ID, tenant partitioning and TTL expiry.
+ */
+
+import { describe, test, expect, afterEach } from 'vitest';
+import { InMemoryEventLog, TenantEventStore } from '../mcp/event-store.js';
+
+const message = (id) => ({ jsonrpc: '2.0', method: 'notifications/message', params: { id } });
+
+async function collectReplay(store, lastEventId) {
+  const sent = [];
+  const streamId = await store.replayEventsAfter(lastEventId, {
+    send: async (eventId, msg) => { sent.push({ eventId, msg }); },
+  });
+  return { streamId, sent };
+}
+
+describe('TenantEventStore', () => {
+  afterEach(() => {
+    delete process.env.EVENT_TTL_SECONDS;
+  });
+
+  test('replays only the events after Last-Event-ID on the same stream', async () => {
+    const store = new TenantEventStore(new InMemoryEventLog(), 'tenant-a', 'session-1');
+    const first = await store.storeEvent('stream-1', message(1));
+    await store.storeEvent('stream-2', message('other'));
+    await store.storeEvent('stream-1', message(2));
+    await store.storeEvent('stream-1', message(3));
+
+    const { streamId, sent } = await collectReplay(store, first);
+
+    expect(streamId).toBe('stream-1');
+    expect(sent.map(e => e.msg.params.id)).toEqual([2, 3]);
+  });
+
+  test('replayed event IDs can be used to resume again', async () => {
+    const store = new TenantEventStore(new InMemoryEventLog(), 'tenant-a', 'session-1');
+    const first = await store.storeEvent('_GET_stream', message(1));
+    await store.storeEvent('_GET_stream', message(2));
+    await store.storeEvent('_GET_stream', message(3));
+
+    const { sent } = await collectReplay(store, first);
+    const { sent: rest } = await collectReplay(store, sent[0].eventId);
+
+    expect(rest.map(e => e.msg.params.id)).toEqual([3]);
+  });
+
+  test('priming events are not replayed', async () => {
+    const store = new TenantEventStore(new InMemoryEventLog(), 'tenant-a', 'session-1');
+    const priming = await store.storeEvent('stream-1', {});
+    await store.storeEvent('stream-1', {});
+    await store.storeEvent('stream-1', message(1));
+
+    const { sent } = await collectReplay(store, priming);
+
+    expect(sent).toHaveLength(1);
+  });
+
+  test('another tenant cannot resolve or replay the stream', async () => {
+    const log = new InMemoryEventLog();
+    const tenantA = new TenantEventStore(log, 'tenant-a', 'session-1');
+    const tenantB = new TenantEventStore(log, 'tenant-b', 'session-1');
+    const eventId = await tenantA.storeEvent('stream-1', message(1));
+    await tenantA.storeEvent('stream-1', message(2));
+
+    expect(await tenantA.getStreamIdForEventId(eventId)).toBe('stream-1');
+    expect(await tenantB.getStreamIdForEventId(eventId)).toBeUndefined();
+    const { sent } = await collectReplay(tenantB, eventId);
+    expect(sent).toEqual([]);
+  });
+
+  test('events from another session of the same tenant are not visible', async () => {
+    const log = new InMemoryEventLog();
+    const session1 = new TenantEventStore(log, 'tenant-a', 'session-1');
+    const session2 = new TenantEventStore(log, 'tenant-a', 'session-2');
+    const eventId = await session1.storeEvent('stream-1', message(1));
+
+    expect(await session2.getStreamIdForEventId(eventId)).toBeUndefined();
+  });
+
+  test('malformed event IDs are rejected', async () => {
+    const store = new TenantEventStore(new InMemoryEventLog(), 'tenant-a', 'session-1');
+
+    expect(await store.getStreamIdForEventId('not-an-event-id')).toBeUndefined();
+    await expect(collectReplay(store, 'not-an-event-id')).rejects.toThrow('Invalid event ID');
+  });
+
+  test('events expire after the TTL', async () => {
+    process.env.EVENT_TTL_SECONDS = '0';
+    const store = new TenantEventStore(new InMemoryEventLog(), 'tenant-a', 'session-1');
+    const eventId = await store.storeEvent('stream-1', message(1));
+
+    expect(await store.getStreamIdForEventId(eventId)).toBeUndefined();
+  });
+});
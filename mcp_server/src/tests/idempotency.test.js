@@ -0,0 +1,129 @@
+/**
+ * Tests for idempotent book_flight and book_hotel calls
+ * Verifies that retries within the TTL return the original booking instead
+ * of creating a duplicate reservation.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { setBookingRepository } from '../repositories/booking-repository.js';
+import { InMemoryBookingRepository } from '../repositories/in-memory-booking-repository.js';
+import { getInventory, setInventory } from '../services/inventory.js';
+import { setReservationStore } from '../services/reservation-store.js';
+import { bookFlight } from '../tools/manage-flights.js';
+import { bookHotel } from '../tools/manage-hotels.js';
+
+const extra = (tenantId, userId = 'user-1') => ({ authInfo: { extra: { tenantId, userId } } });
+
+describe('idempotent bookings', () => {
+  let repository;
+  let flightRequest;
+  let hotelRequest;
+
+  beforeEach(async () => {
+    // Tenants without travel policy documents in the in-memory tenant files.
+    process.env.DATA_BACKEND = 'memory';
+    repository = new InMemoryBookingRepository();
+    setBookingRepository(repository);
+
+    // A flight and a hotel from the inventory with a few seats and rooms left.
+    const [flight] = await getInventory().findFlights('tenant-a', 'SEA', 'JFK', '2026-06-15');
+    const seat = flight.availableSeats.find((s) => s.flightClass !== 'First' && s.count >= 3);
+    flightRequest = { flightNumber: flight.flightNumber, origin: 'SEA', destination: 'JFK', departure: '2026-06-15', flightClass: seat.flightClass };
+    const hotel = (await getInventory().findHotels('tenant-a', 'Paris', '2026-07-01', '2026-07-05'))
+      .find((h) => h.availableRooms.some((r) => r.available >= 2));
+    const room = hotel.availableRooms.find((r) => r.available >= 2);
+    hotelRequest = { hotelName: hotel.hotelName, city: 'Paris', checkIn: '2026-07-01', checkOut: '2026-07-05', roomType: room.roomType, guests: 2 };
+  });
+
+  afterEach(() => {
+    setBookingRepository(undefined);
+    setInventory(undefined);
+    setReservationStore(undefined);
+    delete process.env.IDEMPOTENCY_TTL_SECONDS;
+    delete process.env.DATA_BACKEND;
+  });
+
+  test('a retried book_flight with the same key returns the original booking', async () => {
+    const first = await bookFlight({ ...flightRequest, idempotencyKey: 'retry-1' }, extra('tenant-a'));
+    const second = await bookFlight({ ...flightRequest, idempotencyKey: 'retry-1' }, extra('tenant-a'));
+
+    expect(first.isError).toBe(false);
+    expect(second.isError).toBe(false);
+    expect(second.structuredContent.booking.bookingId).toBe(first.structuredContent.booking.bookingId);
+    expect(await repository.listByTenant('tenant-a')).toHaveLength(1);
+  });
+
+  test('a retried book_hotel with the same key returns the original booking', async () => {
+    const first = await bookHotel({ ...hotelRequest, idempotencyKey: 'retry-1' }, extra('tenant-a'));
+    const second = await bookHotel({ ...hotelRequest, idempotencyKey: 'retry-1' }, extra('tenant-a'));
+
+    expect(second.structuredContent.booking.bookingId).toBe(first.structuredContent.booking.bookingId);
+    expect(await repository.listByTenant('tenant-a')).toHaveLength(1);
+  });
+
+  test('identical requests without a key make separate bookings', async () => {
+    const first = await bookHotel(hotelRequest, extra('tenant-a'));
+    const second = await bookHotel({ ...hotelRequest }, extra('tenant-a'));
+
+    expect(second.structuredContent.booking.bookingId).not.toBe(first.structuredContent.booking.bookingId);
+    expect(await repository.listByTenant('tenant-a')).toHaveLength(2);
+  });
+
+  test('reusing a key with different parameters is rejected', async () => {
+    await bookFlight({ ...flightRequest, idempotencyKey: 'retry-1' }, extra('tenant-a'));
+
+    const result = await bookFlight({ ...flightRequest, flightClass: 'First', idempotencyKey: 'retry-1' }, extra('tenant-a'));
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent.error.code).toBe('IDEMPOTENCY_KEY_REUSED');
+    expect(await repository.listByTenant('tenant-a')).toHaveLength(1);
+  });
+
+  test('keys are scoped to the tenant and user', async () => {
+    await bookFlight({ ...flightRequest, idempotencyKey: 'k' }, extra('tenant-a', 'user-1'));
+    await bookFlight({ ...flightRequest, idempotencyKey: 'k' }, extra('tenant-a', 'user-2'));
+    await bookFlight({ ...flightRequest, idempotencyKey: 'k' }, extra('tenant-b', 'user-1'));
+
+    expect(await repository.listByTenant('tenant-a')).toHaveLength(2);
+    expect(await repository.listByTenant('tenant-b')).toHaveLength(1);
+  });
+
+  test('a new booking is made once the key has expired', async () => {
+    process.env.IDEMPOTENCY_TTL_SECONDS = '0';
+    const first = await bookFlight({ ...flightRequest, idempotencyKey: 'retry-1' }, extra('tenant-a'));
+    const second = await bookFlight({ ...flightRequest, idempotencyKey: 'retry-1' }, extra('tenant-a'));
+
+    expect(second.structuredContent.booking.bookingId).not.toBe(first.structuredContent.booking.bookingId);
+    expect(await repository.listByTenant('tenant-a')).toHaveLength(2);
+  });
+
+  test('a concurrent create with the same key keeps the first booking', async () => {
+    const record = {
+      key: 'k',
+      requestHash: 'h',
+      bookingType: 'FLIGHT',
+      bookingId: 'F1',
+      createdAt: new Date().toISOString(),
+      expiresAt: Math.floor(Date.now() / 1000) + 60,
+    };
+    const booking = (bookingId) => ({
+      PK: 'tenant-a',
+      SK: `BOOKING#FLIGHT#${bookingId}`,
+      tenantId: 'tenant-a',
+      bookingId,
+      type: 'FLIGHT',
+      status: 'CONFIRMED',
+      bookingDate: '2026-01-01T00:00:00.000Z',
+      flightNumber: 'AA1234',
+      class: 'Economy',
+      departureDateTime: '2026-06-15',
+      passengers: [],
+    });
+
+    await repository.createIdempotent('tenant-a', booking('F1'), record);
+    const second = await repository.createIdempotent('tenant-a', booking('F2'), { ...record, bookingId: 'F2' });
+
+    expect(second.bookingId).toBe('F1');
+    expect((await repository.listByTenant('tenant-a')).map(b => b.bookingId)).toEqual(['F1']);
+  });
+});
@@ -0,0 +1,396 @@
+/**
+ * Tests for the travel inventory
+ * Searches return the same flights and hotels for the same route or city,
+ * dates and seed, and bookings are validated against them and take seats
+ * and rooms from them until they are cancelled, rejected or modified.
+ */
+
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const { mockDynamoSend } = vi.hoisted(() => ({ mockDynamoSend: vi.fn() }));
+
+vi.mock('../services/dynamoDb.js', () => ({
+  TABLE_NAME: 'test-table',
+  getDynamoDbClient: vi.fn().mockResolvedValue({ send: mockDynamoSend }),
+}));
+
+import { getInventory, SeededInventory, setInventory } from '../services/inventory.js';
+import { DynamoDbReservationStore, setReservationStore } from '../services/reservation-store.js';
+import { setBookingRepository } from '../repositories/booking-repository.js';
+import { InMemoryBookingRepository } from '../repositories/in-memory-booking-repository.js';
+import { bookFlight, listFlights } from '../tools/manage-flights.js';
+import { bookHotel, listHotels, modifyHotelBooking } from '../tools/manage-hotels.js';
+import { cancelBooking } from '../tools/cancel-booking.js';
+
+const extra = (tenantId = 'acme') => ({ authInfo: { extra: { tenantId, userId: 'user-1' } } });
+
+describe('SeededInventory', () => {
+  beforeEach(() => {
+    process.env.DATA_BACKEND = 'memory';
+  });
+
+  afterEach(() => {
+    delete process.env.INVENTORY_SEED;
+    delete process.env.DATA_BACKEND;
+    setReservationStore(undefined);
+  });
+
+  test('the same search returns the same flights', async () => {
+    const flights = await new SeededInventory('seed-1').findFlights('acme', 'SEA', 'JFK', '2099-06-15');
+
+    expect(flights).toHaveLength(4);
+    expect((await new SeededInventory('seed-1').findFlights('acme', 'sea', 'jfk', '2099-06-15')).map((f) => f.flightNumber))
+      .toEqual(flights.map((f) => f.flightNumber));
+    expect(await new SeededInventory('seed-1').findFlights('acme', 'SEA', 'JFK', '2099-06-15')).toEqual(flights);
+  });
+
+  test('flight numbers are stable across dates and start with the airline code', async () => {
+    const inventory = new SeededInventory('seed-1');
+    const numbers = async (date) => (await inventory.findFlights('acme', 'SEA', 'JFK', date)).map((f) => f.flightNumber);
+
+    expect(await numbers('2099-06-16')).toEqual(await numbers('2099-06-15'));
+    for (const flight of await inventory.findFlights('acme', 'SEA', 'JFK', '2099-06-15')) {
+      expect(flight.flightNumber).toMatch({ Delta: /^DL\d{4}$/, United: /^UA\d{4}$/, American: /^AA\d{4}$/, Southwest: /^WN\d{4}$/ }[flight.airline]);
+    }
+  });
+
+  test('INVENTORY_SEED changes the inventory', async () => {
+    const flights = await new SeededInventory().findFlights('acme', 'SEA', 'JFK', '2099-06-15');
+    process.env.INVENTORY_SEED = 'another-seed';
+    expect(await new SeededInventory().findFlights('acme', 'SEA', 'JFK', '2099-06-15')).not.toEqual(flights);
+  });
+
+  test('finds a flight by number on its route', async () => {
+    const inventory = new SeededInventory('seed-1');
+    const [flight] = await inventory.findFlights('acme', 'SEA', 'JFK', '2099-06-15');
+    const route = { origin: 'SEA', destination: 'JFK' };
+
+    expect(await inventory.getFlight('acme', flight.flightNumber, '2099-06-15', route)).toEqual(flight);
+    expect(await inventory.getFlight('acme', flight.flightNumber.toLowerCase(), '2099-06-15', route)).toEqual(flight);
+    expect(await inventory.getFlight('acme', flight.flightNumber, '2099-06-15', { origin: 'SEA', destination: 'BOS' })).toBeUndefined();
+    expect(await inventory.getFlight('acme', 'ZZ0000', '2099-06-15', route)).toBeUndefined();
+  });
+
+  test('reserving a seat decrements the seats left until it is released', async () => {
+    const inventory = new SeededInventory('seed-1');
+    const [flight] = await inventory.findFlights('acme', 'SEA', 'JFK', '2099-06-15');
+    const seat = flight.availableSeats.find((s) => s.count > 0);
+    const seatsLeft = async () => (await inventory.getFlight('acme', flight.flightNumber, '2099-06-15', { origin: 'SEA', destination: 'JFK' }))
+      .availableSeats.find((s) => s.flightClass === seat.flightClass).count;
+
+    const reservation = await inventory.reserveSeat('acme', flight, seat.flightClass.toLowerCase());
+
+    expect(await seatsLeft()).toBe(seat.count - 1);
+    await reservation.release();
+    await reservation.release();
+    expect(await seatsLeft()).toBe(seat.count);
+  });
+
+  test('a class is sold out once every seat is reserved', async () => {
+    const inventory = new SeededInventory('seed-1');
+    const [flight] = await inventory.findFlights('acme', 'SEA', 'JFK', '2099-06-15');
+    const seat = flight.availableSeats.find((s) => s.count > 0);
+
+    for (let i = 0; i < seat.count; i++) {
+      expect(await inventory.reserveSeat('acme', flight, seat.flightClass)).toBeDefined();
+    }
+
+    expect(await inventory.reserveSeat('acme', flight, seat.flightClass)).toBeUndefined();
+  });
+
+  test('seats are counted per tenant', async () => {
+    const inventory = new SeededInventory('seed-1');
+    const [flight] = await inventory.findFlights('acme', 'SEA', 'JFK', '2099-06-15');
+    const seat = flight.availableSeats.find((s) => s.count > 0);
+
+    await inventory.reserveSeat('acme', flight, seat.flightClass);
+
+    const [other] = await inventory.findFlights('globex', 'SEA', 'JFK', '2099-06-15');
+    expect(other.availableSeats.find((s) => s.flightClass === seat.flightClass).count).toBe(seat.count);
+  });
+
+  test('the rooms left for a stay are the fewest left on any of its nights', async () => {
+    const inventory = new SeededInventory('seed-1');
+    const rooms = async (checkIn, checkOut) => (await inventory.findHotels('acme', 'Lisbon', checkIn, checkOut))[0]
+      .availableRooms.map((r) => r.available);
+
+    const nights = [await rooms('2099-07-01', '2099-07-02'), await rooms('2099-07-02', '2099-07-03')];
+
+    expect(await rooms('2099-07-01', '2099-07-03')).toEqual(nights[0].map((left, i) => Math.min(left, nights[1][i])));
+  });
+
+  test('reserving a room takes it for every night of the stay', async () => {
+    const inventory = new SeededInventory('seed-1');
+    const hotel = (await inventory.findHotels('acme', 'Lisbon', '2099-07-01', '2099-07-03'))
+      .find((h) => h.availableRooms.some((r) => r.available > 0));
+    const room = hotel.availableRooms.find((r) => r.available > 0);
+    const roomsLeft = async (checkIn, checkOut) => (await inventory.getHotel('acme', hotel.hotelName, 'Lisbon', checkIn, checkOut))
+      .availableRooms.find((r) => r.roomType === room.roomType).available;
+    const secondNight = await roomsLeft('2099-07-02', '2099-07-03');
+    const nightAfter = await roomsLeft('2099-07-03', '2099-07-04');
+
+    await inventory.reserveRoom('acme', hotel, room.roomType);
+
+    expect(await roomsLeft('2099-07-02', '2099-07-03')).toBe(secondNight - 1);
+    expect(await roomsLeft('2099-07-03', '2099-07-04')).toBe(nightAfter);
+  });
+
+  test('stays longer than 30 nights have no rooms', async () => {
+    const [hotel] = await new SeededInventory('seed-1').findHotels('acme', 'Lisbon', '2099-07-01', '2099-08-15');
+    expect(hotel.availableRooms.every((r) => r.available === 0)).toBe(true);
+  });
+});
+
+describe('DynamoDbReservationStore', () => {
+  let store;
+
+  beforeEach(() => {
+    mockDynamoSend.mockReset();
+    store = new DynamoDbReservationStore();
+  });
+
+  test('takes every key in one transaction in the tenant partition', async () => {
+    mockDynamoSend.mockResolvedValueOnce({});
+
+    expect(await store.reserve('acme', [{ key: 'SEAT#DL1234#2099-06-15#Economy', capacity: 3 }])).toBe(true);
+
+    const { input } = mockDynamoSend.mock.calls[0][0];
+    expect(input.TransactItems[0].Update).toMatchObject({
+      TableName: 'test-table',
+      Key: { PK: 'acme', SK: 'INVENTORY#SEAT#DL1234#2099-06-15#Economy' },
+      ConditionExpression: 'attribute_not_exists(reserved) OR reserved < :capacity',
+      ExpressionAttributeValues: { ':one': 1, ':capacity': 3 },
+    });
+  });
+
+  test('takes nothing when a key is at its capacity', async () => {
+    mockDynamoSend.mockRejectedValueOnce(Object.assign(new Error('Transaction cancelled'), {
+      name: 'TransactionCanceledException',
+      CancellationReasons: [{ Code: 'None' }, { Code: 'ConditionalCheckFailed' }],
+    }));
+
+    expect(await store.reserve('acme', [
+      { key: 'ROOM#Hilton Lisbon#Standard#2099-07-01', capacity: 2 },
+      { key: 'ROOM#Hilton Lisbon#Standard#2099-07-02', capacity: 2 },
+    ])).toBe(false);
+  });
+
+  test('reads the counts from the tenant partition', async () => {
+    mockDynamoSend.mockResolvedValueOnce({
+      Responses: { 'test-table': [{ SK: 'INVENTORY#SEAT#DL1234#2099-06-15#Economy', reserved: 2 }] },
+    });
+
+    const counts = await store.getReserved('acme', ['SEAT#DL1234#2099-06-15#Economy', 'SEAT#DL1234#2099-06-15#First']);
+
+    expect(counts).toEqual(new Map([['SEAT#DL1234#2099-06-15#Economy', 2]]));
+    expect(mockDynamoSend.mock.calls[0][0].input.RequestItems['test-table'].Keys).toEqual([
+      { PK: 'acme', SK: 'INVENTORY#SEAT#DL1234#2099-06-15#Economy' },
+      { PK: 'acme', SK: 'INVENTORY#SEAT#DL1234#2099-06-15#First' },
+    ]);
+  });
+
+  test('releasing a key nothing is held under is not an error', async () => {
+    mockDynamoSend.mockRejectedValueOnce(Object.assign(new Error('The conditional request failed'), { name: 'ConditionalCheckFailedException' }));
+
+    await expect(store.release('acme', ['SEAT#DL1234#2099-06-15#Economy'])).resolves.toBeUndefined();
+    expect(mockDynamoSend.mock.calls[0][0].input).toMatchObject({
+      Key: { PK: 'acme', SK: 'INVENTORY#SEAT#DL1234#2099-06-15#Economy' },
+      ConditionExpression: 'reserved > :zero',
+    });
+  });
+});
+
+describe('booking from the inventory', () => {
+  let repository;
+
+  beforeEach(() => {
+    process.env.DATA_BACKEND = 'memory';
+    repository = new InMemoryBookingRepository();
+    setBookingRepository(repository);
+    setInventory(new SeededInventory('seed-1'));
+  });
+
+  afterEach(() => {
+    setBookingRepository(undefined);
+    setInventory(undefined);
+    setReservationStore(undefined);
+    delete process.env.DATA_BACKEND;
+  });
+
+  const route = { origin: 'SEA', destination: 'JFK' };
+  const searchFlight = async () => {
+    const [flight] = (await listFlights({ ...route, departure: '2099-06-15' }, extra())).structuredContent.flights;
+    return { flight, seat: flight.availableSeats.find((s) => s.count > 0) };
+  };
+  const seatsLeft = async (flightClass) => (await searchFlight()).flight.availableSeats.find((s) => s.flightClass === flightClass).count;
+  const bookSeat = (flight, seat, change = {}) => bookFlight({
+    flightNumber: flight.flightNumber, ...route, departure: '2099-06-15', flightClass: seat.flightClass, ...change,
+  }, extra());
+
+  test('find_flights returns the same flights on every call', async () => {
+    const search = async () => (await listFlights({ ...route, departure: '2099-06-15' }, extra())).structuredContent.flights;
+    expect(await search()).toEqual(await search());
+  });
+
+  test('book_flight books a searched flight at its fare and takes a seat', async () => {
+    const { flight, seat } = await searchFlight();
+
+    const result = await bookSeat(flight, seat);
+
+    expect(result.isError).toBe(false);
+    expect(result.structuredContent.booking).toMatchObject({
+      flightNumber: flight.flightNumber,
+      class: seat.flightClass,
+      departureDateTime: flight.departure,
+      destination: 'JFK',
+      price: seat.price,
+    });
+    expect(await seatsLeft(seat.flightClass)).toBe(seat.count - 1);
+  });
+
+  test('a retried booking does not take another seat', async () => {
+    const { flight, seat } = await searchFlight();
+
+    await bookSeat(flight, seat, { idempotencyKey: 'retry-1' });
+    await bookSeat(flight, seat, { idempotencyKey: 'retry-1' });
+
+    expect(await seatsLeft(seat.flightClass)).toBe(seat.count - 1);
+  });
+
+  test('cancelling a flight booking gives the seat back', async () => {
+    const { flight, seat } = await searchFlight();
+    const booked = await bookSeat(flight, seat);
+
+    const result = await cancelBooking({ bookingId: booked.structuredContent.booking.bookingId }, extra());
+
+    expect(result.isError).toBe(false);
+    expect(await seatsLeft(seat.flightClass)).toBe(seat.count);
+  });
+
+  test.each([
+    ['an unknown flight', { flightNumber: 'ZZ0000' }, 'FLIGHT_NOT_FOUND'],
+    ['a flight on another route', { destination: 'BOS' }, 'FLIGHT_NOT_FOUND'],
+    ['a class the flight does not have', { flightClass: 'Premium Economy' }, 'INVALID_FLIGHT_CLASS'],
+    ['a quoted fare that differs', { price: 1 }, 'PRICE_CHANGED'],
+  ])('book_flight rejects %s', async (_, change, code) => {
+    const { flight, seat } = await searchFlight();
+
+    const result = await bookSeat(flight, seat, change);
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent.error.code).toBe(code);
+    expect(await repository.listByTenant('acme')).toEqual([]);
+  });
+
+  test('book_flight fails once the class is sold out', async () => {
+    const { flight, seat } = await searchFlight();
+    for (let i = 0; i < seat.count; i++) {
+      await getInventory().reserveSeat('acme', flight, seat.flightClass);
+    }
+
+    const result = await bookSeat(flight, seat);
+
+    expect(result.structuredContent.error).toMatchObject({ code: 'SOLD_OUT', flightNumber: flight.flightNumber });
+  });
+
+  const searchHotels = async (checkIn, checkOut) =>
+    (await listHotels({ city: 'Lisbon', checkIn, checkOut, guests: 1 }, extra())).structuredContent.hotels;
+  const roomsLeft = async (hotelName, roomType, checkIn, checkOut) => (await searchHotels(checkIn, checkOut))
+    .find((h) => h.hotelName === hotelName).availableRooms.find((r) => r.roomType === roomType).available;
+  // A hotel with a room of the type left for every night from 1 to 4 July.
+  const searchHotel = async (roomType) => {
+    const matches = (r) => r.available > 0 && (!roomType || r.roomType === roomType);
+    const hotel = (await searchHotels('2099-07-01', '2099-07-04')).find((h) => h.availableRooms.some(matches));
+    const { roomType: type } = hotel.availableRooms.find(matches);
+    const [room] = (await searchHotels('2099-07-01', '2099-07-03'))
+      .find((h) => h.hotelName === hotel.hotelName).availableRooms.filter((r) => r.roomType === type);
+    return { hotel, room };
+  };
+  const bookRoom = (hotel, room, change = {}) => bookHotel({
+    hotelName: hotel.hotelName, city: 'Lisbon', checkIn: '2099-07-01', checkOut: '2099-07-03', roomType: room.roomType, guests: 1, ...change,
+  }, extra());
+
+  test('book_hotel books a searched hotel at its rate and takes a room', async () => {
+    const { hotel, room } = await searchHotel();
+
+    const result = await bookRoom(hotel, room);
+
+    expect(result.structuredContent.booking).toMatchObject({
+      hotelName: hotel.hotelName,
+      location: 'Lisbon',
+      roomType: room.roomType,
+      pricePerNight: room.pricePerNight,
+      price: room.pricePerNight * 2,
+    });
+    expect(await roomsLeft(hotel.hotelName, room.roomType, '2099-07-01', '2099-07-03')).toBe(room.available - 1);
+  });
+
+  test.each([
+    ['a check-out before the check-in', { checkOut: '2099-06-30' }, 'INVALID_DATES'],
+    ['a stay of more than 30 nights', { checkOut: '2099-08-15' }, 'INVALID_DATES'],
+    ['an unknown hotel', { hotelName: 'Grand Budapest' }, 'HOTEL_NOT_FOUND'],
+    ['a hotel in another city', { city: 'Porto' }, 'HOTEL_NOT_FOUND'],
+    ['a room type the hotel does not have', { roomType: 'Penthouse' }, 'INVALID_ROOM_TYPE'],
+    ['a quoted rate that differs', { pricePerNight: 1 }, 'PRICE_CHANGED'],
+  ])('book_hotel rejects %s', async (_, change, code) => {
+    const { hotel, room } = await searchHotel();
+
+    const result = await bookRoom(hotel, room, change);
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent.error.code).toBe(code);
+  });
+
+  test('book_hotel fails once no room of the type is left for a night of the stay', async () => {
+    const { hotel, room } = await searchHotel();
+    for (let i = 0; i < room.available; i++) {
+      await getInventory().reserveRoom('acme', { ...hotel, checkOut: '2099-07-03' }, room.roomType);
+    }
+
+    const result = await bookRoom(hotel, room);
+
+    expect(result.structuredContent.error).toMatchObject({ code: 'SOLD_OUT', hotelName: hotel.hotelName });
+  });
+
+  test('cancelling a hotel booking gives the rooms back', async () => {
+    const { hotel, room } = await searchHotel();
+    const booked = await bookRoom(hotel, room);
+
+    await cancelBooking({ bookingId: booked.structuredContent.booking.bookingId }, extra());
+
+    expect(await roomsLeft(hotel.hotelName, room.roomType, '2099-07-01', '2099-07-03')).toBe(room.available);
+  });
+
+  test('changing the dates takes the new nights and gives back the old ones', async () => {
+    const { hotel, room } = await searchHotel();
+    const booked = await bookRoom(hotel, room);
+    const firstNight = await roomsLeft(hotel.hotelName, room.roomType, '2099-07-01', '2099-07-02');
+    const thirdNight = await roomsLeft(hotel.hotelName, room.roomType, '2099-07-03', '2099-07-04');
+
+    const result = await modifyHotelBooking({
+      confirmationNumber: booked.structuredContent.booking.bookingId,
+      modification: { type: 'CHANGE_DATES', newCheckIn: '2099-07-02', newCheckOut: '2099-07-04' },
+    }, extra());
+
+    expect(result.isError).toBe(false);
+    expect(await roomsLeft(hotel.hotelName, room.roomType, '2099-07-01', '2099-07-02')).toBe(firstNight + 1);
+    expect(await roomsLeft(hotel.hotelName, room.roomType, '2099-07-03', '2099-07-04')).toBe(thirdNight - 1);
+  });
+
+  test('an upgrade to a sold-out room type is refused and keeps the room', async () => {
+    const { hotel, room } = await searchHotel('Standard');
+    const booked = await bookRoom(hotel, room);
+    const stay = (await searchHotels('2099-07-01', '2099-07-03')).find((h) => h.hotelName === hotel.hotelName);
+    for (let i = 0; i < stay.availableRooms.find((r) => r.roomType === 'Suite').available; i++) {
+      await getInventory().reserveRoom('acme', stay, 'Suite');
+    }
+
+    const result = await modifyHotelBooking({
+      confirmationNumber: booked.structuredContent.booking.bookingId,
+      modification: { type: 'UPGRADE_ROOM', newRoomType: 'Suite' },
+    }, extra());
+
+    expect(result.structuredContent.error).toMatchObject({ code: 'SOLD_OUT', roomType: 'Suite' });
+    expect(await roomsLeft(hotel.hotelName, 'Standard', '2099-07-01', '2099-07-03')).toBe(room.available - 1);
+  });
+});
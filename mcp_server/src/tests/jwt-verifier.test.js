@@ -0,0 +1,374 @@
+/**
+ * Tests for access token validation in the JWT verifier
+ * Signs tokens with a local RSA key served through a mocked JWKS client and
+ * a stubbed OpenID discovery endpoint.
+ */
+
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { generateKeyPairSync } from 'crypto';
+import jwt from 'jsonwebtoken';
+
+const { publicKey, privateKey } = vi.hoisted(() => {
+  const { generateKeyPairSync: generate } = require('crypto');
+  return generate('rsa', {
+    modulusLength: 2048,
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  });
+});
+
+vi.mock('jwks-rsa', () => ({
+  default: vi.fn(() => ({
+    getSigningKey: (_kid, callback) => callback(null, { getPublicKey: () => publicKey }),
+  })),
+}));
+
+import { processJwt } from '../auth/jwt-verifier.js';
+import { setClientAllowlist, StaticClientAllowlist } from '../auth/client-allowlist.js';
+import { clearDiscoveryCache } from '../auth/identity-providers.js';
+import { InMemoryRevocationStore, revocationSubject } from '../auth/revocation-store.js';
+import { clearRevocationCache, setRevocationStore } from '../auth/token-revocation.js';
+
+const ISSUER = 'https://cognito-idp.us-east-1.amazonaws.com/us-east-1_TEST';
+const ENTRA_ISSUER = 'https://login.microsoftonline.com/entra-tid/v2.0';
+const RESOURCE = 'https://mcp.example.com';
+
+function sign(claims, key = privateKey, issuer = ISSUER) {
+  return jwt.sign(
+    { sub: 'user-1', token_use: 'access', client_id: 'dcr-client', scope: 'openid', 'custom:tenantId': 'tenant-a', ...claims },
+    key,
+    { algorithm: 'RS256', issuer, expiresIn: 300, keyid: 'test' },
+  );
+}
+
+const signEntra = (claims) => jwt.sign(
+  { sub: 'entra-user', azp: 'entra-client', scp: 'bookings:read', ...claims },
+  privateKey,
+  { algorithm: 'RS256', issuer: ENTRA_ISSUER, expiresIn: 300, keyid: 'test' },
+);
+
+const discoveryFetch = vi.fn(async (url) => {
+  const issuer = url.replace('/.well-known/openid-configuration', '');
+  return new Response(JSON.stringify({ issuer, jwks_uri: `${issuer}/keys` }));
+});
+
+describe('processJwt access token validation', () => {
+  beforeEach(() => {
+    process.env.COGNITO_USER_POOL_ID = 'us-east-1_TEST';
+    process.env.AWS_REGION = 'us-east-1';
+    setClientAllowlist(new StaticClientAllowlist(['dcr-client']));
+    clearDiscoveryCache();
+    vi.stubGlobal('fetch', discoveryFetch);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    delete process.env.JWT_ISSUERS;
+    delete process.env.JWT_AUDIENCES;
+    delete process.env.IDENTITY_PROVIDERS;
+  });
+
+  test('accepts an access token from an allowlisted client without an audience', async () => {
+    const authInfo = await processJwt(sign({}), RESOURCE);
+    expect(authInfo.clientId).toBe('dcr-client');
+    expect(authInfo.extra.tenantId).toBe('tenant-a');
+  });
+
+  test('maps Cognito groups to roles', async () => {
+    const authInfo = await processJwt(sign({ 'cognito:groups': ['travel-approver'] }), RESOURCE);
+    expect(authInfo.extra.roles).toEqual(['travel-approver']);
+  });
+
+  test('rejects ID tokens', async () => {
+    await expect(processJwt(sign({ token_use: 'id' }), RESOURCE)).rejects.toThrow('An access token is required');
+  });
+
+  test('rejects tokens without an audience from other clients', async () => {
+    await expect(processJwt(sign({ client_id: 'other-client' }), RESOURCE))
+      .rejects.toThrow('Token was not issued for this resource');
+  });
+
+  test('accepts the server resource identifier as audience, with or without trailing slash', async () => {
+    await expect(processJwt(sign({ client_id: 'other-client', aud: RESOURCE }), RESOURCE)).resolves.toBeDefined();
+    await expect(processJwt(sign({ client_id: 'other-client', aud: `${RESOURCE}/` }), RESOURCE)).resolves.toBeDefined();
+  });
+
+  test('rejects tokens minted for another resource server, even from allowlisted clients', async () => {
+    await expect(processJwt(sign({ aud: 'https://other.example.com/' }), RESOURCE))
+      .rejects.toThrow('Token was not issued for this resource');
+  });
+
+  test('JWT_AUDIENCES replaces the default audiences', async () => {
+    process.env.JWT_AUDIENCES = 'urn:travel-mcp';
+    await expect(processJwt(sign({ aud: 'urn:travel-mcp' }), RESOURCE)).resolves.toBeDefined();
+    await expect(processJwt(sign({ aud: RESOURCE }), RESOURCE)).rejects.toThrow('Token was not issued for this resource');
+  });
+
+  test('rejects issuers that are not allowed', async () => {
+    process.env.JWT_ISSUERS = 'https://issuer.example.com';
+    await expect(processJwt(sign({}), RESOURCE)).rejects.toThrow('Invalid token format or signature');
+  });
+
+  test('rejects tokens signed with another key', async () => {
+    const { privateKey: otherKey } = generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+    });
+    await expect(processJwt(sign({}, otherKey), RESOURCE)).rejects.toThrow('Invalid token format or signature');
+  });
+
+  test('discovers signing keys through the OpenID configuration', async () => {
+    await processJwt(sign({}), RESOURCE);
+    expect(discoveryFetch).toHaveBeenCalledWith(`${ISSUER}/.well-known/openid-configuration`, expect.anything());
+  });
+});
+
+describe('processJwt with additional identity providers', () => {
+  beforeEach(() => {
+    process.env.COGNITO_USER_POOL_ID = 'us-east-1_TEST';
+    process.env.AWS_REGION = 'us-east-1';
+    process.env.IDENTITY_PROVIDERS = JSON.stringify([
+      { issuer: ENTRA_ISSUER, tenantId: 'acme', audiences: ['api://travel-mcp'], claims: { tenantTier: ['extension_tier'] } },
+    ]);
+    setClientAllowlist(new StaticClientAllowlist(['entra-client']));
+    clearDiscoveryCache();
+    vi.stubGlobal('fetch', discoveryFetch);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    delete process.env.IDENTITY_PROVIDERS;
+  });
+
+  test('maps claims through the provider configuration', async () => {
+    const authInfo = await processJwt(signEntra({ aud: 'api://travel-mcp', extension_tier: 'premium' }), RESOURCE);
+
+    expect(authInfo.clientId).toBe('entra-client');
+    expect(authInfo.scopes).toEqual(['bookings:read']);
+    expect(authInfo.extra).toEqual({ principalType: 'user', userId: 'entra-user', tenantId: 'acme', tenantTier: 'premium', roles: [] });
+  });
+
+  test('maps roles from the roles claim', async () => {
+    const authInfo = await processJwt(signEntra({ aud: 'api://travel-mcp', roles: ['travel-approver', 'auditor'] }), RESOURCE);
+    expect(authInfo.extra.roles).toEqual(['travel-approver', 'auditor']);
+  });
+
+  test('a fixed tenant cannot be overridden by token claims', async () => {
+    const authInfo = await processJwt(signEntra({ aud: 'api://travel-mcp', tenantId: 'other-tenant' }), RESOURCE);
+    expect(authInfo.extra.tenantId).toBe('acme');
+  });
+
+  test('scopes issued as an array are accepted', async () => {
+    const authInfo = await processJwt(signEntra({ aud: 'api://travel-mcp', scp: ['bookings:read', 'loyalty:read'] }), RESOURCE);
+    expect(authInfo.scopes).toEqual(['bookings:read', 'loyalty:read']);
+  });
+
+  test('tokens without the provider audience are rejected, even from allowlisted clients', async () => {
+    await expect(processJwt(signEntra({}), RESOURCE)).rejects.toThrow('Token was not issued for this resource');
+    await expect(processJwt(signEntra({ aud: 'entra-client' }), RESOURCE)).rejects.toThrow('Token was not issued for this resource');
+  });
+
+  test('the Cognito user pool stays trusted', async () => {
+    const authInfo = await processJwt(sign({ client_id: 'entra-client' }), RESOURCE);
+    expect(authInfo.extra.tenantId).toBe('tenant-a');
+  });
+
+  test.each([
+    ['malformed JSON', `[{"issuer":"${ENTRA_ISSUER}"`],
+    ['claim names that are not a list', JSON.stringify([{ issuer: ENTRA_ISSUER, audiences: ['api://travel-mcp'], claims: { tenantId: 'tid' } }])],
+  ])('an invalid configuration with %s trusts none of its issuers', async (_, providers) => {
+    process.env.IDENTITY_PROVIDERS = providers;
+
+    await expect(processJwt(signEntra({ aud: 'api://travel-mcp' }), RESOURCE)).rejects.toThrow('Invalid token format or signature');
+    await expect(processJwt(sign({ client_id: 'entra-client' }), RESOURCE)).resolves.toBeDefined();
+  });
+
+  test('discovery documents for another issuer are rejected', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ issuer: 'https://evil.example.com', jwks_uri: 'https://evil.example.com/keys' }))));
+    await expect(processJwt(signEntra({ aud: 'api://travel-mcp' }), RESOURCE)).rejects.toThrow();
+  });
+});
+
+describe('processJwt with client-credentials tokens', () => {
+  const signMachine = (clientId, scope, claims = {}) =>
+    sign({ sub: clientId, client_id: clientId, scope, 'custom:tenantId': undefined, ...claims });
+
+  beforeEach(() => {
+    process.env.COGNITO_USER_POOL_ID = 'us-east-1_TEST';
+    process.env.AWS_REGION = 'us-east-1';
+    process.env.OAUTH_SCOPE_PREFIX = `${RESOURCE}//`;
+    process.env.MACHINE_CLIENTS = JSON.stringify({
+      'backoffice-client': { tenantId: 'acme', tenantTier: 'premium', scopes: ['bookings:read', 'bookings:write'] },
+      'reporting-client': { tenantId: 'acme' },
+    });
+    setClientAllowlist(new StaticClientAllowlist([]));
+    clearDiscoveryCache();
+    vi.stubGlobal('fetch', discoveryFetch);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    delete process.env.MACHINE_CLIENTS;
+    delete process.env.OAUTH_SCOPE_PREFIX;
+  });
+
+  test('resolves the tenant through the client mapping', async () => {
+    const authInfo = await processJwt(signMachine('backoffice-client', `${RESOURCE}//bookings:write`), RESOURCE);
+
+    expect(authInfo.clientId).toBe('backoffice-client');
+    expect(authInfo.extra).toEqual({
+      principalType: 'machine',
+      userId: 'client:backoffice-client',
+      tenantId: 'acme',
+      tenantTier: 'premium',
+    });
+  });
+
+  test('tenant claims in the token are ignored', async () => {
+    const authInfo = await processJwt(signMachine('backoffice-client', '', { 'custom:tenantId': 'other-tenant' }), RESOURCE);
+    expect(authInfo.extra.tenantId).toBe('acme');
+  });
+
+  test('scopes outside the mapping are dropped', async () => {
+    const scope = [`${RESOURCE}//bookings:read`, `${RESOURCE}//bookings:write`, `${RESOURCE}//loyalty:read`].join(' ');
+
+    const backoffice = await processJwt(signMachine('backoffice-client', scope), RESOURCE);
+    expect(backoffice.scopes).toEqual([`${RESOURCE}//bookings:read`, `${RESOURCE}//bookings:write`]);
+
+    // Without explicit scopes a client only gets read access.
+    const reporting = await processJwt(signMachine('reporting-client', scope), RESOURCE);
+    expect(reporting.scopes).toEqual([`${RESOURCE}//bookings:read`, `${RESOURCE}//loyalty:read`]);
+  });
+
+  test('unmapped clients are rejected', async () => {
+    await expect(processJwt(signMachine('unknown-client', `${RESOURCE}//bookings:read`, { aud: RESOURCE }), RESOURCE))
+      .rejects.toThrow('Client is not mapped to a tenant');
+  });
+
+  test('an invalid client mapping maps no client', async () => {
+    process.env.MACHINE_CLIENTS = '{"backoffice-client":{"tenantId":"acme"';
+    await expect(processJwt(signMachine('backoffice-client', `${RESOURCE}//bookings:read`, { aud: RESOURCE }), RESOURCE))
+      .rejects.toThrow('Client is not mapped to a tenant');
+
+    process.env.MACHINE_CLIENTS = JSON.stringify({ 'backoffice-client': { tenantId: 'acme', scopes: ['bookings:*'] } });
+    await expect(processJwt(signMachine('backoffice-client', `${RESOURCE}//bookings:read`, { aud: RESOURCE }), RESOURCE))
+      .rejects.toThrow('Client is not mapped to a tenant');
+  });
+
+  test('user tokens are marked as user principals', async () => {
+    const authInfo = await processJwt(sign({ client_id: 'backoffice-client' }), RESOURCE);
+    expect(authInfo.extra.principalType).toBe('user');
+    expect(authInfo.extra.tenantId).toBe('tenant-a');
+  });
+});
+
+describe('processJwt token revocation', () => {
+  const INTROSPECTION_ENDPOINT = 'https://auth.example.com/oauth2/introspect';
+  let store;
+  let introspection;
+
+  beforeEach(() => {
+    process.env.COGNITO_USER_POOL_ID = 'us-east-1_TEST';
+    process.env.AWS_REGION = 'us-east-1';
+    setClientAllowlist(new StaticClientAllowlist(['dcr-client']));
+    store = new InMemoryRevocationStore();
+    setRevocationStore(store);
+    clearDiscoveryCache();
+    introspection = vi.fn(async () => new Response(JSON.stringify({ active: true })));
+    vi.stubGlobal('fetch', vi.fn((url, init) => (url === INTROSPECTION_ENDPOINT ? introspection(url, init) : discoveryFetch(url))));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    delete process.env.INTROSPECTION_ENDPOINT;
+    delete process.env.INTROSPECTION_CLIENT_ID;
+    delete process.env.INTROSPECTION_CLIENT_SECRET;
+    delete process.env.REVOCATION_CACHE_SECONDS;
+    delete process.env.REVOCATION_FAIL_OPEN;
+  });
+
+  test.each([
+    ['a revoked token', revocationSubject.token('token-1')],
+    ['a disabled user', revocationSubject.user('user-1')],
+    ['a disabled client', revocationSubject.client('dcr-client')],
+  ])('rejects %s', async (_, subject) => {
+    await store.revoke(subject);
+    await expect(processJwt(sign({ jti: 'token-1' }), RESOURCE)).rejects.toThrow('Token has been revoked');
+  });
+
+  test('revocations of single tokens lapse with their expiry', async () => {
+    await store.revoke(revocationSubject.token('token-1'), Math.floor(Date.now() / 1000) - 1);
+    await expect(processJwt(sign({ jti: 'token-1' }), RESOURCE)).resolves.toBeDefined();
+  });
+
+  test('tokens that passed are cached until the cache expires', async () => {
+    const token = sign({ jti: 'token-1' });
+    await processJwt(token, RESOURCE);
+    await store.revoke(revocationSubject.token('token-1'));
+
+    await expect(processJwt(token, RESOURCE)).resolves.toBeDefined();
+    clearRevocationCache();
+    await expect(processJwt(token, RESOURCE)).rejects.toThrow('Token has been revoked');
+  });
+
+  test('fails closed when the revocation list cannot be read', async () => {
+    setRevocationStore({ isRevoked: vi.fn().mockRejectedValue(new Error('unavailable')), revoke: vi.fn() });
+    await expect(processJwt(sign({}), RESOURCE)).rejects.toThrow('Token revocation list is unavailable');
+  });
+
+  test('with REVOCATION_FAIL_OPEN tokens are let through uncached when the list cannot be read', async () => {
+    process.env.REVOCATION_FAIL_OPEN = 'true';
+    const isRevoked = vi.fn().mockRejectedValue(new Error('unavailable'));
+    setRevocationStore({ isRevoked, revoke: vi.fn() });
+    const token = sign({});
+
+    await expect(processJwt(token, RESOURCE)).resolves.toBeDefined();
+    await expect(processJwt(token, RESOURCE)).resolves.toBeDefined();
+    expect(isRevoked).toHaveBeenCalledTimes(2);
+  });
+
+  test('asks the introspection endpoint when configured', async () => {
+    process.env.INTROSPECTION_ENDPOINT = INTROSPECTION_ENDPOINT;
+    process.env.INTROSPECTION_CLIENT_ID = 'mcp-server';
+    process.env.INTROSPECTION_CLIENT_SECRET = 's3cret';
+    const token = sign({});
+
+    await expect(processJwt(token, RESOURCE)).resolves.toBeDefined();
+
+    const [, init] = introspection.mock.calls[0];
+    expect(init.method).toBe('POST');
+    expect(init.headers.Authorization).toBe(`Basic ${Buffer.from('mcp-server:s3cret').toString('base64')}`);
+    expect(init.body.get('token')).toBe(token);
+    expect(init.body.get('token_type_hint')).toBe('access_token');
+  });
+
+  test('rejects tokens the introspection endpoint reports as inactive', async () => {
+    process.env.INTROSPECTION_ENDPOINT = INTROSPECTION_ENDPOINT;
+    introspection.mockResolvedValue(new Response(JSON.stringify({ active: false })));
+
+    await expect(processJwt(sign({}), RESOURCE)).rejects.toThrow('Token has been revoked');
+  });
+
+  test('fails closed when the introspection endpoint is unavailable', async () => {
+    process.env.INTROSPECTION_ENDPOINT = INTROSPECTION_ENDPOINT;
+    introspection.mockResolvedValue(new Response('unavailable', { status: 503 }));
+
+    await expect(processJwt(sign({}), RESOURCE)).rejects.toThrow('Token introspection is unavailable');
+  });
+
+  test('introspection results are cached as well', async () => {
+    process.env.INTROSPECTION_ENDPOINT = INTROSPECTION_ENDPOINT;
+    const token = sign({});
+
+    await processJwt(token, RESOURCE);
+    await processJwt(token, RESOURCE);
+    expect(introspection).toHaveBeenCalledTimes(1);
+
+    process.env.REVOCATION_CACHE_SECONDS = '0';
+    clearRevocationCache();
+    await processJwt(token, RESOURCE);
+    await processJwt(token, RESOURCE);
+    expect(introspection).toHaveBeenCalledTimes(3);
+  });
+});
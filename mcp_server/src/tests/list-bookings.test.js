@@ -0,0 +1,148 @@
+/**
+ * Tests for list_bookings filtering, sorting and cursor pagination
+ * Runs the tool against the in-memory repository, which mirrors the
+ * DynamoDB travel date index.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { setBookingRepository } from '../repositories/booking-repository.js';
+import { InMemoryBookingRepository } from '../repositories/in-memory-booking-repository.js';
+import { listBookings } from '../tools/list-bookings.js';
+
+const extra = (tenantId) => ({ authInfo: { extra: { tenantId } } });
+
+function flight(tenantId, bookingId, departureDateTime, overrides = {}) {
+  return {
+    PK: tenantId,
+    SK: `BOOKING#FLIGHT#${bookingId}`,
+    tenantId,
+    bookingId,
+    type: 'FLIGHT',
+    status: 'CONFIRMED',
+    bookingDate: '2026-01-01T00:00:00.000Z',
+    flightNumber: 'AA1234',
+    class: 'Economy',
+    departureDateTime,
+    destination: 'Lisbon',
+    passengers: [{ name: 'Jane Doe', seat: '12A' }],
+    ...overrides,
+  };
+}
+
+function hotel(tenantId, bookingId, checkInDate, overrides = {}) {
+  return {
+    PK: tenantId,
+    SK: `BOOKING#HOTEL#${bookingId}`,
+    tenantId,
+    bookingId,
+    type: 'HOTEL',
+    status: 'CONFIRMED',
+    bookingDate: '2026-01-01T00:00:00.000Z',
+    hotelName: 'Hilton Paris',
+    location: 'Paris',
+    checkInDate,
+    checkOutDate: '2026-12-31',
+    roomType: 'Standard',
+    numberOfGuests: 1,
+    ...overrides,
+  };
+}
+
+async function list(params, tenantId = 'tenant-a') {
+  const result = await listBookings(params, extra(tenantId));
+  return { result, body: JSON.parse(result.content[0].text) };
+}
+
+describe('list_bookings', () => {
+  let repository;
+
+  beforeEach(async () => {
+    repository = new InMemoryBookingRepository();
+    setBookingRepository(repository);
+    await repository.create('tenant-a', flight('tenant-a', 'F1', '2026-03-01'));
+    await repository.create('tenant-a', hotel('tenant-a', 'H1', '2026-01-15'));
+    await repository.create('tenant-a', flight('tenant-a', 'F2', '2026-05-10', { status: 'CANCELLED', destination: 'Rome' }));
+    await repository.create('tenant-a', hotel('tenant-a', 'H2', '2026-04-20', { location: 'Lisbon' }));
+    await repository.create('tenant-a', flight('tenant-a', 'F3', '2026-02-01', { passengers: [{ name: 'John Roe', seat: '1A' }] }));
+    await repository.create('tenant-b', flight('tenant-b', 'F9', '2026-03-01'));
+  });
+
+  afterEach(() => {
+    setBookingRepository(undefined);
+  });
+
+  test('orders bookings by travel date in either direction', async () => {
+    const { body: asc } = await list({});
+    const { body: desc } = await list({ sort: 'desc' });
+
+    expect(asc.bookings.map(b => b.bookingId)).toEqual(['H1', 'F3', 'F1', 'H2', 'F2']);
+    expect(desc.bookings.map(b => b.bookingId)).toEqual(['F2', 'H2', 'F1', 'F3', 'H1']);
+    expect(asc.nextCursor).toBeUndefined();
+  });
+
+  test('filters by status, date range, traveler and destination', async () => {
+    expect((await list({ status: 'CANCELLED' })).body.bookings.map(b => b.bookingId)).toEqual(['F2']);
+    expect((await list({ travelFrom: '2026-02-01', travelTo: '2026-04-20' })).body.bookings.map(b => b.bookingId))
+      .toEqual(['F3', 'F1', 'H2']);
+    expect((await list({ traveler: 'john roe' })).body.bookings.map(b => b.bookingId)).toEqual(['F3']);
+    expect((await list({ destination: 'lisbon', type: 'FLIGHT' })).body.bookings.map(b => b.bookingId)).toEqual(['F3', 'F1']);
+  });
+
+  test('pages through results with the returned cursor', async () => {
+    const seen = [];
+    let cursor;
+    do {
+      const { body } = await list({ limit: 2, ...(cursor ? { cursor } : {}) });
+      expect(body.bookings.length).toBeLessThanOrEqual(2);
+      seen.push(...body.bookings.map(b => b.bookingId));
+      cursor = body.nextCursor;
+    } while (cursor);
+
+    expect(seen).toEqual(['H1', 'F3', 'F1', 'H2', 'F2']);
+  });
+
+  test('a cursor cannot be replayed under another tenant', async () => {
+    const { body } = await list({ limit: 1 });
+
+    const { result } = await list({ limit: 1, cursor: body.nextCursor }, 'tenant-b');
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent.error.code).toBe('INVALID_CURSOR');
+  });
+
+  test('a cursor is only valid for the query it was issued for', async () => {
+    const { body } = await list({ limit: 1 });
+
+    const { result } = await list({ limit: 1, status: 'CANCELLED', cursor: body.nextCursor });
+
+    expect(result.structuredContent.error.code).toBe('INVALID_CURSOR');
+  });
+
+  test('tampered cursors are rejected', async () => {
+    const { body } = await list({ limit: 1 });
+    const [, signature] = body.nextCursor.split('.');
+    const forged = `${Buffer.from(JSON.stringify({ PK: 'tenant-b', SK: 'x' })).toString('base64url')}.${signature}`;
+
+    const { result } = await list({ limit: 1, cursor: forged });
+
+    expect(result.structuredContent.error.code).toBe('INVALID_CURSOR');
+  });
+
+  test('rejects an inverted date range', async () => {
+    const { result } = await list({ travelFrom: '2026-05-01', travelTo: '2026-01-01' });
+    expect(result.structuredContent.error.code).toBe('INVALID_DATE_RANGE');
+  });
+
+  test('rejects a traveler filter on hotel bookings', async () => {
+    const { result } = await list({ traveler: 'john roe', type: 'HOTEL' });
+    expect(result.structuredContent.error.code).toBe('INVALID_FILTER');
+  });
+
+  test('rejects an empty or malformed tenant ID', async () => {
+    for (const tenantId of ['', 'tenant-a/..', 'tenant#a', undefined]) {
+      const result = await listBookings({}, extra(tenantId));
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toBe('ERROR: No tenant ID provided');
+    }
+  });
+});
@@ -103,17 +103,39 @@ describe('MCP Server Integration', () => {
   test('list_bookings returns empty array when no bookings', async () => {
     const result = await client.callTool({ name: 'list_bookings', arguments: { type: 'ALL' } });
     expect(result.isError).toBeFalsy();
-    expect(JSON.parse(result.content[0].text)).toEqual([]);
+    expect(JSON.parse(result.content[0].text)).toEqual({ bookings: [] });
   });
 
   test('list_bookings returns bookings from DynamoDB', async () => {
-    const fakeBooking = { PK: 'tenant-abc', SK: 'BOOKING#FLIGHT#ABC', type: 'FLIGHT', bookingId: 'ABC' };
+    const fakeBooking = {
+      PK: 'tenant-abc',
+      SK: 'BOOKING#FLIGHT#ABC',
+      tenantId: 'tenant-abc',
+      bookingId: 'ABC',
+      type: 'FLIGHT',
+      status: 'CONFIRMED',
+      bookingDate: '2026-01-01T00:00:00.000Z',
+      flightNumber: 'AA1234',
+      class: 'Economy',
+      departureDateTime: '2026-06-15',
+      passengers: [{ name: 'Jane Doe', seat: '12A' }],
+      travelDate: '2026-06-15',
+    };
     mockDynamoSend.mockResolvedValueOnce({ Items: [fakeBooking] });
 
     const result = await client.callTool({ name: 'list_bookings', arguments: {} });
     const parsed = JSON.parse(result.content[0].text);
-    expect(parsed).toHaveLength(1);
-    expect(parsed[0].bookingId).toBe('ABC');
+    expect(parsed.bookings).toHaveLength(1);
+    expect(parsed.bookings[0].bookingId).toBe('ABC');
+    expect(result.structuredContent).toEqual(parsed);
+  });
+
+  test('list_bookings with an unknown id returns a not-found error', async () => {
+    mockDynamoSend.mockResolvedValueOnce({ Items: [] });
+
+    const result = await client.callTool({ name: 'list_bookings', arguments: { id: 'NOPE42' } });
+    expect(result.isError).toBe(true);
+    expect(JSON.parse(result.content[0].text).error.code).toBe('BOOKING_NOT_FOUND');
   });
 
   test('find_flights returns flight results', async () => {
@@ -126,6 +148,7 @@ describe('MCP Server Integration', () => {
     expect(flights).toHaveLength(4);
     expect(flights[0]).toHaveProperty('flightNumber');
     expect(flights[0]).toHaveProperty('origin', 'JFK');
+    expect(result.structuredContent.flights).toEqual(flights);
   });
 
   test('list_hotels returns hotel results', async () => {
@@ -141,12 +164,25 @@ describe('MCP Server Integration', () => {
 
   test('book_flight writes to DynamoDB and returns result', async () => {
     mockDynamoSend.mockResolvedValue({}); // PutCommand succeeds
+    // The tenant has no travel policy documents.
+    mockS3Send.mockRejectedValue(Object.assign(new Error('The specified key does not exist.'), { name: 'NoSuchKey' }));
+    // Relative to today, so the test never books a flight in the past.
+    const departure = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const { structuredContent: { flights: [flight] } } = await client.callTool({
+      name: 'find_flights',
+      arguments: { origin: 'JFK', destination: 'LAX', departure },
+    });
+    const { flightClass } = flight.availableSeats.find((s) => s.count > 0);
+
     const result = await client.callTool({
       name: 'book_flight',
-      arguments: { flightNumber: 'AA1234', departure: '2026-06-15', flightClass: 'Economy' },
+      arguments: { flightNumber: flight.flightNumber, origin: 'JFK', destination: 'LAX', departure, flightClass },
     });
     expect(result.content[0].type).toBe('text');
     expect(result.content[0].text.length).toBeGreaterThan(0);
+    expect(result.isError).toBe(false);
+    expect(result.structuredContent.booking).toMatchObject({ type: 'FLIGHT', flightNumber: flight.flightNumber });
+    expect(result.structuredContent.policy).toEqual({ compliant: true, approvalRequired: false, violations: [], warnings: [], approvals: [] });
   });
 
   test('loyalty_info returns airline and hotel programs', async () => {
@@ -156,6 +192,14 @@ describe('MCP Server Integration', () => {
     expect(data).toHaveProperty('airlines');
     expect(data).toHaveProperty('hotels');
     expect(Object.keys(data.airlines)).toHaveLength(4);
+    expect(result.structuredContent).toEqual(data);
+  });
+
+  test('every tool declares an output schema', async () => {
+    const { tools } = await client.listTools();
+    for (const tool of tools) {
+      expect(tool.outputSchema, tool.name).toMatchObject({ type: 'object' });
+    }
   });
 
   test('whoami returns user info from authInfo', async () => {
@@ -164,6 +208,7 @@ describe('MCP Server Integration', () => {
     const data = JSON.parse(result.content[0].text);
     expect(data.userInfo.tenantId).toBe('tenant-abc');
     expect(data.userInfo.username).toBe('testuser');
+    expect(result.structuredContent).toEqual(data);
   });
 
   // --- Auth propagation ---
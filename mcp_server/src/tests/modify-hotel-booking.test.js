@@ -0,0 +1,219 @@
+/**
+ * Tests for the modify_hotel_booking tool
+ * Verifies each modification type is validated and persisted, and that
+ * concurrent changes are rejected instead of overwritten.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { setBookingRepository, ConditionFailedError } from '../repositories/booking-repository.js';
+import { InMemoryBookingRepository } from '../repositories/in-memory-booking-repository.js';
+import { modifyHotelBooking } from '../tools/manage-hotels.js';
+import { getInMemoryTenantFiles } from '../services/in-memory-tenant-files.js';
+import { clearTravelPolicyCache } from '../policy/policy-documents.js';
+import { ROOM_TYPES, setInventory } from '../services/inventory.js';
+
+const extra = (tenantId, userId = 'user-1') => ({ authInfo: { extra: { tenantId, userId } } });
+
+// Stays are relative to today, since a stay cannot be moved into the past.
+const inDays = (days) => new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+const CHECK_IN = inDays(30);
+
+function hotelBooking(tenantId, bookingId, overrides = {}) {
+  return {
+    PK: tenantId,
+    SK: `BOOKING#HOTEL#${bookingId}`,
+    tenantId,
+    bookingId,
+    type: 'HOTEL',
+    status: 'CONFIRMED',
+    bookingDate: '2026-01-01T00:00:00.000Z',
+    hotelName: 'Hilton Lisbon',
+    location: 'Lisbon',
+    checkInDate: CHECK_IN,
+    checkOutDate: inDays(33),
+    roomType: 'Standard',
+    numberOfGuests: 2,
+    ...overrides,
+  };
+}
+
+describe('modify_hotel_booking tool', () => {
+  let repository;
+
+  beforeEach(async () => {
+    process.env.DATA_BACKEND = 'memory';
+    repository = new InMemoryBookingRepository();
+    setBookingRepository(repository);
+    // Rooms are always left here; inventory.test.js covers sold-out changes.
+    setInventory({
+      getHotel: (tenantId, hotelName) => Promise.resolve({
+        hotelName,
+        currency: 'USD',
+        availableRooms: ROOM_TYPES.map((roomType, i) => ({
+          roomType, pricePerNight: 400 * (i + 1), occupancy: { max: 4, recommended: 2 }, available: 1,
+        })),
+      }),
+      reserveChange: () => Promise.resolve({ release: () => Promise.resolve() }),
+      releaseBooking: () => Promise.resolve(),
+    });
+    await repository.create('tenant-a', hotelBooking('tenant-a', 'H1'));
+  });
+
+  afterEach(() => {
+    delete process.env.DATA_BACKEND;
+    setBookingRepository(undefined);
+    setInventory(undefined);
+    getInMemoryTenantFiles().clear();
+    clearTravelPolicyCache();
+  });
+
+  test('changes the dates and returns the updated booking', async () => {
+    const result = await modifyHotelBooking(
+      { confirmationNumber: 'H1', modification: { type: 'CHANGE_DATES', newCheckIn: inDays(46), newCheckOut: inDays(49) } },
+      extra('tenant-a'),
+    );
+
+    expect(result.isError).toBe(false);
+    const returned = JSON.parse(result.content[1].text);
+    expect(returned).toMatchObject({ checkInDate: inDays(46), checkOutDate: inDays(49), version: 1, updatedBy: 'user-1' });
+    expect(await repository.get('tenant-a', 'HOTEL', 'H1')).toEqual(returned);
+  });
+
+  test('rejects a check-out that is not after check-in', async () => {
+    const result = await modifyHotelBooking(
+      { confirmationNumber: 'H1', modification: { type: 'CHANGE_DATES', newCheckIn: inDays(49), newCheckOut: inDays(49) } },
+      extra('tenant-a'),
+    );
+
+    expect(result.structuredContent.error.code).toBe('INVALID_MODIFICATION');
+    expect((await repository.get('tenant-a', 'HOTEL', 'H1')).checkInDate).toBe(CHECK_IN);
+  });
+
+  test('reprices new dates at the current nightly rate', async () => {
+    await repository.create('tenant-a', hotelBooking('tenant-a', 'H2', { pricePerNight: 350, price: 1050, currency: 'USD' }));
+
+    const result = await modifyHotelBooking(
+      { confirmationNumber: 'H2', modification: { type: 'CHANGE_DATES', newCheckIn: inDays(46), newCheckOut: inDays(48) } },
+      extra('tenant-a'),
+    );
+
+    expect(result.structuredContent.booking).toMatchObject({ pricePerNight: 400, price: 800, currency: 'USD' });
+  });
+
+  test('rejects a check-in in the past', async () => {
+    const result = await modifyHotelBooking(
+      { confirmationNumber: 'H1', modification: { type: 'CHANGE_DATES', newCheckIn: inDays(-2), newCheckOut: inDays(1) } },
+      extra('tenant-a'),
+    );
+
+    expect(result.structuredContent.error.code).toBe('INVALID_MODIFICATION');
+    expect((await repository.get('tenant-a', 'HOTEL', 'H1')).checkInDate).toBe(CHECK_IN);
+  });
+
+  test('only upgrades to a higher room type', async () => {
+    const upgrade = await modifyHotelBooking(
+      { confirmationNumber: 'H1', modification: { type: 'UPGRADE_ROOM', newRoomType: 'Suite' } },
+      extra('tenant-a'),
+    );
+    const downgrade = await modifyHotelBooking(
+      { confirmationNumber: 'H1', modification: { type: 'UPGRADE_ROOM', newRoomType: 'Deluxe' } },
+      extra('tenant-a'),
+    );
+
+    expect(upgrade.isError).toBe(false);
+    expect(downgrade.structuredContent.error.code).toBe('INVALID_MODIFICATION');
+    expect((await repository.get('tenant-a', 'HOTEL', 'H1')).roomType).toBe('Suite');
+  });
+
+  test('updates guests and merges additional services', async () => {
+    await modifyHotelBooking({ confirmationNumber: 'H1', modification: { type: 'MODIFY_GUESTS', guestCount: 3 } }, extra('tenant-a'));
+    await modifyHotelBooking({ confirmationNumber: 'H1', modification: { type: 'ADD_SERVICES', additionalServices: ['Breakfast'] } }, extra('tenant-a'));
+    await modifyHotelBooking({ confirmationNumber: 'H1', modification: { type: 'ADD_SERVICES', additionalServices: ['Breakfast', 'Parking'] } }, extra('tenant-a'));
+
+    const stored = await repository.get('tenant-a', 'HOTEL', 'H1');
+    expect(stored.numberOfGuests).toBe(3);
+    expect(stored.additionalServices).toEqual(['Breakfast', 'Parking']);
+    expect(stored.version).toBe(3);
+  });
+
+  test('rejects more guests than the room sleeps', async () => {
+    const result = await modifyHotelBooking(
+      { confirmationNumber: 'H1', modification: { type: 'MODIFY_GUESTS', guestCount: 5 } },
+      extra('tenant-a'),
+    );
+
+    expect(result.structuredContent.error).toMatchObject({ code: 'INVALID_MODIFICATION', maxOccupancy: 4 });
+    expect((await repository.get('tenant-a', 'HOTEL', 'H1')).numberOfGuests).toBe(2);
+  });
+
+  test('cancelled bookings cannot be modified', async () => {
+    await repository.create('tenant-a', hotelBooking('tenant-a', 'H2', { status: 'CANCELLED' }));
+
+    const result = await modifyHotelBooking(
+      { confirmationNumber: 'H2', modification: { type: 'MODIFY_GUESTS', guestCount: 1 } },
+      extra('tenant-a'),
+    );
+
+    expect(result.structuredContent.error.code).toBe('BOOKING_NOT_MODIFIABLE');
+  });
+
+  test('bookings awaiting approval cannot be modified', async () => {
+    await repository.create('tenant-a', hotelBooking('tenant-a', 'H2', { status: 'PENDING' }));
+
+    const result = await modifyHotelBooking(
+      { confirmationNumber: 'H2', modification: { type: 'CHANGE_DATES', newCheckIn: inDays(46), newCheckOut: inDays(49) } },
+      extra('tenant-a'),
+    );
+
+    expect(result.structuredContent.error).toMatchObject({ code: 'BOOKING_NOT_MODIFIABLE', currentStatus: 'PENDING' });
+    expect((await repository.get('tenant-a', 'HOTEL', 'H2')).checkInDate).toBe(CHECK_IN);
+  });
+
+  test('a modification above the approval thresholds goes back for approval', async () => {
+    getInMemoryTenantFiles().put('tenant-a', 'expense-limits.json', JSON.stringify({
+      approvalThresholds: { trip: { manager: 5000 } },
+      currency: 'USD',
+    }));
+    await repository.create('tenant-a', hotelBooking('tenant-a', 'H2', { pricePerNight: 400, price: 1200, currency: 'USD' }));
+
+    const shorter = await modifyHotelBooking(
+      { confirmationNumber: 'H2', modification: { type: 'CHANGE_DATES', newCheckIn: CHECK_IN, newCheckOut: inDays(32) } },
+      extra('tenant-a'),
+    );
+    expect(shorter.structuredContent.booking).toMatchObject({ status: 'CONFIRMED', price: 800 });
+
+    const longer = await modifyHotelBooking(
+      { confirmationNumber: 'H2', modification: { type: 'CHANGE_DATES', newCheckIn: CHECK_IN, newCheckOut: inDays(44) } },
+      extra('tenant-a'),
+    );
+
+    expect(longer.isError).toBe(false);
+    expect(longer.structuredContent.policy.approvalRequired).toBe(true);
+    const stored = await repository.get('tenant-a', 'HOTEL', 'H2');
+    expect(stored).toMatchObject({ status: 'PENDING', price: 5600, approval: { requestedBy: 'user-1' } });
+    expect(stored.modifiedFrom).toEqual({
+      checkInDate: CHECK_IN, checkOutDate: inDays(32), roomType: 'Standard', pricePerNight: 400, price: 800, currency: 'USD',
+    });
+    expect(stored.statusHistory).toEqual([
+      expect.objectContaining({ from: 'CONFIRMED', to: 'PENDING', changedBy: 'user-1' }),
+    ]);
+  });
+
+  test("does not find another tenant's booking", async () => {
+    const result = await modifyHotelBooking(
+      { confirmationNumber: 'H1', modification: { type: 'MODIFY_GUESTS', guestCount: 1 } },
+      extra('tenant-b'),
+    );
+
+    expect(result.structuredContent.error.code).toBe('BOOKING_NOT_FOUND');
+  });
+
+  test('a stale version is rejected by the repository', async () => {
+    const stale = await repository.get('tenant-a', 'HOTEL', 'H1');
+    await repository.update('tenant-a', { ...stale, numberOfGuests: 4 });
+
+    await expect(repository.update('tenant-a', { ...stale, numberOfGuests: 5 }))
+      .rejects.toBeInstanceOf(ConditionFailedError);
+    expect((await repository.get('tenant-a', 'HOTEL', 'H1')).numberOfGuests).toBe(4);
+  });
+});
@@ -35,7 +35,7 @@ describe('oauth-metadata', () => {
       const result = validateConfiguration('');
 
       expect(result.isValid).toBe(false);
-      expect(result.errors).toContain('Could not determine resource server URL from request');
+      expect(result.errors).toContain('Missing required environment variable: RESOURCE_SERVER_URL');
     });
 
     test('should fail when COGNITO_USER_POOL_ID is missing', () => {
@@ -90,7 +90,7 @@ describe('oauth-metadata', () => {
 
       const result = validateConfiguration('');
       expect(result.isValid).toBe(false);
-      expect(result.errors).toContain('Could not determine resource server URL from request');
+      expect(result.errors).toContain('Missing required environment variable: RESOURCE_SERVER_URL');
     });
 
     test('should return all errors when multiple variables are missing', () => {
@@ -172,6 +172,7 @@ describe('oauth-metadata', () => {
     let mockReq, mockRes;
 
     beforeEach(() => {
+      process.env.RESOURCE_SERVER_URL = 'https://api.example.com';
       mockReq = {
         method: 'GET',
         url: '/.well-known/oauth-protected-resource',
@@ -215,6 +216,33 @@ describe('oauth-metadata', () => {
       });
     });
 
+    test('should return 503 when RESOURCE_SERVER_URL is not configured', () => {
+      process.env.COGNITO_USER_POOL_ID = 'us-east-1_TEST123456';
+      process.env.AWS_REGION = 'us-east-1';
+      delete process.env.RESOURCE_SERVER_URL;
+
+      handleMetadataRequest(mockReq, mockRes);
+
+      expect(mockRes.status).toHaveBeenCalledWith(503);
+    });
+
+    test('should advertise the configured resource whatever the Host header says', () => {
+      process.env.COGNITO_USER_POOL_ID = 'us-east-1_TEST123456';
+      process.env.AWS_REGION = 'us-east-1';
+      delete process.env.OAUTH_SCOPE_PREFIX;
+      mockReq.get = vi.fn((header) => {
+        if (header === 'Host') return 'attacker.example.net';
+        if (header === 'X-Forwarded-Proto') return 'http';
+        return undefined;
+      });
+
+      handleMetadataRequest(mockReq, mockRes);
+
+      const data = mockRes.json.mock.calls[0][0];
+      expect(data.resource).toBe('https://api.example.com');
+      expect(data.scopes_supported).toContain('https://api.example.com//bookings:read');
+    });
+
     test('should handle missing User-Agent header gracefully', () => {
       process.env.COGNITO_USER_POOL_ID = 'us-east-1_TEST123456';
       process.env.AWS_REGION = 'us-east-1';
@@ -14,6 +14,7 @@ describe('RFC 9728 Compliance Validation', () => {
     originalEnv = { ...process.env };
     process.env.COGNITO_USER_POOL_ID = 'us-east-1_TEST123456';
     process.env.AWS_REGION = 'us-east-1';
+    process.env.RESOURCE_SERVER_URL = 'https://api.example.com';
   });
 
   afterEach(() => {
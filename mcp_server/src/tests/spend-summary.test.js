@@ -0,0 +1,244 @@
+/**
+ * Tests for booking prices and spend reporting
+ * Bookings persist their price, currency, cost center and booker, and
+ * spend_summary aggregates them and compares them with the tenant's budgets.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { getInMemoryTenantFiles } from '../services/in-memory-tenant-files.js';
+import { clearTravelPolicyCache } from '../policy/policy-documents.js';
+import { monthsBetween, summarizeSpend } from '../services/spend.js';
+import { setBookingRepository } from '../repositories/booking-repository.js';
+import { InMemoryBookingRepository } from '../repositories/in-memory-booking-repository.js';
+import { getInventory, setInventory } from '../services/inventory.js';
+import { setReservationStore } from '../services/reservation-store.js';
+import { bookFlight } from '../tools/manage-flights.js';
+import { bookHotel, modifyHotelBooking } from '../tools/manage-hotels.js';
+import { spendSummary } from '../tools/spend-summary.js';
+
+const extra = (userId = 'user-1') => ({ authInfo: { extra: { tenantId: 'acme', userId } } });
+
+function booking({ id, type = 'FLIGHT', status = 'CONFIRMED', bookingDate = '2026-05-10T09:00:00.000Z', ...fields }) {
+  return { PK: 'acme', SK: `BOOKING#${type}#${id}`, tenantId: 'acme', bookingId: id, type, status, bookingDate, currency: 'USD', ...fields };
+}
+
+describe('monthsBetween', () => {
+  test('spans year boundaries', () => {
+    expect(monthsBetween('2025-11', '2026-02')).toEqual(['2025-11', '2025-12', '2026-01', '2026-02']);
+  });
+});
+
+describe('summarizeSpend', () => {
+  const bookings = [
+    booking({ id: 'F1', price: 400, bookedBy: 'alice', costCenter: 'ENG' }),
+    booking({ id: 'H1', type: 'HOTEL', price: 600, bookedBy: 'bob', costCenter: 'SALES' }),
+    booking({ id: 'F2', price: 1000, bookedBy: 'alice', status: 'PENDING', bookingDate: '2026-06-02T09:00:00.000Z' }),
+    booking({ id: 'F3', price: 9999, bookedBy: 'alice', status: 'CANCELLED' }),
+    booking({ id: 'F4', price: 500, currency: 'EUR' }),
+    booking({ id: 'F5' }),
+    booking({ id: 'F6', price: 300, bookingDate: '2026-07-01T00:00:00.000Z' }),
+  ];
+  const period = { from: '2026-05', to: '2026-06', currency: 'USD' };
+
+  test('aggregates by traveler, month, category and cost center', () => {
+    const summary = summarizeSpend(bookings, period);
+
+    expect(summary.total).toEqual({ spent: 1000, pending: 1000, bookings: 3 });
+    expect(summary.byTraveler).toEqual([
+      { key: 'alice', spent: 400, pending: 1000, bookings: 2 },
+      { key: 'bob', spent: 600, pending: 0, bookings: 1 },
+    ]);
+    expect(summary.byMonth.map((g) => g.key)).toEqual(['2026-05', '2026-06']);
+    expect(summary.byCategory).toEqual([
+      { key: 'FLIGHT', spent: 400, pending: 1000, bookings: 2 },
+      { key: 'HOTEL', spent: 600, pending: 0, bookings: 1 },
+    ]);
+    expect(summary.byCostCenter.map((g) => g.key)).toEqual(['ENG', 'SALES', 'UNASSIGNED']);
+  });
+
+  test('leaves out cancelled bookings and counts unpriced ones apart', () => {
+    expect(summarizeSpend(bookings, period).uncounted).toBe(2);
+  });
+
+  test('compares each month with the budgets', () => {
+    const summary = summarizeSpend(bookings, {
+      ...period,
+      budgets: { monthly: 1200, categories: { hotel: 500 }, costCenters: { ENG: 2000 } },
+    });
+
+    expect(summary.budgets.filter((b) => b.month === '2026-05')).toEqual([
+      { scope: 'TENANT', key: 'all', month: '2026-05', budget: 1200, committed: 1000, remaining: 200, utilization: 0.83, status: 'NEARLY_EXHAUSTED' },
+      { scope: 'CATEGORY', key: 'HOTEL', month: '2026-05', budget: 500, committed: 600, remaining: -100, utilization: 1.2, status: 'EXCEEDED' },
+      { scope: 'COST_CENTER', key: 'ENG', month: '2026-05', budget: 2000, committed: 400, remaining: 1600, utilization: 0.2, status: 'OK' },
+    ]);
+    expect(summary.alerts.filter((a) => a.month === '2026-05')).toEqual([
+      expect.objectContaining({ scope: 'TENANT', status: 'NEARLY_EXHAUSTED', message: 'The travel budget for 2026-05 is nearly exhausted: 1000 of 1200 USD committed, 200 left.' }),
+      expect.objectContaining({ scope: 'CATEGORY', status: 'EXCEEDED', message: 'The hotel budget for 2026-05 is exceeded: 600 of 500 USD committed.' }),
+    ]);
+  });
+
+  test('pending bookings count against budgets', () => {
+    const summary = summarizeSpend(bookings, { ...period, budgets: { monthly: 1000, alertThreshold: 0.95 } });
+    expect(summary.budgets.find((b) => b.month === '2026-06')).toMatchObject({ committed: 1000, status: 'NEARLY_EXHAUSTED' });
+  });
+});
+
+describe('booking prices', () => {
+  let repository;
+
+  // Seats and rooms from find_flights and list_hotels that are left.
+  const flightSeat = async () => {
+    const [flight] = await getInventory().findFlights('acme', 'SEA', 'JFK', '2099-06-15');
+    const seat = flight.availableSeats.find((s) => s.count > 0);
+    return { flightNumber: flight.flightNumber, origin: 'SEA', destination: 'JFK', departure: '2099-06-15', flightClass: seat.flightClass, price: seat.price };
+  };
+  const hotelRoom = async () => {
+    const hotel = (await getInventory().findHotels('acme', 'Lisbon', '2099-07-01', '2099-07-04'))
+      .find((h) => h.availableRooms.some((r) => r.available > 0));
+    const room = hotel.availableRooms.find((r) => r.available > 0);
+    return {
+      hotelName: hotel.hotelName, city: 'Lisbon', checkIn: '2099-07-01', checkOut: '2099-07-04', roomType: room.roomType, guests: 1, pricePerNight: room.pricePerNight,
+    };
+  };
+
+  beforeEach(() => {
+    process.env.DATA_BACKEND = 'memory';
+    repository = new InMemoryBookingRepository();
+    setBookingRepository(repository);
+  });
+
+  afterEach(() => {
+    setBookingRepository(undefined);
+    setInventory(undefined);
+    setReservationStore(undefined);
+    clearTravelPolicyCache();
+    delete process.env.DATA_BACKEND;
+  });
+
+  test("book_flight persists the fare in the inventory's currency, the cost center and the booker", async () => {
+    const seat = await flightSeat();
+
+    const result = await bookFlight({ ...seat, costCenter: 'ENG' }, extra());
+
+    const stored = await repository.getById('acme', result.structuredContent.booking.bookingId);
+    expect(stored).toMatchObject({ price: seat.price, currency: 'USD', costCenter: 'ENG', bookedBy: 'user-1' });
+  });
+
+  test('book_hotel charges the nightly rate for each night', async () => {
+    const room = await hotelRoom();
+
+    const result = await bookHotel(room, extra());
+
+    expect(result.structuredContent.booking).toMatchObject({ pricePerNight: room.pricePerNight, price: room.pricePerNight * 3, currency: 'USD' });
+  });
+
+  test('changing the dates reprices the stay', async () => {
+    const room = await hotelRoom();
+    const { booking } = (await bookHotel(room, extra())).structuredContent;
+
+    const result = await modifyHotelBooking({
+      confirmationNumber: booking.bookingId,
+      modification: { type: 'CHANGE_DATES', newCheckIn: '2099-07-01', newCheckOut: '2099-07-02' },
+    }, extra());
+
+    expect(result.structuredContent.booking).toMatchObject({ price: room.pricePerNight });
+  });
+
+  test('upgrading the room reprices the stay at the new room\'s rate', async () => {
+    const left = (hotel, roomType) => hotel.availableRooms.find((r) => r.roomType === roomType);
+    const hotel = (await getInventory().findHotels('acme', 'Lisbon', '2099-07-01', '2099-07-04'))
+      .find((h) => left(h, 'Standard').available > 0 && left(h, 'Suite').available > 0);
+    const { booking } = (await bookHotel({
+      hotelName: hotel.hotelName, city: 'Lisbon', checkIn: '2099-07-01', checkOut: '2099-07-04', roomType: 'Standard', guests: 1,
+    }, extra())).structuredContent;
+
+    const result = await modifyHotelBooking({
+      confirmationNumber: booking.bookingId,
+      modification: { type: 'UPGRADE_ROOM', newRoomType: 'Suite' },
+    }, extra());
+
+    const { pricePerNight } = left(hotel, 'Suite');
+    expect(pricePerNight).not.toBe(left(hotel, 'Standard').pricePerNight);
+    expect(result.structuredContent.booking).toMatchObject({ roomType: 'Suite', pricePerNight, price: pricePerNight * 3 });
+  });
+
+  test('bookings without a quote are charged the current fare', async () => {
+    const { price, ...seat } = await flightSeat();
+    const result = await bookFlight(seat, extra());
+    expect(result.structuredContent.booking).toMatchObject({ price, currency: 'USD' });
+  });
+});
+
+describe('spend_summary tool', () => {
+  let repository;
+
+  beforeEach(() => {
+    process.env.DATA_BACKEND = 'memory';
+    repository = new InMemoryBookingRepository();
+    setBookingRepository(repository);
+    getInMemoryTenantFiles().put('acme', 'expense-limits.json', JSON.stringify({
+      currency: 'USD',
+      budgets: { monthly: 1000 },
+    }));
+  });
+
+  afterEach(() => {
+    setBookingRepository(undefined);
+    getInMemoryTenantFiles().clear();
+    clearTravelPolicyCache();
+    delete process.env.DATA_BACKEND;
+  });
+
+  test('summarizes the period and reports budget alerts', async () => {
+    await repository.create('acme', booking({
+      id: 'F1', price: 900, bookedBy: 'alice', flightNumber: 'AA1', class: 'Economy', departureDateTime: '2026-06-01', passengers: [],
+    }));
+
+    const result = await spendSummary({ from: '2026-05', to: '2026-05' }, extra());
+
+    expect(result.isError).toBe(false);
+    expect(result.structuredContent).toMatchObject({
+      from: '2026-05',
+      to: '2026-05',
+      currency: 'USD',
+      total: { spent: 900, pending: 0, bookings: 1 },
+      alerts: [expect.objectContaining({ status: 'NEARLY_EXHAUSTED' })],
+    });
+    expect(result.content[0].text).toContain('Spend for 2026-05: 900 USD confirmed');
+    expect(result.content[0].text).toContain('The travel budget for 2026-05 is nearly exhausted');
+  });
+
+  test('reads every page of the bookings made in the period', async () => {
+    for (let i = 0; i < 250; i++) {
+      await repository.create('acme', booking({
+        id: `F${i}`, price: 10, flightNumber: 'AA1', class: 'Economy', departureDateTime: '2026-06-01', passengers: [],
+      }));
+    }
+
+    const result = await spendSummary({ from: '2026-05', to: '2026-05' }, extra());
+
+    expect(result.structuredContent.total).toEqual({ spent: 2500, pending: 0, bookings: 250 });
+  });
+
+  test('defaults to the current month', async () => {
+    const month = new Date().toISOString().substring(0, 7);
+    const result = await spendSummary({}, extra());
+    expect(result.structuredContent).toMatchObject({ from: month, to: month });
+  });
+
+  test.each([
+    ['a reversed range', { from: '2026-06', to: '2026-05' }],
+    ['more than 12 months', { from: '2025-01', to: '2026-01' }],
+  ])('rejects %s', async (_, range) => {
+    const result = await spendSummary(range, extra());
+    expect(result.structuredContent.error.code).toBe('INVALID_DATE_RANGE');
+  });
+
+  test('reports an invalid policy document', async () => {
+    getInMemoryTenantFiles().put('acme', 'expense-limits.json', JSON.stringify({ budgets: { monthly: -5 } }));
+
+    const result = await spendSummary({ from: '2026-05' }, extra());
+
+    expect(result.structuredContent.error).toMatchObject({ code: 'POLICY_INVALID', filename: 'expense-limits.json' });
+  });
+});
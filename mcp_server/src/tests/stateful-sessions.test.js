@@ -0,0 +1,215 @@
+/**
+ * Stateful Streamable HTTP session tests
+ * Runs the /mcp handlers on an ephemeral Express server and drives them with
+ * the SDK's Streamable HTTP client.
+ */
+
+import { describe, test, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+
+vi.mock('../services/dynamoDb.js', () => ({
+  TABLE_NAME: 'test-table',
+  getDynamoDbClient: vi.fn().mockResolvedValue({ send: vi.fn().mockResolvedValue({ Items: [] }) }),
+}));
+
+vi.mock('../services/s3.js', () => ({
+  BUCKET_NAME: 'test-bucket',
+  getS3Client: vi.fn(),
+  listTenantResources: vi.fn().mockResolvedValue([]),
+}));
+
+// Tokens are "tenant:user" strings so each test can pick its principal.
+vi.mock('../auth/jwt-verifier.js', () => ({
+  verifyToken: vi.fn(),
+  processJwt: vi.fn(async (token) => {
+    const [tenantId, userId] = token.split(':');
+    return {
+      token,
+      clientId: 'test-client',
+      scopes: ['openid'],
+      expiresAt: Math.floor(Date.now() / 1000) + 3600,
+      extra: { tenantId, userId, tenantTier: 'basic' },
+    };
+  }),
+}));
+
+import express from 'express';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { tokenMiddleware } from '../auth/token-middleware.js';
+import { postRequestHandler, sessionRequestHandler, setSessionStore } from '../mcp/transport.js';
+import { InMemorySessionStore, isSessionOwner } from '../mcp/session-store.js';
+
+let server;
+let baseUrl;
+let store;
+
+function connect(token) {
+  const client = new Client({ name: 'session-test', version: '1.0.0' });
+  const transport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), {
+    requestInit: { headers: { Authorization: `Bearer ${token}` } },
+  });
+  return client.connect(transport).then(() => ({ client, transport }));
+}
+
+function rawRequest(method, token, sessionId, body) {
+  return fetch(`${baseUrl}/mcp`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      'Mcp-Protocol-Version': '2025-06-18',
+      ...(sessionId ? { 'Mcp-Session-Id': sessionId } : {}),
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+}
+
+describe('stateful sessions', () => {
+  beforeAll(async () => {
+    process.env.MCP_SESSION_MODE = 'stateful';
+    const app = express();
+    app.use(express.json());
+    app.post('/mcp', tokenMiddleware, postRequestHandler);
+    app.get('/mcp', tokenMiddleware, sessionRequestHandler);
+    app.delete('/mcp', tokenMiddleware, sessionRequestHandler);
+    await new Promise((resolve) => {
+      server = app.listen(0, resolve);
+    });
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+    process.env.RESOURCE_SERVER_URL = baseUrl;
+  });
+
+  afterAll(async () => {
+    delete process.env.RESOURCE_SERVER_URL;
+    delete process.env.MCP_SESSION_MODE;
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    store = new InMemorySessionStore();
+    setSessionStore(store);
+  });
+
+  test('initialize issues a session bound to tenant and user', async () => {
+    const { client, transport } = await connect('tenant-a:user-1');
+    expect(transport.sessionId).toBeTruthy();
+
+    const record = await store.get(transport.sessionId);
+    expect(record.tenantId).toBe('tenant-a');
+    expect(record.userId).toBe('user-1');
+    expect(record.initializeParams.clientInfo.name).toBe('session-test');
+
+    const { tools } = await client.listTools();
+    expect(tools.length).toBeGreaterThan(0);
+    await client.close();
+  });
+
+  test('requests without a session ID are rejected after initialization', async () => {
+    const res = await rawRequest('POST', 'tenant-a:user-1', undefined, { jsonrpc: '2.0', id: 1, method: 'tools/list' });
+    expect(res.status).toBe(400);
+  });
+
+  test('another tenant cannot use the session', async () => {
+    const { client, transport } = await connect('tenant-a:user-1');
+    const res = await rawRequest('POST', 'tenant-b:user-1', transport.sessionId, { jsonrpc: '2.0', id: 2, method: 'tools/list' });
+    expect(res.status).toBe(404);
+    await client.close();
+  });
+
+  test('a session created on another task is served after rehydration', async () => {
+    const now = new Date().toISOString();
+    await store.create({
+      sessionId: 'from-other-task',
+      tenantId: 'tenant-a',
+      userId: 'user-1',
+      createdAt: now,
+      lastAccessedAt: now,
+      expiresAt: Math.floor(Date.now() / 1000) + 60,
+    });
+
+    const res = await rawRequest('POST', 'tenant-a:user-1', 'from-other-task', { jsonrpc: '2.0', id: 3, method: 'tools/list' });
+    expect(res.status).toBe(200);
+    expect(res.headers.get('mcp-session-id')).toBe('from-other-task');
+    expect(await res.text()).toContain('list_bookings');
+  });
+
+  test('concurrent requests share one rehydrated session', async () => {
+    const now = new Date().toISOString();
+    await store.create({
+      sessionId: 'rehydrated-once',
+      tenantId: 'tenant-a',
+      userId: 'user-1',
+      createdAt: now,
+      lastAccessedAt: now,
+      expiresAt: Math.floor(Date.now() / 1000) + 60,
+      initializeParams: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'raw', version: '1.0.0' } },
+    });
+
+    const responses = await Promise.all([6, 7, 8].map((id) =>
+      rawRequest('POST', 'tenant-a:user-1', 'rehydrated-once', { jsonrpc: '2.0', id, method: 'tools/list' })));
+    for (const res of responses) {
+      expect(res.status).toBe(200);
+      expect(await res.text()).toContain('list_bookings');
+    }
+  });
+
+  test('DELETE terminates the session', async () => {
+    const { transport } = await connect('tenant-a:user-1');
+    const sessionId = transport.sessionId;
+    await transport.terminateSession();
+
+    expect(await store.get(sessionId)).toBeUndefined();
+    const res = await rawRequest('POST', 'tenant-a:user-1', sessionId, { jsonrpc: '2.0', id: 4, method: 'tools/list' });
+    expect(res.status).toBe(404);
+  });
+
+  test('GET opens the standalone SSE stream', async () => {
+    const init = await rawRequest('POST', 'tenant-a:user-1', undefined, {
+      jsonrpc: '2.0',
+      id: 5,
+      method: 'initialize',
+      params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'raw', version: '1.0.0' } },
+    });
+    const sessionId = init.headers.get('mcp-session-id');
+    await init.text();
+
+    const controller = new AbortController();
+    const res = await fetch(`${baseUrl}/mcp`, {
+      headers: {
+        Authorization: 'Bearer tenant-a:user-1',
+        Accept: 'text/event-stream',
+        'Mcp-Session-Id': sessionId,
+        'Mcp-Protocol-Version': '2025-06-18',
+      },
+      signal: controller.signal,
+    });
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toContain('text/event-stream');
+    controller.abort();
+  });
+});
+
+describe('session store', () => {
+  test('expired sessions are not returned', async () => {
+    const memoryStore = new InMemorySessionStore();
+    await memoryStore.create({
+      sessionId: 'expired',
+      tenantId: 'tenant-a',
+      userId: 'user-1',
+      createdAt: new Date().toISOString(),
+      lastAccessedAt: new Date().toISOString(),
+      expiresAt: Math.floor(Date.now() / 1000) - 1,
+    });
+    expect(await memoryStore.get('expired')).toBeUndefined();
+  });
+
+  test('ownership requires matching tenant and user', () => {
+    const record = { sessionId: 's', tenantId: 'tenant-a', userId: 'user-1' };
+    expect(isSessionOwner(record, { extra: { tenantId: 'tenant-a', userId: 'user-1' } })).toBe(true);
+    expect(isSessionOwner(record, { extra: { tenantId: 'tenant-a', userId: 'user-2' } })).toBe(false);
+    expect(isSessionOwner(record, { extra: { tenantId: 'tenant-b', userId: 'user-1' } })).toBe(false);
+    expect(isSessionOwner(record, undefined)).toBe(false);
+  });
+});
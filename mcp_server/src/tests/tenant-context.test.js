@@ -0,0 +1,114 @@
+/**
+ * Tests for tenant context validation
+ * Checks the typed context built from verified tokens and that the token
+ * middleware rejects tokens without a valid tenant.
+ */
+
+import { describe, test, expect, vi, beforeAll, afterAll } from 'vitest';
+
+// Tokens are the tenant ID claim, so each test can pick it.
+vi.mock('../auth/jwt-verifier.js', () => ({
+  verifyToken: vi.fn(),
+  processJwt: vi.fn(async (token) => ({
+    token,
+    clientId: 'test-client',
+    scopes: ['openid'],
+    expiresAt: Math.floor(Date.now() / 1000) + 3600,
+    extra: { principalType: 'user', tenantId: decodeURIComponent(token).replace(/^-$/, ''), userId: 'user-1', tenantTier: 'basic' },
+  })),
+}));
+
+import express from 'express';
+import { tokenMiddleware } from '../auth/token-middleware.js';
+import { getTenantContext, parseTenantContext } from '../auth/tenant-context.js';
+
+const authInfo = (extra) => ({ token: 't', clientId: 'client-1', scopes: [], extra });
+
+describe('parseTenantContext', () => {
+  test('builds a typed context from the token claims', () => {
+    const context = parseTenantContext(authInfo({
+      tenantId: 'acme', tenantTier: 'premium', userId: 'user-1', principalType: 'machine',
+    }));
+
+    expect(context).toEqual({
+      tenantId: 'acme',
+      tenantTier: 'premium',
+      userId: 'user-1',
+      principalType: 'machine',
+      clientId: 'client-1',
+      roles: [],
+    });
+  });
+
+  test('fills in the default tier, user and principal type', () => {
+    expect(parseTenantContext(authInfo({ tenantId: 'acme' }))).toMatchObject({
+      tenantTier: 'basic',
+      userId: 'anonymous',
+      principalType: 'user',
+    });
+  });
+
+  test('keeps only string roles', () => {
+    expect(parseTenantContext(authInfo({ tenantId: 'acme', roles: ['travel-approver', 42] })).roles).toEqual(['travel-approver']);
+  });
+
+  test.each([
+    ['missing', undefined],
+    ['empty', ''],
+    ['not a string', 42],
+    ['an S3 path', 'acme/../other'],
+    ['a key separator', 'acme#other'],
+    ['whitespace', ' acme'],
+    ['too long', 'a'.repeat(65)],
+  ])('rejects a tenant ID that is %s', (_, tenantId) => {
+    expect(() => parseTenantContext(authInfo({ tenantId }))).toThrow('Token has no valid tenant');
+    expect(getTenantContext(authInfo({ tenantId }))).toBeUndefined();
+  });
+
+  test('rejects requests without auth info', () => {
+    expect(getTenantContext(undefined)).toBeUndefined();
+  });
+});
+
+describe('tokenMiddleware tenant validation', () => {
+  let server;
+  let baseUrl;
+
+  beforeAll(async () => {
+    const app = express();
+    app.post('/mcp', tokenMiddleware, (req, res) => { res.json({ tenantId: req.auth.extra.tenantId }); });
+    await new Promise((resolve) => {
+      server = app.listen(0, resolve);
+    });
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+    process.env.RESOURCE_SERVER_URL = baseUrl;
+  });
+
+  afterAll(async () => {
+    delete process.env.RESOURCE_SERVER_URL;
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const call = (tenantId) => fetch(`${baseUrl}/mcp`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${encodeURIComponent(tenantId)}` },
+  });
+
+  test('accepts tokens with a valid tenant', async () => {
+    const res = await call('tenant-a');
+    expect(res.status).toBe(200);
+    expect((await res.json()).tenantId).toBe('tenant-a');
+  });
+
+  test('rejects tokens with an empty tenant', async () => {
+    const res = await call('-');
+    expect(res.status).toBe(401);
+    expect((await res.json()).error).toBe('invalid_token');
+    expect(res.headers.get('www-authenticate')).toContain('error="invalid_token"');
+  });
+
+  test('rejects tokens with a malformed tenant', async () => {
+    expect((await call('tenant-a/secret')).status).toBe(401);
+  });
+});
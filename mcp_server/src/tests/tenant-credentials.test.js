@@ -0,0 +1,117 @@
+/**
+ * Tests for the per-tenant STS credential cache
+ * Verifies caching, refresh deduplication, background refresh and client reuse.
+ */
+
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+
+const { mockStsSend } = vi.hoisted(() => ({ mockStsSend: vi.fn() }));
+
+vi.mock('@aws-sdk/client-sts', () => ({
+  STSClient: vi.fn(function () { this.send = mockStsSend; }),
+  AssumeRoleCommand: vi.fn(function (input) { this.input = input; }),
+}));
+
+import {
+  getTenantCredentials,
+  getTenantClient,
+  getCredentialCacheMetrics,
+  clearTenantCredentialCache,
+} from '../services/tenant-credentials.js';
+
+function stsResponse(validForMs, keyId = 'AKIA_TEST') {
+  return {
+    Credentials: {
+      AccessKeyId: keyId,
+      SecretAccessKey: 'secret',
+      SessionToken: 'session',
+      Expiration: new Date(Date.now() + validForMs),
+    },
+  };
+}
+
+describe('tenant credential cache', () => {
+  beforeEach(() => {
+    clearTenantCredentialCache();
+    mockStsSend.mockReset().mockResolvedValue(stsResponse(60 * 60 * 1000));
+  });
+
+  test('assumes the role with the tenant session tag', async () => {
+    await getTenantCredentials('tenant-a');
+
+    const command = mockStsSend.mock.calls[0][0];
+    expect(command.input.Tags).toEqual([{ Key: 'tenantId', Value: 'tenant-a' }]);
+    expect(command.input.RoleSessionName).toBe('tenant-tenant-a-session');
+  });
+
+  test('reuses cached credentials until they near expiry', async () => {
+    const first = await getTenantCredentials('tenant-a');
+    const second = await getTenantCredentials('tenant-a');
+
+    expect(second).toBe(first);
+    expect(mockStsSend).toHaveBeenCalledTimes(1);
+    expect(getCredentialCacheMetrics()).toMatchObject({ hits: 1, misses: 1 });
+  });
+
+  test('caches credentials per tenant', async () => {
+    await getTenantCredentials('tenant-a');
+    await getTenantCredentials('tenant-b');
+
+    expect(mockStsSend).toHaveBeenCalledTimes(2);
+  });
+
+  test('concurrent misses share a single STS call', async () => {
+    await Promise.all([
+      getTenantCredentials('tenant-a'),
+      getTenantCredentials('tenant-a'),
+      getTenantCredentials('tenant-a'),
+    ]);
+
+    expect(mockStsSend).toHaveBeenCalledTimes(1);
+  });
+
+  test('refreshes in the background inside the refresh margin', async () => {
+    mockStsSend.mockResolvedValueOnce(stsResponse(2 * 60 * 1000, 'OLD'));
+    mockStsSend.mockResolvedValueOnce(stsResponse(60 * 60 * 1000, 'NEW'));
+
+    await getTenantCredentials('tenant-a');
+    const stale = await getTenantCredentials('tenant-a');
+    expect(stale.accessKeyId).toBe('OLD');
+
+    await vi.waitFor(() => expect(mockStsSend).toHaveBeenCalledTimes(2));
+    await vi.waitFor(async () => expect((await getTenantCredentials('tenant-a')).accessKeyId).toBe('NEW'));
+    expect(getCredentialCacheMetrics().backgroundRefreshes).toBe(1);
+  });
+
+  test('waits for new credentials once the cached ones have almost expired', async () => {
+    mockStsSend.mockResolvedValueOnce(stsResponse(10 * 1000, 'OLD'));
+    mockStsSend.mockResolvedValueOnce(stsResponse(60 * 60 * 1000, 'NEW'));
+
+    await getTenantCredentials('tenant-a');
+    const fresh = await getTenantCredentials('tenant-a');
+
+    expect(fresh.accessKeyId).toBe('NEW');
+    expect(getCredentialCacheMetrics().misses).toBe(2);
+  });
+
+  test('propagates STS failures and counts them', async () => {
+    mockStsSend.mockRejectedValueOnce(new Error('AccessDenied'));
+
+    await expect(getTenantCredentials('tenant-a')).rejects.toThrow('AccessDenied');
+    expect(getCredentialCacheMetrics().refreshFailures).toBe(1);
+  });
+
+  test('hands out one cached client per service and tenant', () => {
+    const create = vi.fn(() => ({}));
+
+    const a1 = getTenantClient('dynamodb', 'tenant-a', create);
+    const a2 = getTenantClient('dynamodb', 'tenant-a', create);
+    const b = getTenantClient('dynamodb', 'tenant-b', create);
+    const s3 = getTenantClient('s3', 'tenant-a', create);
+
+    expect(a1).toBe(a2);
+    expect(b).not.toBe(a1);
+    expect(s3).not.toBe(a1);
+    expect(create).toHaveBeenCalledTimes(3);
+  });
+});
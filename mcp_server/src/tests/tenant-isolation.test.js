@@ -0,0 +1,449 @@
+/**
+ * Tenant isolation test suite
+ * Provisions three tenants on one server and, for every tool, resource
+ * template and prompt, attempts to read or change another tenant's data
+ * through guessed IDs, `s3://<otherTenant>/...` URIs, path traversal in the
+ * file name and forged cursors. Every attempt must be denied.
+ *
+ * New tools, prompts or resource templates fail the coverage tests until
+ * they get an attack case here.
+ */
+
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const { mockDynamoSend } = vi.hoisted(() => ({ mockDynamoSend: vi.fn() }));
+
+vi.mock('../services/dynamoDb.js', () => ({
+  TABLE_NAME: 'test-table',
+  getDynamoDbClient: vi.fn().mockResolvedValue({ send: mockDynamoSend }),
+}));
+
+// whoami re-verifies the token; tokens here are `token-<tenantId>`.
+vi.mock('../auth/jwt-verifier.js', () => ({
+  processJwt: vi.fn(),
+  verifyToken: vi.fn(async (token) => ({
+    sub: `user-${token.slice('token-'.length)}`,
+    'custom:tenantId': token.slice('token-'.length),
+    'custom:tenantTier': 'premium',
+    iss: 'https://cognito-idp.us-east-1.amazonaws.com/us-east-1_TEST',
+    exp: Math.floor(Date.now() / 1000) + 3600,
+    iat: Math.floor(Date.now() / 1000),
+    token_use: 'access',
+  })),
+}));
+
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import mcpServer from '../mcp/mcp-server.js';
+import { getDynamoDbClient } from '../services/dynamoDb.js';
+import { setBookingRepository, TenantIsolationError } from '../repositories/booking-repository.js';
+import { InMemoryBookingRepository } from '../repositories/in-memory-booking-repository.js';
+import { DynamoDbBookingRepository } from '../repositories/dynamodb-booking-repository.js';
+import { getInMemoryTenantFiles } from '../services/in-memory-tenant-files.js';
+import { clearTravelPolicyCache } from '../policy/policy-documents.js';
+import { getInventory, setInventory } from '../services/inventory.js';
+import { DynamoDbReservationStore, setReservationStore } from '../services/reservation-store.js';
+
+const TENANTS = ['tenant-a', 'tenant-b', 'tenant-c'];
+
+// Details only tenant-a's data contains; no response to another tenant may
+// include them.
+const SECRET_TRAVELER = 'Ada Secretkeeper';
+const SECRET_HOTEL = 'Hotel Confidential Tenant A';
+const SECRET_FILE = '# Tenant A confidential policy';
+
+const authInfo = (tenantId) => ({
+  token: `token-${tenantId}`,
+  clientId: 'test-client',
+  scopes: ['openid'],
+  expiresAt: Math.floor(Date.now() / 1000) + 3600,
+  // Every user is an approver, so the approval tools are open to attacks.
+  extra: { principalType: 'user', userId: `user-${tenantId}`, tenantId, tenantTier: 'premium', roles: ['travel-approver'] },
+});
+
+async function connect(tenantId) {
+  const server = mcpServer.create();
+  const [serverTransport, clientTransport] = InMemoryTransport.createLinkedPair();
+  const send = clientTransport.send.bind(clientTransport);
+  clientTransport.send = (message, options) => send(message, { ...options, authInfo: authInfo(tenantId) });
+
+  const client = new Client({ name: 'tenant-isolation-test', version: '1.0.0' });
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+  return { client, close: async () => { await client.close(); await server.close(); } };
+}
+
+// A flight and a hotel room from the inventory with seats and rooms left.
+async function flightRequest(tenantId) {
+  const [found] = await getInventory().findFlights(tenantId, 'SEA', 'JFK', '2026-06-15');
+  const { flightClass } = found.availableSeats.find((s) => s.count > 0);
+  return { flightNumber: found.flightNumber, origin: 'SEA', destination: 'JFK', departure: '2026-06-15', flightClass };
+}
+
+async function hotelRequest(tenantId) {
+  const found = (await getInventory().findHotels(tenantId, 'Paris', '2026-07-01', '2026-07-05'))
+    .find((h) => h.availableRooms.some((r) => r.available > 0));
+  const { roomType } = found.availableRooms.find((r) => r.available > 0);
+  return { hotelName: found.hotelName, city: 'Paris', checkIn: '2026-07-01', checkOut: '2026-07-05', roomType, guests: 1 };
+}
+
+function flight(tenantId, bookingId, departureDateTime) {
+  return {
+    PK: tenantId,
+    SK: `BOOKING#FLIGHT#${bookingId}`,
+    tenantId,
+    bookingId,
+    type: 'FLIGHT',
+    status: 'CONFIRMED',
+    bookingDate: '2026-01-01T00:00:00.000Z',
+    flightNumber: 'AA1234',
+    class: 'Economy',
+    departureDateTime,
+    destination: 'Lisbon',
+    passengers: [{ name: tenantId === 'tenant-a' ? SECRET_TRAVELER : 'Bob Other', seat: '12A' }],
+  };
+}
+
+function hotel(tenantId, bookingId) {
+  return {
+    PK: tenantId,
+    SK: `BOOKING#HOTEL#${bookingId}`,
+    tenantId,
+    bookingId,
+    type: 'HOTEL',
+    status: 'CONFIRMED',
+    bookingDate: '2026-01-01T00:00:00.000Z',
+    hotelName: tenantId === 'tenant-a' ? SECRET_HOTEL : 'Hilton Paris',
+    location: 'Paris',
+    checkInDate: '2026-07-01',
+    checkOutDate: '2026-07-05',
+    roomType: 'Standard',
+    numberOfGuests: 1,
+  };
+}
+
+const A_FLIGHT = 'AFLIGHT1';
+const A_HOTEL = 'AHOTEL1';
+const A_PENDING = 'APENDING1';
+
+const errorCode = (result) => result.structuredContent?.error?.code;
+
+// Everything tenant-a owns that could leak into a response, other than what
+// the caller itself sent (errors may echo a guessed ID).
+const leaksTenantA = (result, args) => {
+  const sent = JSON.stringify(args);
+  const text = JSON.stringify(result);
+  return [SECRET_TRAVELER, SECRET_HOTEL, SECRET_FILE, A_FLIGHT, A_HOTEL, A_PENDING, 'tenant-a']
+    .filter((secret) => !sent.includes(secret) && text.includes(secret));
+};
+
+describe('tenant isolation', () => {
+  let repository;
+  let sessions;
+  let attacker;
+  let ownerCursor;
+
+  beforeEach(async () => {
+    process.env.DATA_BACKEND = 'memory';
+    repository = new InMemoryBookingRepository();
+    setBookingRepository(repository);
+
+    for (const tenantId of TENANTS) {
+      const prefix = tenantId === 'tenant-a' ? 'A' : tenantId.slice(-1).toUpperCase();
+      await repository.create(tenantId, flight(tenantId, tenantId === 'tenant-a' ? A_FLIGHT : `${prefix}FLIGHT1`, '2026-06-15'));
+      await repository.create(tenantId, flight(tenantId, `${prefix}FLIGHT2`, '2026-06-20'));
+      await repository.create(tenantId, hotel(tenantId, tenantId === 'tenant-a' ? A_HOTEL : `${prefix}HOTEL1`));
+      getInMemoryTenantFiles().put(tenantId, 'policy.md', tenantId === 'tenant-a' ? SECRET_FILE : `# ${tenantId} policy`);
+    }
+    getInMemoryTenantFiles().put('tenant-a', 'flight-preferences.json', JSON.stringify({ blacklistedAirlines: ['ZZ'] }));
+    await repository.create('tenant-a', {
+      ...flight('tenant-a', A_PENDING, '2026-06-25'),
+      status: 'PENDING',
+      approval: { requestedBy: 'user-tenant-a', requestedAt: '2026-01-01T00:00:00.000Z', reasons: ['Over budget'] },
+    });
+
+    sessions = Object.fromEntries(await Promise.all(TENANTS.map(async (tenantId) => [tenantId, await connect(tenantId)])));
+    attacker = sessions['tenant-b'].client;
+
+    const page = await sessions['tenant-a'].client.callTool({ name: 'list_bookings', arguments: { limit: 1 } });
+    ownerCursor = page.structuredContent.nextCursor;
+    expect(ownerCursor).toBeDefined();
+  });
+
+  afterEach(async () => {
+    await Promise.all(Object.values(sessions).map((session) => session.close()));
+    vi.restoreAllMocks();
+    setBookingRepository(undefined);
+    setInventory(undefined);
+    setReservationStore(undefined);
+    getInMemoryTenantFiles().clear();
+    clearTravelPolicyCache();
+    delete process.env.DATA_BACKEND;
+  });
+
+  const expectTenantAUnchanged = async () => {
+    expect(await repository.getById('tenant-a', A_FLIGHT)).toMatchObject({ status: 'CONFIRMED' });
+    expect(await repository.getById('tenant-a', A_HOTEL)).toMatchObject({ status: 'CONFIRMED', roomType: 'Standard', numberOfGuests: 1 });
+    expect(await repository.getById('tenant-a', A_PENDING)).toMatchObject({ status: 'PENDING' });
+    expect(await repository.listByTenant('tenant-a')).toHaveLength(4);
+  };
+
+  // Cross-tenant attempts per tool, made by tenant-b against tenant-a.
+  const toolAttacks = {
+    whoami: [
+      ['reports only the caller\'s tenant', {}, (result) => {
+        expect(result.structuredContent.userInfo.tenantId).toBe('tenant-b');
+      }],
+    ],
+    list_bookings: [
+      ['lists only the caller\'s bookings', {}, (result) => {
+        expect(result.structuredContent.bookings.map((b) => b.tenantId)).toEqual(['tenant-b', 'tenant-b', 'tenant-b']);
+      }],
+      ['does not resolve a guessed flight ID', { id: A_FLIGHT }, (result) => {
+        expect(errorCode(result)).toBe('BOOKING_NOT_FOUND');
+      }],
+      ['does not resolve a guessed hotel ID', { id: A_HOTEL }, (result) => {
+        expect(errorCode(result)).toBe('BOOKING_NOT_FOUND');
+      }],
+      ['does not filter into another tenant\'s travelers', { traveler: SECRET_TRAVELER }, (result) => {
+        expect(result.structuredContent.bookings).toEqual([]);
+      }],
+      ['rejects a cursor issued to another tenant', () => ({ limit: 1, cursor: ownerCursor }), (result) => {
+        expect(errorCode(result)).toBe('INVALID_CURSOR');
+      }],
+      ['rejects a cursor re-pointed at another tenant\'s partition', async () => {
+        const own = await attacker.callTool({ name: 'list_bookings', arguments: { limit: 1 } });
+        const [payload, signature] = own.structuredContent.nextCursor.split('.');
+        const key = JSON.parse(Buffer.from(payload, 'base64url').toString());
+        const forged = Buffer.from(JSON.stringify({ ...key, PK: 'tenant-a' })).toString('base64url');
+        return { limit: 1, cursor: `${forged}.${signature}` };
+      }, (result) => {
+        expect(errorCode(result)).toBe('INVALID_CURSOR');
+      }],
+      ['rejects an unsigned cursor', () => ({
+        limit: 1,
+        cursor: Buffer.from(JSON.stringify({ PK: 'tenant-a', SK: `BOOKING#FLIGHT#${A_FLIGHT}` })).toString('base64url'),
+      }), (result) => {
+        expect(errorCode(result)).toBe('INVALID_CURSOR');
+      }],
+    ],
+    cancel_booking: [
+      ['cannot cancel a guessed flight ID', { bookingId: A_FLIGHT }, (result) => {
+        expect(errorCode(result)).toBe('BOOKING_NOT_FOUND');
+      }],
+      ['cannot cancel a guessed hotel ID', { bookingId: A_HOTEL, reason: 'test' }, (result) => {
+        expect(errorCode(result)).toBe('BOOKING_NOT_FOUND');
+      }],
+    ],
+    modify_hotel_booking: [
+      ['cannot modify a guessed hotel ID', {
+        confirmationNumber: A_HOTEL,
+        modification: { type: 'UPGRADE_ROOM', newRoomType: 'Suite' },
+      }, (result) => {
+        expect(errorCode(result)).toBe('BOOKING_NOT_FOUND');
+      }],
+      ['cannot modify a flight ID of another tenant', {
+        confirmationNumber: A_FLIGHT,
+        modification: { type: 'MODIFY_GUESTS', guestCount: 5 },
+      }, (result) => {
+        expect(errorCode(result)).toBe('BOOKING_NOT_FOUND');
+      }],
+    ],
+    book_flight: [
+      ['does not replay another tenant\'s idempotency key', async () => {
+        const request = { ...(await flightRequest('tenant-a')), idempotencyKey: 'shared-key' };
+        const original = await sessions['tenant-a'].client.callTool({ name: 'book_flight', arguments: request });
+        expect(original.isError).toBe(false);
+        return request;
+      }, async (result) => {
+        expect(result.isError).toBe(false);
+        expect(result.structuredContent.booking.tenantId).toBe('tenant-b');
+        expect(await repository.listByTenant('tenant-a')).toHaveLength(5);
+      }],
+    ],
+    book_hotel: [
+      ['does not replay another tenant\'s idempotency key', async () => {
+        const request = { ...(await hotelRequest('tenant-a')), idempotencyKey: 'shared-key' };
+        const original = await sessions['tenant-a'].client.callTool({ name: 'book_hotel', arguments: request });
+        expect(original.isError).toBe(false);
+        return request;
+      }, async (result) => {
+        expect(result.isError).toBe(false);
+        expect(result.structuredContent.booking.tenantId).toBe('tenant-b');
+        expect(await repository.listByTenant('tenant-a')).toHaveLength(5);
+      }],
+    ],
+    list_pending_approvals: [
+      ['lists only the caller\'s pending bookings', {}, (result) => {
+        expect(result.structuredContent.bookings).toEqual([]);
+      }],
+    ],
+    approve_booking: [
+      ['cannot approve a guessed pending ID', { bookingId: A_PENDING }, (result) => {
+        expect(errorCode(result)).toBe('BOOKING_NOT_FOUND');
+      }],
+    ],
+    reject_booking: [
+      ['cannot reject a guessed pending ID', { bookingId: A_PENDING, reason: 'test' }, (result) => {
+        expect(errorCode(result)).toBe('BOOKING_NOT_FOUND');
+      }],
+    ],
+    spend_summary: [
+      ['counts only the caller\'s bookings', { from: '2026-01', to: '2026-01' }, (result) => {
+        // tenant-b's three seeded bookings, which carry no price.
+        expect(result.structuredContent).toMatchObject({ total: { bookings: 0 }, uncounted: 3 });
+      }],
+    ],
+    check_policy: [
+      ['applies only the caller\'s own policy', {
+        flight: { flightNumber: 'ZZ100', departure: '2099-01-01' },
+        flightClass: 'First',
+      }, (result) => {
+        expect(result.structuredContent).toMatchObject({ compliant: true, results: [] });
+      }],
+    ],
+    // Catalogue and profile tools hold no tenant data; they must not surface any.
+    find_flights: [
+      ['returns no tenant data', { origin: 'JFK', destination: 'LAX', departure: '2026-06-15' }, () => {}],
+    ],
+    list_hotels: [
+      ['returns no tenant data', { city: 'Paris', checkIn: '2026-07-01', checkOut: '2026-07-05', guests: 1 }, () => {}],
+    ],
+    loyalty_info: [
+      ['returns no tenant data', {}, () => {}],
+    ],
+  };
+
+  test('covers every tool', async () => {
+    const { tools } = await attacker.listTools();
+    expect(tools.map((t) => t.name).sort()).toEqual(Object.keys(toolAttacks).sort());
+  });
+
+  const cases = Object.entries(toolAttacks).flatMap(([tool, attacks]) =>
+    attacks.map(([name, args, check]) => [tool, name, args, check]));
+
+  test.each(cases)('%s %s', async (tool, _name, args, check) => {
+    const input = typeof args === 'function' ? await args() : args;
+    const result = await attacker.callTool({ name: tool, arguments: input });
+
+    await check(result);
+    expect(leaksTenantA(result, input)).toEqual([]);
+    if (tool !== 'book_flight' && tool !== 'book_hotel') {
+      await expectTenantAUnchanged();
+    }
+  });
+
+  test('covers every resource template', async () => {
+    const { resourceTemplates } = await attacker.listResourceTemplates();
+    expect(resourceTemplates.map((t) => t.uriTemplate)).toEqual(['s3://{tenantId}/{filename}']);
+  });
+
+  test('lists only the caller\'s files', async () => {
+    const { resources } = await attacker.listResources();
+    expect(resources.map((r) => r.uri)).toEqual(['s3://tenant-b/policy.md']);
+  });
+
+  test.each([
+    ['another tenant\'s file', 's3://tenant-a/policy.md'],
+    ['another tenant with different case', 's3://TENANT-A/policy.md'],
+    ['an encoded tenant ID', 's3://tenant%2Da/policy.md'],
+    ['a traversal in the tenant ID', 's3://tenant-b%2F..%2Ftenant-a/policy.md'],
+    ['a literal traversal', 's3://tenant-b/../tenant-a/policy.md'],
+    ['an encoded traversal', 's3://tenant-b/..%2Ftenant-a%2Fpolicy.md'],
+    ['an encoded dot segment', 's3://tenant-b/%2E%2E%2Ftenant-a%2Fpolicy.md'],
+    ['a backslash traversal', 's3://tenant-b/..%5Ctenant-a%5Cpolicy.md'],
+    ['a parent directory name', 's3://tenant-b/..'],
+    ['a malformed escape', 's3://tenant-b/%E0%A4%A'],
+  ])('rejects reading %s', async (_name, uri) => {
+    const read = vi.spyOn(getInMemoryTenantFiles(), 'read');
+
+    await expect(attacker.readResource({ uri })).rejects.toThrow(/Access denied|not found/);
+    expect(read).not.toHaveBeenCalled();
+  });
+
+  test('still reads the caller\'s own file', async () => {
+    const { contents } = await attacker.readResource({ uri: 's3://tenant-b/policy.md' });
+    expect(contents[0].text).toBe('# tenant-b policy');
+  });
+
+  test('prompts never surface another tenant\'s data', async () => {
+    const { prompts } = await attacker.listPrompts();
+    expect(prompts.length).toBeGreaterThan(0);
+
+    for (const prompt of prompts) {
+      // Fill every argument with tenant-a identifiers, as an ID-guessing caller would.
+      const args = Object.fromEntries((prompt.arguments ?? []).map((arg) => [arg.name, A_FLIGHT]));
+      const result = await attacker.getPrompt({ name: prompt.name, arguments: args });
+      const text = JSON.stringify(result);
+      for (const secret of [SECRET_TRAVELER, SECRET_HOTEL, SECRET_FILE, 'tenant-a']) {
+        expect(text, prompt.name).not.toContain(secret);
+      }
+    }
+  });
+
+  test('the repository refuses keys in another tenant\'s partition', async () => {
+    const booking = await repository.getById('tenant-a', A_HOTEL);
+
+    await expect(repository.update('tenant-b', { ...booking, roomType: 'Suite' })).rejects.toThrow(TenantIsolationError);
+    await expect(repository.updateStatus('tenant-b', booking, {
+      from: 'CONFIRMED', to: 'CANCELLED', changedAt: new Date().toISOString(), changedBy: 'user-tenant-b',
+    })).rejects.toThrow(TenantIsolationError);
+    await expect(repository.create('tenant-b', hotel('tenant-a', 'PLANTED'))).rejects.toThrow(TenantIsolationError);
+    await expectTenantAUnchanged();
+  });
+});
+
+describe('tenant isolation with DynamoDB', () => {
+  let attacker;
+
+  beforeEach(async () => {
+    // Bookings and reservations go to DynamoDB; policy documents come from
+    // the in-memory files.
+    process.env.DATA_BACKEND = 'memory';
+    mockDynamoSend.mockReset().mockResolvedValue({ Items: [] });
+    vi.mocked(getDynamoDbClient).mockClear();
+    setBookingRepository(new DynamoDbBookingRepository());
+    setReservationStore(new DynamoDbReservationStore());
+    attacker = await connect('tenant-b');
+  });
+
+  afterEach(async () => {
+    await attacker.close();
+    vi.restoreAllMocks();
+    setBookingRepository(undefined);
+    setInventory(undefined);
+    setReservationStore(undefined);
+    delete process.env.DATA_BACKEND;
+  });
+
+  // Partition keys a request addresses, wherever they appear in its input.
+  const partitionKeys = (value) => {
+    if (Array.isArray(value)) return value.flatMap(partitionKeys);
+    if (!value || typeof value !== 'object') return [];
+    return Object.entries(value).flatMap(([key, nested]) =>
+      key === 'PK' || key === ':pk' ? [nested] : partitionKeys(nested));
+  };
+
+  test('every request uses the caller\'s tagged credentials and partition', async () => {
+    const { client } = attacker;
+    await client.callTool({ name: 'list_bookings', arguments: {} });
+    await client.callTool({ name: 'list_bookings', arguments: { id: A_FLIGHT } });
+    await client.callTool({ name: 'cancel_booking', arguments: { bookingId: A_FLIGHT } });
+    await client.callTool({
+      name: 'modify_hotel_booking',
+      arguments: { confirmationNumber: A_HOTEL, modification: { type: 'UPGRADE_ROOM', newRoomType: 'Suite' } },
+    });
+    await client.callTool({
+      name: 'book_flight',
+      arguments: { ...(await flightRequest('tenant-b')), idempotencyKey: 'shared-key' },
+    });
+
+    // The session tag on these credentials is what dynamodb:LeadingKeys checks.
+    expect(vi.mocked(getDynamoDbClient).mock.calls.length).toBeGreaterThan(0);
+    expect(new Set(vi.mocked(getDynamoDbClient).mock.calls.map(([tenantId]) => tenantId))).toEqual(new Set(['tenant-b']));
+
+    const keys = mockDynamoSend.mock.calls.flatMap(([command]) => partitionKeys(command.input));
+    expect(keys.length).toBeGreaterThan(0);
+    expect(new Set(keys)).toEqual(new Set(['tenant-b']));
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Tests for tier-aware tenant rate limits and quotas
+ * Runs the limits middleware on an ephemeral Express server behind a mocked
+ * token middleware.
+ */
+
+import { describe, test, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import { tenantLimitsMiddleware, getTierLimits, setUsageStore } from '../limits/tenant-limits.js';
+import { InMemoryUsageStore } from '../limits/usage-store.js';
+
+let server;
+let baseUrl;
+
+// Tokens are "tenant:user:tier" strings so each test can pick its principal.
+const fakeAuth = (req, _res, next) => {
+  const [tenantId, userId, tenantTier] = req.get('authorization').replace('Bearer ', '').split(':');
+  req.auth = { token: 'x', clientId: 'c', scopes: [], extra: { tenantId, userId, tenantTier } };
+  next();
+};
+
+function call(token, body) {
+  return fetch(`${baseUrl}/mcp`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+const toolCall = (id) => ({ jsonrpc: '2.0', id, method: 'tools/call', params: { name: 'whoami' } });
+const listTools = (id) => ({ jsonrpc: '2.0', id, method: 'tools/list' });
+
+describe('tenant limits', () => {
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.post('/mcp', fakeAuth, tenantLimitsMiddleware, (_req, res) => { res.json({ ok: true }); });
+    await new Promise((resolve) => {
+      server = app.listen(0, resolve);
+    });
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    setUsageStore(new InMemoryUsageStore());
+  });
+
+  afterEach(() => {
+    delete process.env.TIER_LIMITS;
+  });
+
+  test('rejects requests over the per-user limit with a JSON-RPC error and Retry-After', async () => {
+    process.env.TIER_LIMITS = JSON.stringify({ basic: { requestsPerMinute: 2 } });
+
+    expect((await call('tenant-a:user-1:basic', listTools(1))).status).toBe(200);
+    expect((await call('tenant-a:user-1:basic', listTools(2))).status).toBe(200);
+    const res = await call('tenant-a:user-1:basic', listTools(3));
+
+    expect(res.status).toBe(429);
+    const retryAfter = Number(res.headers.get('retry-after'));
+    expect(retryAfter).toBeGreaterThan(0);
+    expect(retryAfter).toBeLessThanOrEqual(60);
+    const body = await res.json();
+    expect(body).toMatchObject({ jsonrpc: '2.0', id: 3, error: { code: -32029, data: { retryAfterSeconds: retryAfter } } });
+  });
+
+  test('limits are kept per tenant and user, not shared', async () => {
+    process.env.TIER_LIMITS = JSON.stringify({ basic: { requestsPerMinute: 1 } });
+
+    expect((await call('tenant-a:user-1:basic', listTools(1))).status).toBe(200);
+    expect((await call('tenant-a:user-2:basic', listTools(1))).status).toBe(200);
+    expect((await call('tenant-b:user-1:basic', listTools(1))).status).toBe(200);
+    expect((await call('tenant-a:user-1:basic', listTools(2))).status).toBe(429);
+  });
+
+  test('the tenant-wide limit applies across users', async () => {
+    process.env.TIER_LIMITS = JSON.stringify({ basic: { tenantRequestsPerMinute: 2 } });
+
+    await call('tenant-a:user-1:basic', listTools(1));
+    await call('tenant-a:user-2:basic', listTools(1));
+    expect((await call('tenant-a:user-3:basic', listTools(1))).status).toBe(429);
+  });
+
+  test('daily quotas only count tool calls', async () => {
+    process.env.TIER_LIMITS = JSON.stringify({ basic: { userDailyToolCalls: 1 } });
+
+    expect((await call('tenant-a:user-1:basic', listTools(1))).status).toBe(200);
+    expect((await call('tenant-a:user-1:basic', toolCall(2))).status).toBe(200);
+    const res = await call('tenant-a:user-1:basic', toolCall(3));
+
+    expect(res.status).toBe(429);
+    expect((await res.json()).error.code).toBe(-32030);
+    expect(Number(res.headers.get('retry-after'))).toBeLessThanOrEqual(86400);
+  });
+
+  test('higher tiers get higher limits', async () => {
+    process.env.TIER_LIMITS = JSON.stringify({ basic: { requestsPerMinute: 1 } });
+
+    await call('tenant-a:user-1:premium', listTools(1));
+    expect((await call('tenant-a:user-1:premium', listTools(2))).status).toBe(200);
+  });
+
+  test('an invalid TIER_LIMITS is ignored rather than failing requests', async () => {
+    process.env.TIER_LIMITS = '{"basic":{"requestsPerMinute":';
+    expect(getTierLimits('basic').requestsPerMinute).toBe(60);
+    expect((await call('tenant-a:user-1:basic', listTools(1))).status).toBe(200);
+
+    process.env.TIER_LIMITS = JSON.stringify({ basic: { requestsPerMinute: 'ten' } });
+    expect(getTierLimits('basic').requestsPerMinute).toBe(60);
+  });
+
+  test('unknown tiers fall back to basic limits', () => {
+    expect(getTierLimits('unknown')).toEqual(getTierLimits('basic'));
+    expect(getTierLimits('premium').dailyToolCalls).toBeGreaterThan(getTierLimits('basic').dailyToolCalls);
+  });
+
+  test('requests are allowed when the usage store is unavailable', async () => {
+    setUsageStore({ increment: () => Promise.reject(new Error('unavailable')) });
+    expect((await call('tenant-a:user-1:basic', listTools(1))).status).toBe(200);
+  });
+});
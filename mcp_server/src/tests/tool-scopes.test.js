@@ -0,0 +1,150 @@
+/**
+ * Tests for per-tool OAuth scopes
+ * Runs the token and scope middleware on an ephemeral Express server with a
+ * mocked JWT verifier.
+ */
+
+import { describe, test, expect, vi, beforeAll, afterAll, afterEach } from 'vitest';
+
+// Tokens are space-separated scope lists so each test can pick its grants;
+// a leading `machine` marks a client-credentials token.
+vi.mock('../auth/jwt-verifier.js', () => ({
+  verifyToken: vi.fn(),
+  processJwt: vi.fn(async (token) => {
+    const [first, ...rest] = decodeURIComponent(token).split(' ');
+    const machine = first === 'machine';
+    return {
+      token,
+      clientId: 'test-client',
+      scopes: machine ? rest : [first, ...rest],
+      expiresAt: Math.floor(Date.now() / 1000) + 3600,
+      extra: { principalType: machine ? 'machine' : 'user', tenantId: 'tenant-a', userId: 'user-1', tenantTier: 'basic' },
+    };
+  }),
+}));
+
+import express from 'express';
+import { processJwt } from '../auth/jwt-verifier.js';
+import { tokenMiddleware, toolScopeMiddleware } from '../auth/token-middleware.js';
+import { generateMetadata } from '../auth/oauth-metadata.js';
+import { requiredScopesFor } from '../auth/scopes.js';
+
+let server;
+let baseUrl;
+
+function call(scopes, body, headers = {}) {
+  return fetch(`${baseUrl}/mcp`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${encodeURIComponent(scopes.join(' '))}`, 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+}
+
+const toolCall = (name) => ({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: {} } });
+
+describe('tool scopes', () => {
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.post('/mcp', tokenMiddleware, toolScopeMiddleware, (req, res) => { res.json({ scopes: req.auth.scopes }); });
+    await new Promise((resolve) => {
+      server = app.listen(0, resolve);
+    });
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+    process.env.RESOURCE_SERVER_URL = baseUrl;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+    delete process.env.RESOURCE_SERVER_URL;
+  });
+
+  afterEach(() => {
+    delete process.env.OAUTH_SCOPE_PREFIX;
+  });
+
+  test('scopes issued with the resource server prefix are normalized', async () => {
+    const prefix = `${baseUrl}//`;
+    const res = await call(['openid', `${prefix}bookings:read`], toolCall('list_bookings'));
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).scopes).toEqual(['openid', 'bookings:read']);
+  });
+
+  test('a read scope does not allow booking', async () => {
+    process.env.OAUTH_SCOPE_PREFIX = '';
+    const res = await call(['openid', 'bookings:read'], toolCall('book_flight'));
+
+    expect(res.status).toBe(403);
+    expect((await res.json()).error).toBe('insufficient_scope');
+    const challenge = res.headers.get('www-authenticate');
+    expect(challenge).toContain('error="insufficient_scope"');
+    expect(challenge).toContain('scope="openid bookings:read bookings:write"');
+    expect(challenge).toContain(`resource_metadata="${baseUrl}/.well-known/oauth-protected-resource"`);
+  });
+
+  test('the step-up challenge uses the issued scope names', async () => {
+    const res = await call(['openid'], toolCall('loyalty_info'));
+
+    expect(res.status).toBe(403);
+    expect(res.headers.get('www-authenticate')).toContain(`scope="openid ${baseUrl}//loyalty:read"`);
+  });
+
+  test('forwarded headers do not change the resource or the scope names', async () => {
+    const res = await call(['openid'], toolCall('loyalty_info'), { 'X-Forwarded-Proto': 'https' });
+
+    expect(vi.mocked(processJwt)).toHaveBeenLastCalledWith(expect.any(String), baseUrl);
+    const challenge = res.headers.get('www-authenticate');
+    expect(challenge).toContain(`scope="openid ${baseUrl}//loyalty:read"`);
+    expect(challenge).toContain(`resource_metadata="${baseUrl}/.well-known/oauth-protected-resource"`);
+  });
+
+  test('every scope required by a batch must be granted', async () => {
+    process.env.OAUTH_SCOPE_PREFIX = '';
+    const batch = [toolCall('list_bookings'), toolCall('cancel_booking')];
+
+    expect((await call(['openid', 'bookings:read'], batch)).status).toBe(403);
+    expect((await call(['openid', 'bookings:read', 'bookings:write'], batch)).status).toBe(200);
+  });
+
+  test('requests that need no scope pass with openid only', async () => {
+    expect((await call(['openid'], toolCall('whoami'))).status).toBe(200);
+    expect((await call(['openid'], { jsonrpc: '2.0', id: 1, method: 'tools/list' })).status).toBe(200);
+  });
+
+  test('user tokens without openid are rejected', async () => {
+    process.env.OAUTH_SCOPE_PREFIX = '';
+    const res = await call(['bookings:read'], toolCall('list_bookings'));
+
+    expect(res.status).toBe(403);
+    expect(res.headers.get('www-authenticate')).toContain('scope="openid"');
+  });
+
+  test('client-credentials tokens need only the tool scopes', async () => {
+    process.env.OAUTH_SCOPE_PREFIX = '';
+
+    expect((await call(['machine', 'bookings:read'], toolCall('list_bookings'))).status).toBe(200);
+    expect((await call(['machine', 'bookings:read'], toolCall('book_flight'))).status).toBe(403);
+  });
+
+  test('tenant files require files:read', () => {
+    expect(requiredScopesFor({ method: 'resources/read', params: { uri: 's3://tenant-a/a.md' } })).toEqual(['files:read']);
+    expect(requiredScopesFor({ method: 'resources/list' })).toEqual(['files:read']);
+  });
+
+  test('the protected resource metadata advertises the tool scopes', () => {
+    process.env.COGNITO_USER_POOL_ID = 'us-east-1_TEST123456';
+    process.env.AWS_REGION = 'us-east-1';
+
+    const metadata = generateMetadata('https://api.example.com');
+
+    expect(metadata.scopes_supported).toEqual([
+      'openid',
+      'https://api.example.com//bookings:read',
+      'https://api.example.com//bookings:write',
+      'https://api.example.com//loyalty:read',
+      'https://api.example.com//files:read',
+    ]);
+  });
+});
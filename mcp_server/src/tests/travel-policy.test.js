@@ -0,0 +1,358 @@
+/**
+ * Tests for the travel policy engine
+ * Loads tenant policy documents from the in-memory tenant files and checks
+ * booking requests against them, directly, through the booking tools and
+ * through check_policy.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { getInMemoryTenantFiles } from '../services/in-memory-tenant-files.js';
+import { clearTravelPolicyCache, getTravelPolicy, PolicyDocumentError } from '../policy/policy-documents.js';
+import { checkFlightPolicy, checkHotelPolicy, evaluateFlightBooking } from '../policy/travel-policy.js';
+import { setBookingRepository } from '../repositories/booking-repository.js';
+import { InMemoryBookingRepository } from '../repositories/in-memory-booking-repository.js';
+import { getInventory, setInventory } from '../services/inventory.js';
+import { setReservationStore } from '../services/reservation-store.js';
+import { bookFlight } from '../tools/manage-flights.js';
+import { bookHotel } from '../tools/manage-hotels.js';
+import { checkPolicy } from '../tools/check-policy.js';
+
+const TODAY = new Date('2026-03-01T12:00:00Z');
+
+const expenseLimits = {
+  companyName: 'acme',
+  dailyLimits: {
+    meals: { domestic: { total: 135 } },
+    lodging: { tier1Cities: 350, tier2Cities: 250, tier3Cities: 150 },
+  },
+  preferredHotelChains: ['Marriott', 'Hilton'],
+  currency: 'USD',
+};
+
+const flightPreferences = {
+  companyName: 'acme',
+  preferredAirlines: [
+    { airline: 'American Airlines', code: 'AA', priority: 1 },
+    { airline: 'Delta Air Lines', code: 'DL', priority: 2 },
+  ],
+  allowedClasses: {
+    domestic: ['Economy', 'Premium Economy'],
+    international: ['Economy', 'Premium Economy', 'Business'],
+  },
+  bookingRules: { advanceBookingDays: 14, maxTripDuration: 30 },
+  blacklistedAirlines: ['ZZ'],
+};
+
+const policy = { expenseLimits, flightPreferences };
+
+const uploadPolicy = (tenantId, documents = { 'expense-limits.json': expenseLimits, 'flight-preferences.json': flightPreferences }) => {
+  for (const [filename, document] of Object.entries(documents)) {
+    getInMemoryTenantFiles().put(tenantId, filename, typeof document === 'string' ? document : JSON.stringify(document));
+  }
+};
+
+const rules = (findings) => findings.map((f) => f.rule);
+
+describe('checkFlightPolicy', () => {
+  const request = { flightNumber: 'AA1234', departure: '2026-04-01', flightClass: 'Economy' };
+
+  test('a request within the policy is compliant', () => {
+    expect(checkFlightPolicy(policy, request, TODAY)).toEqual({ compliant: true, approvalRequired: false, violations: [], warnings: [], approvals: [] });
+  });
+
+  test('cabin classes depend on the trip type', () => {
+    const business = { ...request, flightClass: 'business' };
+
+    const domestic = checkFlightPolicy(policy, business, TODAY);
+    expect(domestic.compliant).toBe(false);
+    expect(domestic.violations).toEqual([expect.objectContaining({
+      rule: 'CABIN_CLASS',
+      limit: ['Economy', 'Premium Economy'],
+      actual: 'business',
+    })]);
+
+    expect(checkFlightPolicy(policy, { ...business, international: true }, TODAY).compliant).toBe(true);
+  });
+
+  test('flights must be booked the required days in advance', () => {
+    const verdict = checkFlightPolicy(policy, { ...request, departure: '2026-03-10' }, TODAY);
+    expect(verdict.violations).toEqual([expect.objectContaining({ rule: 'ADVANCE_BOOKING', limit: 14, actual: 9 })]);
+
+    expect(checkFlightPolicy(policy, { ...request, departure: '2026-03-15' }, TODAY).compliant).toBe(true);
+  });
+
+  test('blacklisted airlines are violations, non-preferred ones only warnings', () => {
+    const blacklisted = checkFlightPolicy(policy, { ...request, flightNumber: 'ZZ100' }, TODAY);
+    expect(rules(blacklisted.violations)).toEqual(['BLACKLISTED_VENDOR']);
+    expect(blacklisted.warnings).toEqual([]);
+
+    const other = checkFlightPolicy(policy, { ...request, flightNumber: 'UA100' }, TODAY);
+    expect(other.compliant).toBe(true);
+    expect(other.warnings).toEqual([expect.objectContaining({ rule: 'PREFERRED_VENDOR', limit: ['AA', 'DL'], actual: 'UA' })]);
+  });
+
+  test('reports every violation at once', () => {
+    const verdict = checkFlightPolicy(policy, { flightNumber: 'ZZ1', departure: '2026-03-02', flightClass: 'First' }, TODAY);
+    expect(rules(verdict.violations)).toEqual(['CABIN_CLASS', 'ADVANCE_BOOKING', 'BLACKLISTED_VENDOR']);
+  });
+
+  test('without flight preferences nothing is checked', () => {
+    expect(checkFlightPolicy({ expenseLimits }, { ...request, flightClass: 'First' }, TODAY).compliant).toBe(true);
+  });
+});
+
+describe('checkHotelPolicy', () => {
+  test('the nightly rate is checked against the highest lodging limit', () => {
+    expect(checkHotelPolicy(policy, { hotelName: 'Hilton Paris', pricePerNight: 350 }).compliant).toBe(true);
+
+    const verdict = checkHotelPolicy(policy, { hotelName: 'Hilton Paris', pricePerNight: 351 });
+    expect(verdict.violations).toEqual([expect.objectContaining({ rule: 'LODGING_LIMIT', limit: 350, actual: 351 })]);
+  });
+
+  test('without a rate the lodging limit is not checked', () => {
+    expect(checkHotelPolicy(policy, { hotelName: 'Hilton Paris' }).compliant).toBe(true);
+  });
+
+  test('hotels outside the preferred chains get a warning', () => {
+    const verdict = checkHotelPolicy(policy, { hotelName: 'Grand Budapest', pricePerNight: 100 });
+    expect(verdict.compliant).toBe(true);
+    expect(rules(verdict.warnings)).toEqual(['PREFERRED_VENDOR']);
+  });
+});
+
+describe('tenant policy documents', () => {
+  beforeEach(() => {
+    process.env.DATA_BACKEND = 'memory';
+  });
+
+  afterEach(() => {
+    getInMemoryTenantFiles().clear();
+    clearTravelPolicyCache();
+    delete process.env.DATA_BACKEND;
+    delete process.env.POLICY_CACHE_SECONDS;
+  });
+
+  test('loads both documents from the tenant prefix', async () => {
+    uploadPolicy('acme');
+    uploadPolicy('other', { 'flight-preferences.json': { allowedClasses: { domestic: ['First'] } } });
+
+    const loaded = await getTravelPolicy('acme');
+    expect(loaded.expenseLimits).toMatchObject({ preferredHotelChains: ['Marriott', 'Hilton'] });
+    expect(loaded.flightPreferences).toMatchObject({ bookingRules: { advanceBookingDays: 14, maxTripDuration: 30 } });
+
+    expect(await getTravelPolicy('other')).toEqual({ flightPreferences: { allowedClasses: { domestic: ['First'] } } });
+  });
+
+  test('a tenant without documents has an empty policy', async () => {
+    expect(await getTravelPolicy('acme')).toEqual({});
+  });
+
+  test('rejects documents that are not valid JSON or do not match the schema', async () => {
+    uploadPolicy('acme', { 'expense-limits.json': '{ not json' });
+    await expect(getTravelPolicy('acme')).rejects.toThrow(new PolicyDocumentError('expense-limits.json', 'not valid JSON'));
+
+    uploadPolicy('acme', { 'expense-limits.json': expenseLimits, 'flight-preferences.json': { bookingRules: { advanceBookingDays: 'two weeks' } } });
+    await expect(getTravelPolicy('acme')).rejects.toThrow(/flight-preferences\.json: bookingRules\.advanceBookingDays/);
+  });
+
+  test('caches policies per tenant', async () => {
+    uploadPolicy('acme');
+    await getTravelPolicy('acme');
+
+    uploadPolicy('acme', { 'flight-preferences.json': {} });
+    expect((await getTravelPolicy('acme')).flightPreferences).toEqual(flightPreferences);
+
+    clearTravelPolicyCache();
+    expect((await getTravelPolicy('acme')).flightPreferences).toEqual({});
+  });
+
+  test('documents are reloaded once the cache expires', async () => {
+    process.env.POLICY_CACHE_SECONDS = '0';
+    uploadPolicy('acme');
+    await getTravelPolicy('acme');
+
+    uploadPolicy('acme', { 'flight-preferences.json': {} });
+    expect((await getTravelPolicy('acme')).flightPreferences).toEqual({});
+  });
+
+  test('an invalid policy makes every request non-compliant and require approval', async () => {
+    uploadPolicy('acme', { 'flight-preferences.json': '[]' });
+
+    const verdict = await evaluateFlightBooking('acme', { flightNumber: 'AA1', departure: '2030-01-01', flightClass: 'Economy' });
+    expect(verdict.compliant).toBe(false);
+    expect(rules(verdict.violations)).toEqual(['POLICY_INVALID']);
+    expect(verdict.approvalRequired).toBe(true);
+    expect(rules(verdict.approvals)).toEqual(['POLICY_INVALID']);
+  });
+});
+
+describe('booking tools', () => {
+  const extra = (tenantId) => ({ authInfo: { extra: { tenantId, userId: 'user-1' } } });
+
+  beforeEach(() => {
+    process.env.DATA_BACKEND = 'memory';
+    setBookingRepository(new InMemoryBookingRepository());
+    uploadPolicy('acme');
+  });
+
+  afterEach(() => {
+    setBookingRepository(undefined);
+    setInventory(undefined);
+    setReservationStore(undefined);
+    getInMemoryTenantFiles().clear();
+    clearTravelPolicyCache();
+    delete process.env.DATA_BACKEND;
+  });
+
+  // A flight from find_flights with First class seats left.
+  const firstClassFlight = async () => {
+    const flight = (await getInventory().findFlights('acme', 'SEA', 'JFK', '2099-06-15'))
+      .find((f) => f.availableSeats.some((s) => s.flightClass === 'First' && s.count > 0));
+    return { flightNumber: flight.flightNumber, origin: 'SEA', destination: 'JFK', departure: '2099-06-15', flightClass: 'First' };
+  };
+
+  test('book_flight returns the policy verdict with the booking', async () => {
+    const result = await bookFlight(await firstClassFlight(), extra('acme'));
+
+    expect(result.isError).toBe(false);
+    expect(result.structuredContent.policy.compliant).toBe(false);
+    expect(rules(result.structuredContent.policy.violations)).toEqual(['CABIN_CLASS']);
+    expect(result.content[0].text).toContain('outside the travel policy');
+  });
+
+  test('book_hotel checks the quoted nightly rate', async () => {
+    // A room above the lodging limit at one of the preferred chains.
+    const hotels = await getInventory().findHotels('acme', 'Lisbon', '2099-07-01', '2099-07-03');
+    const hotel = hotels.find((h) => /^(Marriott|Hilton) /.test(h.hotelName)
+      && h.availableRooms.some((r) => r.pricePerNight > 350 && r.available > 0));
+    const room = hotel.availableRooms.find((r) => r.pricePerNight > 350 && r.available > 0);
+
+    const result = await bookHotel({
+      hotelName: hotel.hotelName, city: 'Lisbon', checkIn: '2099-07-01', checkOut: '2099-07-03', roomType: room.roomType, guests: 1, pricePerNight: room.pricePerNight,
+    }, extra('acme'));
+
+    expect(result.structuredContent.policy).toEqual({
+      compliant: false,
+      approvalRequired: false,
+      violations: [expect.objectContaining({ rule: 'LODGING_LIMIT', limit: 350, actual: room.pricePerNight })],
+      warnings: [],
+      approvals: [],
+    });
+  });
+
+  test('tenants without a policy get a compliant verdict', async () => {
+    const result = await bookFlight(await firstClassFlight(), extra('other'));
+
+    expect(result.structuredContent.policy).toEqual({ compliant: true, approvalRequired: false, violations: [], warnings: [], approvals: [] });
+    expect(result.content[0].text).not.toContain('travel policy');
+  });
+});
+
+describe('check_policy', () => {
+  const extra = (tenantId) => ({ authInfo: { extra: { tenantId, userId: 'user-1' } } });
+
+  // As returned by find_flights and list_hotels.
+  const flightOption = {
+    departure: '2099-06-15T08:00:00.000Z',
+    arrival: '2099-06-15T11:00:00.000Z',
+    origin: 'JFK',
+    destination: 'LAX',
+    distance: 2475,
+    duration: 180,
+    stops: 0,
+    flightNumber: 'QX1234',
+    airline: 'Delta',
+    availableSeats: [
+      { flightClass: 'Economy', count: 10, price: 320 },
+      { flightClass: 'Business', count: 2, price: 1450 },
+    ],
+    frequentFlyerInfo: { programName: 'SkyMiles', milesEarned: 1237, tierPointsEarned: 247 },
+  };
+  const hotelOption = {
+    checkIn: '2099-07-01',
+    checkOut: '2099-07-03',
+    hotelName: 'Grand Budapest',
+    location: { address: '1 Main St', city: 'Zubrowka', country: 'ZB', coordinates: { latitude: 0, longitude: 0 } },
+    rating: 4,
+    availableRooms: [
+      { roomType: 'Standard', bedType: 'Queen', occupancy: { max: 2, recommended: 2 }, amenities: [], pricePerNight: 180, available: 3 },
+      { roomType: 'Suite', bedType: 'King', occupancy: { max: 4, recommended: 2 }, amenities: [], pricePerNight: 720, available: 1 },
+    ],
+    facilities: [],
+    loyaltyProgram: { programName: 'None', pointsEarned: 0, tierPointsEarned: 0 },
+  };
+
+  beforeEach(() => {
+    process.env.DATA_BACKEND = 'memory';
+    uploadPolicy('acme');
+  });
+
+  afterEach(() => {
+    getInMemoryTenantFiles().clear();
+    clearTravelPolicyCache();
+    delete process.env.DATA_BACKEND;
+  });
+
+  test('returns a result for every flight rule', async () => {
+    const result = await checkPolicy({ flight: flightOption, flightClass: 'Business' }, extra('acme'));
+
+    expect(result.isError).toBe(false);
+    expect(result.structuredContent).toEqual({
+      compliant: false,
+      approvalRequired: false,
+      option: { type: 'FLIGHT', flightNumber: 'QX1234', flightClass: 'Business', price: 1450 },
+      results: [
+        expect.objectContaining({ rule: 'CABIN_CLASS', outcome: 'VIOLATION', limit: ['Economy', 'Premium Economy'], actual: 'Business' }),
+        expect.objectContaining({ rule: 'ADVANCE_BOOKING', outcome: 'PASS', limit: 14 }),
+        expect.objectContaining({ rule: 'BLACKLISTED_VENDOR', outcome: 'PASS', actual: 'Delta' }),
+        // The airline name matches the policy's "Delta Air Lines".
+        expect.objectContaining({ rule: 'PREFERRED_VENDOR', outcome: 'PASS', actual: 'Delta' }),
+      ],
+    });
+    expect(result.content[0].text).toContain('VIOLATION CABIN_CLASS: Business is not an allowed cabin class for domestic flights.');
+  });
+
+  test('international flights allow the international classes', async () => {
+    const result = await checkPolicy({ flight: flightOption, flightClass: 'Business', international: true }, extra('acme'));
+
+    expect(result.structuredContent.compliant).toBe(true);
+    expect(result.content[0].text).toMatch(/^This option complies with the travel policy\./);
+  });
+
+  test('checks the nightly rate of the chosen room', async () => {
+    const standard = await checkPolicy({ hotel: hotelOption, roomType: 'standard' }, extra('acme'));
+    expect(standard.structuredContent).toEqual({
+      compliant: true,
+      approvalRequired: false,
+      option: { type: 'HOTEL', hotelName: 'Grand Budapest', roomType: 'standard', pricePerNight: 180 },
+      results: [
+        expect.objectContaining({ rule: 'LODGING_LIMIT', outcome: 'PASS', limit: 350, actual: 180 }),
+        expect.objectContaining({ rule: 'PREFERRED_VENDOR', outcome: 'WARNING', limit: ['Marriott', 'Hilton'] }),
+      ],
+    });
+
+    const suite = await checkPolicy({ hotel: hotelOption, roomType: 'Suite' }, extra('acme'));
+    expect(suite.structuredContent.compliant).toBe(false);
+    expect(suite.structuredContent.results[0]).toMatchObject({ rule: 'LODGING_LIMIT', outcome: 'VIOLATION', actual: 720 });
+  });
+
+  test('a tenant without a policy has no rules to check', async () => {
+    const result = await checkPolicy({ flight: flightOption, flightClass: 'Business' }, extra('other'));
+
+    expect(result.structuredContent).toMatchObject({ compliant: true, results: [] });
+    expect(result.content[0].text).toContain('no rules');
+  });
+
+  test.each([
+    ['no option', {}],
+    ['both options', { flight: flightOption, flightClass: 'Economy', hotel: hotelOption }],
+    ['a flight without a class', { flight: flightOption }],
+    ['a class the flight does not offer', { flight: flightOption, flightClass: 'First' }],
+    ['a room type the hotel does not offer', { hotel: hotelOption, roomType: 'Penthouse' }],
+  ])('rejects %s', async (_name, params) => {
+    const result = await checkPolicy(params, extra('acme'));
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent.error.code).toBe('INVALID_OPTION');
+  });
+});
@@ -0,0 +1,146 @@
+import type { CallToolResult, ServerRequest, ServerNotification } from "@modelcontextprotocol/sdk/types.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { getBookingRepository, ConditionFailedError } from "../repositories/booking-repository.js";
+import { ApprovalError, decideApproval } from "../services/booking-status.js";
+import type { ApprovalDecision } from "../types/booking.js";
+import { decodeCursor, encodeCursor, InvalidCursorError } from "../utils/cursor.js";
+import { toolError } from "./tool-errors.js";
+import { getTenantContext, isApprover } from "../auth/tenant-context.js";
+import type { TenantContext } from "../auth/tenant-context.js";
+
+interface ListPendingApprovalsParams {
+  limit?: number;
+  cursor?: string;
+}
+
+interface DecisionParams {
+  bookingId: string;
+  reason?: string;
+}
+
+const NO_TENANT: CallToolResult = {
+  isError: true,
+  content: [{ type: "text", text: "ERROR: No tenant ID provided" }],
+};
+
+const approverRequired = (tenant: TenantContext): CallToolResult =>
+  toolError("APPROVER_ROLE_REQUIRED", "Only approvers can review bookings awaiting approval.", { userId: tenant.userId });
+
+/**
+ * List the tenant's bookings awaiting an approver's decision, oldest travel
+ * date first. Results are paged like `list_bookings`.
+ */
+export const listPendingApprovals = async (
+  { limit = 20, cursor }: ListPendingApprovalsParams,
+  { authInfo }: RequestHandlerExtra<ServerRequest, ServerNotification>
+): Promise<CallToolResult> => {
+  const tenant = getTenantContext(authInfo);
+  if (!tenant) {
+    return NO_TENANT;
+  }
+  if (!isApprover(tenant)) {
+    return approverRequired(tenant);
+  }
+  const { tenantId } = tenant;
+
+  const filters = { status: "PENDING" as const, order: "asc" as const };
+  const scope = JSON.stringify({ tool: "list_pending_approvals", ...filters });
+
+  let startKey: Record<string, unknown> | undefined;
+  if (cursor !== undefined) {
+    try {
+      startKey = decodeCursor(tenantId, scope, cursor);
+    } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return toolError("INVALID_CURSOR", error.message);
+      }
+      throw error;
+    }
+  }
+
+  const page = await getBookingRepository().search(tenantId, { ...filters, limit, startKey });
+  const result = {
+    bookings: page.items,
+    ...(page.lastKey ? { nextCursor: encodeCursor(tenantId, scope, page.lastKey) } : {}),
+  };
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(result),
+      },
+    ],
+    structuredContent: result,
+  };
+};
+
+const DECISION_MESSAGES: Record<ApprovalDecision, string> = {
+  APPROVED: "has been approved and is confirmed",
+  REJECTED: "has been rejected and is cancelled",
+};
+
+const MODIFICATION_DECISION_MESSAGES: Record<ApprovalDecision, string> = {
+  APPROVED: "has been approved and the modified booking is confirmed",
+  REJECTED: "has been rejected and the booking is confirmed as it was before",
+};
+
+async function decide(
+  decision: ApprovalDecision,
+  { bookingId, reason }: DecisionParams,
+  { authInfo }: RequestHandlerExtra<ServerRequest, ServerNotification>
+): Promise<CallToolResult> {
+  const tenant = getTenantContext(authInfo);
+  if (!tenant) {
+    return NO_TENANT;
+  }
+  if (!isApprover(tenant)) {
+    return approverRequired(tenant);
+  }
+  const { tenantId, userId } = tenant;
+
+  const booking = await getBookingRepository().getById(tenantId, bookingId);
+  if (!booking) {
+    return toolError("BOOKING_NOT_FOUND", `No booking found with confirmation number ${bookingId}`, { bookingId });
+  }
+
+  try {
+    const updated = await decideApproval(tenantId, booking, decision, userId, reason);
+    return {
+      isError: false,
+      content: [
+        {
+          type: "text",
+          text: booking.type === "HOTEL" && booking.modifiedFrom
+            ? `The modification of booking ${updated.bookingId} ${MODIFICATION_DECISION_MESSAGES[decision]}.`
+            : `Booking ${updated.bookingId} ${DECISION_MESSAGES[decision]}.`,
+        },
+      ],
+      structuredContent: { booking: updated },
+    };
+  } catch (error) {
+    if (error instanceof ApprovalError) {
+      return toolError(error.code, error.message, { bookingId, currentStatus: booking.status });
+    }
+    if (error instanceof ConditionFailedError) {
+      return toolError("BOOKING_MODIFIED", `Booking ${bookingId} was changed by another request. Please retry.`, { bookingId });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Approve a pending booking, which confirms it.
+ */
+export const approveBooking = (
+  params: DecisionParams,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): Promise<CallToolResult> => decide("APPROVED", params, extra);
+
+/**
+ * Reject a pending booking, which cancels it. The tool schema requires a
+ * reason for the traveler.
+ */
+export const rejectBooking = (
+  params: DecisionParams & { reason: string },
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): Promise<CallToolResult> => decide("REJECTED", params, extra);
@@ -0,0 +1,62 @@
+import type { CallToolResult, ServerRequest, ServerNotification } from "@modelcontextprotocol/sdk/types.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { getBookingRepository, ConditionFailedError } from "../repositories/booking-repository.js";
+import { ApprovalError, InvalidStatusTransitionError, transitionBooking } from "../services/booking-status.js";
+import { toolError } from "./tool-errors.js";
+import { getTenantContext } from "../auth/tenant-context.js";
+
+interface CancelBookingParams {
+  bookingId: string;
+  reason?: string;
+}
+
+export const cancelBooking = async (
+  { bookingId, reason }: CancelBookingParams,
+  { authInfo }: RequestHandlerExtra<ServerRequest, ServerNotification>
+): Promise<CallToolResult> => {
+  const tenant = getTenantContext(authInfo);
+  if (!tenant) {
+    return {
+      isError: true,
+      content: [{ type: "text", text: "ERROR: No tenant ID provided" }],
+    };
+  }
+  const { tenantId, userId } = tenant;
+
+  const booking = await getBookingRepository().getById(tenantId, bookingId);
+  if (!booking) {
+    return toolError("BOOKING_NOT_FOUND", `No booking found with confirmation number ${bookingId}`, { bookingId });
+  }
+
+  try {
+    const updated = await transitionBooking(tenantId, booking, "CANCELLED", userId, reason);
+    return {
+      isError: false,
+      content: [
+        {
+          type: "text",
+          text: updated.status === "CANCELLED"
+            ? `Booking ${updated.bookingId} has been cancelled.`
+            : `The modification of booking ${updated.bookingId} awaiting approval has been withdrawn; the booking is confirmed as it was before.`,
+        },
+      ],
+      structuredContent: { booking: updated },
+    };
+  } catch (error) {
+    if (error instanceof InvalidStatusTransitionError) {
+      return toolError(error.code, error.message, {
+        bookingId,
+        currentStatus: error.from,
+        requestedStatus: error.to,
+        allowedTransitions: error.allowedTransitions,
+      });
+    }
+    if (error instanceof ApprovalError) {
+      return toolError(error.code, error.message, { bookingId, currentStatus: booking.status });
+    }
+    if (error instanceof ConditionFailedError) {
+      return toolError("BOOKING_MODIFIED", `Booking ${bookingId} was changed by another request. Please retry.`, { bookingId });
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,123 @@
+import type { CallToolResult, ServerRequest, ServerNotification } from "@modelcontextprotocol/sdk/types.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { toolError } from "./tool-errors.js";
+import { getTenantContext } from "../auth/tenant-context.js";
+import { checkFlightRules, checkHotelRules, evaluatePolicy, toVerdict } from "../policy/travel-policy.js";
+import type { PolicyCheck } from "../policy/travel-policy.js";
+
+/**
+ * The parts of a `find_flights` result the policy looks at.
+ */
+interface FlightOption {
+  flightNumber: string;
+  airline?: string;
+  departure: string;
+  availableSeats?: { flightClass: string; price: number }[];
+}
+
+/**
+ * The parts of a `list_hotels` result the policy looks at.
+ */
+interface HotelOption {
+  hotelName: string;
+  checkIn?: string;
+  checkOut?: string;
+  availableRooms?: { roomType: string; pricePerNight: number }[];
+}
+
+interface CheckPolicyParams {
+  flight?: FlightOption;
+  flightClass?: string;
+  international?: boolean;
+  hotel?: HotelOption;
+  roomType?: string;
+}
+
+const OUTCOME_LABELS: Record<PolicyCheck["outcome"], string> = {
+  PASS: "OK",
+  VIOLATION: "VIOLATION",
+  WARNING: "WARNING",
+  APPROVAL_REQUIRED: "APPROVAL REQUIRED",
+};
+
+/**
+ * Check a flight or hotel option from a search against the tenant's travel
+ * policy before booking it, rule by rule.
+ */
+export async function checkPolicy(
+  { flight, flightClass, international, hotel, roomType }: CheckPolicyParams,
+  { authInfo }: RequestHandlerExtra<ServerRequest, ServerNotification>
+): Promise<CallToolResult> {
+  const tenant = getTenantContext(authInfo);
+  if (!tenant) {
+    return {
+      isError: true,
+      content: [{ type: "text", text: "ERROR: No tenant ID provided" }],
+    };
+  }
+  const { tenantId } = tenant;
+
+  if (flight && !hotel) {
+    if (!flightClass) {
+      return toolError("INVALID_OPTION", "Pass the flightClass to check for the flight.");
+    }
+    const seat = flight.availableSeats?.find(s => s.flightClass.toLowerCase() === flightClass.toLowerCase());
+    if (flight.availableSeats && !seat) {
+      return toolError("INVALID_OPTION", `Flight ${flight.flightNumber} has no ${flightClass} seats.`, { flightClass });
+    }
+    const results = await evaluatePolicy(tenantId, policy => checkFlightRules(policy, {
+      flightNumber: flight.flightNumber,
+      airline: flight.airline,
+      departure: flight.departure,
+      flightClass,
+      international,
+      price: seat?.price,
+    }));
+    return policyResult({
+      type: "FLIGHT",
+      flightNumber: flight.flightNumber,
+      flightClass,
+      ...(seat ? { price: seat.price } : {}),
+    }, results);
+  }
+
+  if (hotel && !flight) {
+    const { hotelName, checkIn, checkOut, availableRooms } = hotel;
+    const room = roomType ? availableRooms?.find(r => r.roomType.toLowerCase() === roomType.toLowerCase()) : undefined;
+    if (roomType && availableRooms && !room) {
+      return toolError("INVALID_OPTION", `${hotelName} has no ${roomType} rooms.`, { roomType });
+    }
+    const results = await evaluatePolicy(tenantId, policy => checkHotelRules(policy, {
+      hotelName,
+      pricePerNight: room?.pricePerNight,
+      checkIn,
+      checkOut,
+    }));
+    return policyResult({
+      type: "HOTEL",
+      hotelName,
+      ...(roomType ? { roomType } : {}),
+      ...(room ? { pricePerNight: room.pricePerNight } : {}),
+    }, results);
+  }
+
+  return toolError("INVALID_OPTION", "Pass either a flight or a hotel option to check.");
+}
+
+function policyResult(option: Record<string, unknown>, results: PolicyCheck[]): CallToolResult {
+  const { compliant, approvalRequired } = toVerdict(results);
+  const summary = results.length === 0
+    ? "The travel policy has no rules for this option."
+    : results.map(result => `${OUTCOME_LABELS[result.outcome]} ${result.rule}: ${result.message}`).join("\n");
+
+  return {
+    isError: false,
+    content: [
+      {
+        type: "text",
+        text: `${compliant ? "This option complies with the travel policy." : "This option is outside the travel policy."}${approvalRequired ? " Booking it requires approval." : ""}\n${summary}`,
+      },
+    ],
+    structuredContent: { compliant, approvalRequired, option, results },
+  };
+}
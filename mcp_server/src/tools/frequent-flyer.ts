@@ -2,7 +2,7 @@ import { faker } from "@faker-js/faker";
 import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 
 // Define interfaces for our types
-interface LoyaltyProgram {
+export interface LoyaltyProgram {
   programName: string;
   membershipNumber: string;
   currentPoints: number;
@@ -39,26 +39,29 @@ export function getLoyaltyProgramInfo(): CallToolResult {
     };
   }
 
+  const programs = {
+    airlines: {
+      Delta: createLoyaltyProgram("SkyMiles", false),
+      United: createLoyaltyProgram("MileagePlus", false),
+      American: createLoyaltyProgram("AAdvantage", false),
+      Southwest: createLoyaltyProgram("Rapid Rewards", false),
+    },
+    hotels: {
+      Marriott: createLoyaltyProgram("Bonvoy", true),
+      Hilton: createLoyaltyProgram("Honors", true),
+      Hyatt: createLoyaltyProgram("World of Hyatt", true),
+      IHG: createLoyaltyProgram("One Rewards", true),
+    },
+  };
+
   return {
     isError: false,
     content: [
       {
         type: "text",
-        text: JSON.stringify({
-          airlines: {
-            Delta: createLoyaltyProgram("SkyMiles", false),
-            United: createLoyaltyProgram("MileagePlus", false),
-            American: createLoyaltyProgram("AAdvantage", false),
-            Southwest: createLoyaltyProgram("Rapid Rewards", false),
-          },
-          hotels: {
-            Marriott: createLoyaltyProgram("Bonvoy", true),
-            Hilton: createLoyaltyProgram("Honors", true),
-            Hyatt: createLoyaltyProgram("World of Hyatt", true),
-            IHG: createLoyaltyProgram("One Rewards", true),
-          },
-        }),
+        text: JSON.stringify(programs),
       },
     ],
+    structuredContent: programs,
   };
 }
@@ -1,123 +1,94 @@
-import { QueryCommand } from "@aws-sdk/lib-dynamodb";
 import type { CallToolResult, ServerRequest, ServerNotification } from "@modelcontextprotocol/sdk/types.js";
 import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
-import { getDynamoDbClient, TABLE_NAME } from "../services/dynamoDb.js";
-import { Booking } from "../types/booking.js";
-
-// Query Functions
-async function getBookingsByTenant(tenantId: string): Promise<Booking[]> {
-  const dynamoDB = await getDynamoDbClient(tenantId);
-
-  const params = {
-    TableName: TABLE_NAME,
-    KeyConditionExpression: "PK = :pk",
-    ExpressionAttributeValues: {
-      ":pk": `${tenantId}`,
-    },
-  };
-
-  try {
-    const command = new QueryCommand(params);
-    const result = await dynamoDB.send(command);
-    return result.Items as Booking[];
-  } catch (error) {
-    console.error("Error fetching bookings:", error);
-    throw error;
-  }
-}
-
-async function getBookingsByTenantAndType(
-  tenantId: string,
-  bookingType: "FLIGHT" | "HOTEL"
-): Promise<Booking[]> {
-  const dynamoDB = await getDynamoDbClient(tenantId);
-
-  const params = {
-    TableName: TABLE_NAME,
-    KeyConditionExpression: "PK = :pk and begins_with(SK, :sk)",
-    ExpressionAttributeValues: {
-      ":pk": `${tenantId}`,
-      ":sk": `BOOKING#${bookingType}`,
-    },
-  };
-
-  try {
-    const command = new QueryCommand(params);
-    const result = await dynamoDB.send(command);
-    return result.Items as Booking[];
-  } catch (error) {
-    console.error("Error fetching bookings by type:", error);
-    throw error;
-  }
-}
-
-async function getBookingById(
-  tenantId: string,
-  bookingId: string
-): Promise<Booking | null> {
-  const dynamoDB = await getDynamoDbClient(tenantId);
-
-  const params = {
-    TableName: TABLE_NAME,
-    KeyConditionExpression: "PK = :pk and begins_with(SK, :sk)",
-    ExpressionAttributeValues: {
-      ":pk": `${tenantId}`,
-      ":sk": `BOOKING#${bookingId}`,
-    },
-  };
-
-  try {
-    const command = new QueryCommand(params);
-    const result = await dynamoDB.send(command);
-    return (result.Items?.[0] as Booking) || null;
-  } catch (error) {
-    console.error("Error fetching booking by ID:", error);
-    throw error;
-  }
-}
+import { getBookingRepository } from "../repositories/booking-repository.js";
+import type { BookingStatus } from "../types/booking.js";
+import { decodeCursor, encodeCursor, InvalidCursorError } from "../utils/cursor.js";
+import { toolError } from "./tool-errors.js";
+import { getTenantContext } from "../auth/tenant-context.js";
 
 interface ListBookingsParams {
   type?: "HOTEL" | "FLIGHT" | "ALL";
   id?: string;
+  status?: BookingStatus;
+  travelFrom?: string;
+  travelTo?: string;
+  traveler?: string;
+  destination?: string;
+  sort?: "asc" | "desc";
+  limit?: number;
+  cursor?: string;
 }
 
 export const listBookings = async (
-  { type, id }: ListBookingsParams,
+  { type, id, status, travelFrom, travelTo, traveler, destination, sort = "asc", limit = 20, cursor }: ListBookingsParams,
   { authInfo }: RequestHandlerExtra<ServerRequest, ServerNotification>
 ): Promise<CallToolResult> => {
-  const tenantId = authInfo?.extra?.tenantId as string | undefined;
-  if ( tenantId === undefined)
+  const tenant = getTenantContext(authInfo);
+  if (!tenant)
     return {
       isError: true,
       content: [{ type: "text", text: "ERROR: No tenant ID provided" }],
     };
+  const { tenantId } = tenant;
 
-  if (id !== undefined)
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(await getBookingById(tenantId, id)),
-        },
-      ],
-    };
+  const repository = getBookingRepository();
 
-  if (type === "ALL" || type === undefined)
+  if (id !== undefined) {
+    const booking = await repository.getById(tenantId, id);
+    if (!booking)
+      return toolError("BOOKING_NOT_FOUND", `No booking found with confirmation number ${id}`, { bookingId: id });
     return {
       content: [
         {
           type: "text",
-          text: JSON.stringify(await getBookingsByTenant(tenantId)),
+          text: JSON.stringify(booking),
         },
       ],
+      structuredContent: { bookings: [booking] },
     };
+  }
+
+  if (travelFrom && travelTo && travelFrom > travelTo)
+    return toolError("INVALID_DATE_RANGE", "travelFrom must not be after travelTo", { travelFrom, travelTo });
+
+  // Hotel bookings only record the number of guests, so no hotel booking
+  // would ever match a traveler.
+  if (traveler !== undefined && type === "HOTEL")
+    return toolError("INVALID_FILTER", "traveler only filters flight bookings; hotel bookings do not name their guests", { traveler, type });
 
+  // A cursor only continues the query it was issued for.
+  const filters = {
+    type: type === "ALL" ? undefined : type,
+    status,
+    travelFrom,
+    travelTo,
+    traveler,
+    destination,
+    order: sort,
+  };
+  const scope = JSON.stringify(filters);
+
+  let page;
+  try {
+    const startKey = cursor !== undefined ? decodeCursor(tenantId, scope, cursor) : undefined;
+    page = await repository.search(tenantId, { ...filters, limit, startKey });
+  } catch (error) {
+    if (error instanceof InvalidCursorError)
+      return toolError("INVALID_CURSOR", error.message);
+    throw error;
+  }
+
+  const result = {
+    bookings: page.items,
+    ...(page.lastKey ? { nextCursor: encodeCursor(tenantId, scope, page.lastKey) } : {}),
+  };
   return {
     content: [
       {
         type: "text",
-        text: JSON.stringify(await getBookingsByTenantAndType(tenantId, type)),
+        text: JSON.stringify(result),
       },
     ],
+    structuredContent: result,
   };
 };
@@ -1,55 +1,43 @@
 import { faker } from "@faker-js/faker";
 import type { CallToolResult, ServerRequest, ServerNotification } from "@modelcontextprotocol/sdk/types.js";
 import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
-import { getDynamoDbClient, TABLE_NAME } from "../services/dynamoDb.js";
-import { PutCommand } from "@aws-sdk/lib-dynamodb";
-import { FlightBooking, Passenger } from "../types/booking.js";
-
-export interface FlightInfo {
-  departure: Date;
-  arrival: Date;
-  origin: string;
-  destination: string;
-  distance: number;
-  duration: number;
-  stops: number;
-  flightNumber: string;
-  airline: string;
-  availableSeats: {
-    flightClass: string;
-    count: number;
-    price: number;
-  }[];
-  frequentFlyerInfo: {
-    programName: string;
-    milesEarned: number;
-    tierPointsEarned: number;
-  };
-}
-
-const AIRLINES = ["Delta", "United", "American", "Southwest"];
-const FLIGHT_CLASSES = ["Economy", "Business", "First"];
-const FREQUENT_FLYER_PROGRAMS: Record<string, string> = {
-  Delta: "SkyMiles",
-  United: "MileagePlus",
-  American: "AAdvantage",
-  Southwest: "Rapid Rewards",
-};
+import { IdempotencyKeyReusedError } from "../repositories/booking-repository.js";
+import { createIdempotentBooking, findIdempotentReplay } from "../services/idempotency.js";
+import type { IdempotentRequest } from "../services/idempotency.js";
+import { ApprovalRequest, BookingStatus, FlightBooking, Passenger } from "../types/booking.js";
+import { toolError } from "./tool-errors.js";
+import { getTenantContext } from "../auth/tenant-context.js";
+import { approvalRequest, evaluateFlightBooking, policyMessage } from "../policy/travel-policy.js";
+import type { PolicyVerdict } from "../policy/travel-policy.js";
+import { getInventory } from "../services/inventory.js";
+import type { Reservation } from "../services/inventory.js";
+import type { FlightInfo } from "../types/inventory.js";
 
 interface CreateFlightBookingInput {
   flightNumber: string;
   departureDateTime: string;
   passengers: Passenger[];
   flightClass: string;
-  status: "CONFIRMED" | "PENDING" | "CANCELLED";
+  destination?: string;
+  status: BookingStatus;
+  bookedBy: string;
+  price: number;
+  currency: string;
+  costCenter?: string;
   loyaltyInfo?: string;
+  approval?: ApprovalRequest;
 }
 
+/**
+ * Store the booking for a reserved seat. The seat is released again if the
+ * booking is not stored.
+ */
 async function createFlightBooking(
   tenantId: string,
-  input: CreateFlightBookingInput
+  input: CreateFlightBookingInput,
+  request: IdempotentRequest,
+  reservation: Reservation
 ): Promise<FlightBooking> {
-  const dynamoDB = await getDynamoDbClient(tenantId);
   const bookingId = faker.string.alphanumeric({
     length: 6,
     casing: "upper",
@@ -64,76 +52,69 @@ async function createFlightBooking(
     type: "FLIGHT",
     status: input.status,
     bookingDate: new Date().toISOString(),
+    bookedBy: input.bookedBy,
+    price: input.price,
+    currency: input.currency,
+    ...(input.costCenter ? { costCenter: input.costCenter } : {}),
     flightNumber: input.flightNumber,
     departureDateTime: input.departureDateTime,
+    ...(input.destination ? { destination: input.destination } : {}),
     passengers: input.passengers,
     loyaltyInfo: input.loyaltyInfo,
-  };
-
-  const params = {
-    TableName: TABLE_NAME,
-    Item: booking,
+    ...(input.approval ? { approval: input.approval } : {}),
   };
 
   try {
-    const command = new PutCommand(params);
-    await dynamoDB.send(command);
-    return booking;
+    const stored = await createIdempotentBooking(tenantId, booking, request);
+    // A concurrent retry may have won the race; its booking is returned then
+    // and holds its own seat.
+    if (stored.bookingId !== bookingId) {
+      await reservation.release();
+    }
+    return stored as FlightBooking;
   } catch (error) {
-    console.error("Error creating flight booking:", error);
+    await reservation.release();
     throw error;
   }
 }
 
-export function listFlights({
-  origin,
-  destination,
-  departure,
-}: {
-  origin: string;
-  destination: string;
-  departure: string;
-}): CallToolResult {
-  const flightCount = 4;
-  const flights: FlightInfo[] = [];
-
-  for (let i = 0; i < flightCount; i++) {
-    const duration = faker.number.int({ min: 60, max: 480 });
-    const departureTime = new Date(departure);
-    departureTime.setHours(faker.number.int({ min: 0, max: 23 }));
-
-    const arrivalTime = new Date(departureTime);
-    arrivalTime.setMinutes(arrivalTime.getMinutes() + duration);
-
-    const airline = faker.helpers.arrayElement(AIRLINES);
-    const distance = faker.number.int({ min: 100, max: 3000 });
-
-    const flight: FlightInfo = {
-      departure: departureTime,
-      arrival: arrivalTime,
-      origin: origin,
-      destination: destination,
-      distance: distance,
-      duration: duration,
-      stops: faker.number.int({ min: 0, max: 2 }),
-      flightNumber: `${faker.string.alpha({
-        length: 2,
-        casing: "upper",
-      })}${faker.number.int({ min: 1000, max: 9999 })}`,
-      airline: airline,
-      availableSeats: FLIGHT_CLASSES.map((cls) => ({
-        flightClass: cls,
-        count: faker.number.int({ min: 0, max: 50 }),
-        price: faker.number.int({ min: 100, max: 2000 }),
-      })),
-      frequentFlyerInfo: {
-        programName: FREQUENT_FLYER_PROGRAMS[airline],
-        milesEarned: Math.round(distance * 0.5),
-        tierPointsEarned: Math.round(distance * 0.1),
+function flightConfirmation(booking: FlightBooking, frequentFlyerNumber?: string, policy?: PolicyVerdict): CallToolResult {
+  const frequentFlyerMessage = frequentFlyerNumber
+    ? `Frequent Flyer number ${frequentFlyerNumber} has been added to your booking.`
+    : "";
+
+  return {
+    isError: false,
+    content: [
+      {
+        type: "text",
+        text: `${booking.status === "PENDING" ? "Booking submitted for approval." : "Booking successful!"} Your confirmation number is ${booking.bookingId}. ${frequentFlyerMessage}${policyMessage(policy)}`,
       },
+    ],
+    structuredContent: { booking, ...(policy ? { policy } : {}) },
+  };
+}
+
+export async function listFlights(
+  {
+    origin,
+    destination,
+    departure,
+  }: {
+    origin: string;
+    destination: string;
+    departure: string;
+  },
+  { authInfo }: RequestHandlerExtra<ServerRequest, ServerNotification>
+): Promise<CallToolResult> {
+  const tenant = getTenantContext(authInfo);
+  if (!tenant) {
+    return {
+      isError: true,
+      content: [{ type: "text", text: "ERROR: No tenant ID provided" }],
     };
-    flights.push(flight);
   }
+  const flights = await getInventory().findFlights(tenant.tenantId, origin, destination, departure);
 
   return {
     isError: false,
@@ -143,6 +124,7 @@ export function listFlights({
         text: JSON.stringify(flights),
       },
     ],
+    structuredContent: { flights },
   };
 }
 
@@ -151,83 +133,150 @@ export async function bookFlight(
     flightNumber,
     departure,
     flightClass,
+    origin,
+    destination,
     frequentFlyerNumber,
+    international,
+    price,
+    costCenter,
+    idempotencyKey,
   }: {
     flightNumber: string;
     departure: string;
     flightClass: string;
+    origin: string;
+    destination: string;
     frequentFlyerNumber?: string;
+    international?: boolean;
+    price?: number;
+    costCenter?: string;
+    idempotencyKey?: string;
   },
   { authInfo }: RequestHandlerExtra<ServerRequest, ServerNotification>
 ): Promise<CallToolResult> {
-  const tenantId = authInfo?.extra?.tenantId as string | undefined;
-  if (!tenantId) {
+  const tenant = getTenantContext(authInfo);
+  if (!tenant) {
     return {
       isError: true,
       content: [{ type: "text", text: "ERROR: No tenant ID provided" }],
     };
   }
-  const scenario = faker.number.int({ min: 1, max: 3 });
-
-  switch (scenario) {
-    case 1: {
-      // Successful booking
-      const booking = await createFlightBooking(tenantId, {
-        departureDateTime: departure.toString(),
-        flightNumber: flightNumber,
-        flightClass: flightClass,
-        passengers: [
-          {
-            name: faker.person.fullName(),
-            seat: faker.airline.seat(),
-          },
-        ],
-        status: "CONFIRMED",
-        loyaltyInfo: frequentFlyerNumber
-          ? `Frequent Flyer: ${frequentFlyerNumber}`
-          : undefined,
-      });
-
-      const frequentFlyerMessage = frequentFlyerNumber
-        ? `Frequent Flyer number ${frequentFlyerNumber} has been added to your booking.`
-        : "";
-
-      return {
-        isError: false,
-        content: [
-          {
-            type: "text",
-            text: `Booking successful! Your confirmation number is ${booking.bookingId}. ${frequentFlyerMessage}`,
-          },
-        ],
-      };
+  const { tenantId, userId } = tenant;
+
+  const request: IdempotentRequest = {
+    tool: "book_flight",
+    userId,
+    idempotencyKey,
+    params: { flightNumber, departure, flightClass, origin, destination, frequentFlyerNumber, international, price, costCenter },
+  };
+
+  try {
+    // A retry returns the original confirmation without charging again.
+    const replay = await findIdempotentReplay(tenantId, request);
+    if (replay?.type === "FLIGHT") {
+      return flightConfirmation(replay, frequentFlyerNumber);
+    }
+
+    const flight = await getInventory().getFlight(tenantId, flightNumber, departure, { origin, destination });
+    if (!flight) {
+      return toolError(
+        "FLIGHT_NOT_FOUND",
+        `No flight ${flightNumber} from ${origin} to ${destination} departs on ${departure}. Search for it with find_flights first.`,
+        { flightNumber, origin, destination, departure }
+      );
+    }
+    const seat = flight.availableSeats.find(s => s.flightClass.toLowerCase() === flightClass.toLowerCase());
+    if (!seat) {
+      return toolError(
+        "INVALID_FLIGHT_CLASS",
+        `Flight ${flight.flightNumber} has no ${flightClass} class. Available classes: ${flight.availableSeats.map(s => s.flightClass).join(", ")}.`,
+        { flightNumber: flight.flightNumber, flightClass }
+      );
+    }
+    if (price !== undefined && price !== seat.price) {
+      return toolError(
+        "PRICE_CHANGED",
+        `The ${seat.flightClass} fare of flight ${flight.flightNumber} is ${seat.price}, not ${price}.`,
+        { flightNumber: flight.flightNumber, quoted: price, price: seat.price }
+      );
     }
 
-    case 2:
-      // Credit card denied
-      return {
-        isError: true,
-        content: [
-          {
-            type: "text",
-            text: "ERROR: Credit card payment was declined. Please try a different payment method.",
-          },
-        ],
-      };
-
-    case 3:
-      // Flight sold out
-      return {
-        isError: true,
-        content: [
-          {
-            type: "text",
-            text: "ERROR: We apologize, but this flight has sold out while processing your booking.",
-          },
-        ],
-      };
-    default:
-      // Unreachable: scenario is always 1-3
-      throw new Error(`Unexpected scenario: ${scenario}`);
+    const policy = await evaluateFlightBooking(tenantId, {
+      flightNumber: flight.flightNumber,
+      airline: flight.airline,
+      departure,
+      flightClass: seat.flightClass,
+      international,
+      price: seat.price,
+    });
+    return await attemptFlightBooking(tenantId, request, policy, approvalRequest(policy, userId), {
+      flight,
+      flightClass: seat.flightClass,
+      frequentFlyerNumber,
+      bookedBy: userId,
+      price: seat.price,
+      costCenter,
+    });
+  } catch (error) {
+    if (error instanceof IdempotencyKeyReusedError) {
+      return toolError("IDEMPOTENCY_KEY_REUSED", error.message, { bookingId: error.bookingId });
+    }
+    throw error;
   }
 }
+
+async function attemptFlightBooking(
+  tenantId: string,
+  request: IdempotentRequest,
+  policy: PolicyVerdict,
+  approval: ApprovalRequest | undefined,
+  {
+    flight,
+    flightClass,
+    frequentFlyerNumber,
+    bookedBy,
+    price,
+    costCenter,
+  }: {
+    flight: FlightInfo;
+    flightClass: string;
+    frequentFlyerNumber?: string;
+    bookedBy: string;
+    price: number;
+    costCenter?: string;
+  }
+): Promise<CallToolResult> {
+  const reservation = await getInventory().reserveSeat(tenantId, flight, flightClass);
+  if (!reservation) {
+    return toolError(
+      "SOLD_OUT",
+      `${flightClass} on flight ${flight.flightNumber} is sold out.`,
+      { flightNumber: flight.flightNumber, flightClass }
+    );
+  }
+
+  // Pending if it needs approval
+  const booking = await createFlightBooking(tenantId, {
+    departureDateTime: flight.departure,
+    flightNumber: flight.flightNumber,
+    flightClass,
+    destination: flight.destination,
+    passengers: [
+      {
+        name: faker.person.fullName(),
+        seat: faker.airline.seat(),
+      },
+    ],
+    status: approval ? "PENDING" : "CONFIRMED",
+    bookedBy,
+    price,
+    currency: flight.currency,
+    costCenter,
+    loyaltyInfo: frequentFlyerNumber
+      ? `Frequent Flyer: ${frequentFlyerNumber}`
+      : undefined,
+    approval,
+  }, request, reservation);
+
+  return flightConfirmation(booking, frequentFlyerNumber, policy);
+}
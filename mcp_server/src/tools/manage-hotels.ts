@@ -1,71 +1,22 @@
 import { faker } from "@faker-js/faker";
 import type { CallToolResult, ServerRequest, ServerNotification } from "@modelcontextprotocol/sdk/types.js";
 import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
-import { getDynamoDbClient, TABLE_NAME } from "../services/dynamoDb.js";
-import { PutCommand } from "@aws-sdk/lib-dynamodb";
-import { HotelBooking } from "../types/booking.js";
+import { getBookingRepository, ConditionFailedError, IdempotencyKeyReusedError } from "../repositories/booking-repository.js";
+import { createIdempotentBooking, findIdempotentReplay } from "../services/idempotency.js";
+import type { IdempotentRequest } from "../services/idempotency.js";
+import { ApprovalRequest, Booking, BookingStatus, HotelBooking } from "../types/booking.js";
+import { toolError } from "./tool-errors.js";
+import { getTenantContext } from "../auth/tenant-context.js";
+import { approvalRequest, evaluateHotelBooking, policyMessage } from "../policy/travel-policy.js";
+import type { PolicyVerdict } from "../policy/travel-policy.js";
+import { nightsBetween } from "../utils/dates.js";
+import { getInventory, MAX_STAY_NIGHTS, ROOM_TYPES } from "../services/inventory.js";
+import { resubmitForApproval } from "../services/booking-status.js";
+import type { Reservation } from "../services/inventory.js";
+import type { HotelInfo } from "../types/inventory.js";
+import log4js from "../utils/logging.js";
 
-export interface HotelInfo {
-  checkIn: Date;
-  checkOut: Date;
-  hotelName: string;
-  location: {
-    address: string;
-    city: string;
-    country: string;
-    coordinates: {
-      latitude: number;
-      longitude: number;
-    };
-  };
-  rating: number;
-  availableRooms: {
-    roomType: string;
-    bedType: string;
-    occupancy: {
-      max: number;
-      recommended: number;
-    };
-    amenities: string[];
-    pricePerNight: number;
-    available: number;
-  }[];
-  facilities: string[];
-  loyaltyProgram: {
-    programName: string;
-    pointsEarned: number;
-    tierPointsEarned: number;
-  };
-}
-
-const HOTEL_CHAINS = ["Marriott", "Hilton", "Hyatt", "IHG"];
-const ROOM_TYPES = ["Standard", "Deluxe", "Suite", "Presidential Suite"];
-const BED_TYPES = ["King", "Queen", "Twin", "Double"];
-const AMENITIES = [
-  "WiFi",
-  "Mini Bar",
-  "Ocean View",
-  "Balcony",
-  "Kitchen",
-  "Jacuzzi",
-  "Work Desk",
-  "Dog Friendly",
-];
-const FACILITIES = [
-  "Pool",
-  "Spa",
-  "Gym",
-  "Restaurant",
-  "Bar",
-  "Business Center",
-  "Conference Rooms",
-];
-const LOYALTY_PROGRAMS: Record<string, string> = {
-  Marriott: "Bonvoy",
-  Hilton: "Honors",
-  Hyatt: "World of Hyatt",
-  IHG: "One Rewards",
-};
+const l = log4js.getLogger("Manage Hotels");
 
 interface CreateHotelBookingInput {
   hotelName: string;
@@ -74,15 +25,25 @@ interface CreateHotelBookingInput {
   checkOutDate: string;
   roomType: string;
   numberOfGuests: number;
-  status: "CONFIRMED" | "PENDING" | "CANCELLED";
+  status: BookingStatus;
+  bookedBy: string;
+  pricePerNight?: number;
+  currency: string;
+  costCenter?: string;
   loyaltyInfo?: string;
+  approval?: ApprovalRequest;
 }
 
+/**
+ * Store the booking for a reserved room. The room is released again if the
+ * booking is not stored.
+ */
 async function createHotelBooking(
   tenantId: string,
-  input: CreateHotelBookingInput
+  input: CreateHotelBookingInput,
+  request: IdempotentRequest,
+  reservation: Reservation
 ): Promise<HotelBooking> {
-  const dynamoDB = await getDynamoDbClient(tenantId);
   const bookingId = faker.string.alphanumeric({
     length: 6,
     casing: "upper",
@@ -96,6 +57,9 @@ async function createHotelBooking(
     type: "HOTEL",
     status: input.status,
     bookingDate: new Date().toISOString(),
+    bookedBy: input.bookedBy,
+    ...stayPrice(input.pricePerNight, input.checkInDate, input.checkOutDate, input.currency),
+    ...(input.costCenter ? { costCenter: input.costCenter } : {}),
     hotelName: input.hotelName,
     location: input.location,
     checkInDate: input.checkInDate,
@@ -103,80 +67,77 @@ async function createHotelBooking(
     roomType: input.roomType,
     numberOfGuests: input.numberOfGuests,
     loyaltyInfo: input.loyaltyInfo,
-  };
-
-  const params = {
-    TableName: TABLE_NAME,
-    Item: booking,
+    ...(input.approval ? { approval: input.approval } : {}),
   };
 
   try {
-    const command = new PutCommand(params);
-    await dynamoDB.send(command);
-    return booking;
+    const stored = await createIdempotentBooking(tenantId, booking, request);
+    // A concurrent retry may have won the race; its booking is returned then
+    // and holds its own room.
+    if (stored.bookingId !== bookingId) {
+      await reservation.release();
+    }
+    return stored as HotelBooking;
   } catch (error) {
-    console.error("Error creating hotel booking:", error);
+    await reservation.release();
     throw error;
   }
 }
 
-export function listHotels({
-  city,
-  checkIn,
-  checkOut,
-  guests: _guests,
-}: {
-  city: string;
-  checkIn: string;
-  checkOut: string;
-  guests: number;
-}): CallToolResult {
-  const hotelCount = 4;
-  const hotels: HotelInfo[] = [];
-
-  for (let i = 0; i < hotelCount; i++) {
-    const hotelChain = faker.helpers.arrayElement(HOTEL_CHAINS);
-
-    const hotel: HotelInfo = {
-      checkIn: new Date(checkIn),
-      checkOut: new Date(checkOut),
-      hotelName: `${hotelChain} ${faker.location.city()}`,
-      location: {
-        address: faker.location.streetAddress(),
-        city: city,
-        country: faker.location.country(),
-        coordinates: {
-          latitude: +faker.location.latitude(),
-          longitude: +faker.location.longitude(),
-        },
-      },
-      rating: faker.number.float({ min: 3, max: 5, fractionDigits: 1 }),
-      availableRooms: ROOM_TYPES.map((type) => ({
-        roomType: type,
-        bedType: faker.helpers.arrayElement(BED_TYPES),
-        occupancy: {
-          max: faker.number.int({ min: 2, max: 6 }),
-          recommended: faker.number.int({ min: 1, max: 4 }),
-        },
-        amenities: faker.helpers.arrayElements(AMENITIES, {
-          min: 2,
-          max: 5,
-        }),
-        pricePerNight: faker.number.int({ min: 100, max: 1000 }),
-        available: faker.number.int({ min: 0, max: 10 }),
-      })),
-      facilities: faker.helpers.arrayElements(FACILITIES, {
-        min: 3,
-        max: 7,
-      }),
-      loyaltyProgram: {
-        programName: LOYALTY_PROGRAMS[hotelChain],
-        pointsEarned: faker.number.int({ min: 500, max: 5000 }),
-        tierPointsEarned: faker.number.int({ min: 50, max: 500 }),
+/**
+ * The price fields of a stay at the quoted nightly rate, if there is one.
+ */
+function stayPrice(
+  pricePerNight: number | undefined,
+  checkIn: string,
+  checkOut: string,
+  currency: string,
+): Pick<HotelBooking, "pricePerNight" | "price" | "currency"> {
+  if (pricePerNight === undefined) {
+    return {};
+  }
+  const nights = nightsBetween(checkIn, checkOut) ?? 1;
+  return { pricePerNight, price: pricePerNight * nights, currency };
+}
+
+function hotelConfirmation(booking: HotelBooking, loyaltyNumber?: string, policy?: PolicyVerdict): CallToolResult {
+  const loyaltyMessage = loyaltyNumber
+    ? `Loyalty number ${loyaltyNumber} has been added to your booking.`
+    : "";
+  return {
+    isError: false,
+    content: [
+      {
+        type: "text",
+        text: `${booking.status === "PENDING" ? "Booking submitted for approval." : "Booking successful!"} Your confirmation number is ${booking.bookingId}. ${loyaltyMessage}${policyMessage(policy)}`,
       },
+    ],
+    structuredContent: { booking, ...(policy ? { policy } : {}) },
+  };
+}
+
+export async function listHotels(
+  {
+    city,
+    checkIn,
+    checkOut,
+    guests: _guests,
+  }: {
+    city: string;
+    checkIn: string;
+    checkOut: string;
+    guests: number;
+  },
+  { authInfo }: RequestHandlerExtra<ServerRequest, ServerNotification>
+): Promise<CallToolResult> {
+  const tenant = getTenantContext(authInfo);
+  if (!tenant) {
+    return {
+      isError: true,
+      content: [{ type: "text", text: "ERROR: No tenant ID provided" }],
     };
-    hotels.push(hotel);
   }
+  const hotels = await getInventory().findHotels(tenant.tenantId, city, checkIn, checkOut);
 
   return {
     isError: false,
@@ -186,6 +147,7 @@ export function listHotels({
         text: JSON.stringify(hotels),
       },
     ],
+    structuredContent: { hotels },
   };
 }
 
@@ -196,156 +158,371 @@ export async function bookHotel(
     checkOut,
     roomType,
     guests,
+    city,
     loyaltyNumber,
+    pricePerNight,
+    costCenter,
+    idempotencyKey,
   }: {
     hotelName: string;
     checkIn: string;
     checkOut: string;
     roomType: string;
     guests: number;
+    city: string;
     loyaltyNumber?: string;
+    pricePerNight?: number;
+    costCenter?: string;
+    idempotencyKey?: string;
   },
   { authInfo }: RequestHandlerExtra<ServerRequest, ServerNotification>
 ): Promise<CallToolResult> {
-  const tenantId = authInfo?.extra?.tenantId as string | undefined;
-  if (!tenantId) {
+  const tenant = getTenantContext(authInfo);
+  if (!tenant) {
     return {
       isError: true,
       content: [{ type: "text", text: "ERROR: No tenant ID provided" }],
     };
   }
-  const scenario = faker.number.int({ min: 1, max: 4 });
-
-  switch (scenario) {
-    case 1: {
-      // Successful booking
-      const booking = await createHotelBooking(tenantId, {
-        checkInDate: checkIn.toString(),
-        checkOutDate: checkOut.toString(),
-        hotelName,
-        roomType,
-        numberOfGuests: guests,
-        status: "CONFIRMED",
-        loyaltyInfo: loyaltyNumber,
-        location: faker.location.city(),
-      });
-
-      const loyaltyMessage = loyaltyNumber
-        ? `Loyalty number ${loyaltyNumber} has been added to your booking.`
-        : "";
-      return {
-        isError: false,
-        content: [
-          {
-            type: "text",
-            text: `Booking successful! Your confirmation number is ${booking.bookingId}. ${loyaltyMessage}`,
-          },
-        ],
-      };
+  const { tenantId, userId } = tenant;
+
+  const request: IdempotentRequest = {
+    tool: "book_hotel",
+    userId,
+    idempotencyKey,
+    params: { hotelName, checkIn, checkOut, roomType, guests, city, loyaltyNumber, pricePerNight, costCenter },
+  };
+
+  try {
+    // A retry returns the original confirmation without charging again.
+    const replay = await findIdempotentReplay(tenantId, request);
+    if (replay?.type === "HOTEL") {
+      return hotelConfirmation(replay, loyaltyNumber);
     }
 
-    case 2:
-      // Payment failed
-      return {
-        isError: true,
-        content: [
-          {
-            type: "text",
-            text: "ERROR: Payment processing failed. Please try a different payment method.",
-          },
-        ],
-      };
+    const nights = nightsBetween(checkIn, checkOut);
+    if (nights === undefined || nights > MAX_STAY_NIGHTS) {
+      return toolError(
+        "INVALID_DATES",
+        nights === undefined
+          ? "Check-out date must be after check-in date."
+          : `A stay can be booked for at most ${MAX_STAY_NIGHTS} nights.`,
+        { checkIn, checkOut }
+      );
+    }
+    const hotel = await getInventory().getHotel(tenantId, hotelName, city, checkIn, checkOut);
+    if (!hotel) {
+      return toolError(
+        "HOTEL_NOT_FOUND",
+        `No hotel named ${hotelName} was found in ${city}. Search for it with list_hotels first.`,
+        { hotelName, city }
+      );
+    }
+    const room = hotel.availableRooms.find(r => r.roomType.toLowerCase() === roomType.toLowerCase());
+    if (!room) {
+      return toolError(
+        "INVALID_ROOM_TYPE",
+        `${hotel.hotelName} has no ${roomType} rooms. Available room types: ${hotel.availableRooms.map(r => r.roomType).join(", ")}.`,
+        { hotelName: hotel.hotelName, roomType }
+      );
+    }
+    if (pricePerNight !== undefined && pricePerNight !== room.pricePerNight) {
+      return toolError(
+        "PRICE_CHANGED",
+        `The nightly rate of a ${room.roomType} room at ${hotel.hotelName} is ${room.pricePerNight}, not ${pricePerNight}.`,
+        { hotelName: hotel.hotelName, quoted: pricePerNight, price: room.pricePerNight }
+      );
+    }
 
-    case 3:
-      // Room unavailable
-      return {
-        isError: true,
-        content: [
-          {
-            type: "text",
-            text: "ERROR: We apologize, but this room type is no longer available for your selected dates.",
-          },
-        ],
-      };
+    const policy = await evaluateHotelBooking(tenantId, {
+      hotelName: hotel.hotelName,
+      pricePerNight: room.pricePerNight,
+      checkIn,
+      checkOut,
+    });
+    return await attemptHotelBooking(tenantId, request, policy, approvalRequest(policy, userId), {
+      hotel,
+      roomType: room.roomType,
+      checkIn,
+      checkOut,
+      guests,
+      loyaltyNumber,
+      bookedBy: userId,
+      pricePerNight: room.pricePerNight,
+      costCenter,
+    });
+  } catch (error) {
+    if (error instanceof IdempotencyKeyReusedError) {
+      return toolError("IDEMPOTENCY_KEY_REUSED", error.message, { bookingId: error.bookingId });
+    }
+    throw error;
+  }
+}
 
-    case 4:
-      // Invalid dates
-      return {
-        isError: true,
-        content: [
-          {
-            type: "text",
-            text: "ERROR: The selected dates are invalid or outside the booking window.",
-          },
-        ],
-      };
-    default:
-      // Unreachable: scenario is always 1-4
-      throw new Error(`Unexpected scenario: ${scenario}`);
+async function attemptHotelBooking(
+  tenantId: string,
+  request: IdempotentRequest,
+  policy: PolicyVerdict,
+  approval: ApprovalRequest | undefined,
+  {
+    hotel,
+    roomType,
+    checkIn,
+    checkOut,
+    guests,
+    loyaltyNumber,
+    bookedBy,
+    pricePerNight,
+    costCenter,
+  }: {
+    hotel: HotelInfo;
+    roomType: string;
+    checkIn: string;
+    checkOut: string;
+    guests: number;
+    loyaltyNumber?: string;
+    bookedBy: string;
+    pricePerNight: number;
+    costCenter?: string;
+  }
+): Promise<CallToolResult> {
+  const reservation = await getInventory().reserveRoom(tenantId, hotel, roomType);
+  if (!reservation) {
+    return toolError(
+      "SOLD_OUT",
+      `No ${roomType} room is left at ${hotel.hotelName} for every night from ${checkIn} to ${checkOut}.`,
+      { hotelName: hotel.hotelName, roomType, checkIn, checkOut }
+    );
   }
+
+  // Pending if it needs approval
+  const booking = await createHotelBooking(tenantId, {
+    checkInDate: checkIn,
+    checkOutDate: checkOut,
+    hotelName: hotel.hotelName,
+    roomType,
+    numberOfGuests: guests,
+    status: approval ? "PENDING" : "CONFIRMED",
+    bookedBy,
+    pricePerNight,
+    currency: hotel.currency,
+    costCenter,
+    loyaltyInfo: loyaltyNumber,
+    location: hotel.location.city,
+    approval,
+  }, request, reservation);
+
+  return hotelConfirmation(booking, loyaltyNumber, policy);
 }
 
-export async function modifyHotelBooking({
-  confirmationNumber,
-  modification,
-}: {
-  confirmationNumber: string;
-  modification: {
-    type: "CHANGE_DATES" | "UPGRADE_ROOM" | "MODIFY_GUESTS" | "ADD_SERVICES";
-    newCheckIn?: Date;
-    newCheckOut?: Date;
-    newRoomType?: string;
-    guestCount?: number;
-    additionalServices?: string[];
-  };
-}) {
-  await new Promise((resolve) => setTimeout(resolve, 1000));
+export type HotelBookingModification =
+  | { type: "CHANGE_DATES"; newCheckIn: string; newCheckOut: string }
+  | { type: "UPGRADE_ROOM"; newRoomType: string }
+  | { type: "MODIFY_GUESTS"; guestCount: number }
+  | { type: "ADD_SERVICES"; additionalServices: string[] };
 
-  const scenario = faker.number.int({ min: 1, max: 3 });
+const MODIFICATION_MESSAGES: Record<HotelBookingModification["type"], string> = {
+  CHANGE_DATES: "Dates updated successfully.",
+  UPGRADE_ROOM: "Room upgraded successfully.",
+  MODIFY_GUESTS: "Guest count updated successfully.",
+  ADD_SERVICES: "Additional services added successfully.",
+};
 
-  switch (scenario) {
-    case 1:
-      // Successful modification
-      return {
-        isError: false,
-        content: [
-          {
-            type: "text",
-            text: `Booking ${confirmationNumber} has been successfully modified. ${
-              modification.type === "UPGRADE_ROOM"
-                ? "Room upgraded successfully."
-                : modification.type === "CHANGE_DATES"
-                ? "Dates updated successfully."
-                : modification.type === "MODIFY_GUESTS"
-                ? "Guest count updated successfully."
-                : "Additional services added successfully."
-            }`,
-          },
-        ],
-      };
+const REPRICED_MODIFICATIONS: ReadonlySet<HotelBookingModification["type"]> = new Set(["CHANGE_DATES", "UPGRADE_ROOM"]);
 
-    case 2:
-      // Modification not available
-      return {
-        isError: true,
-        content: [
-          {
-            type: "text",
-            text: "ERROR: The requested modification is not available for this booking.",
-          },
-        ],
-      };
+/**
+ * Apply a modification to a copy of the booking. Returns an error message
+ * instead if the change is not valid for this booking.
+ */
+function applyModification(
+  booking: HotelBooking,
+  modification: HotelBookingModification
+): HotelBooking | string {
+  switch (modification.type) {
+    case "CHANGE_DATES":
+      if (modification.newCheckIn < new Date().toISOString().substring(0, 10)) {
+        return "Check-in date must not be in the past.";
+      }
+      if (modification.newCheckOut <= modification.newCheckIn) {
+        return "Check-out date must be after check-in date.";
+      }
+      if ((nightsBetween(modification.newCheckIn, modification.newCheckOut) ?? 0) > MAX_STAY_NIGHTS) {
+        return `A stay can be booked for at most ${MAX_STAY_NIGHTS} nights.`;
+      }
+      return { ...booking, checkInDate: modification.newCheckIn, checkOutDate: modification.newCheckOut };
 
-    case 3:
-      // Invalid confirmation number
+    case "UPGRADE_ROOM": {
+      // ROOM_TYPES is ordered from lowest to highest category.
+      const current = ROOM_TYPES.indexOf(booking.roomType);
+      const requested = ROOM_TYPES.indexOf(modification.newRoomType);
+      if (requested === -1) {
+        return `Unknown room type ${modification.newRoomType}. Available room types: ${ROOM_TYPES.join(", ")}.`;
+      }
+      if (requested <= current) {
+        return `${modification.newRoomType} is not an upgrade from ${booking.roomType}.`;
+      }
+      return { ...booking, roomType: modification.newRoomType };
+    }
+
+    case "MODIFY_GUESTS":
+      return { ...booking, numberOfGuests: modification.guestCount };
+
+    case "ADD_SERVICES":
       return {
-        isError: true,
-        content: [
-          {
-            type: "text",
-            text: "ERROR: Invalid confirmation number. Please check and try again.",
-          },
-        ],
+        ...booking,
+        additionalServices: [...new Set([...(booking.additionalServices ?? []), ...modification.additionalServices])],
       };
   }
 }
+
+export async function modifyHotelBooking(
+  {
+    confirmationNumber,
+    modification,
+  }: {
+    confirmationNumber: string;
+    modification: HotelBookingModification;
+  },
+  { authInfo }: RequestHandlerExtra<ServerRequest, ServerNotification>
+): Promise<CallToolResult> {
+  const tenant = getTenantContext(authInfo);
+  if (!tenant) {
+    return {
+      isError: true,
+      content: [{ type: "text", text: "ERROR: No tenant ID provided" }],
+    };
+  }
+  const { tenantId, userId } = tenant;
+
+  const repository = getBookingRepository();
+  const booking = await repository.get(tenantId, "HOTEL", confirmationNumber);
+  if (booking?.type !== "HOTEL") {
+    return toolError(
+      "BOOKING_NOT_FOUND",
+      `No hotel booking found with confirmation number ${confirmationNumber}`,
+      { bookingId: confirmationNumber }
+    );
+  }
+  if (booking.status === "CANCELLED") {
+    return toolError(
+      "BOOKING_NOT_MODIFIABLE",
+      `Booking ${confirmationNumber} is cancelled and can no longer be modified`,
+      { bookingId: confirmationNumber, currentStatus: booking.status }
+    );
+  }
+  if (booking.status === "PENDING") {
+    return toolError(
+      "BOOKING_NOT_MODIFIABLE",
+      `Booking ${confirmationNumber} is awaiting approval and cannot be modified until it is approved or rejected`,
+      { bookingId: confirmationNumber, currentStatus: booking.status }
+    );
+  }
+
+  let modified = applyModification(booking, modification);
+  if (typeof modified === "string") {
+    return toolError("INVALID_MODIFICATION", modified, {
+      bookingId: confirmationNumber,
+      modificationType: modification.type,
+    });
+  }
+
+  // The guests must fit in the room, and new dates or an upgraded room are
+  // charged the room's current nightly rate.
+  if (modification.type !== "ADD_SERVICES") {
+    const { roomType, checkInDate, checkOutDate, numberOfGuests } = modified;
+    const hotel = await getInventory().getHotel(tenantId, booking.hotelName, booking.location, checkInDate, checkOutDate);
+    const room = hotel?.availableRooms.find(r => r.roomType === roomType);
+    if (!hotel || !room) {
+      return toolError(
+        "HOTEL_NOT_FOUND",
+        `No ${roomType} room of hotel ${booking.hotelName} was found in ${booking.location}.`,
+        { bookingId: confirmationNumber, hotelName: booking.hotelName, city: booking.location, roomType }
+      );
+    }
+    if (numberOfGuests > room.occupancy.max) {
+      return toolError(
+        "INVALID_MODIFICATION",
+        `A ${roomType} room at ${booking.hotelName} sleeps at most ${room.occupancy.max} guests.`,
+        { bookingId: confirmationNumber, modificationType: modification.type, maxOccupancy: room.occupancy.max }
+      );
+    }
+    if (REPRICED_MODIFICATIONS.has(modification.type)) {
+      modified = { ...modified, ...stayPrice(room.pricePerNight, checkInDate, checkOutDate, hotel.currency) };
+    }
+  }
+
+  // A modification that changes the cost of the stay is checked against the
+  // travel policy again, and goes back for approval if it needs it.
+  let policy: PolicyVerdict | undefined;
+  let result = modified;
+  if (REPRICED_MODIFICATIONS.has(modification.type)) {
+    policy = await evaluateHotelBooking(tenantId, {
+      hotelName: modified.hotelName,
+      pricePerNight: modified.pricePerNight,
+      checkIn: modified.checkInDate,
+      checkOut: modified.checkOutDate,
+    });
+    const approval = approvalRequest(policy, userId);
+    if (approval) {
+      result = resubmitForApproval(booking, modified, approval, userId);
+    }
+  }
+
+  // New nights or a new room type are taken before the booking is changed.
+  const reservation = await getInventory().reserveChange(tenantId, booking, result);
+  if (!reservation) {
+    return toolError(
+      "SOLD_OUT",
+      `No ${result.roomType} room is left at ${result.hotelName} for every night from ${result.checkInDate} to ${result.checkOutDate}.`,
+      { bookingId: confirmationNumber, hotelName: result.hotelName, roomType: result.roomType }
+    );
+  }
+
+  let updated: Booking;
+  try {
+    updated = await repository.update(tenantId, {
+      ...result,
+      updatedAt: new Date().toISOString(),
+      updatedBy: userId,
+    });
+  } catch (error) {
+    await reservation.release();
+    if (error instanceof ConditionFailedError) {
+      return toolError(
+        "BOOKING_MODIFIED",
+        `Booking ${confirmationNumber} was changed by another request. Please retry.`,
+        { bookingId: confirmationNumber }
+      );
+    }
+    throw error;
+  }
+  // The nights and room the booking no longer needs are given back. A
+  // modification awaiting approval keeps them until it is decided on.
+  if (updated.status !== "PENDING") {
+    try {
+      await getInventory().releaseBooking(tenantId, booking, updated);
+    } catch (error) {
+      // The booking is modified either way; failing here would only make
+      // the caller retry a modification that has already been made.
+      l.error(`Could not release the inventory the modified booking ${confirmationNumber} of tenant ${tenantId} no longer needs:`, error);
+    }
+  }
+
+  const outcome = updated.status === "PENDING"
+    ? " The modified booking has been submitted for approval; until it is approved, the booking as confirmed before is kept."
+    : "";
+  return {
+    isError: false,
+    content: [
+      {
+        type: "text",
+        text: `Booking ${confirmationNumber} has been successfully modified. ${MODIFICATION_MESSAGES[modification.type]}${outcome}${policyMessage(policy)}`,
+      },
+      {
+        type: "text",
+        text: JSON.stringify(updated),
+      },
+    ],
+    structuredContent: { booking: updated, ...(policy ? { policy } : {}) },
+  };
+}
@@ -0,0 +1,297 @@
+import { z } from "zod";
+import type { ApprovalRequest, FlightBooking, HotelBooking, HotelStay, Passenger, StatusChange } from "../types/booking.js";
+import type { FlightInfo, HotelInfo } from "../types/inventory.js";
+import type { LoyaltyProgram } from "./frequent-flyer.js";
+import type { PolicyCheck, PolicyFinding, PolicyVerdict } from "../policy/travel-policy.js";
+import type { SpendSummary } from "../services/spend.js";
+
+// Output schemas for `registerTool`. Each one `satisfies` the TypeScript type
+// it describes, so the two cannot drift apart silently.
+
+const bookingStatusSchema = z.enum(["CONFIRMED", "PENDING", "CANCELLED"]);
+
+const passengerSchema = z.object({
+  name: z.string(),
+  seat: z.string(),
+}) satisfies z.ZodType<Passenger>;
+
+const statusChangeSchema = z.object({
+  from: bookingStatusSchema,
+  to: bookingStatusSchema,
+  changedBy: z.string(),
+  changedAt: z.string(),
+  reason: z.string().optional(),
+  decision: z.enum(["APPROVED", "REJECTED"]).optional(),
+}) satisfies z.ZodType<StatusChange>;
+
+const approvalRequestSchema = z.object({
+  requestedBy: z.string(),
+  requestedAt: z.string(),
+  reasons: z.array(z.string()),
+}) satisfies z.ZodType<ApprovalRequest>;
+
+const baseBookingShape = {
+  PK: z.string(),
+  SK: z.string(),
+  tenantId: z.string(),
+  bookingId: z.string(),
+  status: bookingStatusSchema,
+  bookingDate: z.string(),
+  bookedBy: z.string().optional(),
+  price: z.number().optional(),
+  currency: z.string().optional(),
+  costCenter: z.string().optional(),
+  loyaltyInfo: z.string().optional(),
+  updatedAt: z.string().optional(),
+  updatedBy: z.string().optional(),
+  statusHistory: z.array(statusChangeSchema).optional(),
+  approval: approvalRequestSchema.optional(),
+  version: z.number().optional(),
+  travelDate: z.string().optional(),
+  destinationKey: z.string().optional(),
+  travelerKeys: z.array(z.string()).optional(),
+};
+
+export const flightBookingSchema = z.object({
+  ...baseBookingShape,
+  type: z.literal("FLIGHT"),
+  flightNumber: z.string(),
+  class: z.string(),
+  departureDateTime: z.string(),
+  destination: z.string().optional(),
+  passengers: z.array(passengerSchema),
+}) satisfies z.ZodType<FlightBooking>;
+
+const hotelStaySchema = z.object({
+  checkInDate: z.string(),
+  checkOutDate: z.string(),
+  roomType: z.string(),
+  pricePerNight: z.number().optional(),
+  price: z.number().optional(),
+  currency: z.string().optional(),
+}) satisfies z.ZodType<HotelStay>;
+
+export const hotelBookingSchema = z.object({
+  ...baseBookingShape,
+  type: z.literal("HOTEL"),
+  hotelName: z.string(),
+  location: z.string(),
+  checkInDate: z.string(),
+  checkOutDate: z.string(),
+  roomType: z.string(),
+  numberOfGuests: z.number(),
+  pricePerNight: z.number().optional(),
+  additionalServices: z.array(z.string()).optional(),
+  modifiedFrom: hotelStaySchema.optional(),
+}) satisfies z.ZodType<HotelBooking>;
+
+const policyFindingSchema = z.object({
+  rule: z.enum([
+    "CABIN_CLASS",
+    "LODGING_LIMIT",
+    "ADVANCE_BOOKING",
+    "BLACKLISTED_VENDOR",
+    "PREFERRED_VENDOR",
+    "APPROVAL_THRESHOLD",
+    "POLICY_INVALID",
+    "POLICY_UNAVAILABLE",
+  ]),
+  message: z.string(),
+  limit: z.union([z.number(), z.string(), z.array(z.string())]).optional(),
+  actual: z.union([z.number(), z.string()]).optional(),
+}) satisfies z.ZodType<PolicyFinding>;
+
+const policyCheckSchema = policyFindingSchema.extend({
+  outcome: z.enum(["PASS", "VIOLATION", "WARNING", "APPROVAL_REQUIRED"]),
+}) satisfies z.ZodType<PolicyCheck>;
+
+export const policyVerdictSchema = z.object({
+  compliant: z.boolean(),
+  approvalRequired: z.boolean(),
+  violations: z.array(policyFindingSchema),
+  warnings: z.array(policyFindingSchema),
+  approvals: z.array(policyFindingSchema),
+}) satisfies z.ZodType<PolicyVerdict>;
+
+export const bookingSchema = z.discriminatedUnion("type", [flightBookingSchema, hotelBookingSchema]);
+
+export const flightInfoSchema = z.object({
+  departure: z.string(),
+  arrival: z.string(),
+  origin: z.string(),
+  destination: z.string(),
+  distance: z.number(),
+  duration: z.number(),
+  stops: z.number(),
+  flightNumber: z.string(),
+  airline: z.string(),
+  currency: z.string(),
+  availableSeats: z.array(z.object({
+    flightClass: z.string(),
+    count: z.number(),
+    price: z.number(),
+  })),
+  frequentFlyerInfo: z.object({
+    programName: z.string(),
+    milesEarned: z.number(),
+    tierPointsEarned: z.number(),
+  }),
+}) satisfies z.ZodType<FlightInfo>;
+
+export const hotelInfoSchema = z.object({
+  checkIn: z.string(),
+  checkOut: z.string(),
+  hotelName: z.string(),
+  location: z.object({
+    address: z.string(),
+    city: z.string(),
+    country: z.string(),
+    coordinates: z.object({
+      latitude: z.number(),
+      longitude: z.number(),
+    }),
+  }),
+  rating: z.number(),
+  currency: z.string(),
+  availableRooms: z.array(z.object({
+    roomType: z.string(),
+    bedType: z.string(),
+    occupancy: z.object({
+      max: z.number(),
+      recommended: z.number(),
+    }),
+    amenities: z.array(z.string()),
+    pricePerNight: z.number(),
+    available: z.number(),
+  })),
+  facilities: z.array(z.string()),
+  loyaltyProgram: z.object({
+    programName: z.string(),
+    pointsEarned: z.number(),
+    tierPointsEarned: z.number(),
+  }),
+}) satisfies z.ZodType<HotelInfo>;
+
+export const loyaltyProgramSchema = z.object({
+  programName: z.string(),
+  membershipNumber: z.string(),
+  currentPoints: z.number(),
+  currentTier: z.string(),
+  nextTier: z.string(),
+  pointsToNextTier: z.number(),
+}) satisfies z.ZodType<LoyaltyProgram>;
+
+export const whoamiOutputSchema = z.object({
+  principal: z.object({
+    type: z.enum(["user", "machine"]),
+    clientId: z.string().optional(),
+    scopes: z.array(z.string()),
+  }),
+  userInfo: z.object({
+    username: z.string().optional(),
+    email: z.string().optional(),
+    tenantId: z.string().optional(),
+    tenantTier: z.string().optional(),
+  }).nullable(),
+  tokenInfo: z.object({
+    issuer: z.string().optional(),
+    audience: z.union([z.string(), z.array(z.string())]).optional(),
+    expiration: z.string().nullable(),
+    issuedAt: z.string().nullable(),
+    tokenUse: z.string().optional(),
+  }),
+  environment: z.object({
+    cognitoConfigured: z.boolean(),
+    region: z.string(),
+  }),
+});
+
+export const listBookingsOutputSchema = z.object({
+  bookings: z.array(bookingSchema),
+  nextCursor: z.string().optional(),
+});
+
+export const bookingOutputSchema = z.object({
+  booking: bookingSchema,
+});
+
+export const flightBookingOutputSchema = z.object({
+  booking: flightBookingSchema,
+  policy: policyVerdictSchema.optional(),
+});
+
+export const hotelBookingOutputSchema = z.object({
+  booking: hotelBookingSchema,
+  policy: policyVerdictSchema.optional(),
+});
+
+export const listFlightsOutputSchema = z.object({
+  flights: z.array(flightInfoSchema),
+});
+
+export const listHotelsOutputSchema = z.object({
+  hotels: z.array(hotelInfoSchema),
+});
+
+export const checkPolicyOutputSchema = z.object({
+  compliant: z.boolean(),
+  approvalRequired: z.boolean(),
+  option: z.discriminatedUnion("type", [
+    z.object({
+      type: z.literal("FLIGHT"),
+      flightNumber: z.string(),
+      flightClass: z.string(),
+      price: z.number().optional(),
+    }),
+    z.object({
+      type: z.literal("HOTEL"),
+      hotelName: z.string(),
+      roomType: z.string().optional(),
+      pricePerNight: z.number().optional(),
+    }),
+  ]),
+  results: z.array(policyCheckSchema),
+});
+
+export const loyaltyInfoOutputSchema = z.object({
+  airlines: z.record(z.string(), loyaltyProgramSchema),
+  hotels: z.record(z.string(), loyaltyProgramSchema),
+});
+
+const spendGroupSchema = z.object({
+  key: z.string(),
+  spent: z.number(),
+  pending: z.number(),
+  bookings: z.number(),
+});
+
+const budgetScopeSchema = z.enum(["TENANT", "CATEGORY", "COST_CENTER"]);
+
+export const spendSummaryOutputSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  currency: z.string(),
+  total: spendGroupSchema.omit({ key: true }),
+  byTraveler: z.array(spendGroupSchema),
+  byMonth: z.array(spendGroupSchema),
+  byCategory: z.array(spendGroupSchema),
+  byCostCenter: z.array(spendGroupSchema),
+  uncounted: z.number(),
+  budgets: z.array(z.object({
+    scope: budgetScopeSchema,
+    key: z.string(),
+    month: z.string(),
+    budget: z.number(),
+    committed: z.number(),
+    remaining: z.number(),
+    utilization: z.number(),
+    status: z.enum(["OK", "NEARLY_EXHAUSTED", "EXCEEDED"]),
+  })),
+  alerts: z.array(z.object({
+    scope: budgetScopeSchema,
+    key: z.string(),
+    month: z.string(),
+    status: z.enum(["NEARLY_EXHAUSTED", "EXCEEDED"]),
+    message: z.string(),
+  })),
+}) satisfies z.ZodType<SpendSummary>;
@@ -1,33 +1,80 @@
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { listBookings } from "./list-bookings.js";
 import { bookFlight, listFlights } from "./manage-flights.js";
-import { bookHotel, listHotels } from "./manage-hotels.js";
+import { bookHotel, listHotels, modifyHotelBooking } from "./manage-hotels.js";
 import { getLoyaltyProgramInfo } from "./frequent-flyer.js";
+import { cancelBooking } from "./cancel-booking.js";
 import whoami from "./whoami.js";
+import { checkPolicy } from "./check-policy.js";
+import { approveBooking, listPendingApprovals, rejectBooking } from "./approvals.js";
+import { spendSummary } from "./spend-summary.js";
+import {
+  bookingOutputSchema,
+  checkPolicyOutputSchema,
+  flightBookingOutputSchema,
+  hotelBookingOutputSchema,
+  listBookingsOutputSchema,
+  listFlightsOutputSchema,
+  listHotelsOutputSchema,
+  loyaltyInfoOutputSchema,
+  spendSummaryOutputSchema,
+  whoamiOutputSchema,
+} from "./output-schemas.js";
 
-export function registerTools(mcpServer: McpServer) {
-  mcpServer.registerTool(
+/**
+ * Register every tool and return the registrations by tool name.
+ */
+export function registerTools(mcpServer: McpServer): Record<string, RegisteredTool> {
+  const tools: Record<string, RegisteredTool> = {};
+  const registerTool: McpServer["registerTool"] = (name, config, callback) =>
+    (tools[name] = mcpServer.registerTool(name, config, callback));
+
+  registerTool(
     "whoami",
     {
       description: "Returns information about the current user based on their JWT token.",
+      outputSchema: whoamiOutputSchema,
     },
     whoami
   );
 
-  mcpServer.registerTool(
+  registerTool(
     "list_bookings",
     {
-      description: "Get an overview of a user's bookings and optionally filter them by type or ID.",
+      description: "Get an overview of a user's bookings, ordered by travel date, or look one up by ID. Filter by type, status, travel date range, traveler (passenger name, flights only) or destination. Results are paged: pass the returned nextCursor to get the next page.",
       inputSchema: {
         id: z.optional(z.string()),
         type: z.optional(z.enum(["ALL", "HOTEL", "FLIGHT"])),
+        status: z.optional(z.enum(["CONFIRMED", "PENDING", "CANCELLED"])),
+        travelFrom: z.optional(z.iso.date()),
+        travelTo: z.optional(z.iso.date()),
+        traveler: z.optional(z.string()),
+        destination: z.optional(z.string()),
+        sort: z.optional(z.enum(["asc", "desc"])),
+        limit: z.optional(z.coerce.number().int().min(1).max(100)),
+        cursor: z.optional(z.string()),
       },
+      outputSchema: listBookingsOutputSchema,
     },
     listBookings
   );
 
-  mcpServer.registerTool(
+  registerTool(
+    "cancel_booking",
+    {
+      description: "Cancel a flight or hotel booking by its confirmation number, with an optional reason. Confirmed bookings can be cancelled; a booking awaiting approval can only be cancelled by the user who requested it, otherwise an approver approves or rejects it. Cancelling a modification awaiting approval withdraws only the modification.",
+      inputSchema: {
+        bookingId: z.string(),
+        reason: z.optional(z.string()),
+      },
+      outputSchema: bookingOutputSchema,
+    },
+    cancelBooking
+  );
+
+  registerTool(
     "find_flights",
     {
       description: "Search for available flights between two locations on a given date.",
@@ -36,41 +83,85 @@ export function registerTools(mcpServer: McpServer) {
         destination: z.string(),
         departure: z.iso.date(),
       },
+      outputSchema: listFlightsOutputSchema,
     },
     listFlights
   );
 
-  mcpServer.registerTool(
+  registerTool(
     "book_flight",
     {
-      description: "Book a flight using its flight number, departure date and time as well as the flight class and an optional frequent flyer number.",
+      description: "Book a seat on a flight returned by find_flights using its flight number, origin, destination, departure date and flight class. Optionally pass a frequent flyer number, whether the trip is international, the fare quoted by find_flights and the cost center to charge; the booking is charged the current fare and fails if the quoted one differs or the class is sold out. The request is checked against the company travel policy and the verdict is returned with the booking; a booking above the company's approval thresholds stays PENDING until an approver approves it. Pass an idempotency key to make retries safe: repeating a request with the same key returns the original booking.",
       inputSchema: {
         flightNumber: z.string(),
         departure: z.iso.date(),
         flightClass: z.string(),
+        origin: z.string(),
+        destination: z.string(),
         frequentFlyerNumber: z.optional(z.string()),
+        international: z.optional(z.boolean()),
+        price: z.optional(z.coerce.number().nonnegative()),
+        costCenter: z.optional(z.string().min(1).max(64)),
+        idempotencyKey: z.optional(z.string().min(1).max(128)),
       },
+      outputSchema: flightBookingOutputSchema,
     },
     bookFlight
   );
 
-  mcpServer.registerTool(
+  registerTool(
     "book_hotel",
     {
-      description: "Book a hotel room by providing the hotel name, check-in and check-out dates, room type, number of guests (1-10), and an optional loyalty program number",
+      description: "Book a room at a hotel returned by list_hotels by providing the hotel name and its city, check-in and check-out dates (at most 30 nights), room type and number of guests (1-10). Optionally pass a loyalty program number, the nightly rate quoted by list_hotels and the cost center to charge; the booking is charged the current rate and fails if the quoted one differs or no room of the type is left for every night. The request is checked against the company travel policy and the verdict is returned with the booking; a booking above the company's approval thresholds stays PENDING until an approver approves it. Pass an idempotency key to make retries safe: repeating a request with the same key returns the original booking.",
       inputSchema: {
         hotelName: z.string(),
         checkIn: z.iso.date(),
         checkOut: z.iso.date(),
         roomType: z.string(),
         guests: z.coerce.number().int().min(1).max(10).default(1),
+        city: z.string(),
         loyaltyNumber: z.optional(z.string()),
+        pricePerNight: z.optional(z.coerce.number().nonnegative()),
+        costCenter: z.optional(z.string().min(1).max(64)),
+        idempotencyKey: z.optional(z.string().min(1).max(128)),
       },
+      outputSchema: hotelBookingOutputSchema,
     },
     bookHotel
   );
 
-  mcpServer.registerTool(
+  registerTool(
+    "modify_hotel_booking",
+    {
+      description: "Modify an existing hotel booking by its confirmation number: change the dates, upgrade the room, change the number of guests (1-10) or add services. New dates (not in the past, at most 30 nights) or a new room type must have a room left, and the guests must fit in the room; new dates or an upgraded room are charged the room's current rate. Bookings awaiting approval cannot be modified, and a change that needs approval under the travel policy sends the booking back for approval. Returns the updated booking.",
+      inputSchema: {
+        confirmationNumber: z.string(),
+        modification: z.discriminatedUnion("type", [
+          z.object({
+            type: z.literal("CHANGE_DATES"),
+            newCheckIn: z.iso.date(),
+            newCheckOut: z.iso.date(),
+          }),
+          z.object({
+            type: z.literal("UPGRADE_ROOM"),
+            newRoomType: z.string(),
+          }),
+          z.object({
+            type: z.literal("MODIFY_GUESTS"),
+            guestCount: z.coerce.number().int().min(1).max(10),
+          }),
+          z.object({
+            type: z.literal("ADD_SERVICES"),
+            additionalServices: z.array(z.string()).min(1),
+          }),
+        ]),
+      },
+      outputSchema: hotelBookingOutputSchema,
+    },
+    modifyHotelBooking
+  );
+
+  registerTool(
     "list_hotels",
     {
       description: "Search for available hotels in a specified city for given check-in and check-out dates, with the number of guests (1-10).",
@@ -80,15 +171,103 @@ export function registerTools(mcpServer: McpServer) {
         checkOut: z.iso.date(),
         guests: z.coerce.number().int().min(1).max(10).default(1),
       },
+      outputSchema: listHotelsOutputSchema,
     },
     listHotels
   );
 
-  mcpServer.registerTool(
+  registerTool(
+    "check_policy",
+    {
+      description: "Check a flight option from find_flights (with the flightClass to book) or a hotel option from list_hotels (with the roomType to book) against the company travel policy before booking it. Returns the result of each rule with the policy limit, the actual value and an explanation, and whether booking it requires approval.",
+      inputSchema: {
+        flight: z.optional(z.object({
+          flightNumber: z.string(),
+          airline: z.optional(z.string()),
+          departure: z.string(),
+          availableSeats: z.optional(z.array(z.object({
+            flightClass: z.string(),
+            price: z.number(),
+          }))),
+        })),
+        flightClass: z.optional(z.string()),
+        international: z.optional(z.boolean()),
+        hotel: z.optional(z.object({
+          hotelName: z.string(),
+          checkIn: z.optional(z.string()),
+          checkOut: z.optional(z.string()),
+          availableRooms: z.optional(z.array(z.object({
+            roomType: z.string(),
+            pricePerNight: z.number(),
+          }))),
+        })),
+        roomType: z.optional(z.string()),
+      },
+      outputSchema: checkPolicyOutputSchema,
+    },
+    checkPolicy
+  );
+
+  registerTool(
+    "list_pending_approvals",
+    {
+      description: "List the bookings awaiting approval because they exceed the company's approval thresholds, with the reasons and who requested them. Only for approvers. Results are paged: pass the returned nextCursor to get the next page.",
+      inputSchema: {
+        limit: z.optional(z.coerce.number().int().min(1).max(100)),
+        cursor: z.optional(z.string()),
+      },
+      outputSchema: listBookingsOutputSchema,
+    },
+    listPendingApprovals
+  );
+
+  registerTool(
+    "approve_booking",
+    {
+      description: "Approve a booking awaiting approval by its confirmation number, with an optional reason. The booking is confirmed, with the modification if one awaited approval. Only for approvers, who cannot approve their own bookings.",
+      inputSchema: {
+        bookingId: z.string(),
+        reason: z.optional(z.string()),
+      },
+      outputSchema: bookingOutputSchema,
+    },
+    approveBooking
+  );
+
+  registerTool(
+    "reject_booking",
+    {
+      description: "Reject a booking awaiting approval by its confirmation number, giving the reason. The booking is cancelled, or if a modification awaited approval, confirmed as it was before. Only for approvers, who cannot reject their own bookings.",
+      inputSchema: {
+        bookingId: z.string(),
+        reason: z.string().min(1),
+      },
+      outputSchema: bookingOutputSchema,
+    },
+    rejectBooking
+  );
+
+  registerTool(
+    "spend_summary",
+    {
+      description: "Summarize the company's travel spend from one month to another (YYYY-MM, at most 12 months; by default the current month) by traveler, month, category and cost center. Compares the spend with the company's monthly budgets and alerts when one is nearly exhausted or exceeded.",
+      inputSchema: {
+        from: z.optional(z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/)),
+        to: z.optional(z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/)),
+      },
+      outputSchema: spendSummaryOutputSchema,
+    },
+    spendSummary
+  );
+
+  registerTool(
     "loyalty_info",
     {
       description: "Get the user's participation status in Airline and Hotel Loyalty programs",
+      outputSchema: loyaltyInfoOutputSchema,
     },
     getLoyaltyProgramInfo
   );
+
+  return tools;
 }
@@ -0,0 +1,93 @@
+import type { CallToolResult, ServerRequest, ServerNotification } from "@modelcontextprotocol/sdk/types.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { getBookingRepository } from "../repositories/booking-repository.js";
+import type { Booking } from "../types/booking.js";
+import { getTravelPolicy, PolicyDocumentError } from "../policy/policy-documents.js";
+import type { TravelPolicy } from "../policy/policy-documents.js";
+import { monthsBetween, summarizeSpend } from "../services/spend.js";
+import { toolError } from "./tool-errors.js";
+import { getTenantContext } from "../auth/tenant-context.js";
+
+interface SpendSummaryParams {
+  from?: string;
+  to?: string;
+}
+
+/** Longest period one summary covers, in months. */
+const MAX_MONTHS = 12;
+
+/** Bookings read per query. */
+const PAGE_SIZE = 100;
+
+// Bookings are counted in the month they were made, and nothing can be
+// booked for a date that has passed, so the bookings made in a period all
+// travel on or after its first day. Earlier trips are not read.
+async function bookingsTravelingFrom(tenantId: string, date: string): Promise<Booking[]> {
+  const bookings: Booking[] = [];
+  let startKey: Record<string, unknown> | undefined;
+  do {
+    const page = await getBookingRepository().search(tenantId, { travelFrom: date, order: "asc", limit: PAGE_SIZE, startKey });
+    bookings.push(...page.items);
+    startKey = page.lastKey;
+  } while (startKey);
+  return bookings;
+}
+
+/**
+ * Summarize the tenant's travel spend for a range of months (by default the
+ * current one) and compare it with the budgets in its `expense-limits.json`.
+ */
+export async function spendSummary(
+  { from, to }: SpendSummaryParams,
+  { authInfo }: RequestHandlerExtra<ServerRequest, ServerNotification>
+): Promise<CallToolResult> {
+  const tenant = getTenantContext(authInfo);
+  if (!tenant) {
+    return {
+      isError: true,
+      content: [{ type: "text", text: "ERROR: No tenant ID provided" }],
+    };
+  }
+  const { tenantId } = tenant;
+
+  const currentMonth = new Date().toISOString().substring(0, 7);
+  const first = from ?? to ?? currentMonth;
+  const last = to ?? from ?? currentMonth;
+  if (first > last) {
+    return toolError("INVALID_DATE_RANGE", "from must not be after to", { from: first, to: last });
+  }
+  if (monthsBetween(first, last).length > MAX_MONTHS) {
+    return toolError("INVALID_DATE_RANGE", `A summary covers at most ${MAX_MONTHS} months`, { from: first, to: last });
+  }
+
+  let policy: TravelPolicy;
+  try {
+    policy = await getTravelPolicy(tenantId);
+  } catch (error) {
+    if (error instanceof PolicyDocumentError) {
+      return toolError("POLICY_INVALID", error.message, { filename: error.filename });
+    }
+    throw error;
+  }
+
+  const { expenseLimits } = policy;
+  const bookings = await bookingsTravelingFrom(tenantId, `${first}-01`);
+  const summary = summarizeSpend(bookings, {
+    from: first,
+    to: last,
+    currency: expenseLimits?.currency ?? "USD",
+    budgets: expenseLimits?.budgets,
+  });
+
+  const period = first === last ? first : `${first} to ${last}`;
+  const lines = [
+    `Spend for ${period}: ${summary.total.spent} ${summary.currency} confirmed and ${summary.total.pending} ${summary.currency} awaiting approval over ${summary.total.bookings} bookings.`,
+    ...(summary.uncounted > 0 ? [`${summary.uncounted} bookings without a price in ${summary.currency} are not counted.`] : []),
+    ...summary.alerts.map(alert => alert.message),
+  ];
+  return {
+    isError: false,
+    content: [{ type: "text", text: lines.join("\n") }],
+    structuredContent: { ...summary },
+  };
+}
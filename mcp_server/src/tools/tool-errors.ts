@@ -0,0 +1,20 @@
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Build a tool error that clients can handle programmatically.
+ *
+ * The error is returned both as `structuredContent` and as JSON text for
+ * clients that only read the text content.
+ */
+export function toolError(
+  code: string,
+  message: string,
+  details: Record<string, unknown> = {},
+): CallToolResult {
+  const error = { code, message, ...details };
+  return {
+    isError: true,
+    content: [{ type: "text", text: JSON.stringify({ error }) }],
+    structuredContent: { error },
+  };
+}
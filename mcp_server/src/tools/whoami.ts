@@ -1,6 +1,7 @@
 import log4js from "../utils/logging.js";
 import { verifyToken } from "../auth/jwt-verifier.js";
 import type { CognitoJwtClaims } from "../auth/jwt-verifier.js";
+import { getTenantContext } from "../auth/tenant-context.js";
 import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
 import type { CallToolResult, ServerRequest, ServerNotification } from "@modelcontextprotocol/sdk/types.js";
 
@@ -8,12 +9,14 @@ const l = log4js.getLogger();
 
 /**
  * whoami tool implementation
- * Returns information about the current user based on their JWT token.
+ * Returns information about the current user, or the service principal for
+ * client-credentials tokens, based on their JWT token.
  * The `tokenMiddleware` guarantees `authInfo` is set before this handler runs.
  */
 const whoami = async (extra: RequestHandlerExtra<ServerRequest, ServerNotification>): Promise<CallToolResult> => {
   try {
     const { authInfo } = extra;
+    const tenant = getTenantContext(authInfo);
     const token = authInfo!.token;
     const verified = await verifyToken(token);
     // `verifyToken` may return a decoded payload, a raw string, or undefined.
@@ -21,11 +24,17 @@ const whoami = async (extra: RequestHandlerExtra<ServerRequest, ServerNotificati
     const tokenResult: CognitoJwtClaims | undefined =
       typeof verified === 'object' && verified !== null ? verified : undefined;
     const result = {
+        principal: {
+          type: tenant?.principalType ?? "user",
+          clientId: authInfo!.clientId,
+          scopes: authInfo!.scopes
+        },
         userInfo: tokenResult ? {
-          username: tokenResult.username ?? tokenResult["cognito:username"] ?? tokenResult.sub,
+          username: tokenResult.username ?? tokenResult["cognito:username"] ?? tokenResult.preferred_username ?? tokenResult.sub,
           email: tokenResult.email,
-          tenantId: tokenResult["custom:tenantId"] ?? tokenResult.tenantId,
-          tenantTier: tokenResult["custom:tenantTier"] ?? tokenResult.tenantTier
+          // Mapped from the token by the identity provider's claim mapping.
+          tenantId: tenant?.tenantId,
+          tenantTier: tenant?.tenantTier
         } : null,
         tokenInfo: {
           issuer: tokenResult?.iss,
@@ -48,7 +57,8 @@ const whoami = async (extra: RequestHandlerExtra<ServerRequest, ServerNotificati
           type: "text",
           text: JSON.stringify(result)
         }
-      ]
+      ],
+      structuredContent: result
     };
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
@@ -4,15 +4,67 @@ export interface Passenger {
   seat: string;
 }
 
+export type BookingStatus = "CONFIRMED" | "PENDING" | "CANCELLED";
+
+/**
+ * One entry in a booking's status history: who moved it between states and when.
+ */
+export interface StatusChange {
+  from: BookingStatus;
+  to: BookingStatus;
+  changedBy: string;
+  changedAt: string;
+  reason?: string;
+  /** Set when the change was an approver's decision on a pending booking. */
+  decision?: ApprovalDecision;
+}
+
+export type ApprovalDecision = "APPROVED" | "REJECTED";
+
+/**
+ * Why a booking was created PENDING instead of CONFIRMED: it exceeds the
+ * tenant's approval thresholds and waits for an approver's decision.
+ */
+export interface ApprovalRequest {
+  requestedBy: string;
+  requestedAt: string;
+  /** The thresholds the booking exceeds, as readable messages. */
+  reasons: string[];
+}
+
 export interface BaseBooking {
   PK: string;
   SK: string;
   tenantId: string;
   bookingId: string;
   type: "FLIGHT" | "HOTEL";
-  status: "CONFIRMED" | "PENDING" | "CANCELLED";
+  status: BookingStatus;
   bookingDate: string;
+  /** The user who made the booking. */
+  bookedBy?: string;
+  /** The total quoted when the booking was made, in `currency`. */
+  price?: number;
+  currency?: string;
+  /** Cost center the booking is charged to. */
+  costCenter?: string;
   loyaltyInfo?: string;
+  updatedAt?: string;
+  updatedBy?: string;
+  statusHistory?: StatusChange[];
+  approval?: ApprovalRequest;
+  /**
+   * Incremented on every update. Writes are conditional on the version the
+   * caller read, so concurrent changes are detected instead of lost.
+   */
+  version?: number;
+  /**
+   * Search attributes derived from the booking by the repository on every
+   * write: the travel date (`YYYY-MM-DD`), and the lower-cased destination
+   * and traveler names used by `list_bookings` filters.
+   */
+  travelDate?: string;
+  destinationKey?: string;
+  travelerKeys?: string[];
 }
 
 export interface FlightBooking extends BaseBooking {
@@ -20,6 +72,7 @@ export interface FlightBooking extends BaseBooking {
   flightNumber: string;
   class: string;
   departureDateTime: string;
+  destination?: string;
   passengers: Passenger[];
 }
 
@@ -31,6 +84,33 @@ export interface HotelBooking extends BaseBooking {
   checkOutDate: string;
   roomType: string;
   numberOfGuests: number;
+  /** The quoted nightly rate; `price` is this rate times the nights. */
+  pricePerNight?: number;
+  additionalServices?: string[];
+  /**
+   * Set while a modification of a confirmed booking awaits approval: the
+   * stay as it was confirmed, whose nights and room are still held.
+   * Rejecting or withdrawing the modification restores it.
+   */
+  modifiedFrom?: HotelStay;
 }
 
+/**
+ * The part of a hotel booking a repriced modification changes.
+ */
+export type HotelStay = Pick<HotelBooking, "checkInDate" | "checkOutDate" | "roomType" | "pricePerNight" | "price" | "currency">;
+
 export type Booking = FlightBooking | HotelBooking;
+
+/**
+ * Records which booking an idempotency key created, so a retried booking
+ * request returns that booking instead of creating another one.
+ */
+export interface IdempotencyRecord {
+  key: string;
+  requestHash: string;
+  bookingType: Booking["type"];
+  bookingId: string;
+  createdAt: string;
+  expiresAt: number;
+}
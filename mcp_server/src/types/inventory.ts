@@ -0,0 +1,66 @@
+/**
+ * A flight as returned by `find_flights`. Seat counts are what is left on
+ * the departure date.
+ */
+export interface FlightInfo {
+  departure: string;
+  arrival: string;
+  origin: string;
+  destination: string;
+  distance: number;
+  duration: number;
+  stops: number;
+  flightNumber: string;
+  airline: string;
+  /** Currency of the seat prices. */
+  currency: string;
+  availableSeats: {
+    flightClass: string;
+    count: number;
+    price: number;
+  }[];
+  frequentFlyerInfo: {
+    programName: string;
+    milesEarned: number;
+    tierPointsEarned: number;
+  };
+}
+
+/**
+ * A hotel as returned by `list_hotels`. Room counts are what is left for
+ * every night of the stay.
+ */
+export interface HotelInfo {
+  checkIn: string;
+  checkOut: string;
+  hotelName: string;
+  location: {
+    address: string;
+    city: string;
+    country: string;
+    coordinates: {
+      latitude: number;
+      longitude: number;
+    };
+  };
+  rating: number;
+  /** Currency of the nightly rates. */
+  currency: string;
+  availableRooms: {
+    roomType: string;
+    bedType: string;
+    occupancy: {
+      max: number;
+      recommended: number;
+    };
+    amenities: string[];
+    pricePerNight: number;
+    available: number;
+  }[];
+  facilities: string[];
+  loyaltyProgram: {
+    programName: string;
+    pointsEarned: number;
+    tierPointsEarned: number;
+  };
+}
@@ -0,0 +1,19 @@
+/**
+ * Nights between a check-in and a check-out date (`YYYY-MM-DD`, a time is
+ * ignored), or `undefined` if either is invalid or check-out is not after
+ * check-in.
+ */
+export function nightsBetween(checkIn: string, checkOut: string): number | undefined {
+  const nights = (Date.parse(checkOut.substring(0, 10)) - Date.parse(checkIn.substring(0, 10))) / 86_400_000;
+  return nights > 0 ? nights : undefined;
+}
+
+/**
+ * The nights of a stay, each as the date it starts (`YYYY-MM-DD`); empty if
+ * the dates are invalid.
+ */
+export function stayNights(checkIn: string, checkOut: string): string[] {
+  const first = Date.parse(checkIn.substring(0, 10));
+  return Array.from({ length: nightsBetween(checkIn, checkOut) ?? 0 }, (_, night) =>
+    new Date(first + night * 86_400_000).toISOString().substring(0, 10));
+}
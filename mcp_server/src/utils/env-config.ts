@@ -2,6 +2,7 @@ import dotenv from 'dotenv';
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import type { z } from 'zod';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -18,6 +19,7 @@ const REQUIRED_ENV_VARS = [
   'ECS_CONTAINER_METADATA_URI_V4',
   'AUTHORIZATION_SERVER_WITH_DCR_URL',
   'DCR_ENABLED',
+  'DATA_BACKEND',
 ] as const;
 
 type RequiredEnvVar = typeof REQUIRED_ENV_VARS[number];
@@ -69,4 +71,48 @@ function loadEnv(): EnvConfig {
 
 const config = loadEnv();
 
+export type DataBackend = 'dynamodb' | 'memory';
+
+/**
+ * Storage backend for tenant data. `memory` runs the server without AWS and
+ * is intended for local development and tests.
+ */
+export function getDataBackend(): DataBackend {
+  const backend = config.get('DATA_BACKEND', 'dynamodb').toLowerCase();
+  if (backend !== 'dynamodb' && backend !== 'memory') {
+    throw new Error(`Unsupported DATA_BACKEND "${backend}": expected "dynamodb" or "memory"`);
+  }
+  return backend;
+}
+
+/**
+ * Raised when a JSON-valued variable is not valid JSON or does not match its
+ * schema.
+ */
+export class InvalidConfigError extends Error {
+  constructor(varName: string, reason: string) {
+    super(`${varName} is invalid: ${reason}`);
+    this.name = 'InvalidConfigError';
+  }
+}
+
+/**
+ * Parse the value of a JSON-valued variable and validate it against
+ * `schema`. Throws `InvalidConfigError` if it does not match.
+ */
+export function parseJsonConfig<T>(varName: string, raw: string, schema: z.ZodType<T>): T {
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    throw new InvalidConfigError(varName, 'not valid JSON');
+  }
+  const result = schema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new InvalidConfigError(varName, `${issue.path.join('.') || 'value'}: ${issue.message}`);
+  }
+  return result.data;
+}
+
 export default config;